@@ -3,49 +3,14 @@ import { OrbitControls as ThreeOrbitControls } from 'three/examples/jsm/controls
 import { useEffect, useRef, useState } from 'react'
 import { generateBeginnerPartRecipe } from './generators/beginner'
 import { generateIntermediatePartRecipe } from './generators/intermediate'
+import { generateExpertPartRecipe } from './generators/expert'
 import type PartRecipe from './types/part'
-import type { Transform, Difficulty } from './types/part'
+import type { Difficulty } from './types/part'
 import { validatePartRecipe } from './schema/validate'
 import migrateLegacyBeginnerToPartRecipe from './storage/migrate'
-import { Geometry, Base, Subtraction, Addition } from '@react-three/csg'
 import { DrawingViewer } from './viewers/DrawingViewer'
-import type { BufferGeometry } from 'three'
-
-// Helper to compute position, rotation, and scale from transform + axis fallback
-function computeTransform(
-  transform: Transform | undefined,
-  axisParam: 'x' | 'y' | 'z' | undefined
-): {
-  position?: [number, number, number]
-  rotation?: [number, number, number]
-  scale?: [number, number, number]
-} {
-  const pos = transform?.position
-    ? [transform.position.x / 10, transform.position.y / 10, transform.position.z / 10] as [number, number, number]
-    : undefined
-
-  let rot: [number, number, number] | undefined
-
-  // Priority: explicit rotation in transform takes precedence over axis fallback
-  if (transform?.rotation) {
-    // Convert degrees to radians
-    const degToRad = Math.PI / 180
-    rot = [
-      transform.rotation.x * degToRad,
-      transform.rotation.y * degToRad,
-      transform.rotation.z * degToRad
-    ]
-  } else if (axisParam && axisParam !== 'z') {
-    // Fallback: axis-based rotation for backward compatibility
-    rot = axisParam === 'x' ? [0, 0, Math.PI / 2] : [Math.PI / 2, 0, 0]
-  }
-
-  const scale = transform?.scale
-    ? [transform.scale.x, transform.scale.y, transform.scale.z] as [number, number, number]
-    : undefined
-
-  return { position: pos, rotation: rot, scale }
-}
+import type { SolidRequest, SolidResponse } from './viewers/solidWorker'
+import { BufferAttribute, BufferGeometry } from 'three'
 
 function Controls() {
   const { camera, gl } = useThree()
@@ -62,200 +27,18 @@ function Controls() {
   return null
 }
 
-function ModelRenderer({ recipe, onGeometryReady }: { recipe: PartRecipe | null; onGeometryReady?: (geometry: BufferGeometry | null) => void }) {
-  const geometryRef = useRef<BufferGeometry | null>(null)
-
-  if (!recipe) {
+/**
+ * Shows the post-boolean solid; the scene is in centimetres, the solid in mm
+ */
+function ModelRenderer({ solid }: { solid: BufferGeometry | null }) {
+  if (!solid) {
     return null
   }
 
-  // Find a base primitive (prefer a box, otherwise first primitive)
-  const base = recipe.primitives.find((p) => p.kind === 'box') || recipe.primitives[0]
-  if (!base) {
-    return null
-  }
-
-  // For operations
-  const subtractOps = recipe.operations.filter((op) => op.op === 'subtract')
-  const unionOps = recipe.operations.filter((op) => op.op === 'union')
-
   return (
-    <group position={[0, 0, 0]}>
-      <mesh ref={(mesh) => {
-        if (mesh && mesh.geometry) {
-          const geom = mesh.geometry as BufferGeometry
-          if (geometryRef.current !== geom) {
-            geometryRef.current = geom
-            onGeometryReady?.(geom)
-          }
-        }
-      }}>
-        <Geometry>
-          <Base>
-            {base.kind === 'box' && (() => {
-              const p: any = base.params
-              const width = (p.width || 100) / 10
-              const depth = (p.depth || 50) / 10
-              const height = (p.height || 25) / 10
-              return (
-                <>
-                  <boxGeometry args={[width, depth, height]} />
-                  <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
-                </>
-              )
-            })()}
-            {base.kind === 'cylinder' && (() => {
-              const p: any = base.params
-              const r = (p.radius || 20) / 10
-              const h = (p.height || 50) / 10
-              return (
-                <>
-                  <cylinderGeometry args={[r, r, h, 32]} />
-                  <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
-                </>
-              )
-            })()}
-            {base.kind === 'sphere' && (() => {
-              const p: any = base.params
-              const r = (p.radius || 20) / 10
-              return (
-                <>
-                  <sphereGeometry args={[r, 32, 16]} />
-                  <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
-                </>
-              )
-            })()}
-            {base.kind === 'cone' && (() => {
-              const p: any = base.params
-              const rt = (p.radiusTop || 0) / 10
-              const rb = (p.radiusBottom || 20) / 10
-              const h = (p.height || 50) / 10
-              return (
-                <>
-                  <cylinderGeometry args={[rt, rb, h, 32]} />
-                  <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
-                </>
-              )
-            })()}
-            {base.kind === 'torus' && (() => {
-              const p: any = base.params
-              const R = (p.majorRadius || 40) / 10
-              const r = (p.tubeRadius || 8) / 10
-              return (
-                <>
-                  <torusGeometry args={[R, r, 24, 48]} />
-                  <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
-                </>
-              )
-            })()}
-          </Base>
-
-          {unionOps.map((op) => {
-            const tool = recipe.primitives.find((p) => p.id === op.toolId)
-            if (!tool) return null
-            const axis = (tool as any).params?.axis
-            const { position, rotation, scale } = computeTransform(tool.transform, axis)
-
-            if (tool.kind === 'box') {
-              const p: any = tool.params
-              return (
-                <Addition key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <boxGeometry args={[(p.width || 20) / 10, (p.depth || 20) / 10, (p.height || 20) / 10]} />
-                  <meshStandardMaterial color="#8888cc" />
-                </Addition>
-              )
-            }
-            if (tool.kind === 'cylinder') {
-              const p: any = tool.params
-              return (
-                <Addition key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <cylinderGeometry args={[(p.radius || 10) / 10, (p.radius || 10) / 10, (p.height || 20) / 10, 32]} />
-                  <meshStandardMaterial color="#8888cc" />
-                </Addition>
-              )
-            }
-            if (tool.kind === 'sphere') {
-              const p: any = tool.params
-              return (
-                <Addition key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <sphereGeometry args={[(p.radius || 10) / 10, 32, 16]} />
-                  <meshStandardMaterial color="#8888cc" />
-                </Addition>
-              )
-            }
-            if (tool.kind === 'cone') {
-              const p: any = tool.params
-              return (
-                <Addition key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <cylinderGeometry args={[(p.radiusTop || 0) / 10, (p.radiusBottom || 10) / 10, (p.height || 20) / 10, 32]} />
-                  <meshStandardMaterial color="#8888cc" />
-                </Addition>
-              )
-            }
-            if (tool.kind === 'torus') {
-              const p: any = tool.params
-              return (
-                <Addition key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <torusGeometry args={[(p.majorRadius || 20) / 10, (p.tubeRadius || 5) / 10, 24, 48]} />
-                  <meshStandardMaterial color="#8888cc" />
-                </Addition>
-              )
-            }
-            return null
-          })}
-
-          {subtractOps.map((op) => {
-            const tool = recipe.primitives.find((p) => p.id === op.toolId)
-            if (!tool) return null
-
-            const axis = (tool as any).params?.axis
-            const { position, rotation, scale } = computeTransform(tool.transform, axis)
-
-            if (tool.kind === 'cylinder') {
-              const p: any = tool.params
-              const r = (p.radius || 5) / 10
-              const h = (p.height || Math.max(recipe.bounding_mm.x, recipe.bounding_mm.y, recipe.bounding_mm.z) * 2) / 10
-              return (
-                <Subtraction key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <cylinderGeometry args={[r, r, h, 32]} />
-                  <meshStandardMaterial color="#333" />
-                </Subtraction>
-              )
-            }
-            if (tool.kind === 'sphere') {
-              const p: any = tool.params
-              return (
-                <Subtraction key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <sphereGeometry args={[(p.radius || 5) / 10, 32, 16]} />
-                  <meshStandardMaterial color="#333" />
-                </Subtraction>
-              )
-            }
-            if (tool.kind === 'cone') {
-              const p: any = tool.params
-              return (
-                <Subtraction key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <cylinderGeometry args={[(p.radiusTop || 0) / 10, (p.radiusBottom || 8) / 10, (p.height || 20) / 10, 32]} />
-                  <meshStandardMaterial color="#333" />
-                </Subtraction>
-              )
-            }
-            if (tool.kind === 'torus') {
-              const p: any = tool.params
-              return (
-                <Subtraction key={op.id} position={position as any} rotation={rotation as any} scale={scale as any}>
-                  <torusGeometry args={[(p.majorRadius || 20) / 10, (p.tubeRadius || 5) / 10, 24, 48]} />
-                  <meshStandardMaterial color="#333" />
-                </Subtraction>
-              )
-            }
-
-            // For unknown tool kinds, skip rendering the subtraction
-            return null
-          })}
-        </Geometry>
-      </mesh>
-    </group>
+    <mesh geometry={solid} scale={0.1}>
+      <meshStandardMaterial color="#8888cc" metalness={0.2} roughness={0.6} />
+    </mesh>
   )
 }
 
@@ -264,7 +47,8 @@ function App() {
   const [seed, setSeed] = useState<number>(() => Date.now())
   const [recipe, setRecipe] = useState<PartRecipe | null>(() => generateBeginnerPartRecipe(seed))
   const [viewMode, setViewMode] = useState<'3D' | '2D'>('3D')
-  const [csgGeometry, setCsgGeometry] = useState<BufferGeometry | null>(null)
+  const [solid, setSolid] = useState<BufferGeometry | null>(null)
+  const [solidError, setSolidError] = useState<string | null>(null)
   const [bookmarks, setBookmarks] = useState<PartRecipe[]>(() => {
     try {
       const raw = localStorage.getItem('tower19:bookmarks')
@@ -295,15 +79,15 @@ function App() {
     const nextSeed = Date.now()
     try {
       let next: PartRecipe
-      if (difficulty === 'Intermediate') {
+      if (difficulty === 'Expert') {
+        next = generateExpertPartRecipe(nextSeed)
+      } else if (difficulty === 'Intermediate') {
         next = generateIntermediatePartRecipe(nextSeed)
       } else {
         next = generateBeginnerPartRecipe(nextSeed)
       }
       setSeed(nextSeed)
       setRecipe(next)
-      setCsgGeometry(null) // Clear old geometry
-      setViewMode('3D') // Switch to 3D to capture new geometry
     } catch (err) {
       console.error('[generate] failed', err)
     }
@@ -312,12 +96,12 @@ function App() {
   const handleDifficultyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newDifficulty = e.target.value as Difficulty
     setDifficulty(newDifficulty)
-    setCsgGeometry(null) // Clear old geometry
-    setViewMode('3D') // Switch to 3D to capture new geometry
     // Regenerate with current seed using new difficulty
     try {
       let next: PartRecipe
-      if (newDifficulty === 'Intermediate') {
+      if (newDifficulty === 'Expert') {
+        next = generateExpertPartRecipe(seed)
+      } else if (newDifficulty === 'Intermediate') {
         next = generateIntermediatePartRecipe(seed)
       } else {
         next = generateBeginnerPartRecipe(seed)
@@ -336,9 +120,35 @@ function App() {
     localStorage.setItem('tower19:bookmarks', JSON.stringify(next))
   }
 
-  const handleGeometryReady = (geometry: BufferGeometry | null) => {
-    setCsgGeometry(geometry)
-  }
+  // Evaluate the booleans once per recipe in a worker; the 3D and 2D viewers
+  // share the solid, and a change of recipe ends the evaluation still running
+  useEffect(() => {
+    setSolid(null)
+    setSolidError(null)
+    if (!recipe) return
+    const worker = new Worker(new URL('./viewers/solidWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<SolidResponse>) => {
+      if ('error' in event.data) {
+        console.error('[App] Recipe evaluation failed:', event.data.error)
+        setSolidError(event.data.error)
+      } else {
+        const geometry = new BufferGeometry()
+        geometry.setAttribute('position', new BufferAttribute(event.data.position, 3))
+        geometry.setAttribute('normal', new BufferAttribute(event.data.normal, 3))
+        setSolid(geometry)
+      }
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      console.error('[App] Solid worker failed:', event.message)
+      setSolidError(event.message)
+      worker.terminate()
+    }
+
+    const request: SolidRequest = { recipe }
+    worker.postMessage(request)
+    return () => worker.terminate()
+  }, [recipe])
 
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
@@ -348,6 +158,7 @@ function App() {
         <select value={difficulty} onChange={handleDifficultyChange} style={{ padding: '4px 8px' }}>
           <option>Beginner</option>
           <option>Intermediate</option>
+          <option>Expert</option>
         </select>
         <button onClick={saveBookmark}>Save / Bookmark</button>
         <span style={{ alignSelf: 'center', opacity: 0.7 }}>seed: {seed}</span>
@@ -397,21 +208,42 @@ function App() {
         </button>
       </div>
 
+      {/* Evaluation status: shown until the solid arrives, or why it did not */}
+      {recipe && !solid && (
+        <div style={{
+          position: 'absolute',
+          zIndex: 10,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          top: 64,
+          maxWidth: 480,
+          background: solidError ? 'rgba(204, 68, 68, 0.85)' : 'rgba(255, 255, 255, 0.1)',
+          color: '#fff',
+          padding: '8px 12px',
+          borderRadius: 6,
+          pointerEvents: 'auto'
+        }}>
+          {solidError
+            ? <>Could not evaluate the part's booleans; the 2D drawing falls back to the primitives' edges. {solidError}</>
+            : 'Evaluating the part…'}
+        </div>
+      )}
+
       {/* 3D Viewer */}
       {viewMode === '3D' && (
         <Canvas>
           <ambientLight intensity={0.6} />
           <pointLight position={[100, 100, 100]} />
-          <ModelRenderer recipe={recipe} onGeometryReady={handleGeometryReady} />
+          <ModelRenderer solid={solid} />
           <Controls />
         </Canvas>
       )}
 
-      {/* 2D Viewer */}
-      {viewMode === '2D' && recipe && (
+      {/* 2D Viewer, once the solid is evaluated or has failed */}
+      {viewMode === '2D' && recipe && (solid || solidError) && (
         <DrawingViewer
           recipe={recipe}
-          geometry={csgGeometry ?? undefined}
+          geometry={solid ?? undefined}
         />
       )}
 
@@ -423,8 +255,6 @@ function App() {
             <li key={b.id} style={{ marginBottom: 6 }}>
               <button onClick={() => {
                 setRecipe(b)
-                setCsgGeometry(null) // Clear old geometry
-                setViewMode('3D') // Switch to 3D to capture new geometry
               }} style={{ display: 'block', width: '100%', textAlign: 'left' }}>
                 {b.name} ({b.bounding_mm.x}×{b.bounding_mm.y}×{b.bounding_mm.z} mm)
               </button>
@@ -0,0 +1,152 @@
+/**
+ * Headless CSG evaluation of a PartRecipe
+ *
+ * Runs the recipe's union/subtract/intersect operation list with
+ * three-bvh-csg, so the 3D viewer's worker, the drawing worker, Node
+ * scripts, tests and CLI tools all get the same post-boolean solid
+ * without mounting React.
+ *
+ * Operation semantics:
+ * - `targetId`/`toolId` reference a primitive or an earlier operation.
+ * - The result is stored under the operation id and also replaces the
+ *   target's current solid, so repeated ops on the same target accumulate
+ *   (e.g. every beginner hole subtracts from 'p0').
+ * - The final part is the result of the last operation.
+ *
+ * Output geometry is in millimetres (recipe units), non-indexed, with
+ * `position` and `normal` attributes.
+ */
+
+import type { BufferGeometry } from 'three'
+import { Brush, Evaluator, ADDITION, SUBTRACTION, INTERSECTION, type CSGOperation } from 'three-bvh-csg'
+import type { PartRecipe, BooleanOp } from '../types/part'
+import { createPrimitiveGeometry, applyPrimitiveTransform } from './primitives'
+
+const CSG_OPERATIONS: Record<BooleanOp, CSGOperation> = {
+  union: ADDITION,
+  subtract: SUBTRACTION,
+  intersect: INTERSECTION
+}
+
+// Attributes kept on every brush; all primitive geometries provide both
+const CSG_ATTRIBUTES = ['position', 'normal']
+
+/**
+ * Evaluate a recipe's boolean operations into a single BufferGeometry
+ *
+ * @param recipe - Part recipe with primitives and ordered operations
+ * @returns Post-boolean geometry in mm
+ * @throws Error if the recipe is empty, an operation references an unknown id,
+ *   or the CSG engine fails on an operation (the message names the operation
+ *   and the primitives it combines)
+ */
+export function evaluateRecipe(recipe: PartRecipe): BufferGeometry {
+  if (recipe.primitives.length === 0) {
+    throw new Error(`Recipe ${recipe.id} has no primitives to evaluate`)
+  }
+
+  const evaluator = new Evaluator()
+  evaluator.attributes = CSG_ATTRIBUTES
+  evaluator.useGroups = false
+
+  // Current solid for each primitive/operation id
+  const solids = new Map<string, Brush>()
+  const primitiveById = new Map(recipe.primitives.map(p => [p.id, p]))
+
+  const resolve = (id: string, opId: string): Brush => {
+    const existing = solids.get(id)
+    if (existing) return existing
+
+    const primitive = primitiveById.get(id)
+    if (!primitive) {
+      throw new Error(`Operation ${opId} references unknown id: ${id}`)
+    }
+
+    const geometry = applyPrimitiveTransform(createPrimitiveGeometry(primitive), primitive)
+    stripToCSGAttributes(geometry)
+    const brush = new Brush(geometry)
+    brush.updateMatrixWorld()
+    solids.set(id, brush)
+    return brush
+  }
+
+  // Primitive ids with their kind, for errors
+  const describe = (id: string): string => {
+    const primitive = primitiveById.get(id)
+    return primitive ? `${id} ${primitive.kind}` : id
+  }
+
+  if (recipe.operations.length === 0) {
+    return resolve(recipe.primitives[0].id, 'base').geometry
+  }
+
+  let result: Brush | undefined
+  for (const op of recipe.operations) {
+    const target = resolve(op.targetId, op.id)
+    const tool = resolve(op.toolId, op.id)
+
+    try {
+      result = evaluator.evaluate(target, tool, CSG_OPERATIONS[op.op])
+    } catch (error) {
+      // three-bvh-csg fails inside its BVH walk, typically on faces that
+      // coincide or tools of zero thickness
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Operation ${op.id} (${op.op} ${describe(op.toolId)} from ${describe(op.targetId)}) failed: ${reason}`)
+    }
+    result.updateMatrixWorld()
+
+    solids.set(op.id, result)
+    solids.set(op.targetId, result)
+  }
+
+  return result!.geometry
+}
+
+/**
+ * Evaluate a recipe, returning undefined instead of throwing
+ * Callers fall back to per-primitive edges when evaluation fails.
+ */
+export function tryEvaluateRecipe(recipe: PartRecipe): BufferGeometry | undefined {
+  try {
+    return evaluateRecipe(recipe)
+  } catch (error) {
+    console.warn('[CSG] Recipe evaluation failed:', error)
+    return undefined
+  }
+}
+
+// Solids by recipe object: dimensioning and feature recognition ask for
+// the same part's solid many times per drawing
+const recipeSolids = new WeakMap<PartRecipe, BufferGeometry | undefined>()
+
+/**
+ * Post-boolean solid of a recipe, evaluated once per recipe object
+ * Recipes are treated as immutable; a changed recipe is a new object.
+ *
+ * @returns The solid in mm, or undefined if evaluation fails
+ */
+export function recipeSolid(recipe: PartRecipe): BufferGeometry | undefined {
+  if (!recipeSolids.has(recipe)) {
+    recipeSolids.set(recipe, tryEvaluateRecipe(recipe))
+  }
+  return recipeSolids.get(recipe)
+}
+
+/**
+ * Record the solid of a recipe evaluated or transformed elsewhere
+ * (e.g. a recipe and solid turned together for a drawing)
+ */
+export function setRecipeSolid(recipe: PartRecipe, solid: BufferGeometry | undefined): void {
+  recipeSolids.set(recipe, solid)
+}
+
+/**
+ * Drop attributes the evaluator does not carry (uv) so all brushes match
+ */
+function stripToCSGAttributes(geometry: BufferGeometry): void {
+  for (const name of Object.keys(geometry.attributes)) {
+    if (!CSG_ATTRIBUTES.includes(name)) {
+      geometry.deleteAttribute(name)
+    }
+  }
+}
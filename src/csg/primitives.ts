@@ -0,0 +1,129 @@
+/**
+ * Primitive geometry construction shared by edge extraction and CSG evaluation
+ *
+ * Builds Three.js geometry for recipe primitives in millimetres, using the
+ * same segment counts and transform conventions as the 3D viewer
+ * (position, then XYZ Euler rotation, then scale; legacy `axis` fallback).
+ */
+
+import { BufferGeometry, Matrix4, BoxGeometry, CylinderGeometry, SphereGeometry, TorusGeometry, Euler } from 'three'
+import type { Primitive } from '../types/part'
+
+/**
+ * Create a BufferGeometry for a primitive
+ */
+export function createPrimitiveGeometry(primitive: Primitive): BufferGeometry {
+  switch (primitive.kind) {
+    case 'box': {
+      const p = primitive.params as any
+      const width = p.width || 100
+      const depth = p.depth || 50
+      const height = p.height || 25
+      return new BoxGeometry(width, depth, height)
+    }
+    
+    case 'cylinder': {
+      const p = primitive.params as any
+      const radius = p.radius || 20
+      const height = p.height || 50
+      // Use 32 segments for smooth cylinders
+      return new CylinderGeometry(radius, radius, height, 32)
+    }
+    
+    case 'sphere': {
+      const p = primitive.params as any
+      const radius = p.radius || 20
+      return new SphereGeometry(radius, 32, 16)
+    }
+    
+    case 'cone': {
+      const p = primitive.params as any
+      const radiusTop = p.radiusTop || 0
+      const radiusBottom = p.radiusBottom || 20
+      const height = p.height || 50
+      return new CylinderGeometry(radiusTop, radiusBottom, height, 32)
+    }
+    
+    case 'torus': {
+      const p = primitive.params as any
+      const majorRadius = p.majorRadius || 40
+      const tubeRadius = p.tubeRadius || 8
+      return new TorusGeometry(majorRadius, tubeRadius, 24, 48)
+    }
+    
+    default:
+      throw new Error(`Unsupported primitive kind: ${(primitive as any).kind}`)
+  }
+}
+
+/**
+ * Apply transform to geometry
+ */
+export function applyPrimitiveTransform(
+  geometry: BufferGeometry,
+  primitive: Primitive
+): BufferGeometry {
+  if (!primitive.transform) return geometry
+  geometry.applyMatrix4(primitiveMatrix(primitive))
+  return geometry
+}
+
+/**
+ * Placement of a primitive's geometry (local → part space)
+ * Cylinders and cones are built along local Y and tori about local Z
+ * before this is applied.
+ */
+export function primitiveMatrix(primitive: Primitive): Matrix4 {
+  const transform = primitive.transform
+  const matrix = new Matrix4()
+  // Without a transform the geometry is used as built (legacy axis included)
+  if (!transform) return matrix
+  
+  // Apply translation
+  if (transform.position) {
+    matrix.makeTranslation(
+      transform.position.x,
+      transform.position.y,
+      transform.position.z
+    )
+  }
+  
+  // Apply rotation (degrees to radians)
+  if (transform.rotation) {
+    const rotMatrix = new Matrix4()
+    rotMatrix.makeRotationFromEuler(
+      new Euler(
+        transform.rotation.x * Math.PI / 180,
+        transform.rotation.y * Math.PI / 180,
+        transform.rotation.z * Math.PI / 180,
+        'XYZ'
+      )
+    )
+    matrix.multiply(rotMatrix)
+  }
+  
+  // Apply scale
+  if (transform.scale) {
+    const scaleMatrix = new Matrix4()
+    scaleMatrix.makeScale(
+      transform.scale.x,
+      transform.scale.y,
+      transform.scale.z
+    )
+    matrix.multiply(scaleMatrix)
+  }
+  
+  // Handle legacy axis parameter for cylinders
+  const axis = (primitive.params as any)?.axis
+  if (axis && axis !== 'z' && !transform.rotation) {
+    const axisMatrix = new Matrix4()
+    if (axis === 'x') {
+      axisMatrix.makeRotationZ(Math.PI / 2)
+    } else if (axis === 'y') {
+      axisMatrix.makeRotationX(Math.PI / 2)
+    }
+    matrix.multiply(axisMatrix)
+  }
+  
+  return matrix
+}
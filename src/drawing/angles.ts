@@ -0,0 +1,263 @@
+/**
+ * Recognition of angled features for angular dimensions (ISO 129-1)
+ *
+ * Three kinds of feature carry an angle worth dimensioning:
+ * - inclined holes: cylinder tools whose axis is not parallel to a part axis
+ * - cones: countersinks and tapered holes (cone tools) and tapered bodies,
+ *   dimensioned by their included angle
+ * - chamfers: box tools turned about one part axis that cut a corner of the
+ *   body off in one straight face ('C2' or '2 × 30°')
+ */
+
+import { Box3, Vector3, type BufferAttribute } from 'three'
+import type { PartRecipe } from '../types/part'
+import { bodyBounds, subtractedPrimitiveIds } from './holes'
+import { resolvePrimitives } from './sections'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+
+/**
+ * Hole drilled at an angle to the part axes
+ */
+export interface InclinedHole {
+  /** Cylinder tools on parallel axes, the first one dimensioned */
+  primitiveIds: string[]
+
+  /** Centre of each tool (part space) */
+  centers: Vector3[]
+
+  /** Unit direction of the axis */
+  axis: Vector3
+
+  radius: number
+}
+
+/**
+ * Cone with its included angle
+ */
+export interface ConeFeature {
+  primitiveId: string
+
+  /** Where the cone's flanks meet (part space) */
+  apex: Vector3
+
+  /** Unit direction from the apex towards the wide end */
+  axis: Vector3
+
+  /** Distance from the apex to the wide end along the axis (mm) */
+  length: number
+
+  /** Included angle (degrees) */
+  angle: number
+
+  /** Whether the cone is cut out of the part (countersink, tapered hole) */
+  subtracted: boolean
+}
+
+/**
+ * Chamfer on an edge of the body
+ */
+export interface ChamferFeature {
+  primitiveId: string
+
+  /** Corner of the body the chamfer cuts off, midway along the edge (part space) */
+  corner: Vector3
+
+  /** Unit direction of the chamfered edge */
+  edge: Vector3
+
+  /** Unit directions from the corner along the two faces, into the part */
+  faces: [Vector3, Vector3]
+
+  /** Length cut off each face, from the corner (mm) */
+  legs: [number, number]
+}
+
+// Axes within this angle of each other are parallel
+const PARALLEL_TOLERANCE = Math.cos(Math.PI / 180)
+
+// Lengths closer than this (mm) are equal
+const LENGTH_TOLERANCE = 0.01
+
+/**
+ * Find cylinder subtraction tools on inclined axes
+ * Tools on parallel axes are one hole direction and share one dimension.
+ *
+ * @param recipe - Part recipe
+ * @returns Hole directions in the order of their first tool
+ */
+export function findInclinedHoles(recipe: PartRecipe): InclinedHole[] {
+  const holes: InclinedHole[] = []
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const primitive of resolvePrimitives(recipe, op.toolId)) {
+      if (primitive.kind !== 'cylinder') continue
+      const matrix = primitiveMatrix(primitive)
+      const axis = new Vector3(0, 1, 0).transformDirection(matrix)
+      if (onPartAxis(axis)) continue
+
+      const parallel = holes.find(hole => Math.abs(hole.axis.dot(axis)) > PARALLEL_TOLERANCE)
+      if (parallel) {
+        parallel.primitiveIds.push(primitive.id)
+        parallel.centers.push(new Vector3().applyMatrix4(matrix))
+        continue
+      }
+      const params = primitive.params as { radius?: number }
+      holes.push({ primitiveIds: [primitive.id], centers: [new Vector3().applyMatrix4(matrix)], axis, radius: params.radius ?? 20 })
+    }
+  }
+  return holes
+}
+
+/**
+ * Find cones along the part axes, cut out of the part or part of its body
+ * Cones on inclined axes only show their angle in an auxiliary view and are skipped.
+ *
+ * @param recipe - Part recipe
+ * @returns Cones in recipe order
+ */
+export function findConeFeatures(recipe: PartRecipe): ConeFeature[] {
+  const tools = subtractedPrimitiveIds(recipe)
+  const cones: ConeFeature[] = []
+
+  for (const primitive of recipe.primitives) {
+    if (primitive.kind !== 'cone') continue
+    const params = primitive.params as { radiusTop?: number; radiusBottom?: number; height?: number }
+    const radiusTop = params.radiusTop ?? 0
+    const radiusBottom = params.radiusBottom ?? 20
+    const height = params.height ?? 50
+    if (Math.abs(radiusTop - radiusBottom) < LENGTH_TOLERANCE) continue
+
+    const matrix = primitiveMatrix(primitive)
+    const up = new Vector3(0, 1, 0).transformDirection(matrix)
+    if (!onPartAxis(up)) continue
+
+    // Local +Y runs to the radiusTop end; the flanks meet where the radius reaches zero
+    const wide = radiusTop > radiusBottom ? 1 : -1
+    const length = (height * Math.max(radiusTop, radiusBottom)) / Math.abs(radiusTop - radiusBottom)
+    const apexY = wide * (height / 2 - length)
+    cones.push({
+      primitiveId: primitive.id,
+      apex: new Vector3(0, apexY, 0).applyMatrix4(matrix),
+      axis: up.multiplyScalar(wide),
+      length,
+      angle: (2 * Math.atan(Math.abs(radiusTop - radiusBottom) / height) * 180) / Math.PI,
+      subtracted: tools.has(primitive.id)
+    })
+  }
+  return cones
+}
+
+/**
+ * Find box subtraction tools that chamfer an edge of the body
+ *
+ * A tool chamfers an edge when it is turned about that edge's direction,
+ * covers the corner, and leaves one straight face between the two faces it
+ * cuts into.
+ *
+ * @param recipe - Part recipe
+ * @returns Chamfers in recipe order
+ */
+export function findChamferFeatures(recipe: PartRecipe): ChamferFeature[] {
+  const body = bodyBounds(recipe)
+  const chamfers: ChamferFeature[] = []
+
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const primitive of resolvePrimitives(recipe, op.toolId)) {
+      if (primitive.kind !== 'box') continue
+      const matrix = primitiveMatrix(primitive)
+      const size = new Box3().setFromBufferAttribute(
+        createPrimitiveGeometry(primitive).getAttribute('position') as BufferAttribute
+      ).getSize(new Vector3())
+      const sides = [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)]
+        .map((local, i) => ({ direction: local.transformDirection(matrix), half: size.getComponent(i) / 2 }))
+
+      // Turned about exactly one part axis: the edge direction
+      const along = sides.filter(side => onPartAxis(side.direction))
+      if (along.length !== 1) continue
+      const edgeIndex = [0, 1, 2].find(i => Math.abs(along[0].direction.getComponent(i)) > PARALLEL_TOLERANCE)!
+      const across = sides.filter(side => side !== along[0])
+      const [i, j] = [0, 1, 2].filter(index => index !== edgeIndex)
+
+      const center = new Vector3().applyMatrix4(matrix)
+      const inside = (p: Vector3) => across.every(side => Math.abs(p.clone().sub(center).dot(side.direction)) <= side.half + LENGTH_TOLERANCE)
+
+      for (const corner of bodyCorners(body, i, j, edgeIndex)) {
+        if (!inside(corner)) continue
+
+        // Walk from the corner along each face until leaving the tool
+        const faces: [Vector3, Vector3] = [i, j].map(index =>
+          new Vector3().setComponent(index, Math.sign(body.getCenter(new Vector3()).getComponent(index) - corner.getComponent(index)))) as [Vector3, Vector3]
+        const legs = faces.map(face => exitDistance(corner, face, center, across)) as [number, number]
+        const ends = faces.map((face, k) => corner.clone().addScaledVector(face, legs[k]))
+
+        // Both ends on the same side of the tool: one straight chamfer face
+        const straight = across.some(side => {
+          const [a, b] = ends.map(end => end.clone().sub(center).dot(side.direction))
+          return Math.abs(a - b) < LENGTH_TOLERANCE && Math.abs(Math.abs(a) - side.half) < LENGTH_TOLERANCE
+        })
+        if (!straight || legs.some(leg => leg < LENGTH_TOLERANCE)) continue
+
+        chamfers.push({ primitiveId: primitive.id, corner, edge: new Vector3().setComponent(edgeIndex, 1), faces, legs })
+        break
+      }
+    }
+  }
+  return chamfers
+}
+
+/**
+ * Where the tools of an inclined hole leave the part, taking the axis in the
+ * direction of its largest component; these points locate the hole
+ *
+ * @param hole - Inclined hole
+ * @param body - Bounds of the part
+ * @returns One exit per tool, with the axis of the face it leaves through
+ */
+export function inclinedHoleExits(hole: InclinedHole, body: Box3): Array<{ point: Vector3; axis: number }> {
+  const axisIndex = [0, 1, 2].reduce((best, i) => Math.abs(hole.axis.getComponent(i)) > Math.abs(hole.axis.getComponent(best)) ? i : best)
+  const direction = hole.axis.clone().multiplyScalar(Math.sign(hole.axis.getComponent(axisIndex)))
+  return hole.centers.map(center => exitPoint(body, center, direction))
+}
+
+/**
+ * Where a line from a point inside a box leaves it
+ *
+ * @returns The exit point and the axis of the face it leaves through
+ */
+export function exitPoint(box: Box3, from: Vector3, direction: Vector3): { point: Vector3; axis: number } {
+  const exit = [0, 1, 2].reduce((nearest, axis) => {
+    const rate = direction.getComponent(axis)
+    if (Math.abs(rate) < 1e-9) return nearest
+    const face = rate > 0 ? box.max.getComponent(axis) : box.min.getComponent(axis)
+    const t = (face - from.getComponent(axis)) / rate
+    return t < nearest.t ? { t, axis } : nearest
+  }, { t: Infinity, axis: 0 })
+  return { point: from.clone().addScaledVector(direction, exit.t), axis: exit.axis }
+}
+
+// Whether a unit direction is parallel to a part axis
+function onPartAxis(direction: Vector3): boolean {
+  return Math.max(Math.abs(direction.x), Math.abs(direction.y), Math.abs(direction.z)) > PARALLEL_TOLERANCE
+}
+
+// The four corners of a box across one axis, midway along it
+function bodyCorners(box: Box3, i: number, j: number, along: number): Vector3[] {
+  const middle = (box.min.getComponent(along) + box.max.getComponent(along)) / 2
+  return [0, 1, 2, 3].map(k => new Vector3()
+    .setComponent(i, k & 1 ? box.max.getComponent(i) : box.min.getComponent(i))
+    .setComponent(j, k & 2 ? box.max.getComponent(j) : box.min.getComponent(j))
+    .setComponent(along, middle))
+}
+
+// Distance from a point inside a tool's cross-section to its boundary along a direction
+function exitDistance(from: Vector3, direction: Vector3, center: Vector3, sides: Array<{ direction: Vector3; half: number }>): number {
+  return sides.reduce((nearest, side) => {
+    const rate = direction.dot(side.direction)
+    if (Math.abs(rate) < 1e-9) return nearest
+    const offset = from.clone().sub(center).dot(side.direction)
+    return Math.min(nearest, (Math.sign(rate) * side.half - offset) / rate)
+  }, Infinity)
+}
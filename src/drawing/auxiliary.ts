@@ -0,0 +1,173 @@
+/**
+ * Auxiliary views of inclined features (ISO 5456-2)
+ *
+ * Holes and countersinks drilled at an angle never show their true shape in
+ * the front, top or right view. An auxiliary view looks straight down the
+ * feature's axis and is projected from the principal view that shows the
+ * axis at its truest length:
+ * 1. Find subtraction tools whose axis is not parallel to a part axis
+ * 2. Pick the parent view in which the axis is closest to the view plane
+ * 3. Turn the view so that its projection lines run from the parent view
+ */
+
+import { Matrix4, Vector3 } from 'three'
+import type { PartRecipe } from '../types/part'
+import { LineType } from './lineTypes'
+import type { CenterLine } from './centerLines'
+import type { ProjectionMethod } from './projection'
+import { towardViewer } from './projection'
+import { resolvePrimitives, VIEW_LETTERS, type Point2D } from './sections'
+import { primitiveMatrix } from '../csg/primitives'
+
+export type AuxiliaryParentView = 'front' | 'top' | 'right'
+
+/**
+ * View looking along the axis of an inclined feature
+ */
+export interface AuxiliaryView {
+  /** Letter of the view, used by the viewing-direction arrow when the view is not in projection position */
+  id: string
+
+  /** Label for the view (e.g., "VIEW E") */
+  label: string
+
+  /** View the auxiliary view is projected from */
+  parentView: AuxiliaryParentView
+
+  /** Unit direction from the part towards the viewer (part space, along the feature axis) */
+  direction: Vector3
+
+  /** Rotation from part space into the view; view y points away from the parent view */
+  matrix: Matrix4
+
+  /** Unit direction from the parent view to the auxiliary view (parent view plane, y up) */
+  placement: Point2D
+
+  /** Centre of the features in the parent view (view plane mm, y up) */
+  anchor: Point2D
+
+  /** Tool primitives seen end-on */
+  primitiveIds: string[]
+}
+
+/** Most auxiliary views generated for one drawing */
+export const MAX_AUXILIARY_VIEWS = 1
+
+// Axes within this angle of a part axis already show true in a principal view
+const PARALLEL_TOLERANCE = Math.cos(Math.PI / 180)
+
+/**
+ * Select auxiliary views for revolved subtraction tools on inclined axes
+ *
+ * Tools with parallel axes share one view; directions are taken in order of
+ * the number of tools they show. Of the two ends of an axis, the view is
+ * seen from the one that places it towards the free area of the sheet.
+ *
+ * @param recipe - Part recipe
+ * @param viewMatrices - Rotation from part space into each principal view
+ * @param projection - Projection method, which decides the side of the parent view the view lies on
+ * @param towards - Direction (view plane, y up) from each principal view to the free area of the sheet
+ * @param firstIndex - Index of the first letter (letters already used are skipped)
+ * @param maxViews - Most views to return
+ * @returns Auxiliary views lettered from firstIndex
+ */
+export function selectAuxiliaryViews(
+  recipe: PartRecipe,
+  viewMatrices: Record<AuxiliaryParentView, Matrix4>,
+  projection: ProjectionMethod,
+  towards: Record<AuxiliaryParentView, Point2D>,
+  firstIndex: number = 0,
+  maxViews: number = MAX_AUXILIARY_VIEWS
+): AuxiliaryView[] {
+  // Inclined axes, grouped when parallel
+  const groups: Array<{ axis: Vector3; positions: Vector3[]; primitiveIds: string[] }> = []
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const primitive of resolvePrimitives(recipe, op.toolId)) {
+      if (primitive.kind !== 'cylinder' && primitive.kind !== 'cone') continue
+      const matrix = primitiveMatrix(primitive)
+      const axis = new Vector3(0, 1, 0).transformDirection(matrix)
+      if (Math.max(Math.abs(axis.x), Math.abs(axis.y), Math.abs(axis.z)) > PARALLEL_TOLERANCE) continue
+
+      const position = new Vector3().applyMatrix4(matrix)
+      const group = groups.find(other => Math.abs(other.axis.dot(axis)) > PARALLEL_TOLERANCE)
+      if (group) {
+        group.positions.push(position)
+        group.primitiveIds.push(primitive.id)
+      } else {
+        groups.push({ axis, positions: [position], primitiveIds: [primitive.id] })
+      }
+    }
+  }
+
+  return groups
+    .sort((a, b) => b.primitiveIds.length - a.primitiveIds.length)
+    .slice(0, maxViews)
+    .map(({ axis, positions, primitiveIds }, i) => {
+      // The parent view shows the axis at its truest length
+      const parentView = (Object.keys(viewMatrices) as AuxiliaryParentView[]).reduce((best, view) =>
+        Math.abs(towardViewer(viewMatrices[view]).dot(axis)) < Math.abs(towardViewer(viewMatrices[best]).dot(axis)) ? view : best)
+      const parentMatrix = viewMatrices[parentView]
+
+      // A view lies on the side it is seen from in third-angle, and opposite it in first-angle
+      const side = projection === 'third-angle' ? 1 : -1
+      const seen = axis.clone().applyMatrix4(parentMatrix)
+      const sign = (seen.x * towards[parentView].x + seen.y * towards[parentView].y) * side >= 0 ? 1 : -1
+      const direction = axis.clone().multiplyScalar(sign)
+      const length = Math.hypot(seen.x, seen.y)
+      const placement = { x: seen.x * sign * side / length, y: seen.y * sign * side / length }
+
+      const center = positions.reduce((sum, p) => sum.add(p), new Vector3()).divideScalar(positions.length).applyMatrix4(parentMatrix)
+
+      const id = VIEW_LETTERS[(firstIndex + i) % VIEW_LETTERS.length]
+      return {
+        id,
+        label: `VIEW ${id}`,
+        parentView,
+        direction,
+        matrix: auxiliaryViewMatrix(direction, towardViewer(parentMatrix), projection),
+        placement,
+        anchor: { x: center.x, y: center.y },
+        primitiveIds
+      }
+    })
+}
+
+/**
+ * Rotation into a view seen from `direction`, turned so that view y points
+ * away from the parent view (whose viewer is towards `parentDirection`)
+ *
+ * @param direction - Unit direction from the part towards the viewer
+ * @param parentDirection - Unit direction towards the viewer of the parent view
+ * @param projection - Projection method
+ */
+export function auxiliaryViewMatrix(direction: Vector3, parentDirection: Vector3, projection: ProjectionMethod): Matrix4 {
+  // The side of the part facing the parent view's viewer is nearest to the
+  // parent view in third-angle and farthest from it in first-angle
+  const up = parentDirection.clone().addScaledVector(direction, -parentDirection.dot(direction)).normalize()
+  if (projection === 'third-angle') up.negate()
+  const right = up.clone().cross(direction)
+  return new Matrix4().makeBasis(right, up, direction).transpose()
+}
+
+/**
+ * Centre lines of the holes seen end-on in an auxiliary view
+ *
+ * @param recipe - Part recipe
+ * @param view - Auxiliary view
+ * @param extension - Length of the lines beyond the hole (mm)
+ * @returns Two crossing lines per hole (view plane mm, y up)
+ */
+export function auxiliaryCenterLines(recipe: PartRecipe, view: AuxiliaryView, extension: number): CenterLine[] {
+  return recipe.primitives.filter(primitive => view.primitiveIds.includes(primitive.id)).flatMap(primitive => {
+    const params = primitive.params as { radius?: number; radiusTop?: number; radiusBottom?: number }
+    const reach = Math.max(params.radius ?? 0, params.radiusTop ?? 0, params.radiusBottom ?? 0) + extension
+    const center = new Vector3().applyMatrix4(primitiveMatrix(primitive)).applyMatrix4(view.matrix)
+    const lines: CenterLine[] = [
+      { type: 'cross', lineType: LineType.CENTER_LINE, x1: center.x - reach, y1: center.y, x2: center.x + reach, y2: center.y },
+      { type: 'cross', lineType: LineType.CENTER_LINE, x1: center.x, y1: center.y - reach, x2: center.x, y2: center.y + reach }
+    ]
+    return lines
+  })
+}
@@ -0,0 +1,79 @@
+/**
+ * SVG rendering for auxiliary views (ISO 5456-2, ISO 128-30)
+ *
+ * Generates SVG elements for:
+ * - The viewing-direction arrow and letter in the parent view, used when the
+ *   auxiliary view cannot be placed in projection position
+ * - The label of the auxiliary view (VIEW E)
+ *
+ * The curves of an auxiliary view are drawn like any other view.
+ */
+
+import type { AuxiliaryView } from './auxiliary'
+import { LineType, LINE_STYLES, type LineStyle } from './lineTypes'
+import type { Point2D } from './sections'
+
+// Length of the viewing-direction arrow and its gap to the outline (SVG units)
+const ARROW_LENGTH = 20
+const ARROW_GAP = 10
+
+/**
+ * Render the viewing-direction arrow of an auxiliary view in its parent view
+ * The arrow points at the features from the side the view is seen from,
+ * just outside the parent view's outline.
+ *
+ * @param view - Auxiliary view
+ * @param viewing - Unit direction of viewing in the parent view (view plane, y up)
+ * @param viewBounds - Bounds of the parent view (view-plane mm, y up)
+ * @param scale - Drawing scale of the parent view (SVG units per mm)
+ * @param styles - Line styles of the drawing standard
+ * @returns SVG group, in parent view coordinates around the view centre
+ */
+export function renderViewingArrow(
+  view: AuxiliaryView,
+  viewing: Point2D,
+  viewBounds: { minX: number; maxX: number; minY: number; maxY: number },
+  scale: number,
+  styles: Record<LineType, LineStyle> = LINE_STYLES
+): string {
+  const style = styles[LineType.LEADER]
+
+  // Leave the outline backwards along the direction of viewing
+  const back = { x: -viewing.x, y: -viewing.y }
+  const exits = [
+    back.x > 1e-9 ? (viewBounds.maxX - view.anchor.x) / back.x : back.x < -1e-9 ? (viewBounds.minX - view.anchor.x) / back.x : Infinity,
+    back.y > 1e-9 ? (viewBounds.maxY - view.anchor.y) / back.y : back.y < -1e-9 ? (viewBounds.minY - view.anchor.y) / back.y : Infinity
+  ]
+  const exit = Math.max(0, Math.min(...exits)) * scale
+  const anchor = { x: view.anchor.x * scale, y: -view.anchor.y * scale } // Flip Y for SVG coords
+  const direction = { x: viewing.x, y: -viewing.y }
+  const tip = { x: anchor.x - direction.x * (exit + ARROW_GAP), y: anchor.y - direction.y * (exit + ARROW_GAP) }
+  const tail = { x: tip.x - direction.x * ARROW_LENGTH, y: tip.y - direction.y * ARROW_LENGTH }
+
+  // Filled head at the tip, letter beyond the tail
+  const head = 6
+  const base = { x: tip.x - direction.x * head, y: tip.y - direction.y * head }
+  const half = { x: -direction.y * head / 3, y: direction.x * head / 3 }
+  const points = [tip, { x: base.x + half.x, y: base.y + half.y }, { x: base.x - half.x, y: base.y - half.y }]
+    .map(p => `${p.x.toFixed(2)},${p.y.toFixed(2)}`).join(' ')
+  const letter = { x: tail.x - direction.x * 6, y: tail.y - direction.y * 6 }
+
+  return `
+        <g class="viewing-arrow" data-id="${view.id}">
+          <line x1="${tail.x.toFixed(2)}" y1="${tail.y.toFixed(2)}" x2="${base.x.toFixed(2)}" y2="${base.y.toFixed(2)}" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" />
+          <polygon points="${points}" fill="black" />
+          <text x="${letter.x.toFixed(2)}" y="${letter.y.toFixed(2)}" font-family="sans-serif" font-size="8" font-weight="bold" text-anchor="middle" dominant-baseline="middle">${view.id}</text>
+        </g>`
+}
+
+/**
+ * Render the label of an auxiliary view
+ *
+ * @param label - Label text, with the scale when it differs from the sheet
+ * @param x - Centre of the view (SVG)
+ * @param top - Top of the view (SVG)
+ * @returns SVG text element
+ */
+export function renderAuxiliaryLabel(label: string, x: number, top: number): string {
+  return `<text x="${x.toFixed(2)}" y="${(top - 6).toFixed(2)}" font-family="sans-serif" font-size="8" text-anchor="middle">${label}</text>`
+}
@@ -0,0 +1,254 @@
+/**
+ * Interrupted (broken) views of long parts (ISO 128-30)
+ *
+ * A long part drawn whole needs a small scale, at which its holes turn to
+ * specks. Where the part runs uniform along its length (a plain shaft, the
+ * web between two groups of holes) a stretch is left out of the views
+ * showing that length: the ends close up to a small gap between two break
+ * lines. Dimensions keep their true values; they and the other annotations
+ * move with the ends they belong to.
+ */
+
+import { Vector3 } from 'three'
+import type { CurveEdge } from './edges'
+import { LineType } from './lineTypes'
+import { ORTHOGRAPHIC_MATRICES, type OrthographicView, type ViewEdges } from './projection'
+
+export type PartAxis = 'x' | 'y' | 'z'
+
+/**
+ * Stretch of a part left out of its views
+ */
+export interface PartBreak {
+  axis: PartAxis
+  /** Ends of the stretch along the axis (part mm) */
+  from: number
+  to: number
+}
+
+/**
+ * A part break as seen in one view
+ */
+export interface ViewBreak {
+  /** View-plane axis the part is broken along */
+  direction: 'x' | 'y'
+  /** Ends of the stretch left out (view mm, from < to) */
+  from: number
+  to: number
+  /** Gap between the break lines (view mm) */
+  gap: number
+  /** Extent of the part across the break (view mm) */
+  across: { min: number; max: number }
+}
+
+/** Parts at least this many times longer than they are wide may be broken */
+export const BREAK_ASPECT = 3
+
+/** Distance between the break lines on paper (mm) */
+export const BREAK_GAP = 8
+
+// Share of a uniform stretch kept either side of the break, so the ends read as uniform
+const BREAK_MARGIN = 0.15
+
+// Stretches shorter than this share of the part's length are not worth a break
+const MIN_BREAK_SHARE = 0.25
+
+// Lines rising less than this across the axis per mm along it run along it
+// (tessellated silhouettes of cylinders lean slightly)
+const ALONG_SLOPE = 0.1
+
+// Directions within this of an axis are parallel to it
+const EPSILON = 1e-3
+
+const PART_AXES: Record<PartAxis, Vector3> = { x: new Vector3(1, 0, 0), y: new Vector3(0, 1, 0), z: new Vector3(0, 0, 1) }
+
+/**
+ * Find the stretch to leave out of the views of a long part
+ *
+ * The part's longest axis is broken when it is at least BREAK_ASPECT times
+ * the next. The stretch is the longest one along it where the views show
+ * nothing but lines running along the axis (no holes, steps or ends), less
+ * a margin either side.
+ *
+ * @param viewEdges - Curves of the principal views
+ * @returns The break, or undefined when the part is not long or not uniform enough
+ */
+export function findPartBreak(viewEdges: Record<OrthographicView, ViewEdges>): PartBreak | undefined {
+  // Features along each axis, as intervals of part coordinates
+  const features = (axis: PartAxis) => (Object.keys(viewEdges) as OrthographicView[]).flatMap(view => {
+    const seen = axisInView(axis, view)
+    if (!seen) return []
+    const { direction, sign } = seen
+    const other = direction === 'x' ? 'y' : 'x'
+    return [...viewEdges[view].visible, ...viewEdges[view].hidden].flatMap(curve => curveSpans(curve, direction, other))
+      .map(([a, b]) => sign > 0 ? [a, b] : [-b, -a])
+  })
+
+  const axes = (['x', 'y', 'z'] as PartAxis[]).map(axis => {
+    const spans = features(axis)
+    return { axis, spans, min: Math.min(...spans.map(([a]) => a)), max: Math.max(...spans.map(([, b]) => b)) }
+  }).filter(({ spans }) => spans.length > 0).sort((a, b) => (b.max - b.min) - (a.max - a.min))
+  if (axes.length < 2) return undefined
+  const [long, next] = axes
+  const length = long.max - long.min
+  if (length < BREAK_ASPECT * (next.max - next.min)) return undefined
+
+  // Longest stretch between features
+  let best = { from: 0, to: 0 }
+  let reached = long.min
+  for (const [a, b] of long.spans.sort((p, q) => p[0] - q[0])) {
+    if (a - reached > best.to - best.from) best = { from: reached, to: a }
+    reached = Math.max(reached, b)
+  }
+  const uniform = best.to - best.from
+  if (uniform < MIN_BREAK_SHARE * length) return undefined
+
+  const margin = BREAK_MARGIN * uniform
+  return { axis: long.axis, from: best.from + margin, to: best.to - margin }
+}
+
+/**
+ * How a part break shows in a view
+ *
+ * @param partBreak - Stretch left out
+ * @param view - Principal view
+ * @param edges - Curves of the view
+ * @param scale - Drawing scale (paper mm per part mm)
+ * @returns The break, or undefined when the view sees the broken axis end-on
+ */
+export function viewBreak(partBreak: PartBreak, view: OrthographicView, edges: ViewEdges, scale: number): ViewBreak | undefined {
+  const seen = axisInView(partBreak.axis, view)
+  if (!seen) return undefined
+  const { direction, sign } = seen
+  const other = direction === 'x' ? 'y' : 'x'
+
+  const spans = [...edges.visible, ...edges.hidden].flatMap(curve => curveSpans(curve, other, direction))
+  const ends = [sign * partBreak.from, sign * partBreak.to]
+  return {
+    direction,
+    from: Math.min(...ends),
+    to: Math.max(...ends),
+    gap: BREAK_GAP / scale,
+    across: { min: Math.min(...spans.map(([a]) => a)), max: Math.max(...spans.map(([, b]) => b)) }
+  }
+}
+
+/**
+ * How much shorter a part break makes the views along its axis (part mm)
+ *
+ * @param partBreak - Stretch left out
+ * @param scale - Drawing scale (paper mm per part mm)
+ */
+export function breakShortening(partBreak: PartBreak, scale: number): number {
+  return partBreak.to - partBreak.from - BREAK_GAP / scale
+}
+
+/**
+ * Position of a view coordinate along the break once the stretch is left out
+ * Both ends close in by half the shortening, so the view keeps its centre;
+ * coordinates inside the stretch are squeezed into the gap.
+ *
+ * @param value - Coordinate along the break direction (view mm)
+ * @param brk - Break in the view
+ */
+export function breakCoordinate(value: number, brk: ViewBreak): number {
+  const half = (brk.to - brk.from - brk.gap) / 2
+  if (value <= brk.from) return value + half
+  if (value >= brk.to) return value - half
+  return brk.from + half + ((value - brk.from) / (brk.to - brk.from)) * brk.gap
+}
+
+/**
+ * Move the points of annotations (dimensions, symbols) with the broken view
+ * Annotations are plain data holding their positions as {x, y} points.
+ *
+ * @param value - Annotation of the view
+ * @param brk - Break in the view
+ * @returns A copy with every point moved
+ */
+export function breakPoints<T>(value: T, brk: ViewBreak): T {
+  if (Array.isArray(value)) return value.map(item => breakPoints(item, brk)) as T
+  if (!value || typeof value !== 'object') return value
+
+  const moved: Record<string, unknown> = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, breakPoints(item, brk)]))
+  if (typeof moved.x === 'number' && typeof moved.y === 'number') {
+    moved[brk.direction] = breakCoordinate(moved[brk.direction] as number, brk)
+  }
+  return moved as T
+}
+
+/**
+ * Render the content of a view interrupted by a break: the content twice,
+ * each copy clipped to one end and moved in, then the break lines
+ *
+ * @param content - SVG of the whole view (absolute SVG coordinates)
+ * @param brk - Break in the view
+ * @param offset - Position of the view origin (SVG units)
+ * @param scale - SVG units per view mm
+ * @param id - Unique prefix for the clip paths
+ */
+export function renderBrokenView(content: string, brk: ViewBreak, offset: { x: number; y: number }, scale: number, id: string): string {
+  const half = ((brk.to - brk.from - brk.gap) / 2) * scale
+  const far = 1e5
+
+  // Both ends in SVG: the low end lies left of (below) the stretch
+  const ends = brk.direction === 'x'
+    ? [
+        { clip: { x: -far, y: -far, width: far + offset.x + brk.from * scale, height: 2 * far }, shift: `${half}, 0` },
+        { clip: { x: offset.x + brk.to * scale, y: -far, width: 2 * far, height: 2 * far }, shift: `${-half}, 0` }
+      ]
+    : [
+        { clip: { x: -far, y: offset.y - brk.from * scale, width: 2 * far, height: 2 * far }, shift: `0, ${-half}` },
+        { clip: { x: -far, y: -far, width: 2 * far, height: far + offset.y - brk.to * scale }, shift: `0, ${half}` }
+      ]
+
+  const clips = ends.map(({ clip }, i) =>
+    `<clipPath id="${id}-${i}"><rect x="${clip.x}" y="${clip.y}" width="${clip.width}" height="${clip.height}" /></clipPath>`)
+  const copies = ends.map(({ shift }, i) =>
+    `<g transform="translate(${shift})"><g clip-path="url(#${id}-${i})">\n${content}\n</g></g>`)
+  const lines = [brk.from, brk.to].map(end => renderBreakLine(breakCoordinate(end, brk), brk, offset, scale))
+
+  return `
+        <g class="broken-view" data-direction="${brk.direction}" data-from="${brk.from.toFixed(2)}" data-to="${brk.to.toFixed(2)}">
+          <defs>${clips.join('')}</defs>
+          ${copies.join('\n')}
+          ${lines.join('\n')}
+        </g>`
+}
+
+// Thin break line across the part with a zigzag at its middle, a little past the outline
+function renderBreakLine(at: number, brk: ViewBreak, offset: { x: number; y: number }, scale: number): string {
+  const reach = brk.gap / 4
+  const size = brk.gap * 0.6
+  const middle = (brk.across.min + brk.across.max) / 2
+  // (across, along) pairs in view mm
+  const points = [
+    [brk.across.min - reach, 0],
+    [middle - size / 2, 0],
+    [middle - size / 4, size / 3],
+    [middle + size / 4, -size / 3],
+    [middle + size / 2, 0],
+    [brk.across.max + reach, 0]
+  ].map(([a, b]) => brk.direction === 'x'
+    ? `${(offset.x + (at + b) * scale).toFixed(2)},${(offset.y - a * scale).toFixed(2)}`
+    : `${(offset.x + a * scale).toFixed(2)},${(offset.y - (at + b) * scale).toFixed(2)}`)
+
+  return `<polyline points="${points.join(' ')}" class="${LineType.BREAK_LINE}" />`
+}
+
+// View-plane axis showing a part axis, if the view sees it side-on
+function axisInView(axis: PartAxis, view: OrthographicView): { direction: 'x' | 'y'; sign: number } | undefined {
+  const seen = PART_AXES[axis].clone().applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+  if (Math.abs(seen.x) > 1 - EPSILON) return { direction: 'x', sign: Math.sign(seen.x) }
+  if (Math.abs(seen.y) > 1 - EPSILON) return { direction: 'y', sign: Math.sign(seen.y) }
+  return undefined
+}
+
+// Extent of a curve along a view-plane axis, as [min, max] spans; lines
+// running along the axis mark nothing (silhouettes come split anywhere)
+function curveSpans(curve: CurveEdge, along: 'x' | 'y', across: 'x' | 'y'): Array<[number, number]> {
+  if (curve.kind !== 'line') return [[curve.center[along] - curve.radius, curve.center[along] + curve.radius]]
+  const [a, b] = [curve.start[along], curve.end[along]]
+  if (Math.abs(curve.start[across] - curve.end[across]) <= ALONG_SLOPE * Math.abs(b - a)) return []
+  return [[Math.min(a, b), Math.max(a, b)]]
+}
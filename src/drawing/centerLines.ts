@@ -1,12 +1,17 @@
 /**
  * Center line generation for cylindrical and conical features per ISO 128-24.
  * Center lines use chain line pattern (long-short-long) and extend beyond feature boundaries.
+ * Hole patterns share their center lines: bolt circles get a pitch circle and
+ * radial lines, holes in a row one line through all centers.
  */
+import type { Vector3 } from 'three'
 import type { PartRecipe, Primitive, CylinderParams, ConeParams } from '../types/part'
 import { LineType } from './lineTypes'
+import { findHoleFeatures, groupHolePatterns, patternLayout, type HoleFeature, type PatternLayout } from './holes'
+import { ORTHOGRAPHIC_MATRICES, towardViewer } from './projection'
 
 export interface CenterLine {
-  type: 'axis' | 'cross'
+  type: 'axis' | 'cross' | 'radial' | 'pattern'
   lineType: LineType
   x1: number
   y1: number
@@ -26,6 +31,16 @@ export interface CenterLineConfig {
   crossLength: number
 }
 
+/**
+ * Pitch circle of a bolt circle (thin chain line)
+ */
+export interface PitchCircle {
+  lineType: LineType.PITCH_CIRCLE
+  cx: number
+  cy: number
+  radius: number
+}
+
 export const DEFAULT_CENTER_LINE_CONFIG: CenterLineConfig = {
   extension: 5, // Extend 5mm beyond feature
   minDiameter: 10, // Only show center lines for features ≥10mm diameter
@@ -57,9 +72,85 @@ export function extractCenterLines(
     }
   }
 
+  centerLines.push(...extractPatternCenterLines(recipe, view, config))
+
   return centerLines
 }
 
+/**
+ * Extract the pitch circles of bolt circles seen in a view
+ * @param recipe - The part recipe to analyze
+ * @param view - The projection view ('front', 'top', 'right')
+ * @returns Pitch circles in view-plane mm
+ */
+export function extractPitchCircles(recipe: PartRecipe, view: 'front' | 'top' | 'right'): PitchCircle[] {
+  const circles: PitchCircle[] = []
+  for (const { layout } of patternsInView(recipe, view)) {
+    if (layout.kind !== 'circular') continue
+    const center = project(layout.center, view)
+    circles.push({ lineType: LineType.PITCH_CIRCLE, cx: center.x, cy: center.y, radius: layout.radius })
+  }
+  return circles
+}
+
+/**
+ * Center lines of hole patterns in the view looking down the holes
+ * - Bolt circles: a radial line through each hole, across the pitch circle
+ * - Holes in a row: one line through all centers, and a cross line at each hole
+ */
+function extractPatternCenterLines(
+  recipe: PartRecipe,
+  view: 'front' | 'top' | 'right',
+  config: CenterLineConfig
+): CenterLine[] {
+  const lines: CenterLine[] = []
+  const line = (type: CenterLine['type'], from: { x: number; y: number }, to: { x: number; y: number }): CenterLine =>
+    ({ type, lineType: LineType.CENTER_LINE, x1: from.x, y1: from.y, x2: to.x, y2: to.y })
+
+  for (const { pattern, layout } of patternsInView(recipe, view)) {
+    const reach = pattern[0].diameter / 2 + config.extension
+    const centers = pattern.map(hole => project(hole.center, view))
+
+    if (layout.kind === 'circular') {
+      const middle = project(layout.center, view)
+      for (const c of centers) {
+        const u = { x: (c.x - middle.x) / layout.radius, y: (c.y - middle.y) / layout.radius }
+        lines.push(line('radial', { x: c.x - u.x * reach, y: c.y - u.y * reach }, { x: c.x + u.x * reach, y: c.y + u.y * reach }))
+      }
+    } else {
+      const start = project(layout.start, view)
+      const end = project(layout.end, view)
+      const length = Math.hypot(end.x - start.x, end.y - start.y)
+      const d = { x: (end.x - start.x) / length, y: (end.y - start.y) / length }
+      lines.push(line('pattern', { x: start.x - d.x * reach, y: start.y - d.y * reach }, { x: end.x + d.x * reach, y: end.y + d.y * reach }))
+      for (const c of centers) {
+        lines.push(line('cross', { x: c.x + d.y * reach, y: c.y - d.x * reach }, { x: c.x - d.y * reach, y: c.y + d.x * reach }))
+      }
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Hole patterns with a layout, seen down their axis in a view
+ */
+function patternsInView(recipe: PartRecipe, view: 'front' | 'top' | 'right'): Array<{ pattern: HoleFeature[]; layout: PatternLayout }> {
+  const toward = towardViewer(ORTHOGRAPHIC_MATRICES[view])
+  return groupHolePatterns(findHoleFeatures(recipe))
+    .filter(pattern => Math.abs(toward.dot(pattern[0].axis)) > 1 - 1e-6)
+    .map(pattern => ({ pattern, layout: patternLayout(pattern) }))
+    .filter((entry): entry is { pattern: HoleFeature[]; layout: PatternLayout } => entry.layout !== undefined)
+}
+
+/**
+ * Project a part-space point into a view (view-plane mm)
+ */
+function project(point: Vector3, view: 'front' | 'top' | 'right'): { x: number; y: number } {
+  const p = point.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+  return { x: p.x, y: p.y }
+}
+
 /**
  * Extract center lines for a cylinder primitive
  */
@@ -409,3 +500,15 @@ export function renderCenterLines(centerLines: CenterLine[], scale: number): str
 
   return paths.join('\n    ')
 }
+
+/**
+ * Render pitch circles to SVG circle elements
+ * @param circles - Pitch circles to render
+ * @param scale - Scale factor (SVG units per mm)
+ * @returns SVG circle elements as string
+ */
+export function renderPitchCircles(circles: PitchCircle[], scale: number): string {
+  return circles
+    .map(circle => `<circle cx="${(circle.cx * scale).toFixed(2)}" cy="${(-circle.cy * scale).toFixed(2)}" r="${(circle.radius * scale).toFixed(2)}" class="${circle.lineType}" />`)
+    .join('\n    ')
+}
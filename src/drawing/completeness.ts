@@ -0,0 +1,328 @@
+/**
+ * Completeness and redundancy check of a drawing's dimensions (ISO 129-1:
+ * every feature is dimensioned once, and no more)
+ *
+ * The dimensions tie coordinates of the part together along each part axis:
+ * - overall dimensions join the two faces of the body
+ * - linear and ordinate dimensions join the two coordinates they measure
+ * - diameters, hole callouts and cone angles join the faces of their
+ *   primitives to their centres (a size given about a centre line); across
+ *   a cylinder or cone these are its own centre and radius, even where the
+ *   body trims it, and a through hole gives nothing along its axis
+ * - a pitch circle (PCD) joins the centres of a bolt circle's holes to its
+ *   own centre
+ *
+ * A coordinate is determined when it is tied to a face of the body. A
+ * primitive is fully defined when, along each axis, both of its faces (the
+ * part of it inside the body) are determined. Inclined holes are
+ * defined by their diameter, their angles and where they leave the part;
+ * chamfers by their note.
+ *
+ * A dimension is redundant when everything it gives is already tied
+ * together by the dimensions before it, in order of priority: a repeated
+ * overall size, a chain closed around a feature, a size given twice.
+ */
+
+import { Box3, Matrix4, Vector3, type BufferAttribute } from 'three'
+import type { PartRecipe, Primitive } from '../types/part'
+import type { Dimension, HoleCallout, LinearDimension, OrdinateDimension } from './dimensions'
+import { findChamferFeatures, findInclinedHoles, inclinedHoleExits } from './angles'
+import { bodyBounds, findHoleFeatures } from './holes'
+import { ORTHOGRAPHIC_MATRICES } from './projection'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+
+/**
+ * Size, position or angle of a feature that no dimension gives
+ */
+export interface MissingConstraint {
+  /** Primitive of the feature; undefined for the overall size of the part */
+  primitiveId?: string
+  kind: 'size' | 'position' | 'angle'
+  /** Part axis along which the size or position is missing */
+  axis?: Axis
+  message: string
+}
+
+/**
+ * Dimension giving nothing the dimensions before it do not
+ */
+export interface RedundantDimension {
+  dimensionId: string
+  /** Earlier dimension giving exactly the same, if there is one */
+  duplicateOf?: string
+  message: string
+}
+
+/**
+ * Result of checking the dimensions of a drawing
+ */
+export interface DimensioningReport {
+  /** Every size and position of the part is determined */
+  complete: boolean
+  missing: MissingConstraint[]
+  redundant: RedundantDimension[]
+}
+
+type Axis = 'x' | 'y' | 'z'
+
+const AXES: Axis[] = ['x', 'y', 'z']
+
+// Coordinates closer than this (mm) are the same
+const COORDINATE_TOLERANCE = 0.01
+
+// Axes within this angle of each other are parallel
+const PARALLEL_TOLERANCE = Math.cos(Math.PI / 180)
+
+/**
+ * Check that the dimensions of a drawing define the part, and only once
+ *
+ * @param recipe - Part recipe the dimensions were generated for
+ * @param dimensions - Dimensions of the drawing (generateDimensions)
+ * @returns Missing constraints and redundant dimensions
+ */
+export function checkDimensioning(recipe: PartRecipe, dimensions: Dimension[]): DimensioningReport {
+  const body = bodyBounds(recipe)
+  const primitives = new Map(recipe.primitives.map(primitive => [primitive.id, primitive]))
+
+  // Coordinates along each axis, joined when a dimension ties them together
+  const parent = new Map<string, string>()
+  const node = (axis: number, value: number) => `${axis}:${Math.round(value / COORDINATE_TOLERANCE)}`
+  const find = (key: string): string => {
+    const up = parent.get(key) ?? key
+    if (up === key) return key
+    const root = find(up)
+    parent.set(key, root)
+    return root
+  }
+  const tied = (a: string, b: string) => find(a) === find(b)
+  const determined = (axis: number, value: number) =>
+    [body.min, body.max].some(face => tied(node(axis, value), node(axis, face.getComponent(axis))))
+
+  // Own axis of a revolved primitive
+  const revolvedAxis = (primitive: Primitive) => primitive.kind === 'cylinder' || primitive.kind === 'cone'
+    ? dominantAxis(new Vector3(0, 1, 0).transformDirection(primitiveMatrix(primitive)))
+    : undefined
+
+  // Extent of each primitive inside the part (tools, and bodies trimmed by an
+  // intersection). Across the axis of a revolved primitive it is its own
+  // centre and radius, which its diameter gives wherever the body trims it.
+  const extents = new Map<string, Box3>()
+  for (const primitive of recipe.primitives) {
+    const bounds = worldBounds(primitive)
+    const extent = bounds.clone().intersect(body)
+    if (extent.isEmpty()) continue
+    const along = revolvedAxis(primitive)
+    if (along !== undefined && alignedWithPartAxes(primitiveMatrix(primitive))) {
+      for (let axis = 0; axis < 3; axis++) {
+        if (axis === along) continue
+        extent.min.setComponent(axis, bounds.min.getComponent(axis))
+        extent.max.setComponent(axis, bounds.max.getComponent(axis))
+      }
+    }
+    extents.set(primitive.id, extent)
+  }
+
+  // Drills of through holes: THRU gives nothing along their axis
+  const through = new Set(findHoleFeatures(recipe).filter(hole => hole.depth === undefined).map(hole => hole.primitiveIds[0]))
+
+  // Primitives defined by something other than their faces
+  const inclinedHoles = findInclinedHoles(recipe)
+  const chamfers = new Set(findChamferFeatures(recipe).map(chamfer => chamfer.primitiveId))
+  const sized = new Set<string>()
+  const angles = new Map<string, number>()
+  const noted = new Set<string>()
+
+  // Ties given by one dimension: pairs of coordinates, or facts about primitives
+  const pairsOf = (dimension: Dimension): Array<[string, string]> => {
+    if (dimension.type === 'linear') {
+      const linear = dimension as LinearDimension
+      if (linear.orientation === 'aligned') return []
+      const axis = viewAxes(dimension.view)[linear.orientation === 'horizontal' ? 0 : 1]
+      return [[linear.start, linear.end].map(point => node(axis, viewToPart(dimension.view, point).getComponent(axis))) as [string, string]]
+    }
+    if (dimension.type === 'ordinate') {
+      const ordinate = dimension as OrdinateDimension
+      const axis = viewAxes(dimension.view)[ordinate.axis === 'x' ? 0 : 1]
+      return [[ordinate.origin, ordinate.extensionLine.start].map(point => node(axis, viewToPart(dimension.view, point).getComponent(axis))) as [string, string]]
+    }
+
+    // Sizes about the centre: across a revolved primitive's axis for diameters,
+    // along it for callouts (depth, none for THRU) and cone angles (length)
+    const pairs: Array<[string, string]> = []
+    for (const id of dimension.primitiveIds ?? []) {
+      const primitive = primitives.get(id)
+      const extent = extents.get(id)
+      if (!primitive || !extent || !alignedWithPartAxes(primitiveMatrix(primitive))) continue
+      const along = revolvedAxis(primitive)
+      for (let axis = 0; axis < 3; axis++) {
+        if (dimension.type === 'radial' && axis === along) continue
+        if (dimension.type === 'angular' && axis !== along) continue
+        if (axis === along && through.has(id)) continue
+        const [lo, hi] = [extent.min.getComponent(axis), extent.max.getComponent(axis)]
+        if (axis === along) {
+          pairs.push([node(axis, lo), node(axis, hi)])
+          continue
+        }
+        const middle = node(axis, (lo + hi) / 2)
+        pairs.push([node(axis, lo), middle], [middle, node(axis, hi)])
+      }
+    }
+
+    // The holes of a bolt circle are placed by its centre and diameter
+    const pitchCircle = dimension.type === 'callout' ? (dimension as HoleCallout).pitchCircle : undefined
+    if (pitchCircle) {
+      const center = viewToPart(dimension.view, pitchCircle.center)
+      for (const id of dimension.primitiveIds ?? []) {
+        const holeCenter = extents.get(id)?.getCenter(new Vector3())
+        if (!holeCenter) continue
+        for (const axis of viewAxes(dimension.view)) {
+          pairs.push([node(axis, holeCenter.getComponent(axis)), node(axis, center.getComponent(axis))])
+        }
+      }
+    }
+    return pairs
+  }
+
+  // Facts about primitives not given by their faces; returns whether anything was new
+  const recordFacts = (dimension: Dimension): boolean => {
+    let added = false
+    for (const id of dimension.primitiveIds ?? []) {
+      const primitive = primitives.get(id)
+      if (!primitive || alignedWithPartAxes(primitiveMatrix(primitive))) continue
+      if (dimension.type === 'angular') {
+        const hole = inclinedHoles.find(inclined => inclined.primitiveIds.includes(id))
+        const count = angles.get(id) ?? 0
+        if (count < (hole ? anglesNeeded(hole.axis) : 1)) added = true
+        angles.set(id, count + 1)
+      } else if (dimension.type === 'chamfer') {
+        if (!noted.has(id)) added = true
+        noted.add(id)
+      } else {
+        if (!sized.has(id)) added = true
+        sized.add(id)
+      }
+    }
+    return added
+  }
+
+  // Dimensions in order of priority: the more important dimension is kept
+  const given = new Map<string, string>()
+  const redundant: RedundantDimension[] = []
+  const ordered = dimensions.map((dimension, i) => ({ dimension, i })).sort((a, b) => b.dimension.priority - a.dimension.priority || a.i - b.i)
+  for (const { dimension } of ordered) {
+    const pairs = pairsOf(dimension).filter(([a, b]) => a !== b)
+    const newFacts = recordFacts(dimension)
+    if (pairs.length === 0 && !newFacts && !(dimension.primitiveIds?.length)) continue
+
+    const keys = pairs.map(pair => [...pair].sort().join('|'))
+    const newTies = pairs.filter(([a, b]) => !tied(a, b)).length > 0
+    for (const [a, b] of pairs) parent.set(find(a), find(b))
+
+    if (!newTies && !newFacts) {
+      const earlier = new Set(keys.map(key => given.get(key)))
+      const duplicateOf = earlier.size === 1 ? [...earlier][0] : undefined
+      redundant.push({
+        dimensionId: dimension.id,
+        duplicateOf,
+        message: duplicateOf
+          ? `${dimension.id} repeats ${duplicateOf}`
+          : `${dimension.id} is given by the other dimensions`
+      })
+    }
+    for (const key of keys) if (!given.has(key)) given.set(key, dimension.id)
+  }
+
+  // Overall size of the part
+  const missing: MissingConstraint[] = []
+  for (let axis = 0; axis < 3; axis++) {
+    if (!tied(node(axis, body.min.getComponent(axis)), node(axis, body.max.getComponent(axis)))) {
+      missing.push({ kind: 'size', axis: AXES[axis], message: `Overall size along ${AXES[axis]} not given` })
+    }
+  }
+
+  for (const primitive of recipe.primitives) {
+    const extent = extents.get(primitive.id)
+    if (!extent) continue
+    const id = primitive.id
+    const hole = inclinedHoles.find(inclined => inclined.primitiveIds.includes(id))
+
+    if (chamfers.has(id)) {
+      if (!noted.has(id)) missing.push({ primitiveId: id, kind: 'size', message: `Chamfer ${id} not noted` })
+    } else if (hole) {
+      if (!sized.has(id)) missing.push({ primitiveId: id, kind: 'size', message: `Diameter of ${id} not given` })
+      if ((angles.get(id) ?? 0) < anglesNeeded(hole.axis)) missing.push({ primitiveId: id, kind: 'angle', message: `Angle of ${id} not given` })
+      const exit = inclinedHoleExits(hole, body)[hole.primitiveIds.indexOf(id)]
+      for (let axis = 0; axis < 3; axis++) {
+        if (axis === exit.axis || determined(axis, exit.point.getComponent(axis))) continue
+        missing.push({ primitiveId: id, kind: 'position', axis: AXES[axis], message: `Position of ${id} along ${AXES[axis]} not given` })
+      }
+    } else if (!alignedWithPartAxes(primitiveMatrix(primitive))) {
+      // Turned primitives: an angle, a size and the centre
+      if (!sized.has(id)) missing.push({ primitiveId: id, kind: 'size', message: `Size of ${id} not given` })
+      if (!angles.has(id)) missing.push({ primitiveId: id, kind: 'angle', message: `Angle of ${id} not given` })
+      const center = extent.getCenter(new Vector3())
+      for (let axis = 0; axis < 3; axis++) {
+        if (determined(axis, center.getComponent(axis))) continue
+        missing.push({ primitiveId: id, kind: 'position', axis: AXES[axis], message: `Position of ${id} along ${AXES[axis]} not given` })
+      }
+    } else {
+      const along = through.has(id) ? revolvedAxis(primitive) : undefined
+      for (let axis = 0; axis < 3; axis++) {
+        const [lo, hi] = [extent.min.getComponent(axis), extent.max.getComponent(axis)]
+        if (hi - lo < COORDINATE_TOLERANCE || axis === along) continue
+        const size = tied(node(axis, lo), node(axis, hi))
+        const position = [lo, (lo + hi) / 2, hi].some(value => determined(axis, value))
+        if (!size) missing.push({ primitiveId: id, kind: 'size', axis: AXES[axis], message: `Size of ${id} along ${AXES[axis]} not given` })
+        if (!position) missing.push({ primitiveId: id, kind: 'position', axis: AXES[axis], message: `Position of ${id} along ${AXES[axis]} not given` })
+      }
+    }
+  }
+
+  return { complete: missing.length === 0, missing, redundant }
+}
+
+/**
+ * One line per problem of a report, missing constraints first
+ */
+export function describeDimensioningReport(report: DimensioningReport): string[] {
+  return [
+    ...report.missing.map(constraint => `Missing: ${constraint.message}`),
+    ...report.redundant.map(dimension => `Redundant: ${dimension.message}`)
+  ]
+}
+
+// Part-space point of a view point, on the plane through the origin
+function viewToPart(view: Dimension['view'], point: { x: number; y: number }): Vector3 {
+  return new Vector3(point.x, point.y, 0).applyMatrix4(ORTHOGRAPHIC_MATRICES[view].clone().invert())
+}
+
+// Part axes shown along a view's x and y
+function viewAxes(view: Dimension['view']): [number, number] {
+  const inverse = ORTHOGRAPHIC_MATRICES[view].clone().invert()
+  return [dominantAxis(new Vector3(1, 0, 0).transformDirection(inverse)), dominantAxis(new Vector3(0, 1, 0).transformDirection(inverse))]
+}
+
+// Bounds of a primitive in part space
+function worldBounds(primitive: Primitive): Box3 {
+  return new Box3().setFromBufferAttribute(
+    createPrimitiveGeometry(primitive).applyMatrix4(primitiveMatrix(primitive)).getAttribute('position') as BufferAttribute
+  )
+}
+
+// Index of the largest component of a direction
+function dominantAxis(direction: Vector3): number {
+  return [0, 1, 2].reduce((best, i) => Math.abs(direction.getComponent(i)) > Math.abs(direction.getComponent(best)) ? i : best)
+}
+
+// Whether a primitive's local axes all run along part axes
+function alignedWithPartAxes(matrix: Matrix4): boolean {
+  return [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)].every(local => {
+    const direction = local.transformDirection(matrix)
+    return Math.abs(direction.getComponent(dominantAxis(direction))) > PARALLEL_TOLERANCE
+  })
+}
+
+// Angles fixing an inclined axis: one when it lies in a plane of the part axes, two for a compound angle
+function anglesNeeded(axis: Vector3): number {
+  return [0, 1, 2].filter(i => Math.abs(axis.getComponent(i)) > 1 - PARALLEL_TOLERANCE).length > 2 ? 2 : 1
+}
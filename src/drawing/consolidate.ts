@@ -0,0 +1,630 @@
+/**
+ * Logical edge consolidation for 2D drawing generation
+ *
+ * Turns triangulation edges into drawing edges:
+ * 1. Group triangle edges by supporting line and split each line into
+ *    elementary intervals, so CSG T-junctions pair up correctly
+ * 2. Keep intervals that are sharp (face angle above threshold) or view
+ *    silhouettes; drop coplanar seams, smooth facets and the one-sided
+ *    pieces CSG leaves around slivers
+ * 3. Merge collinear and overlapping segments into single edges
+ * 4. Recognise faceted polylines as circular arcs and full circles
+ *    (the curve-aware CurveEdge model from edges.ts)
+ * 5. In the view plane, fold segments lying on a drawn arc or circle into
+ *    it and join jittered pieces into the line they draw
+ */
+
+import { Vector3, type BufferGeometry } from 'three'
+import type { Edge, LineEdge, ArcEdge, CircleEdge, CurveEdge } from './edges'
+
+/**
+ * Face angle (radians) above which an edge between two faces is drawn
+ * Matches the sharp edge threshold in edges.ts (30°).
+ */
+const EDGE_ANGLE_THRESHOLD = Math.PI / 6
+
+/**
+ * Distance (mm) under which points and lines are treated as coincident
+ */
+const TOLERANCE = 0.01
+
+/**
+ * Cosine of the face angle (1°) under which faces count as one plane: CSG
+ * splits a facet into triangles whose normals differ by rounding, which
+ * must not make a silhouette where the facet is edge-on
+ */
+const COPLANAR_COS = Math.cos(Math.PI / 180)
+
+/**
+ * Distance (mm) under which polyline endpoints are joined when chaining
+ */
+const CHAIN_TOLERANCE = 0.05
+
+/**
+ * Minimum number of facets for a polyline to be recognised as an arc
+ */
+const MIN_ARC_SEGMENTS = 3
+
+/**
+ * Largest angle (radians) a single facet may subtend within an arc
+ */
+const MAX_FACET_ANGLE = Math.PI / 6
+
+/**
+ * Largest backward step (radians) tolerated between consecutive arc vertices
+ */
+const ARC_BACKTRACK = Math.PI / 180
+
+/**
+ * Allowed deviation of a facet vertex from the fitted circle, relative to radius
+ */
+const ARC_RADIUS_TOLERANCE = 0.01
+
+interface LineInterval {
+  from: number
+  to: number
+  /** Normal of the face the interval came from (absent for plain edges) */
+  normal?: Vector3
+  /** Interval belongs to a hidden edge (see resolveCoincidentEdges) */
+  hidden?: boolean
+}
+
+interface LineGroup {
+  origin: Vector3
+  direction: Vector3
+  intervals: LineInterval[]
+}
+
+/**
+ * Cell size (mm) of the spatial hash used to find a segment's supporting line
+ */
+const LINE_CELL = 1
+
+/**
+ * Collinear segments grouped by supporting line
+ * Lines are hashed by their closest point to the origin; lookups check the
+ * neighbouring cells so rounding never splits one line into two groups.
+ * With a looser tolerance (view plane, where segments are few) every line
+ * is tried instead, and a segment joins any line both its ends lie on, so
+ * short jittered pieces whose own direction is off still find their line.
+ */
+class LineGroups {
+  private cells = new Map<string, LineGroup[]>()
+  readonly groups: LineGroup[] = []
+
+  constructor(private readonly tolerance = TOLERANCE) {}
+
+  add(a: Vector3, b: Vector3, tags: Pick<LineInterval, 'normal' | 'hidden'> = {}) {
+    const direction = b.clone().sub(a)
+    if (direction.length() < TOLERANCE) return
+    direction.normalize()
+
+    const group = this.find(a, b, direction) ?? this.create(a, direction)
+    const s = a.clone().sub(group.origin).dot(group.direction)
+    const e = b.clone().sub(group.origin).dot(group.direction)
+    group.intervals.push({ from: Math.min(s, e), to: Math.max(s, e), ...tags })
+  }
+
+  private cellOf(p: Vector3): number[] {
+    return [Math.floor(p.x / LINE_CELL), Math.floor(p.y / LINE_CELL), Math.floor(p.z / LINE_CELL)]
+  }
+
+  private find(a: Vector3, b: Vector3, direction: Vector3): LineGroup | undefined {
+    // Both ends on the group's line: long CSG edges fanning out of one
+    // vertex are parallel within the angle test but end apart
+    const onLine = (g: LineGroup) => [a, b].every(p => {
+      const along = p.clone().sub(g.origin).dot(g.direction)
+      return g.origin.clone().addScaledVector(g.direction, along).distanceTo(p) < this.tolerance
+    })
+    if (this.tolerance > TOLERANCE) return this.groups.find(onLine)
+
+    const origin = a.clone().addScaledVector(direction, -a.dot(direction))
+    const [cx, cy, cz] = this.cellOf(origin)
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const candidates = this.cells.get(`${cx + dx},${cy + dy},${cz + dz}`)
+          const match = candidates?.find(g => Math.abs(g.direction.dot(direction)) >= 1 - 1e-6 && onLine(g))
+          if (match) return match
+        }
+      }
+    }
+    return undefined
+  }
+
+  private create(a: Vector3, direction: Vector3): LineGroup {
+    const origin = a.clone().addScaledVector(direction, -a.dot(direction))
+    const group: LineGroup = { origin, direction: direction.clone(), intervals: [] }
+    const key = this.cellOf(origin).join(',')
+    if (!this.cells.has(key)) this.cells.set(key, [])
+    this.cells.get(key)!.push(group)
+    this.groups.push(group)
+    return group
+  }
+}
+
+/**
+ * Split a line group at every interval endpoint, ask `keep` about each
+ * elementary piece (given the intervals covering it) and return the kept
+ * pieces merged into contiguous edges
+ */
+function collectRuns(
+  group: LineGroup,
+  keep: (covering: LineInterval[]) => boolean
+): Edge[] {
+  const breaks = group.intervals
+    .flatMap(i => [i.from, i.to])
+    .sort((a, b) => a - b)
+    .filter((t, i, all) => i === 0 || t - all[i - 1] > TOLERANCE)
+
+  const edges: Edge[] = []
+  let runFrom: number | undefined
+  let runTo = 0
+
+  const flush = () => {
+    if (runFrom !== undefined && runTo - runFrom > TOLERANCE) {
+      edges.push({
+        start: group.origin.clone().addScaledVector(group.direction, runFrom),
+        end: group.origin.clone().addScaledVector(group.direction, runTo)
+      })
+    }
+    runFrom = undefined
+  }
+
+  for (let i = 0; i < breaks.length - 1; i++) {
+    const from = breaks[i]
+    const to = breaks[i + 1]
+    const covering = group.intervals.filter(iv => iv.from <= from + TOLERANCE && iv.to >= to - TOLERANCE)
+
+    if (covering.length > 0 && keep(covering)) {
+      // Extend the current run (pieces are contiguous by construction)
+      if (runFrom === undefined) runFrom = from
+      runTo = to
+    } else {
+      flush()
+    }
+  }
+  flush()
+
+  return edges
+}
+
+/**
+ * Extract logical drawing edges from a mesh
+ *
+ * Unlike extractSharpEdges(), edges are matched by position rather than
+ * vertex index, so non-indexed CSG output and T-junctions are handled, and
+ * collinear fragments come back as a single edge.
+ *
+ * @param geometry - Mesh geometry (indexed or non-indexed)
+ * @param towardViewer - Optional unit direction towards the viewer; when given,
+ *                       silhouette edges of smooth surfaces are included
+ * @returns Merged sharp and silhouette edges
+ */
+export function extractFeatureEdges(geometry: BufferGeometry, towardViewer?: Vector3): Edge[] {
+  const positions = geometry.attributes.position
+  if (!positions) return []
+
+  const index = geometry.index
+  const triangleCount = index ? index.count / 3 : positions.count / 3
+  const vertex = (corner: number) =>
+    new Vector3().fromBufferAttribute(positions, index ? index.getX(corner) : corner)
+
+  const lines = new LineGroups()
+
+  for (let t = 0; t < triangleCount; t++) {
+    const v0 = vertex(t * 3)
+    const v1 = vertex(t * 3 + 1)
+    const v2 = vertex(t * 3 + 2)
+
+    // Face normal from winding (vertex normals may be smoothed)
+    const normal = v1.clone().sub(v0).cross(v2.clone().sub(v0))
+    if (normal.length() < TOLERANCE * TOLERANCE) continue
+    normal.normalize()
+
+    lines.add(v0, v1, { normal })
+    lines.add(v1, v2, { normal })
+    lines.add(v2, v0, { normal })
+  }
+
+  const cosThreshold = Math.cos(EDGE_ANGLE_THRESHOLD)
+  const edges: Edge[] = []
+
+  lines.groups.forEach(group => {
+    edges.push(...collectRuns(group, covering => {
+      // One face only: the solid is closed, so this is a stray triangle CSG
+      // left behind or a seam whose other side went to a sliver
+      if (covering.length === 1) return false
+
+      const normals = covering.map(c => c.normal!)
+
+      // Sharp: any two adjacent faces meet at more than the threshold angle
+      for (let i = 0; i < normals.length; i++) {
+        for (let j = i + 1; j < normals.length; j++) {
+          if (normals[i].dot(normals[j]) < cosThreshold) return true
+        }
+      }
+
+      // Silhouette: one face towards the viewer and one away from it
+      if (towardViewer) {
+        const dots = normals.map(n => n.dot(towardViewer))
+        for (let i = 0; i < normals.length; i++) {
+          for (let j = i + 1; j < normals.length; j++) {
+            if (dots[i] * dots[j] < -1e-12 && normals[i].dot(normals[j]) < COPLANAR_COS) return true
+          }
+        }
+      }
+
+      return false
+    }))
+  })
+
+  return edges
+}
+
+/**
+ * Merge collinear and overlapping segments into single edges
+ *
+ * @param edges - Any line segments
+ * @returns One edge per connected stretch of each supporting line
+ */
+export function mergeCollinearEdges(edges: Edge[]): Edge[] {
+  const lines = new LineGroups()
+  edges.forEach(edge => lines.add(edge.start, edge.end))
+
+  const merged: Edge[] = []
+  lines.groups.forEach(group => {
+    merged.push(...collectRuns(group, () => true))
+  })
+  return merged
+}
+
+/**
+ * Resolve coincident visible and hidden edges, e.g. after projecting onto a
+ * view plane where back edges land on top of front edges
+ *
+ * Visible lines take precedence: hidden pieces covered by a visible edge are
+ * dropped. Both sets come back merged, pieces within CHAIN_TOLERANCE of a
+ * line joining it; the longest segments set each line's direction.
+ */
+export function resolveCoincidentEdges(visible: Edge[], hidden: Edge[]): { visible: Edge[]; hidden: Edge[] } {
+  const lines = new LineGroups(CHAIN_TOLERANCE)
+  const length = (edge: Edge) => edge.start.distanceTo(edge.end)
+  ;[...visible.map(edge => ({ edge, hidden: false })), ...hidden.map(edge => ({ edge, hidden: true }))]
+    .sort((p, q) => length(q.edge) - length(p.edge))
+    .forEach(({ edge, hidden }) => lines.add(edge.start, edge.end, { hidden }))
+
+  const resolved = { visible: [] as Edge[], hidden: [] as Edge[] }
+  lines.groups.forEach(group => {
+    resolved.visible.push(...collectRuns(group, covering => covering.some(c => !c.hidden)))
+    resolved.hidden.push(...collectRuns(group, covering => covering.every(c => c.hidden)))
+  })
+  return resolved
+}
+
+/**
+ * Drop segments that lie on one of the given arcs or circles
+ *
+ * A segment is folded when both its ends are on the curve, within its
+ * sweep for an arc, and it spans no more than one facet. This removes the
+ * seams CSG leaves along a rim, and curves such as the meeting line of two
+ * holes, which project onto the rim of one of them.
+ *
+ * @param edges - Line segments, in the same space as the curves
+ * @param curves - Curve-aware edges; lines among them are ignored
+ * @returns The segments not covered by a curve
+ */
+export function foldOntoCurves(edges: Edge[], curves: CurveEdge[]): Edge[] {
+  const round = curves.filter((c): c is ArcEdge | CircleEdge => c.kind !== 'line')
+  if (round.length === 0) return edges
+
+  const onCurve = (curve: ArcEdge | CircleEdge, p: Vector3): boolean => {
+    const offset = p.clone().sub(curve.center)
+    const tolerance = Math.max(TOLERANCE, curve.radius * ARC_RADIUS_TOLERANCE)
+    if (Math.abs(offset.dot(curve.normal)) > tolerance) return false
+    if (Math.abs(offset.length() - curve.radius) > tolerance) return false
+    if (curve.kind === 'circle') return true
+
+    // Angle from the arc's start, counter-clockwise about its normal
+    const u = curve.start.clone().sub(curve.center).normalize()
+    const v = curve.normal.clone().cross(u)
+    let angle = Math.atan2(offset.dot(v), offset.dot(u))
+    if (angle < -ARC_BACKTRACK) angle += 2 * Math.PI
+    return angle <= curve.sweep + ARC_BACKTRACK
+  }
+
+  return edges.filter(edge => !round.some(curve =>
+    edge.start.distanceTo(edge.end) <= 2 * curve.radius * Math.sin(MAX_FACET_ANGLE / 2) &&
+    onCurve(curve, edge.start) && onCurve(curve, edge.end)
+  ))
+}
+
+/**
+ * Circle through three points, or null if they are (nearly) collinear
+ */
+function circleThrough(a: Vector3, b: Vector3, c: Vector3): { center: Vector3; normal: Vector3; radius: number } | null {
+  const ab = b.clone().sub(a)
+  const ac = c.clone().sub(a)
+  const normal = ab.clone().cross(ac)
+  const n2 = normal.lengthSq()
+  if (n2 < 1e-12) return null
+
+  // Circumcentre: a + (|ac|²(n×ab) + |ab|²(ac×n)) / (2|n|²)
+  const term1 = normal.clone().cross(ab).multiplyScalar(ac.lengthSq())
+  const term2 = ac.clone().cross(normal).multiplyScalar(ab.lengthSq())
+  const center = a.clone().add(term1.add(term2).divideScalar(2 * n2))
+
+  return { center, normal: normal.normalize(), radius: center.distanceTo(a) }
+}
+
+interface ArcFit {
+  center: Vector3
+  normal: Vector3
+  radius: number
+  sweep: number
+}
+
+/**
+ * Try to fit points[from..to] with a single arc
+ */
+function fitArc(points: Vector3[], from: number, to: number): ArcFit | null {
+  if (to - from < MIN_ARC_SEGMENTS) return null
+
+  // Sample at thirds so closed loops (first point === last point) still fit
+  const third = Math.floor((to - from) / 3)
+  const circle = circleThrough(points[from], points[from + third], points[from + 2 * third])
+  if (!circle) return null
+
+  const { center, normal, radius } = circle
+  const tolerance = Math.max(TOLERANCE, radius * ARC_RADIUS_TOLERANCE)
+
+  // In-plane basis for measuring angles
+  const u = points[from].clone().sub(center).normalize()
+  const v = normal.clone().cross(u)
+  const angleOf = (p: Vector3) => {
+    const d = p.clone().sub(center)
+    return Math.atan2(d.dot(v), d.dot(u))
+  }
+
+  let sweep = 0
+  let previous = 0
+  for (let i = from; i <= to; i++) {
+    const p = points[i]
+    const offset = p.clone().sub(center)
+    if (Math.abs(offset.length() - radius) > tolerance) return null
+    if (Math.abs(offset.dot(normal)) > tolerance) return null
+
+    if (i > from) {
+      // Unwrap and require counter-clockwise progress in small steps
+      // (a split facet may step back very slightly)
+      let step = angleOf(p) - previous
+      while (step <= -Math.PI) step += 2 * Math.PI
+      while (step > Math.PI) step -= 2 * Math.PI
+      if (step < -ARC_BACKTRACK || step > MAX_FACET_ANGLE) return null
+      sweep += step
+      previous += step
+    }
+  }
+
+  if (sweep > 2 * Math.PI + 1e-6) return null
+
+  return { center, normal, radius, sweep }
+}
+
+/**
+ * Fit an ordered polyline with lines, arcs and circles
+ *
+ * Runs of at least MIN_ARC_SEGMENTS facets whose vertices lie on one circle
+ * become arcs; a closed polyline that is entirely one circle becomes a
+ * circle. Consecutive collinear facets are joined. Output keeps the
+ * polyline's order, so it can be written as a single path.
+ *
+ * @param points - Polyline vertices (for closed loops the last equals the first)
+ * @param closed - Whether the polyline is a closed loop
+ */
+export function fitPolyline(points: Vector3[], closed: boolean): CurveEdge[] {
+  if (closed) {
+    const loop = fitArc(points, 0, points.length - 1)
+    if (loop && Math.abs(loop.sweep - 2 * Math.PI) < 1e-3) {
+      const circle: CircleEdge = { kind: 'circle', center: loop.center, normal: loop.normal, radius: loop.radius }
+      return [circle]
+    }
+  }
+
+  const curves: CurveEdge[] = []
+
+  // Greedy: extend each arc as far as the fit holds; facets in between stay lines
+  let i = 0
+  while (i < points.length - 1) {
+    let best: ArcFit | null = null
+    let bestEnd = i
+    for (let j = i + MIN_ARC_SEGMENTS; j < points.length; j++) {
+      const arc = fitArc(points, i, j)
+      if (!arc) break
+      best = arc
+      bestEnd = j
+    }
+
+    if (best) {
+      const arc: ArcEdge = { kind: 'arc', start: points[i].clone(), end: points[bestEnd].clone(), ...best }
+      curves.push(arc)
+      i = bestEnd
+      continue
+    }
+
+    // Join with the previous line when collinear
+    const start = points[i]
+    const end = points[i + 1]
+    const last = curves[curves.length - 1]
+    if (last?.kind === 'line' && isCollinear(last, end)) {
+      last.end = end.clone()
+    } else {
+      curves.push({ kind: 'line', start: start.clone(), end: end.clone() })
+    }
+    i++
+  }
+
+  return curves
+}
+
+// Whether point lies on the infinite line through the edge
+function isCollinear(edge: Edge, point: Vector3): boolean {
+  const direction = edge.end.clone().sub(edge.start).normalize()
+  const offset = point.clone().sub(edge.start)
+  return offset.clone().addScaledVector(direction, -offset.dot(direction)).length() < TOLERANCE
+}
+
+/**
+ * Chain segments end-to-end into polylines (split at branch points)
+ * Endpoints closer than CHAIN_TOLERANCE are joined, which absorbs the
+ * sliver segments CSG leaves where it splits a facet.
+ */
+function chainSegments(edges: Edge[]): { points: Vector3[]; closed: boolean }[] {
+  // Cluster endpoints into shared vertices
+  const vertices: Vector3[] = []
+  const cells = new Map<string, number[]>()
+  const cellOf = (p: Vector3) =>
+    [Math.floor(p.x / CHAIN_TOLERANCE), Math.floor(p.y / CHAIN_TOLERANCE), Math.floor(p.z / CHAIN_TOLERANCE)]
+
+  const vertexId = (p: Vector3): number => {
+    const [cx, cy, cz] = cellOf(p)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const match = cells.get(`${cx + dx},${cy + dy},${cz + dz}`)
+            ?.find(id => vertices[id].distanceTo(p) < CHAIN_TOLERANCE)
+          if (match !== undefined) return match
+        }
+      }
+    }
+    const id = vertices.push(p.clone()) - 1
+    const key = `${cx},${cy},${cz}`
+    if (!cells.has(key)) cells.set(key, [])
+    cells.get(key)!.push(id)
+    return id
+  }
+
+  const segments = edges
+    .map(edge => [vertexId(edge.start), vertexId(edge.end)] as const)
+    .filter(([a, b]) => a !== b)
+
+  const adjacency = new Map<number, number[]>()
+  segments.forEach(([a, b], i) => {
+    for (const v of [a, b]) {
+      if (!adjacency.has(v)) adjacency.set(v, [])
+      adjacency.get(v)!.push(i)
+    }
+  })
+
+  const used = new Set<number>()
+  const chains: { points: Vector3[]; closed: boolean }[] = []
+
+  const walk = (startSegment: number, startVertex: number) => {
+    const ids = [startVertex]
+    let current = startSegment
+    let vertex = startVertex
+
+    while (!used.has(current)) {
+      used.add(current)
+      const [a, b] = segments[current]
+      vertex = a === vertex ? b : a
+      ids.push(vertex)
+
+      // Continue only through simple (degree-2) vertices
+      const next = adjacency.get(vertex)!
+      if (next.length !== 2) break
+      current = next[0] === current ? next[1] : next[0]
+    }
+
+    const closed = ids.length > 3 && ids[0] === ids[ids.length - 1]
+    chains.push({ points: ids.map(id => vertices[id].clone()), closed })
+  }
+
+  // Open chains start at endpoints and branch points
+  adjacency.forEach((incident, vertex) => {
+    if (incident.length === 2) return
+    incident.forEach(i => {
+      if (!used.has(i)) walk(i, vertex)
+    })
+  })
+
+  // Whatever is left forms closed loops
+  segments.forEach(([a], i) => {
+    if (!used.has(i)) walk(i, a)
+  })
+
+  return chains
+}
+
+/**
+ * Chain segments end-to-end and drop the vertices that lie within the
+ * tolerance of a straight run (Douglas–Peucker)
+ *
+ * Seen from the side, a faceted rim that CSG has split and jittered comes
+ * out as short pieces a few hundredths of a millimetre off one line; this
+ * joins them into the line they draw.
+ *
+ * @param edges - Line segments, typically in a view plane
+ * @param tolerance - Largest distance (mm) of a dropped vertex from its run
+ */
+export function simplifyEdges(edges: Edge[], tolerance = CHAIN_TOLERANCE): Edge[] {
+  return chainSegments(edges).flatMap(({ points }) => {
+    const kept = simplifyPolyline(points, tolerance)
+    return kept.slice(1).map((end, i) => ({ start: kept[i], end }))
+  })
+}
+
+// Douglas–Peucker: keep the vertex farthest from the chord while it is out of tolerance
+function simplifyPolyline(points: Vector3[], tolerance: number): Vector3[] {
+  if (points.length < 3) return points
+  const first = points[0]
+  const last = points[points.length - 1]
+
+  let farthest = 0
+  let distance = tolerance
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], first, last)
+    if (d > distance) {
+      farthest = i
+      distance = d
+    }
+  }
+  if (farthest === 0) return [first, last]
+
+  return [
+    ...simplifyPolyline(points.slice(0, farthest + 1), tolerance).slice(0, -1),
+    ...simplifyPolyline(points.slice(farthest), tolerance)
+  ]
+}
+
+function distanceToSegment(p: Vector3, a: Vector3, b: Vector3): number {
+  const ab = b.clone().sub(a)
+  const lengthSq = ab.lengthSq()
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, p.clone().sub(a).dot(ab) / lengthSq)) : 0
+  return a.clone().addScaledVector(ab, t).distanceTo(p)
+}
+
+/**
+ * Recognise faceted circles and arcs among line segments
+ *
+ * Segments are chained end-to-end and each chain is fitted with
+ * fitPolyline(). Remaining lines are merged across chains.
+ *
+ * @param edges - Line segments, typically after mergeCollinearEdges()
+ * @returns Curve-aware edges: merged lines, arcs and circles
+ */
+export function recognizeArcs(edges: Edge[]): CurveEdge[] {
+  const lines: Edge[] = []
+  const curves: CurveEdge[] = []
+
+  chainSegments(edges).forEach(({ points, closed }) => {
+    fitPolyline(points, closed).forEach(curve => {
+      if (curve.kind === 'line') lines.push(curve)
+      else curves.push(curve)
+    })
+  })
+
+  const merged: LineEdge[] = mergeCollinearEdges(lines).map(line => ({ kind: 'line', ...line }))
+  return [...merged, ...curves]
+}
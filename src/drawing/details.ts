@@ -0,0 +1,254 @@
+/**
+ * Detail views for small features (ISO 128-30)
+ *
+ * Countersinks, chamfers and fillets are often too small to read at the
+ * scale chosen for the whole part. Each one is circled in the view that
+ * shows its profile, labelled with a letter and drawn again enlarged:
+ * 1. Find subtraction tools that form small features
+ * 2. Pick the parent view looking along the feature's longest extent
+ * 3. Enclose the feature in a callout circle (overlapping circles merge)
+ * 4. Clip the parent view's curves to the circle for the enlarged view
+ */
+
+import { Box3, Vector3, type BufferAttribute, type Matrix4 } from 'three'
+import type { PartRecipe, Primitive } from '../types/part'
+import type { CurveEdge } from './edges'
+import { towardViewer, type ViewEdges } from './projection'
+import { resolvePrimitives, VIEW_LETTERS, type Point2D } from './sections'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+
+export type DetailParentView = 'front' | 'top' | 'right'
+
+/**
+ * Enlarged view of a small region of an orthographic view
+ */
+export interface DetailView {
+  /** Letter of the detail (continues after the section letters) */
+  id: string
+
+  /** Label for the detail view (e.g., "DETAIL C"); the scale is added when rendering */
+  label: string
+
+  /** View the region is circled in */
+  parentView: DetailParentView
+
+  /** Centre of the callout circle (parent view-plane mm, y up) */
+  center: Point2D
+
+  /** Radius of the callout circle (mm) */
+  radius: number
+
+  /** Smallest extent of the features inside (mm), used to choose the enlargement */
+  featureSize: number
+
+  /** Tool primitives shown in the detail */
+  primitiveIds: string[]
+}
+
+/**
+ * Small feature found in the recipe
+ */
+interface SmallFeature {
+  primitive: Primitive
+  kind: 'countersink' | 'chamfer' | 'fillet'
+  /** Part of the tool inside the part's bounding box */
+  bounds: Box3
+  size: number
+}
+
+/** Features smaller than this on paper (mm) leave no room for their dimensions (3.5 mm text) */
+export const MIN_LEGIBLE_SIZE = 5
+
+/** Most detail views generated for one drawing */
+export const MAX_DETAILS = 2
+
+// The callout circle leaves this much room around the feature
+const CALLOUT_MARGIN = 1.25
+
+// Extents closer than this (mm) reach a face of the part
+const FACE_TOLERANCE = 0.01
+
+/**
+ * Select detail views for features that are too small at the sheet scale
+ *
+ * Features are found among the subtraction tools:
+ * - countersinks: cone tools
+ * - chamfers: box tools turned off the part axes
+ * - fillets: cylinder tools rounding an edge (reaching two side faces)
+ * Identical tools (same kind and size) are shown once.
+ *
+ * @param recipe - Part recipe
+ * @param sheetScale - Scale of the orthographic views
+ * @param viewMatrices - Rotation from part space into each orthographic view
+ * @param firstIndex - Index of the first letter (letters already used by sections are skipped)
+ * @param maxDetails - Most details to return
+ * @returns Detail views lettered from firstIndex
+ */
+export function selectDetailViews(
+  recipe: PartRecipe,
+  sheetScale: number,
+  viewMatrices: Record<DetailParentView, Matrix4>,
+  firstIndex: number = 0,
+  maxDetails: number = MAX_DETAILS
+): DetailView[] {
+  const seen = new Set<string>()
+  const regions: Array<Omit<DetailView, 'id' | 'label'>> = []
+
+  for (const feature of findSmallFeatures(recipe)) {
+    if (feature.size * sheetScale >= MIN_LEGIBLE_SIZE) continue
+    const signature = JSON.stringify([feature.kind, feature.primitive.params])
+    if (seen.has(signature)) continue
+    seen.add(signature)
+
+    // The profile shows in the view looking along the feature's longest extent
+    const extent = feature.bounds.getSize(new Vector3())
+    const parentView = (Object.keys(viewMatrices) as DetailParentView[]).reduce((best, view) =>
+      Math.abs(towardViewer(viewMatrices[view]).dot(extent)) > Math.abs(towardViewer(viewMatrices[best]).dot(extent)) ? view : best)
+    const matrix = viewMatrices[parentView]
+
+    const center3 = feature.bounds.getCenter(new Vector3()).applyMatrix4(matrix)
+    const center = { x: center3.x, y: center3.y }
+    const reach = corners(feature.bounds).reduce((max, corner) => {
+      const p = corner.applyMatrix4(matrix)
+      return Math.max(max, Math.hypot(p.x - center.x, p.y - center.y))
+    }, 0)
+    const region = { parentView, center, radius: Math.max(reach * CALLOUT_MARGIN, 2 * feature.size), featureSize: feature.size, primitiveIds: [feature.primitive.id] }
+
+    // Overlapping callouts in the same view become one circle around both
+    const overlapping = regions.find(other => other.parentView === parentView &&
+      Math.hypot(other.center.x - center.x, other.center.y - center.y) < other.radius + region.radius)
+    if (overlapping) {
+      Object.assign(overlapping, mergeRegions(overlapping, region))
+    } else if (regions.length < maxDetails) {
+      regions.push(region)
+    }
+  }
+
+  return regions.map((region, i) => {
+    const id = VIEW_LETTERS[(firstIndex + i) % VIEW_LETTERS.length]
+    return { id, label: `DETAIL ${id}`, ...region }
+  })
+}
+
+/**
+ * Keep the parts of a view's curves inside a detail's callout circle
+ * Lines are cut at the circle; arcs and circles crossing it are flattened first.
+ *
+ * @param edges - Curves of the parent view (view-plane mm)
+ * @param center - Centre of the circle
+ * @param radius - Radius of the circle
+ */
+export function clipViewEdgesToCircle(edges: ViewEdges, center: Point2D, radius: number): ViewEdges {
+  const clip = (curves: CurveEdge[]): CurveEdge[] => curves.flatMap(curve => {
+    if (curve.kind === 'line') return clipLine(curve.start, curve.end, center, radius)
+
+    const distance = Math.hypot(curve.center.x - center.x, curve.center.y - center.y)
+    if (distance + curve.radius <= radius) return [curve]
+    if (distance >= radius + curve.radius) return []
+
+    const from = curve.kind === 'arc' ? Math.atan2(curve.start.y - curve.center.y, curve.start.x - curve.center.x) : 0
+    const sweep = curve.kind === 'arc' ? curve.sweep : 2 * Math.PI
+    const steps = Math.ceil(sweep / (Math.PI / 32))
+    const points = Array.from({ length: steps + 1 }, (_, i) => {
+      const angle = from + (i / steps) * sweep
+      return new Vector3(curve.center.x + curve.radius * Math.cos(angle), curve.center.y + curve.radius * Math.sin(angle), 0)
+    })
+    return points.slice(1).flatMap((point, i) => clipLine(points[i], point, center, radius))
+  })
+
+  return { visible: clip(edges.visible), hidden: clip(edges.hidden) }
+}
+
+// Countersinks, chamfers and fillets among the subtraction tools, clipped to the part
+function findSmallFeatures(recipe: PartRecipe): SmallFeature[] {
+  const half = new Vector3(recipe.bounding_mm.x, recipe.bounding_mm.y, recipe.bounding_mm.z).multiplyScalar(0.5)
+  const part = new Box3(half.clone().negate(), half)
+  const features: SmallFeature[] = []
+
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const primitive of resolvePrimitives(recipe, op.toolId)) {
+      const matrix = primitiveMatrix(primitive)
+      const tool = new Box3().setFromBufferAttribute(
+        createPrimitiveGeometry(primitive).applyMatrix4(matrix).getAttribute('position') as BufferAttribute
+      )
+      const bounds = tool.clone().intersect(part)
+      if (bounds.isEmpty()) continue
+      const extent = bounds.getSize(new Vector3())
+      const size = Math.min(extent.x, extent.y, extent.z)
+
+      if (primitive.kind === 'cone') {
+        features.push({ primitive, kind: 'countersink', bounds, size })
+      } else if (primitive.kind === 'box' && !alignedWithAxes(matrix)) {
+        features.push({ primitive, kind: 'chamfer', bounds, size })
+      } else if (primitive.kind === 'cylinder') {
+        // A fillet tool reaches two faces of the part beside its axis
+        const axis = new Vector3(0, 1, 0).transformDirection(matrix)
+        const faces = (['x', 'y', 'z'] as const).filter(key => Math.abs(axis[key]) < 1e-3 &&
+          (tool.min[key] <= part.min[key] + FACE_TOLERANCE || tool.max[key] >= part.max[key] - FACE_TOLERANCE))
+        if (faces.length >= 2) features.push({ primitive, kind: 'fillet', bounds, size })
+      }
+    }
+  }
+
+  return features
+}
+
+// Whether a primitive's own axes are parallel to the part axes
+function alignedWithAxes(matrix: Matrix4): boolean {
+  return [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)].every(axis => {
+    const d = axis.transformDirection(matrix)
+    return Math.max(Math.abs(d.x), Math.abs(d.y), Math.abs(d.z)) > 1 - 1e-6
+  })
+}
+
+function corners(box: Box3): Vector3[] {
+  return [0, 1, 2, 3, 4, 5, 6, 7].map(i => new Vector3(
+    i & 1 ? box.max.x : box.min.x,
+    i & 2 ? box.max.y : box.min.y,
+    i & 4 ? box.max.z : box.min.z
+  ))
+}
+
+// Smallest circle around two circles
+function mergeRegions(
+  a: { center: Point2D; radius: number; featureSize: number; primitiveIds: string[] },
+  b: { center: Point2D; radius: number; featureSize: number; primitiveIds: string[] }
+): { center: Point2D; radius: number; featureSize: number; primitiveIds: string[] } {
+  const shared = { featureSize: Math.min(a.featureSize, b.featureSize), primitiveIds: [...a.primitiveIds, ...b.primitiveIds] }
+  const d = Math.hypot(b.center.x - a.center.x, b.center.y - a.center.y)
+  if (d + b.radius <= a.radius) return { center: a.center, radius: a.radius, ...shared }
+  if (d + a.radius <= b.radius) return { center: b.center, radius: b.radius, ...shared }
+
+  const radius = (d + a.radius + b.radius) / 2
+  const t = (radius - a.radius) / d
+  return {
+    center: { x: a.center.x + (b.center.x - a.center.x) * t, y: a.center.y + (b.center.y - a.center.y) * t },
+    radius,
+    ...shared
+  }
+}
+
+// Part of a line segment inside a circle
+function clipLine(start: Vector3, end: Vector3, center: Point2D, radius: number): CurveEdge[] {
+  const d = end.clone().sub(start)
+  const f = { x: start.x - center.x, y: start.y - center.y }
+  const a = d.x * d.x + d.y * d.y
+  if (a < 1e-12) return []
+  const b = 2 * (f.x * d.x + f.y * d.y)
+  const c = f.x * f.x + f.y * f.y - radius * radius
+  const discriminant = b * b - 4 * a * c
+  if (discriminant <= 0) return []
+
+  const root = Math.sqrt(discriminant)
+  const t0 = Math.max(0, (-b - root) / (2 * a))
+  const t1 = Math.min(1, (-b + root) / (2 * a))
+  if (t1 - t0 < 1e-9) return []
+
+  return [{
+    kind: 'line',
+    start: start.clone().addScaledVector(d, t0),
+    end: start.clone().addScaledVector(d, t1)
+  }]
+}
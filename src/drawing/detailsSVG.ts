@@ -0,0 +1,61 @@
+/**
+ * SVG rendering for detail views (ISO 128-30)
+ *
+ * Generates SVG elements for:
+ * - Callout circles in the parent view (thin continuous line, letter beside it)
+ * - The boundary and label of the enlarged view (DETAIL C (5:1))
+ *
+ * The curves inside a detail are drawn like any other view.
+ */
+
+import type { DetailView } from './details'
+import { LineType, LINE_STYLES, type LineStyle } from './lineTypes'
+
+/**
+ * Render the callout circle of a detail in its parent view
+ *
+ * @param detail - Detail view
+ * @param scale - Drawing scale of the parent view (SVG units per mm)
+ * @param styles - Line styles of the drawing standard
+ * @returns SVG group, in parent view coordinates around the view centre
+ */
+export function renderDetailCallout(detail: DetailView, scale: number, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
+  const style = styles[LineType.DIMENSION]
+  const cx = detail.center.x * scale
+  const cy = -detail.center.y * scale // Flip Y for SVG coords
+  const r = detail.radius * scale
+
+  // Letter outside the circle, up and to the right
+  const offset = r + 6
+  const lx = cx + offset * Math.SQRT1_2
+  const ly = cy - offset * Math.SQRT1_2
+
+  return `
+        <g class="detail-callout" data-id="${detail.id}">
+          <circle cx="${cx.toFixed(2)}" cy="${cy.toFixed(2)}" r="${r.toFixed(2)}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" />
+          <text x="${lx.toFixed(2)}" y="${ly.toFixed(2)}" font-family="sans-serif" font-size="8" font-weight="bold" text-anchor="middle" dominant-baseline="middle">${detail.id}</text>
+        </g>`
+}
+
+/**
+ * Render the boundary circle and label of an enlarged detail view
+ *
+ * @param detail - Detail view
+ * @param scale - Drawing scale of the detail (SVG units per mm)
+ * @param scaleLabel - Scale of the detail (e.g., "5:1")
+ * @param styles - Line styles of the drawing standard
+ * @returns SVG elements, centred on the origin of the detail group
+ */
+export function renderDetailFrame(
+  detail: DetailView,
+  scale: number,
+  scaleLabel: string,
+  styles: Record<LineType, LineStyle> = LINE_STYLES
+): string {
+  const style = styles[LineType.DIMENSION]
+  const r = detail.radius * scale
+
+  return `
+        <circle class="detail-boundary" cx="0" cy="0" r="${r.toFixed(2)}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" />
+        <text x="0" y="${(-r - 6).toFixed(2)}" font-family="sans-serif" font-size="8" text-anchor="middle">${detail.label} (${scaleLabel})</text>`
+}
@@ -4,13 +4,26 @@
  * Implements ISO 129-1:2018 dimensioning standards:
  * - Linear dimensions (horizontal, vertical, aligned)
  * - Radial dimensions (radius R, diameter Ø)
- * - Angular dimensions
+ * - Angular dimensions for inclined holes, countersinks and tapers
+ * - Hole callouts for drilled, counterbored and countersunk holes and patterns
+ * - Chamfer notes (C2, 2 × 30°)
+ * - Location dimensions for features: chain, baseline or ordinate from a datum corner
+ * - ISO 286-1 fits on bores and shafts (Ø20 H7, Ø40 g6)
+ * - Values in millimetres or decimal inches (ASME Y14.5), text aligned with
+ *   the dimension lines or unidirectional
  * - Automatic placement with collision detection
  * 
  * @see docs/specs/iso-drawing-standards.md
  */
 
+import { Box3, Vector3, type BufferAttribute } from 'three'
 import type { PartRecipe } from '../types/part'
+import { bodyBounds, findHoleFeatures, groupHolePatterns, patternLayout, subtractedPrimitiveIds, toolPrimitiveIds, type HoleFeature } from './holes'
+import { exitPoint, findChamferFeatures, findConeFeatures, findInclinedHoles, inclinedHoleExits, type ChamferFeature } from './angles'
+import { ORTHOGRAPHIC_MATRICES, towardViewer, type OrthographicView } from './projection'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+import { fitTolerance, ISO_286_MAX_SIZE, readFit, toleranceLength, type GeneralToleranceClass, type Tolerance } from './tolerances'
+import { findThreads, formatThreadDesignation, readThread, type ThreadFeature } from './threads'
 
 // ============================================================================
 // Type Definitions
@@ -51,12 +64,15 @@ export interface ExtensionLine {
  */
 export interface Dimension {
   id: string
-  type: 'linear' | 'radial' | 'angular'
+  type: 'linear' | 'radial' | 'angular' | 'callout' | 'chamfer' | 'ordinate'
   value: number           // The measured value
   text: string           // Formatted dimension text (e.g., "50", "Ø20", "R10")
   position: Point2D      // Text position
   view: 'front' | 'top' | 'right'  // Which view this dimension appears in
   priority: number       // For collision resolution (higher = more important)
+  row?: string           // Dimensions laid out as one row (a chain, ordinates): not checked against each other, moved together
+  primitiveIds?: string[] // Primitives whose size or angle the dimension gives
+  tolerance?: Tolerance  // Written after the text; without one the general tolerance applies
 }
 
 /**
@@ -95,7 +111,8 @@ export interface RadialDimension extends Dimension {
 
 /**
  * Angular dimension
- * ISO 6410-1: Arc between two lines with arrowheads
+ * ISO 129-1: Arc between two lines with arrowheads; the lines are extended
+ * from the vertex past the arc
  */
 export interface AngularDimension extends Dimension {
   type: 'angular'
@@ -110,8 +127,67 @@ export interface AngularDimension extends Dimension {
     endAngle: number
   }
   arrowheads: [Arrowhead, Arrowhead]
+  extensionLines: [ExtensionLine, ExtensionLine]  // Along startAngle and endAngle
 }
 
+/**
+ * Hole callout: a leader to one hole of a pattern and a note giving the
+ * count, size and depth of the holes with their counterbore or countersink
+ * ISO 129-1 / ASME Y14.5 (e.g., "4× Ø8 THRU", "⌴ Ø14 ↧6", "⌵ Ø16 × 90°")
+ */
+export interface HoleCallout extends Dimension {
+  type: 'callout'
+  lines: string[]        // Note, one line per feature of the hole
+  count: number          // Number of identical holes called out
+  center: Point2D        // Centre of the hole the leader points at
+  radius: number         // Radius of that hole
+  leaderLine: {
+    start: Point2D       // On the hole (arrowhead)
+    end: Point2D         // Outside the part, where the shoulder starts
+  }
+  shoulder: Point2D      // End of the horizontal shoulder, where the note starts
+  primitiveIds: string[] // Tools of all holes called out
+  pitchCircle?: {        // Circle a bolt circle's holes lie on; the note gives its diameter (PCD)
+    center: Point2D
+    radius: number
+  }
+}
+
+/**
+ * Ordinate dimension: the distance of a feature from the datum, written at
+ * the end of an extension line from the feature (ISO 129-1 running dimensions)
+ */
+export interface OrdinateDimension extends Dimension {
+  type: 'ordinate'
+  axis: 'x' | 'y'              // Coordinate given; x values are written vertically
+  origin: Point2D              // Datum corner the values are measured from
+  extensionLine: ExtensionLine // From the feature to the value
+}
+
+/**
+ * Chamfer note: a leader to the chamfer and its size, "C2" for 45° chamfers
+ * or "2 × 30°" (ISO 129-1)
+ */
+export interface ChamferNote extends Dimension {
+  type: 'chamfer'
+  count: number          // Number of identical chamfers noted
+  leaderLine: {
+    start: Point2D       // On the chamfer (arrowhead)
+    end: Point2D         // Outside the part, where the shoulder starts
+  }
+  shoulder: Point2D      // End of the horizontal shoulder, where the note starts
+  primitiveIds: string[] // Tools of all chamfers noted
+}
+
+/**
+ * Symbols used in hole callouts (ASME Y14.5, ISO 129-1)
+ */
+export const HOLE_SYMBOLS = {
+  counterbore: '⌴',
+  countersink: '⌵',
+  depth: '↧'
+} as const
+
 /**
  * Bounding box for collision detection
  */
@@ -143,15 +219,54 @@ export interface DimensionConfig {
   
   // Text formatting
   textHeight: number              // mm, typically 3.5
-  decimalPlaces: number           // 0 for integers, 1-2 for decimals
+  decimalPlaces: number           // 0 for integers, 1-2 for decimals; inch values always show them all
+  units: DimensionUnits           // Unit of the values written; geometry stays in mm
+  textOrientation: TextOrientation  // How text along vertical dimension lines reads
   
   // Feature detection thresholds
   minDimensionValue: number       // mm, don't dimension features < this
   
   // View preferences
   preferredView: 'front' | 'top' | 'right'
+  
+  // Location dimensions (ISO 129-1)
+  locationStyle: LocationStyle    // How feature positions are dimensioned
+  locationDatum: LocationDatum    // Corner of each view they are measured from
+  
+  // Tolerances (ISO 286-1, ISO 2768-1)
+  boreFit: string                 // Class of bearing and locating bores, typically 'H7'; '' for none
+  shaftFit: string                // Class of turned diameters, typically 'g6'; '' for none
+  generalTolerance: GeneralToleranceClass  // For all other dimensions, typically 'm'
 }
 
+/**
+ * Unit of dimension values: millimetres, or decimal inches (ASME Y14.5)
+ */
+export type DimensionUnits = 'mm' | 'in'
+
+/**
+ * Reading direction of dimension text
+ * - aligned: along the dimension line, read from the bottom or the right (ISO 129-1)
+ * - unidirectional: always horizontal, read from the bottom (ASME Y14.5)
+ */
+export type TextOrientation = 'aligned' | 'unidirectional'
+
+/** Millimetres per inch */
+export const MM_PER_INCH = 25.4
+
+/**
+ * Arrangement of location dimensions (ISO 129-1)
+ * - chain: from the datum to the first feature, then feature to feature
+ * - baseline: every feature from the datum (parallel dimensions)
+ * - ordinate: one value per feature, measured from the datum (running dimensions)
+ */
+export type LocationStyle = 'chain' | 'baseline' | 'ordinate'
+
+/**
+ * Datum corner of a view; its two edges are the datum edges
+ */
+export type LocationDatum = 'lower-left' | 'lower-right' | 'upper-left' | 'upper-right'
+
 /**
  * Default ISO-compliant dimension configuration
  */
@@ -165,8 +280,15 @@ export const DEFAULT_DIMENSION_CONFIG: DimensionConfig = {
   extensionLineOverhang: 3,
   textHeight: 3.5,
   decimalPlaces: 1,
+  units: 'mm',
+  textOrientation: 'aligned',
   minDimensionValue: 1,
-  preferredView: 'front'
+  preferredView: 'front',
+  locationStyle: 'baseline',
+  locationDatum: 'lower-left',
+  boreFit: 'H7',
+  shaftFit: 'g6',
+  generalTolerance: 'm'
 }
 
 // ============================================================================
@@ -177,10 +299,13 @@ export const DEFAULT_DIMENSION_CONFIG: DimensionConfig = {
  * Generate all dimensions for a part recipe
  * 
  * Strategy:
- * 1. Overall dimensions (bounding box)
- * 2. Feature dimensions (holes, pockets)
- * 3. Spacing dimensions (hole patterns)
- * 4. Optimize placement and resolve collisions
+ * 1. Overall dimensions (bounding box), each size once
+ * 2. Feature dimensions (bosses, pockets)
+ * 3. Hole callouts, one per pattern of identical holes
+ * 4. Angles of inclined holes, countersinks and tapers
+ * 5. Chamfer notes
+ * 6. Location dimensions for the features, from the datum corner
+ * 7. Optimize placement and resolve collisions
  */
 export function generateDimensions(
   recipe: PartRecipe,
@@ -191,130 +316,101 @@ export function generateDimensions(
   // 1. Overall bounding box dimensions (highest priority)
   dimensions.push(...generateBoundingBoxDimensions(recipe, config))
   
-  // 2. Feature dimensions (holes, bosses)
-  dimensions.push(...generateFeatureDimensions(recipe, config))
+  // 2. Feature dimensions (bosses); holes are called out instead
+  const holes = findHoleFeatures(recipe)
+  dimensions.push(...generateFeatureDimensions(recipe, config, new Set(holes.flatMap(hole => hole.primitiveIds))))
   
-  // 3. Resolve collisions between dimensions (Phase 3.4 - 2D-23)
+  // 3. Hole callouts
+  dimensions.push(...generateHoleCallouts(recipe, holes, config))
+  
+  // 4. Angular dimensions
+  dimensions.push(...generateAngularDimensions(recipe, config))
+  
+  // 5. Chamfer notes
+  dimensions.push(...generateChamferNotes(recipe, config))
+  
+  // 6. Location dimensions
+  dimensions.push(...generateLocationDimensions(recipe, holes, config))
+  
+  // 7. Resolve collisions between dimensions (Phase 3.4 - 2D-23)
   const resolved = resolveCollisions(dimensions, config)
   
   return resolved
 }
 
 /**
- * Generate dimensions for overall part bounding box
- * Creates horizontal, vertical, and depth dimensions
+ * Generate the overall dimensions of the part, each size once: width and
+ * depth in the front view, height in the top view. They span the body's
+ * outline in the view.
  */
 function generateBoundingBoxDimensions(
   recipe: PartRecipe,
   config: DimensionConfig
 ): LinearDimension[] {
-  const { x: width, y: depth, z: height } = recipe.bounding_mm
-  const dimensions: LinearDimension[] = []
-  
-  // Front view: width (horizontal) and height (vertical)
-  // Place horizontal dimension first with standard offset
-  dimensions.push(
+  const body = bodyBounds(recipe)
+  const front = body.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES.front)
+  const top = body.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES.top)
+
+  // Vertical dimensions sit further out so their text clears the horizontal one
+  const verticalOffset = config.minOffsetFromOutline + config.minSpacingBetween + 4
+  return [
     createLinearDimension({
       id: 'bbox-width-front',
       view: 'front',
       orientation: 'horizontal',
-      value: width,
-      start: { x: -width / 2, y: -height / 2 },
-      end: { x: width / 2, y: -height / 2 },
+      value: front.max.x - front.min.x,
+      start: { x: front.min.x, y: front.min.y },
+      end: { x: front.max.x, y: front.min.y },
       offset: config.minOffsetFromOutline,
       priority: 100,
       config
-    })
-  )
-  
-  // Place vertical dimension with larger offset to avoid corner collision
-  dimensions.push(
+    }),
     createLinearDimension({
-      id: 'bbox-height-front',
+      id: 'bbox-depth-front',
       view: 'front',
       orientation: 'vertical',
-      value: height,
-      start: { x: width / 2, y: -height / 2 },
-      end: { x: width / 2, y: height / 2 },
-      offset: config.minOffsetFromOutline + config.minSpacingBetween + 4, // Extra spacing to clear text
+      value: front.max.y - front.min.y,
+      start: { x: front.max.x, y: front.min.y },
+      end: { x: front.max.x, y: front.max.y },
+      offset: verticalOffset,
       priority: 100,
       config
-    })
-  )
-  
-  // Top view: width (horizontal) and depth (vertical)
-  dimensions.push(
+    }),
     createLinearDimension({
-      id: 'bbox-width-top',
+      id: 'bbox-height-top',
       view: 'top',
-      orientation: 'horizontal',
-      value: width,
-      start: { x: -width / 2, y: -depth / 2 },
-      end: { x: width / 2, y: -depth / 2 },
-      offset: config.minOffsetFromOutline,
-      priority: 100,
-      config
-    })
-  )
-  
-  dimensions.push(
-    createLinearDimension({
-      id: 'bbox-depth-top',
-      view: 'top',
-      orientation: 'vertical',
-      value: depth,
-      start: { x: width / 2, y: -depth / 2 },
-      end: { x: width / 2, y: depth / 2 },
-      offset: config.minOffsetFromOutline + config.minSpacingBetween + 4, // Extra spacing to clear text
-      priority: 100,
-      config
-    })
-  )
-  
-  // Right view: depth (horizontal) and height (vertical)
-  dimensions.push(
-    createLinearDimension({
-      id: 'bbox-depth-right',
-      view: 'right',
-      orientation: 'horizontal',
-      value: depth,
-      start: { x: -depth / 2, y: -height / 2 },
-      end: { x: depth / 2, y: -height / 2 },
-      offset: config.minOffsetFromOutline,
-      priority: 100,
-      config
-    })
-  )
-  
-  dimensions.push(
-    createLinearDimension({
-      id: 'bbox-height-right',
-      view: 'right',
       orientation: 'vertical',
-      value: height,
-      start: { x: depth / 2, y: -height / 2 },
-      end: { x: depth / 2, y: height / 2 },
-      offset: config.minOffsetFromOutline + config.minSpacingBetween + 4, // Extra spacing to clear text
+      value: top.max.y - top.min.y,
+      start: { x: top.max.x, y: top.min.y },
+      end: { x: top.max.x, y: top.max.y },
+      offset: verticalOffset,
       priority: 100,
       config
     })
-  )
-  
-  return dimensions
+  ]
 }
 
 /**
  * Generate dimensions for features (holes, pockets, bosses)
+ * Primitives in `calledOut` belong to holes with a callout and get no diameter of their own.
+ * A cylinder trimming the body (an intersection tool) is dimensioned as the
+ * radius of its arc. The shaft fit goes on turned diameters only: a cylinder
+ * that is the body itself rather than a tool, or one the recipe marks as a
+ * bearing or locating journal; bosses keep the general tolerance.
  */
 function generateFeatureDimensions(
   recipe: PartRecipe,
-  config: DimensionConfig
+  config: DimensionConfig,
+  calledOut: Set<string> = new Set()
 ): Dimension[] {
   const dimensions: Dimension[] = []
+  const subtracted = subtractedPrimitiveIds(recipe)
+  const trims = toolPrimitiveIds(recipe, 'intersect')
+  const joined = toolPrimitiveIds(recipe, 'union')
   
   // Find cylindrical features (holes, bosses)
   for (const primitive of recipe.primitives) {
-    if (primitive.kind === 'cylinder') {
+    if (primitive.kind === 'cylinder' && !calledOut.has(primitive.id)) {
       // Type-safe access to cylinder params
       if (!('radius' in primitive.params)) continue
       
@@ -326,54 +422,548 @@ function generateFeatureDimensions(
       
       // Determine which view shows the cylinder as a circle
       const axis = ('axis' in primitive.params ? primitive.params.axis as string : null) || 'y'
+      // A threaded shaft is called out by its designation instead of a fit
+      const trim = trims.has(primitive.id)
+      const thread = subtracted.has(primitive.id) || trim ? undefined : readThread(primitive)
+      const turned = !joined.has(primitive.id) || readFit(primitive) !== undefined
+      const shaft = subtracted.has(primitive.id) || trim || thread || !turned ? undefined : fitFor(radius * 2, config.shaftFit, config)
+      const subtype = trim ? 'radius' : 'diameter'
+      const count = dimensions.length
       
       // Create diameter dimension
       if (axis === 'z') {
         // Cylinder along Z axis - shows as circle in top view
         dimensions.push(
-          createRadialDimension({
-            id: `cylinder-${primitive.id}`,
-            view: 'top',
-            subtype: 'diameter',
-            center: { x: position.x, y: position.y },
-            radius: radius,
-            priority: 80,
-            config
-          })
+          {
+            ...createRadialDimension({
+              id: `cylinder-${primitive.id}`,
+              view: 'top',
+              subtype,
+              center: { x: position.x, y: position.y },
+              radius: radius,
+              priority: 80,
+              config
+            }),
+            primitiveIds: [primitive.id]
+          }
         )
       } else if (axis === 'y') {
         // Cylinder along Y axis - shows as circle in front view
         dimensions.push(
-          createRadialDimension({
-            id: `cylinder-${primitive.id}`,
-            view: 'front',
-            subtype: 'diameter',
-            center: { x: position.x, y: position.z },
-            radius: radius,
-            priority: 80,
-            config
-          })
+          {
+            ...createRadialDimension({
+              id: `cylinder-${primitive.id}`,
+              view: 'front',
+              subtype,
+              center: { x: position.x, y: position.z },
+              radius: radius,
+              priority: 80,
+              config
+            }),
+            primitiveIds: [primitive.id]
+          }
         )
       } else if (axis === 'x') {
         // Cylinder along X axis - shows as circle in right view
         dimensions.push(
-          createRadialDimension({
-            id: `cylinder-${primitive.id}`,
-            view: 'right',
-            subtype: 'diameter',
-            center: { x: position.y, y: position.z },
-            radius: radius,
-            priority: 80,
-            config
-          })
+          {
+            ...createRadialDimension({
+              id: `cylinder-${primitive.id}`,
+              view: 'right',
+              subtype,
+              center: { x: position.y, y: position.z },
+              radius: radius,
+              priority: 80,
+              config
+            }),
+            primitiveIds: [primitive.id]
+          }
         )
       }
+      if (shaft && dimensions.length > count) dimensions[count].tolerance = shaft
+      if (thread && dimensions.length > count) dimensions[count].text = formatThreadDesignation(thread)
     }
   }
   
   return dimensions
 }
 
+/**
+ * ISO 286-1 tolerance of a bore or shaft; none when the class is unset, the
+ * size is beyond the tables or the drawing is in inches (the deviations are metric)
+ */
+function fitFor(diameter: number, designation: string, config: DimensionConfig): Tolerance | undefined {
+  if (!designation || diameter > ISO_286_MAX_SIZE || config.units !== 'mm') return undefined
+  return fitTolerance(diameter, designation)
+}
+
+// ============================================================================
+// Hole Callouts
+// ============================================================================
+
+// Horizontal shoulder between the leader and the note (mm)
+const CALLOUT_SHOULDER_LENGTH = 6
+
+/** Distance between the lines of a callout note, in text heights */
+export const CALLOUT_LINE_SPACING = 1.5
+
+/**
+ * Generate one callout per pattern of identical holes
+ *
+ * The callout goes in the view looking down the holes, where they show as
+ * circles. Its leader points at the hole nearest the outline and runs out
+ * at 45° past it, so the note stays clear of the part.
+ */
+function generateHoleCallouts(
+  recipe: PartRecipe,
+  holes: HoleFeature[],
+  config: DimensionConfig
+): HoleCallout[] {
+  const body = bodyBounds(recipe)
+  const threads = findThreads(recipe)
+  const callouts: HoleCallout[] = []
+
+  for (const pattern of groupHolePatterns(holes)) {
+    const [first] = pattern
+    const view = (Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]).find(name =>
+      Math.abs(towardViewer(ORTHOGRAPHIC_MATRICES[name]).dot(first.axis)) > 1 - 1e-6)
+    if (!view) continue
+    const matrix = ORTHOGRAPHIC_MATRICES[view]
+
+    // Extent of the part in the view
+    const outline = body.clone().applyMatrix4(matrix)
+
+    // Distance along the leader from each hole centre to the outline
+    const targets = pattern.map(hole => {
+      const c = hole.center.clone().applyMatrix4(matrix)
+      const side = c.x >= 0 ? 1 : -1
+      const across = side > 0 ? outline.max.x - c.x : c.x - outline.min.x
+      return { center: { x: c.x, y: c.y }, side, exit: Math.min(across, outline.max.y - c.y) * Math.SQRT2 }
+    })
+    const { center, side, exit } = targets.reduce((best, target) => target.exit < best.exit ? target : best)
+
+    const radius = first.diameter / 2
+    const direction = { x: side * Math.SQRT1_2, y: Math.SQRT1_2 }
+    const reach = Math.max(exit, radius) + config.minOffsetFromOutline
+    const end = { x: center.x + direction.x * reach, y: center.y + direction.y * reach }
+    const shoulder = { x: end.x + side * CALLOUT_SHOULDER_LENGTH, y: end.y }
+    const layout = patternLayout(pattern)
+    let pitchCircle: HoleCallout['pitchCircle']
+    if (layout?.kind === 'circular') {
+      const c = layout.center.clone().applyMatrix4(matrix)
+      pitchCircle = { center: { x: c.x, y: c.y }, radius: layout.radius }
+    }
+    // A plain through hole the recipe marks as a bearing or locating bore gets the bore fit
+    const thread = threads.find(t => t.primitiveId === first.primitiveIds[0])
+    const plain = first.depth === undefined && !first.counterbore && !first.countersink && !thread
+    const fitted = recipe.primitives.some(p => p.id === first.primitiveIds[0] && readFit(p) !== undefined)
+    const bore = plain && fitted ? fitFor(first.diameter, config.boreFit, config) : undefined
+    const lines = formatHoleCallout(pattern, config, pitchCircle?.radius, bore, thread)
+
+    const callout: HoleCallout = {
+      id: `hole-${first.primitiveIds[0]}`,
+      type: 'callout',
+      value: first.diameter,
+      text: lines.join(' '),
+      position: shoulder,
+      view,
+      priority: 80,
+      lines,
+      count: pattern.length,
+      center,
+      radius,
+      leaderLine: {
+        start: { x: center.x + direction.x * radius, y: center.y + direction.y * radius },
+        end
+      },
+      shoulder,
+      primitiveIds: pattern.flatMap(hole => hole.primitiveIds)
+    }
+    if (pitchCircle) callout.pitchCircle = pitchCircle
+    if (bore) callout.tolerance = bore
+    callouts.push(callout)
+  }
+
+  return callouts
+}
+
+/**
+ * Note of a hole callout: count, diameter, fit and depth of the hole, and the
+ * pitch circle of a bolt circle, then its counterbore or countersink
+ * (e.g., "4× Ø8 THRU", "Ø20 H7 THRU", "6× Ø8 THRU on PCD Ø50", "⌴ Ø14 ↧6", "⌵ Ø16 × 90°").
+ * A tapped hole leads with its thread and depth, then its tap drill when
+ * that runs deeper (e.g., "M8×1.25 - 6H ↧12", "Ø6.8 ↧16").
+ */
+function formatHoleCallout(pattern: HoleFeature[], config: DimensionConfig, pitchRadius?: number, tolerance?: Tolerance, thread?: ThreadFeature): string[] {
+  const [hole] = pattern
+  const format = (value: number) => formatLength(value, config)
+  const count = pattern.length > 1 ? `${pattern.length}× ` : ''
+  const depth = hole.depth === undefined ? 'THRU' : `${HOLE_SYMBOLS.depth}${format(hole.depth)}`
+
+  const pcd = pitchRadius === undefined ? '' : ` on PCD Ø${format(2 * pitchRadius)}`
+  const fit = tolerance?.type === 'fit' && tolerance.hole ? ` ${tolerance.hole.designation}` : ''
+  const lines: string[] = []
+  if (thread) {
+    // A thread running the whole hole takes the hole's depth
+    const full = thread.thread.depth >= thread.length
+    lines.push(`${count}${formatThreadDesignation(thread.thread)} ${full ? depth : `${HOLE_SYMBOLS.depth}${format(thread.thread.depth)}`}${pcd}`)
+    if (!full) lines.push(`Ø${format(hole.diameter)} ${depth}`)
+  } else {
+    lines.push(`${count}Ø${format(hole.diameter)}${fit} ${depth}${pcd}`)
+  }
+  if (hole.counterbore) {
+    lines.push(`${HOLE_SYMBOLS.counterbore} Ø${format(hole.counterbore.diameter)} ${HOLE_SYMBOLS.depth}${format(hole.counterbore.depth)}`)
+  }
+  if (hole.countersink) {
+    lines.push(`${HOLE_SYMBOLS.countersink} Ø${format(hole.countersink.diameter)} × ${hole.countersink.angle}°`)
+  }
+  return lines
+}
+
+// ============================================================================
+// Angular Dimensions and Chamfer Notes
+// ============================================================================
+
+// Most views an inclined hole's angle is given in; two views fix a compound angle
+const MAX_ANGLE_VIEWS = 2
+
+// Projected angles smaller than this (degrees) are not dimensioned
+const MIN_ANGLE = 0.5
+
+/**
+ * Generate angular dimensions for inclined holes and cones
+ *
+ * - Inclined holes: the angle between the axis and the nearest part axis, in
+ *   the views showing the axis longest. The vertex is where the axis leaves
+ *   the part, so the arc lies outside it.
+ * - Cones: the included angle, in the first view seeing the cone from the
+ *   side. The arc opens away from the material: past the wide end of a
+ *   countersink, beyond the apex of a tapered body. Identical cones (a
+ *   countersunk pattern) are dimensioned once.
+ */
+function generateAngularDimensions(
+  recipe: PartRecipe,
+  config: DimensionConfig
+): AngularDimension[] {
+  const body = bodyBounds(recipe)
+  const views = Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]
+  const dimensions: AngularDimension[] = []
+
+  for (const hole of findInclinedHoles(recipe)) {
+    const shown = views
+      .map(view => {
+        const projected = hole.axis.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+        const length = Math.hypot(projected.x, projected.y)
+        return { view, x: projected.x / length, y: projected.y / length, length }
+      })
+      .filter(({ x, y, length }) => length > 1e-3 && (Math.acos(Math.min(1, Math.max(Math.abs(x), Math.abs(y)))) * 180) / Math.PI >= MIN_ANGLE)
+      .sort((a, b) => b.length - a.length)
+      .slice(0, MAX_ANGLE_VIEWS)
+
+    for (const { view, x, y } of shown) {
+      // Measured from the nearest view axis; the axis is taken in the direction running along it
+      const sign = Math.abs(x) >= Math.abs(y) ? Math.sign(x) : Math.sign(y)
+      const reference = Math.abs(x) >= Math.abs(y) ? 0 : Math.PI / 2
+      const sweep = normalizeAngle(Math.atan2(y * sign, x * sign) - reference)
+
+      // Where the axis leaves the part's bounding box on that side
+      const vertex = exitPoint(body, hole.centers[0], hole.axis.clone().multiplyScalar(sign)).point.applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+
+      const startAngle = sweep > 0 ? reference : reference + sweep
+      dimensions.push({
+        ...createAngularDimension({
+          id: `angle-${hole.primitiveIds[0]}-${view}`,
+          view,
+          vertex: { x: vertex.x, y: vertex.y },
+          startAngle,
+          endAngle: startAngle + Math.abs(sweep),
+          radius: hole.radius + 2 * config.minOffsetFromOutline,
+          priority: 70,
+          config
+        }),
+        primitiveIds: hole.primitiveIds
+      })
+    }
+  }
+
+  const dimensioned = new Map<string, AngularDimension>()
+  for (const cone of findConeFeatures(recipe)) {
+    const signature = JSON.stringify([cone.subtracted, cone.axis.toArray().map(Math.round), Number(cone.angle.toFixed(2))])
+    const same = dimensioned.get(signature)
+    if (same) {
+      same.primitiveIds!.push(cone.primitiveId)
+      continue
+    }
+    const view = views.find(name => Math.abs(towardViewer(ORTHOGRAPHIC_MATRICES[name]).dot(cone.axis)) < 1e-6)
+    if (!view) continue
+
+    const matrix = ORTHOGRAPHIC_MATRICES[view]
+    const apex = cone.apex.clone().applyMatrix4(matrix)
+    const outward = cone.axis.clone().applyMatrix4(matrix).multiplyScalar(cone.subtracted ? 1 : -1)
+    const middle = Math.atan2(outward.y, outward.x)
+    const half = (cone.angle * Math.PI) / 360
+
+    // The flanks of a cut cone are extended from the wide end; a body's from the apex
+    const dimension: AngularDimension = {
+      ...createAngularDimension({
+        id: `cone-${cone.primitiveId}`,
+        view,
+        vertex: { x: apex.x, y: apex.y },
+        startAngle: middle - half,
+        endAngle: middle + half,
+        radius: (cone.subtracted ? cone.length / Math.cos(half) : 0) + config.minOffsetFromOutline,
+        from: cone.subtracted ? cone.length / Math.cos(half) : 0,
+        priority: 70,
+        config
+      }),
+      primitiveIds: [cone.primitiveId]
+    }
+    dimensioned.set(signature, dimension)
+    dimensions.push(dimension)
+  }
+
+  return dimensions
+}
+
+/**
+ * Generate one note per group of identical chamfers
+ *
+ * The note goes in the view looking along the chamfered edges, where the
+ * chamfer shows as a line across the corner. Its leader starts on that
+ * line and runs out past the corner.
+ */
+function generateChamferNotes(
+  recipe: PartRecipe,
+  config: DimensionConfig
+): ChamferNote[] {
+  const groups = new Map<string, ChamferFeature[]>()
+  for (const chamfer of findChamferFeatures(recipe)) {
+    const key = JSON.stringify([chamfer.edge.toArray(), [...chamfer.legs].sort((a, b) => a - b).map(leg => Number(leg.toFixed(2)))])
+    groups.set(key, [...(groups.get(key) ?? []), chamfer])
+  }
+
+  const notes: ChamferNote[] = []
+  for (const group of groups.values()) {
+    const [first] = group
+    const view = (Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]).find(name =>
+      Math.abs(towardViewer(ORTHOGRAPHIC_MATRICES[name]).dot(first.edge)) > 1 - 1e-6)
+    if (!view) continue
+    const matrix = ORTHOGRAPHIC_MATRICES[view]
+
+    const corner = first.corner.clone().applyMatrix4(matrix)
+    const middle = first.corner.clone()
+      .addScaledVector(first.faces[0], first.legs[0] / 2)
+      .addScaledVector(first.faces[1], first.legs[1] / 2)
+      .applyMatrix4(matrix)
+    const outward = new Vector3().sub(first.faces[0]).sub(first.faces[1]).normalize().applyMatrix4(matrix)
+    const reach = Math.hypot(corner.x - middle.x, corner.y - middle.y) + config.minOffsetFromOutline
+
+    const side = outward.x >= 0 ? 1 : -1
+    const end = { x: middle.x + outward.x * reach, y: middle.y + outward.y * reach }
+    const shoulder = { x: end.x + side * CALLOUT_SHOULDER_LENGTH, y: end.y }
+
+    notes.push({
+      id: `chamfer-${first.primitiveId}`,
+      type: 'chamfer',
+      value: Math.max(...first.legs),
+      text: formatChamferNote(group, config),
+      position: shoulder,
+      view,
+      priority: 60,
+      count: group.length,
+      leaderLine: { start: { x: middle.x, y: middle.y }, end },
+      shoulder,
+      primitiveIds: group.map(chamfer => chamfer.primitiveId)
+    })
+  }
+
+  return notes
+}
+
+/**
+ * Note of a chamfer: "C2" when both faces lose the same length (45°),
+ * otherwise the longer length and the angle to that face ("2 × 30°")
+ */
+function formatChamferNote(group: ChamferFeature[], config: DimensionConfig): string {
+  const [{ legs }] = group
+  const format = (value: number) => formatLength(value, config)
+  const count = group.length > 1 ? `${group.length}× ` : ''
+  const long = Math.max(...legs)
+  const short = Math.min(...legs)
+
+  if (long - short < 0.01) return `${count}C${format(long)}`
+  return `${count}${format(long)} × ${formatDimensionValue((Math.atan(short / long) * 180) / Math.PI, config.decimalPlaces)}°`
+}
+
+// Angle in (-π, π]
+function normalizeAngle(angle: number): number {
+  const wrapped = angle % (2 * Math.PI)
+  if (wrapped > Math.PI) return wrapped - 2 * Math.PI
+  if (wrapped <= -Math.PI) return wrapped + 2 * Math.PI
+  return wrapped
+}
+
+// ============================================================================
+// Location Dimensions
+// ============================================================================
+
+/**
+ * Point locating a feature, in the view that shows the feature in plan
+ */
+interface FeatureLocation {
+  view: OrthographicView
+  point: Point2D
+}
+
+// Priority of location dimensions: placed after sizes, callouts and notes
+const LOCATION_PRIORITY = 50
+
+// Positions closer than this (mm) are the same
+const LOCATION_TOLERANCE = 0.01
+
+/**
+ * Generate location dimensions for the features of a part
+ *
+ * Positions are measured from the datum corner of each view
+ * (config.locationDatum), a corner of the evaluated solid's outline, so the
+ * datum edges are faces of the part: x positions above the view, y positions to its
+ * left, nearest the datum first. Features sharing a position share its
+ * dimension.
+ */
+function generateLocationDimensions(
+  recipe: PartRecipe,
+  holes: HoleFeature[],
+  config: DimensionConfig
+): Dimension[] {
+  const body = bodyBounds(recipe)
+  const byView = new Map<OrthographicView, Point2D[]>()
+  for (const { view, point } of findFeatureLocations(recipe, holes)) {
+    byView.set(view, [...(byView.get(view) ?? []), point])
+  }
+
+  const dimensions: Dimension[] = []
+  for (const [view, points] of byView) {
+    const outline = body.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+    const datum: Point2D = {
+      x: config.locationDatum.endsWith('left') ? outline.min.x : outline.max.x,
+      y: config.locationDatum.startsWith('lower') ? outline.min.y : outline.max.y
+    }
+
+    for (const axis of ['x', 'y'] as const) {
+      // One feature per position, nearest the datum first
+      const features: Point2D[] = []
+      for (const point of [...points].sort((a, b) => Math.abs(a[axis] - datum[axis]) - Math.abs(b[axis] - datum[axis]))) {
+        if (Math.abs(point[axis] - datum[axis]) < LOCATION_TOLERANCE) continue
+        if (features.some(other => Math.abs(other[axis] - point[axis]) < LOCATION_TOLERANCE)) continue
+        features.push(point)
+      }
+      if (features.length === 0) continue
+
+      // x positions are dimensioned above the view, y positions to its left
+      const edge = axis === 'x' ? outline.max.y : outline.min.x
+      const id = (i: number) => `location-${view}-${axis}-${i}`
+      if (config.locationStyle === 'ordinate') {
+        const corner = axis === 'x' ? { x: datum.x, y: edge } : { x: edge, y: datum.y }
+        dimensions.push(...[corner, ...features].map((feature, i) => ({
+          ...createOrdinateDimension({ id: id(i), view, axis, origin: datum, feature, edge, config }),
+          row: `location-${view}-${axis}`
+        })))
+        continue
+      }
+
+      features.forEach((feature, i) => {
+        const from = config.locationStyle === 'chain' && i > 0 ? features[i - 1] : undefined
+        const start = from?.[axis] ?? datum[axis]
+        const dimension = createLinearDimension({
+          id: id(i),
+          view,
+          orientation: axis === 'x' ? 'horizontal' : 'vertical',
+          value: Math.abs(feature[axis] - start),
+          start: axis === 'x' ? { x: start, y: edge } : { x: edge, y: start },
+          end: axis === 'x' ? { x: feature[axis], y: edge } : { x: edge, y: feature[axis] },
+          // Negative offsets place the dimension above or left of the outline
+          offset: -(config.minOffsetFromOutline + (config.locationStyle === 'baseline' ? i * config.minSpacingBetween : 0)),
+          priority: LOCATION_PRIORITY,
+          config
+        })
+        // Extension lines run from the features themselves
+        if (from) dimension.extensionLines[0].start = from
+        dimension.extensionLines[1].start = feature
+        if (config.locationStyle === 'chain') dimension.row = `location-${view}-${axis}`
+        dimensions.push(dimension)
+      })
+    }
+  }
+
+  return dimensions
+}
+
+/**
+ * Locations of the features of a part, each in the view looking at it
+ * - holes: the centre on the entry face, in the view looking down the hole;
+ *   the centre of the pitch circle for bolt circles
+ * - inclined holes: where the axis leaves the part, in the view looking at that face
+ * - bosses and cones on a part axis (added cylinders and cones) and tori: the axis, in the view looking down it
+ * - pockets and slots (box tools along the part axes) and spherical pockets:
+ *   the centre, in the first view looking at a face they open onto
+ */
+function findFeatureLocations(recipe: PartRecipe, holes: HoleFeature[]): FeatureLocation[] {
+  const body = bodyBounds(recipe)
+  const tools = subtractedPrimitiveIds(recipe)
+  const views = Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]
+  const viewAlong = (direction: Vector3) => views.find(name =>
+    Math.abs(towardViewer(ORTHOGRAPHIC_MATRICES[name]).dot(direction)) > 1 - 1e-6)
+  const locations: FeatureLocation[] = []
+  const locate = (view: OrthographicView | undefined, point: Vector3) => {
+    if (!view) return
+    const p = point.clone().applyMatrix4(ORTHOGRAPHIC_MATRICES[view])
+    locations.push({ view, point: { x: p.x, y: p.y } })
+  }
+
+  // A bolt circle is located by its centre; the PCD places its holes
+  for (const pattern of groupHolePatterns(holes)) {
+    const layout = patternLayout(pattern)
+    if (layout?.kind === 'circular') locate(viewAlong(pattern[0].axis), layout.center)
+    else for (const hole of pattern) locate(viewAlong(hole.axis), hole.center)
+  }
+
+  for (const hole of findInclinedHoles(recipe)) {
+    for (const exit of inclinedHoleExits(hole, body)) {
+      locate(viewAlong(new Vector3().setComponent(exit.axis, 1)), exit.point)
+    }
+  }
+
+  // First view looking at a face of the body that a tool opens onto
+  const openingView = (tool: Box3) => views.find(name => {
+    const toward = towardViewer(ORTHOGRAPHIC_MATRICES[name])
+    const i = [0, 1, 2].find(axis => Math.abs(toward.getComponent(axis)) > 1 - 1e-6)!
+    return tool.max.getComponent(i) >= body.max.getComponent(i) - LOCATION_TOLERANCE ||
+      tool.min.getComponent(i) <= body.min.getComponent(i) + LOCATION_TOLERANCE
+  })
+
+  for (const primitive of recipe.primitives.slice(1)) {
+    const matrix = primitiveMatrix(primitive)
+    const center = new Vector3().applyMatrix4(matrix)
+    const subtracted = tools.has(primitive.id)
+
+    if ((primitive.kind === 'cylinder' || primitive.kind === 'cone') && !subtracted) {
+      locate(viewAlong(new Vector3(0, 1, 0).transformDirection(matrix)), center)
+    } else if (primitive.kind === 'torus') {
+      locate(viewAlong(new Vector3(0, 0, 1).transformDirection(matrix)), center)
+    } else if ((primitive.kind === 'box' || primitive.kind === 'sphere') && subtracted) {
+      const alongAxes = [new Vector3(1, 0, 0), new Vector3(0, 1, 0), new Vector3(0, 0, 1)]
+        .every(local => viewAlong(local.transformDirection(matrix)) !== undefined)
+      if (primitive.kind === 'box' && !alongAxes) continue
+      const tool = new Box3().setFromBufferAttribute(
+        createPrimitiveGeometry(primitive).applyMatrix4(matrix).getAttribute('position') as BufferAttribute
+      )
+      if (tool.intersectsBox(body)) locate(openingView(tool), center)
+    }
+  }
+
+  return locations
+}
+
 // ============================================================================
 // Dimension Creation Helpers
 // ============================================================================
@@ -478,7 +1068,7 @@ function createLinearDimension(params: LinearDimensionParams): LinearDimension {
   }
   
   // Format dimension text
-  const text = formatDimensionValue(value, config.decimalPlaces)
+  const text = formatLength(value, config)
   
   return {
     id,
@@ -534,7 +1124,7 @@ function createRadialDimension(params: RadialDimensionParams): RadialDimension {
   // Format dimension text with symbol
   const value = subtype === 'diameter' ? radius * 2 : radius
   const symbol = subtype === 'diameter' ? 'Ø' : 'R'
-  const text = symbol + formatDimensionValue(value, config.decimalPlaces)
+  const text = symbol + formatLength(value, config)
   
   return {
     id,
@@ -555,6 +1145,137 @@ function createRadialDimension(params: RadialDimensionParams): RadialDimension {
   }
 }
 
+interface AngularDimensionParams {
+  id: string
+  view: 'front' | 'top' | 'right'
+  vertex: Point2D
+  startAngle: number     // radians
+  endAngle: number       // radians, counter-clockwise from startAngle
+  radius: number
+  from?: number          // Distance from the vertex where the extension lines start (mm)
+  priority: number
+  config: DimensionConfig
+}
+
+/**
+ * Create an angular dimension with its arc, arrowheads and extension lines
+ */
+function createAngularDimension(params: AngularDimensionParams): AngularDimension {
+  const { id, view, vertex, startAngle, endAngle, radius, from = 0, priority, config } = params
+  const value = ((endAngle - startAngle) * 180) / Math.PI
+  
+  return {
+    id,
+    type: 'angular',
+    value,
+    text: formatDimensionValue(value, config.decimalPlaces) + '°',
+    view,
+    priority,
+    vertex,
+    startAngle,
+    endAngle,
+    ...layoutAngularDimension(vertex, startAngle, endAngle, radius, from, config)
+  }
+}
+
+/**
+ * Arc, arrowheads, extension lines and text position of an angular dimension
+ * The arrowheads point outward along the arc, at the lines being measured.
+ */
+function layoutAngularDimension(
+  vertex: Point2D,
+  startAngle: number,
+  endAngle: number,
+  radius: number,
+  from: number,
+  config: DimensionConfig
+): Pick<AngularDimension, 'position' | 'radius' | 'arc' | 'arrowheads' | 'extensionLines'> {
+  const at = (angle: number, distance: number): Point2D => ({
+    x: vertex.x + distance * Math.cos(angle),
+    y: vertex.y + distance * Math.sin(angle)
+  })
+  const arrowhead = (angle: number, direction: number): Arrowhead => ({
+    position: at(angle, radius),
+    angle: angle + direction * Math.PI / 2,
+    length: config.arrowheadLength,
+    width: config.arrowheadWidth
+  })
+  const extensionLine = (angle: number): ExtensionLine => ({
+    start: at(angle, from),
+    end: at(angle, radius + config.extensionLineOverhang),
+    gap: config.extensionLineGap,
+    overhang: config.extensionLineOverhang
+  })
+  
+  return {
+    position: at((startAngle + endAngle) / 2, radius + config.textHeight),
+    radius,
+    arc: { center: vertex, radius, startAngle, endAngle },
+    arrowheads: [arrowhead(startAngle, -1), arrowhead(endAngle, 1)],
+    extensionLines: [extensionLine(startAngle), extensionLine(endAngle)]
+  }
+}
+
+interface OrdinateDimensionParams {
+  id: string
+  view: 'front' | 'top' | 'right'
+  axis: 'x' | 'y'
+  origin: Point2D
+  feature: Point2D
+  edge: number           // Outline the values are written beyond: top for x, left for y
+  config: DimensionConfig
+}
+
+/**
+ * Create an ordinate dimension: an extension line from the feature past the
+ * outline, with the distance from the origin at its end
+ */
+function createOrdinateDimension(params: OrdinateDimensionParams): OrdinateDimension {
+  const { id, view, axis, origin, feature, edge, config } = params
+  const value = Math.abs(feature[axis] - origin[axis])
+  const text = formatLength(value, config)
+  const end = axis === 'x'
+    ? { x: feature.x, y: edge + config.minOffsetFromOutline }
+    : { x: edge - config.minOffsetFromOutline, y: feature.y }
+  
+  return {
+    id,
+    type: 'ordinate',
+    value,
+    text,
+    position: ordinateTextPosition(axis, end, text, config),
+    view,
+    priority: LOCATION_PRIORITY,
+    axis,
+    origin,
+    extensionLine: {
+      start: feature,
+      end,
+      gap: config.extensionLineGap,
+      overhang: config.extensionLineOverhang
+    }
+  }
+}
+
+// Centre of an ordinate value just beyond the end of its extension line;
+// x values run up the line unless the text is unidirectional
+function ordinateTextPosition(axis: 'x' | 'y', end: Point2D, text: string, config: DimensionConfig): Point2D {
+  const half = (text.length * config.textHeight * 0.6) / 2 + 1
+  if (axis === 'x' && config.textOrientation === 'unidirectional') return { x: end.x, y: end.y + config.textHeight / 2 + 1 }
+  return axis === 'x' ? { x: end.x, y: end.y + half } : { x: end.x - half, y: end.y }
+}
+
+/**
+ * Format a length (mm) in the units of the drawing
+ * - mm: without trailing zeros (ISO 129-1), e.g. 50, 2.5
+ * - in: decimal inches to the stated places, without a zero before the
+ *   point (ASME Y14.5), e.g. 1.97, .25
+ */
+export function formatLength(value: number, config: Pick<DimensionConfig, 'units' | 'decimalPlaces'>): string {
+  if (config.units === 'mm') return formatDimensionValue(value, config.decimalPlaces)
+  return (value / MM_PER_INCH).toFixed(config.decimalPlaces).replace(/^(-?)0\./, '$1.')
+}
+
 /**
  * Format dimension value with appropriate precision
  * ISO standard: no trailing zeros, minimal decimals
@@ -593,9 +1314,15 @@ export function getDimensionBounds(dimension: Dimension, config: DimensionConfig
       return getRadialDimensionBounds(dimension as RadialDimension, config)
     case 'angular':
       return getAngularDimensionBounds(dimension as AngularDimension, config)
+    case 'callout':
+      return getLeaderNoteBounds(dimension as HoleCallout, (dimension as HoleCallout).lines, config)
+    case 'chamfer':
+      return getLeaderNoteBounds(dimension as ChamferNote, [dimension.text], config)
+    case 'ordinate':
+      return getOrdinateDimensionBounds(dimension as OrdinateDimension, config)
     default:
       // Fallback: text-only bounds
-      return getTextBounds(dimension.position, dimension.text, config)
+      return getTextBounds(dimension.position, dimension.text, config, dimension.tolerance)
   }
 }
 
@@ -610,7 +1337,7 @@ function getLinearDimensionBounds(dimension: LinearDimension, config: DimensionC
   ]
   
   // Add text bounds
-  const textBounds = getTextBounds(dimension.position, dimension.text, config)
+  const textBounds = getTextBounds(dimension.position, dimension.text, config, dimension.tolerance)
   points.push(
     { x: textBounds.x, y: textBounds.y },
     { x: textBounds.x + textBounds.width, y: textBounds.y + textBounds.height }
@@ -630,7 +1357,7 @@ function getRadialDimensionBounds(dimension: RadialDimension, config: DimensionC
   ]
   
   // Add text bounds
-  const textBounds = getTextBounds(dimension.position, dimension.text, config)
+  const textBounds = getTextBounds(dimension.position, dimension.text, config, dimension.tolerance)
   points.push(
     { x: textBounds.x, y: textBounds.y },
     { x: textBounds.x + textBounds.width, y: textBounds.y + textBounds.height }
@@ -657,7 +1384,7 @@ function getAngularDimensionBounds(dimension: AngularDimension, config: Dimensio
   }
   
   // Add text bounds
-  const textBounds = getTextBounds(dimension.position, dimension.text, config)
+  const textBounds = getTextBounds(dimension.position, dimension.text, config, dimension.tolerance)
   points.push(
     { x: textBounds.x, y: textBounds.y },
     { x: textBounds.x + textBounds.width, y: textBounds.y + textBounds.height }
@@ -667,13 +1394,49 @@ function getAngularDimensionBounds(dimension: AngularDimension, config: Dimensio
 }
 
 /**
- * Get bounding box for dimension text
+ * Get bounding box for hole callout or chamfer note (includes leader, shoulder and note)
+ * The first line of the note is level with the shoulder, the others below it.
+ */
+function getLeaderNoteBounds(note: HoleCallout | ChamferNote, lines: string[], config: DimensionConfig): BoundingBox2D {
+  const side = Math.sign(note.shoulder.x - note.leaderLine.end.x)
+  const width = Math.max(...lines.map(line => line.length)) * config.textHeight * 0.6
+  const lineHeight = config.textHeight * CALLOUT_LINE_SPACING
+  const top = note.shoulder.y + config.textHeight / 2
+  const bottom = note.shoulder.y - (lines.length - 1) * lineHeight - config.textHeight / 2
+
+  return getBoundsFromPoints([
+    note.leaderLine.start,
+    note.leaderLine.end,
+    { x: note.shoulder.x, y: top },
+    { x: note.shoulder.x + side * width, y: bottom }
+  ])
+}
+
+/**
+ * Get bounding box for ordinate dimension (includes the end of its extension line and the value)
+ * Values of x ordinates are written vertically.
+ */
+function getOrdinateDimensionBounds(dimension: OrdinateDimension, config: DimensionConfig): BoundingBox2D {
+  const text = getTextBounds(dimension.position, dimension.text, config, dimension.tolerance)
+  const { x, y } = dimension.position
+  const upright = dimension.axis === 'x' && config.textOrientation === 'aligned'
+  const [halfWidth, halfHeight] = upright ? [text.height / 2, text.width / 2] : [text.width / 2, text.height / 2]
+  
+  return getBoundsFromPoints([
+    dimension.extensionLine.end,
+    { x: x - halfWidth, y: y - halfHeight },
+    { x: x + halfWidth, y: y + halfHeight }
+  ])
+}
+
+/**
+ * Get bounding box for dimension text and its tolerance
  * Approximates text width based on character count and font metrics
  */
-function getTextBounds(position: Point2D, text: string, config: DimensionConfig): BoundingBox2D {
+function getTextBounds(position: Point2D, text: string, config: DimensionConfig, tolerance?: Tolerance): BoundingBox2D {
   // Approximate character width: 60% of height for Arial
   const charWidth = config.textHeight * 0.6
-  const textWidth = text.length * charWidth
+  const textWidth = (text.length + (tolerance ? toleranceLength(tolerance) : 0)) * charWidth
   const textHeight = config.textHeight
   
   return {
@@ -735,6 +1498,7 @@ export function boundsOverlap(a: BoundingBox2D, b: BoundingBox2D, margin: number
  * 3. For each dimension, check collisions with higher-priority dimensions in same view
  * 4. If collision detected, try relocating by incrementing offset
  * 5. Limit relocation attempts to prevent runaway loops
+ * The dimensions of a row are checked and moved together, so the row stays on one line.
  */
 export function resolveCollisions(
   dimensions: Dimension[],
@@ -759,22 +1523,26 @@ export function resolveCollisions(
     const sorted = [...viewDims].sort((a, b) => b.priority - a.priority)
     const resolved: Dimension[] = []
     
-    for (let i = 0; i < sorted.length; i++) {
-      let current = sorted[i]
+    // Rows are placed as one unit, at the position of their first dimension
+    const units: Dimension[][] = []
+    for (const dim of sorted) {
+      const unit = dim.row === undefined ? undefined : units.find(([first]) => first.row === dim.row)
+      if (unit) unit.push(dim)
+      else units.push([dim])
+    }
+    
+    for (let current of units) {
       let attempts = 0
       const maxAttempts = 10
       
       // Check for collisions with already-resolved (higher priority) dimensions in same view
       while (attempts < maxAttempts) {
-        const currentBounds = getDimensionBounds(current, config)
         let hasCollision = false
         
-        for (const other of resolved) {
-          const otherBounds = getDimensionBounds(other, config)
-          if (boundsOverlap(currentBounds, otherBounds, 1)) {
-            hasCollision = true
-            break
-          }
+        for (const dim of current) {
+          const currentBounds = getDimensionBounds(dim, config)
+          hasCollision = resolved.some(other => boundsOverlap(currentBounds, getDimensionBounds(other, config), 1))
+          if (hasCollision) break
         }
         
         if (!hasCollision) {
@@ -783,11 +1551,11 @@ export function resolveCollisions(
         }
         
         // Collision detected; try to relocate
-        current = relocateDimension(current, config)
+        current = current.map(dim => relocateDimension(dim, config))
         attempts++
       }
       
-      resolved.push(current)
+      resolved.push(...current)
     }
     
     allResolved.push(...resolved)
@@ -808,6 +1576,12 @@ function relocateDimension(dimension: Dimension, config: DimensionConfig): Dimen
       return relocateRadialDimension(dimension as RadialDimension, config)
     case 'angular':
       return relocateAngularDimension(dimension as AngularDimension, config)
+    case 'callout':
+      return relocateLeaderNote(dimension as HoleCallout, config)
+    case 'chamfer':
+      return relocateLeaderNote(dimension as ChamferNote, config)
+    case 'ordinate':
+      return relocateOrdinateDimension(dimension as OrdinateDimension, config)
     default:
       return dimension
   }
@@ -817,7 +1591,8 @@ function relocateDimension(dimension: Dimension, config: DimensionConfig): Dimen
  * Relocate linear dimension by increasing offset from outline
  */
 function relocateLinearDimension(dimension: LinearDimension, config: DimensionConfig): LinearDimension {
-  const newOffset = dimension.dimensionLine.offset + config.minSpacingBetween
+  // Negative offsets (dimensions above or left of the outline) grow away from it too
+  const newOffset = dimension.dimensionLine.offset + (dimension.dimensionLine.offset < 0 ? -1 : 1) * config.minSpacingBetween
   
   // Recalculate dimension line and extension line endpoints
   const dx = dimension.end.x - dimension.start.x
@@ -899,24 +1674,60 @@ function relocateRadialDimension(dimension: RadialDimension, config: DimensionCo
 
 /**
  * Relocate angular dimension by increasing arc radius
+ * Arrowheads and extension lines follow the arc; the extension lines still start where they did.
  */
 function relocateAngularDimension(dimension: AngularDimension, config: DimensionConfig): AngularDimension {
   const newRadius = dimension.arc.radius + config.minSpacingBetween
+  const start = dimension.extensionLines[0].start
+  const from = Math.hypot(start.x - dimension.vertex.x, start.y - dimension.vertex.y)
   
-  // Recalculate text position at midpoint of new arc
-  const midAngle = (dimension.arc.startAngle + dimension.arc.endAngle) / 2
-  const newTextPos = {
-    x: dimension.arc.center.x + newRadius * Math.cos(midAngle),
-    y: dimension.arc.center.y + newRadius * Math.sin(midAngle)
+  return {
+    ...dimension,
+    ...layoutAngularDimension(dimension.vertex, dimension.startAngle, dimension.endAngle, newRadius, from, config)
+  }
+}
+
+/**
+ * Relocate ordinate dimension by extending its extension line; the value moves with it
+ */
+function relocateOrdinateDimension(dimension: OrdinateDimension, config: DimensionConfig): OrdinateDimension {
+  const { start, end } = dimension.extensionLine
+  const length = Math.hypot(end.x - start.x, end.y - start.y)
+  const newEnd = {
+    x: end.x + ((end.x - start.x) / length) * config.minSpacingBetween,
+    y: end.y + ((end.y - start.y) / length) * config.minSpacingBetween
   }
   
   return {
     ...dimension,
-    position: newTextPos,
-    radius: newRadius,
-    arc: {
-      ...dimension.arc,
-      radius: newRadius
+    position: ordinateTextPosition(dimension.axis, newEnd, dimension.text, config),
+    extensionLine: {
+      ...dimension.extensionLine,
+      end: newEnd
     }
   }
 }
+
+/**
+ * Relocate hole callout or chamfer note by extending its leader; the shoulder and note move with it
+ */
+function relocateLeaderNote<T extends HoleCallout | ChamferNote>(callout: T, config: DimensionConfig): T {
+  const dx = callout.leaderLine.end.x - callout.leaderLine.start.x
+  const dy = callout.leaderLine.end.y - callout.leaderLine.start.y
+  const length = Math.sqrt(dx * dx + dy * dy)
+  const shift = {
+    x: (dx / length) * config.minSpacingBetween,
+    y: (dy / length) * config.minSpacingBetween
+  }
+  const move = (p: Point2D) => ({ x: p.x + shift.x, y: p.y + shift.y })
+
+  return {
+    ...callout,
+    position: move(callout.position),
+    leaderLine: {
+      ...callout.leaderLine,
+      end: move(callout.leaderLine.end)
+    },
+    shoulder: move(callout.shoulder)
+  }
+}
@@ -5,9 +5,16 @@
  * - Dimension lines (thin continuous)
  * - Extension lines (thin continuous with gaps)
  * - Arrowheads (closed, filled)
- * - Dimension text (3.5mm height, proper formatting)
+ * - Dimension text (3.5mm height, proper formatting) with its tolerance:
+ *   deviations and fits stacked after the value
  * - Leader lines for radial dimensions
  * - Center marks for circular features
+ * - Hole callouts (leader, shoulder and stacked note) and chamfer notes
+ * - Ordinate dimensions (extension line and value)
+ * 
+ * Dimensions are given in view-plane mm (y up) around the view centre;
+ * Y is flipped here for SVG. Text along vertical dimension lines reads from
+ * the right unless the configuration asks for unidirectional text.
  * 
  * @see docs/specs/iso-drawing-standards.md
  */
@@ -17,10 +24,16 @@ import type {
   LinearDimension,
   RadialDimension,
   AngularDimension,
+  HoleCallout,
+  ChamferNote,
+  OrdinateDimension,
   Arrowhead,
   ExtensionLine,
-  Point2D
+  Point2D,
+  DimensionConfig
 } from './dimensions'
+import { CALLOUT_LINE_SPACING, DEFAULT_DIMENSION_CONFIG } from './dimensions'
+import { DEVIATION_TEXT_SCALE, TOLERANCE_GAP, toleranceLength, toleranceText, type Tolerance } from './tolerances'
 
 // ============================================================================
 // SVG Generation
@@ -28,11 +41,13 @@ import type {
 
 /**
  * Generate SVG group element containing all dimensions for a view
+ * (arrowheads and text orientation from the dimension configuration)
  */
 export function renderDimensions(
   dimensions: Dimension[],
   view: 'front' | 'top' | 'right',
-  scale: number = 1
+  scale: number = 1,
+  config: DimensionConfig = DEFAULT_DIMENSION_CONFIG
 ): string {
   const viewDimensions = dimensions.filter(d => d.view === view)
   
@@ -45,13 +60,22 @@ export function renderDimensions(
   for (const dimension of viewDimensions) {
     switch (dimension.type) {
       case 'linear':
-        svgElements.push(renderLinearDimension(dimension as LinearDimension, scale))
+        svgElements.push(renderLinearDimension(dimension as LinearDimension, scale, config))
         break
       case 'radial':
-        svgElements.push(renderRadialDimension(dimension as RadialDimension, scale))
+        svgElements.push(renderRadialDimension(dimension as RadialDimension, scale, config))
         break
       case 'angular':
-        svgElements.push(renderAngularDimension(dimension as AngularDimension, scale))
+        svgElements.push(renderAngularDimension(dimension as AngularDimension, scale, config))
+        break
+      case 'callout':
+        svgElements.push(renderHoleCallout(dimension as HoleCallout, scale, config))
+        break
+      case 'chamfer':
+        svgElements.push(renderChamferNote(dimension as ChamferNote, scale, config))
+        break
+      case 'ordinate':
+        svgElements.push(renderOrdinateDimension(dimension as OrdinateDimension, scale, config))
         break
     }
   }
@@ -62,21 +86,21 @@ export function renderDimensions(
 /**
  * Render a linear dimension with extension lines, dimension line, and arrowheads
  */
-function renderLinearDimension(dimension: LinearDimension, scale: number): string {
+function renderLinearDimension(dimension: LinearDimension, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
   const parts: string[] = []
   
   // Extension lines (thin continuous, with gaps)
   for (const extLine of dimension.extensionLines) {
-    parts.push(renderExtensionLine(extLine, scale))
+    parts.push(renderExtensionLine(extLine, scale, config.thinLineWidth))
   }
   
   // Dimension line (thin continuous)
   parts.push(
     `<line x1="${dimension.dimensionLine.start.x * scale}" ` +
-    `y1="${dimension.dimensionLine.start.y * scale}" ` +
+    `y1="${-dimension.dimensionLine.start.y * scale}" ` +
     `x2="${dimension.dimensionLine.end.x * scale}" ` +
-    `y2="${dimension.dimensionLine.end.y * scale}" ` +
-    `class="dimension-line" stroke="black" stroke-width="0.35" />`
+    `y2="${-dimension.dimensionLine.end.y * scale}" ` +
+    `class="dimension-line" stroke="black" stroke-width="${config.thinLineWidth}" />`
   )
   
   // Arrowheads (closed, filled)
@@ -85,7 +109,7 @@ function renderLinearDimension(dimension: LinearDimension, scale: number): strin
   }
   
   // Dimension text
-  parts.push(renderDimensionText(dimension.position, dimension.text, dimension.orientation, scale))
+  parts.push(renderDimensionText(dimension.position, dimension.text, textOrientation(dimension.orientation, config), scale, dimension.tolerance))
   
   return `<g class="linear-dimension" data-id="${dimension.id}">\n${parts.join('\n')}\n</g>`
 }
@@ -93,35 +117,40 @@ function renderLinearDimension(dimension: LinearDimension, scale: number): strin
 /**
  * Render a radial dimension with leader line and optional center mark
  */
-function renderRadialDimension(dimension: RadialDimension, scale: number): string {
+function renderRadialDimension(dimension: RadialDimension, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
   const parts: string[] = []
   
   // Leader line (thin continuous)
   parts.push(
     `<line x1="${dimension.leaderLine.start.x * scale}" ` +
-    `y1="${dimension.leaderLine.start.y * scale}" ` +
+    `y1="${-dimension.leaderLine.start.y * scale}" ` +
     `x2="${dimension.leaderLine.end.x * scale}" ` +
-    `y2="${dimension.leaderLine.end.y * scale}" ` +
-    `class="leader-line" stroke="black" stroke-width="0.35" />`
+    `y2="${-dimension.leaderLine.end.y * scale}" ` +
+    `class="leader-line" stroke="black" stroke-width="${config.thinLineWidth}" />`
   )
   
   // Center mark (cross) if requested
   if (dimension.showCenter) {
-    parts.push(renderCenterMark(dimension.center, dimension.radius, scale))
+    parts.push(renderCenterMark(dimension.center, dimension.radius, scale, config.thinLineWidth))
   }
   
   // Dimension text (at end of leader line)
-  parts.push(renderDimensionText(dimension.position, dimension.text, 'horizontal', scale))
+  parts.push(renderDimensionText(dimension.position, dimension.text, 'horizontal', scale, dimension.tolerance))
   
   return `<g class="radial-dimension" data-id="${dimension.id}" data-subtype="${dimension.subtype}">\n${parts.join('\n')}\n</g>`
 }
 
 /**
- * Render an angular dimension (arc with arrowheads)
+ * Render an angular dimension (extension lines, arc with arrowheads)
  */
-function renderAngularDimension(dimension: AngularDimension, scale: number): string {
+function renderAngularDimension(dimension: AngularDimension, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
   const parts: string[] = []
   
+  // Extension lines along the two lines measured
+  for (const extLine of dimension.extensionLines) {
+    parts.push(renderExtensionLine(extLine, scale, config.thinLineWidth))
+  }
+  
   // Dimension arc (thin continuous)
   const arc = dimension.arc
   const startX = arc.center.x + arc.radius * Math.cos(arc.startAngle)
@@ -131,10 +160,11 @@ function renderAngularDimension(dimension: AngularDimension, scale: number): str
   
   const largeArc = Math.abs(arc.endAngle - arc.startAngle) > Math.PI ? 1 : 0
   
+  // Counter-clockwise with y up runs counter-clockwise on the sheet too (sweep flag 0)
   parts.push(
-    `<path d="M ${startX * scale} ${startY * scale} ` +
-    `A ${arc.radius * scale} ${arc.radius * scale} 0 ${largeArc} 1 ${endX * scale} ${endY * scale}" ` +
-    `class="dimension-arc" stroke="black" stroke-width="0.35" fill="none" />`
+    `<path d="M ${startX * scale} ${-startY * scale} ` +
+    `A ${arc.radius * scale} ${arc.radius * scale} 0 ${largeArc} 0 ${endX * scale} ${-endY * scale}" ` +
+    `class="dimension-arc" stroke="black" stroke-width="${config.thinLineWidth}" fill="none" />`
   )
   
   // Arrowheads at both ends
@@ -143,11 +173,84 @@ function renderAngularDimension(dimension: AngularDimension, scale: number): str
   }
   
   // Dimension text
-  parts.push(renderDimensionText(dimension.position, dimension.text, 'horizontal', scale))
+  parts.push(renderDimensionText(dimension.position, dimension.text, 'horizontal', scale, dimension.tolerance))
   
   return `<g class="angular-dimension" data-id="${dimension.id}">\n${parts.join('\n')}\n</g>`
 }
 
+/**
+ * Render an ordinate dimension: extension line from the feature and the value
+ * beyond its end, written vertically for x ordinates
+ */
+function renderOrdinateDimension(dimension: OrdinateDimension, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
+  const parts = [
+    renderExtensionLine(dimension.extensionLine, scale, config.thinLineWidth),
+    renderDimensionText(dimension.position, dimension.text, textOrientation(dimension.axis === 'x' ? 'vertical' : 'horizontal', config), scale, dimension.tolerance)
+  ]
+  
+  return `<g class="ordinate-dimension" data-id="${dimension.id}" data-axis="${dimension.axis}">\n${parts.join('\n')}\n</g>`
+}
+
+/**
+ * Render a hole callout: leader with an arrowhead on the hole, horizontal
+ * shoulder, and the note with one line per feature of the hole
+ */
+function renderHoleCallout(callout: HoleCallout, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
+  const parts = renderLeaderNote(callout, callout.lines, scale, config)
+  return `<g class="hole-callout" data-id="${callout.id}" data-count="${callout.count}">\n${parts.join('\n')}\n</g>`
+}
+
+/**
+ * Render a chamfer note: leader with an arrowhead on the chamfer, horizontal
+ * shoulder, and the size of the chamfer
+ */
+function renderChamferNote(note: ChamferNote, scale: number, config: DimensionConfig = DEFAULT_DIMENSION_CONFIG): string {
+  const parts = renderLeaderNote(note, [note.text], scale, config)
+  return `<g class="chamfer-note" data-id="${note.id}" data-count="${note.count}">\n${parts.join('\n')}\n</g>`
+}
+
+/**
+ * Leader, shoulder and note shared by hole callouts and chamfer notes
+ */
+function renderLeaderNote(note: HoleCallout | ChamferNote, lines: string[], scale: number, config: DimensionConfig): string[] {
+  const parts: string[] = []
+  const { start, end } = note.leaderLine
+  const side = Math.sign(note.shoulder.x - end.x)
+  
+  // Leader and shoulder (thin continuous)
+  parts.push(
+    `<polyline points="${start.x * scale},${-start.y * scale} ${end.x * scale},${-end.y * scale} ` +
+    `${note.shoulder.x * scale},${-note.shoulder.y * scale}" ` +
+    `class="leader-line" stroke="black" stroke-width="${config.thinLineWidth}" fill="none" />`
+  )
+  
+  // Arrowhead on the feature, pointing along the leader
+  parts.push(renderArrowhead({
+    position: start,
+    angle: Math.atan2(start.y - end.y, start.x - end.x),
+    length: config.arrowheadLength,
+    width: config.arrowheadWidth
+  }, scale))
+  
+  // Note beyond the shoulder; the first line is level with it (ISO 3098-2)
+  const fontSize = 3.5 * scale
+  const x = (note.shoulder.x + side) * scale
+  const y = -note.shoulder.y * scale
+  const tspans = lines.map((line, i) =>
+    `<tspan x="${x}" dy="${i === 0 ? 0 : fontSize * CALLOUT_LINE_SPACING}">${line}</tspan>`).join('')
+  parts.push(
+    `<text x="${x}" y="${y}" ` +
+    `class="dimension-text" ` +
+    `font-family="Arial, sans-serif" ` +
+    `font-size="${fontSize}" ` +
+    `text-anchor="${side > 0 ? 'start' : 'end'}" ` +
+    `dominant-baseline="middle" ` +
+    `fill="black">${tspans}</text>`
+  )
+  
+  return parts
+}
+
 // ============================================================================
 // Component Rendering
 // ============================================================================
@@ -155,7 +258,7 @@ function renderAngularDimension(dimension: AngularDimension, scale: number): str
 /**
  * Render an extension line with proper gap from feature
  */
-function renderExtensionLine(extLine: ExtensionLine, scale: number): string {
+function renderExtensionLine(extLine: ExtensionLine, scale: number, width: number): string {
   // Calculate direction vector
   const dx = extLine.end.x - extLine.start.x
   const dy = extLine.end.y - extLine.start.y
@@ -165,12 +268,12 @@ function renderExtensionLine(extLine: ExtensionLine, scale: number): string {
   
   // Start point with gap
   const startX = (extLine.start.x + nx * extLine.gap) * scale
-  const startY = (extLine.start.y + ny * extLine.gap) * scale
+  const startY = -(extLine.start.y + ny * extLine.gap) * scale
   
   return (
     `<line x1="${startX}" y1="${startY}" ` +
-    `x2="${extLine.end.x * scale}" y2="${extLine.end.y * scale}" ` +
-    `class="extension-line" stroke="black" stroke-width="0.35" />`
+    `x2="${extLine.end.x * scale}" y2="${-extLine.end.y * scale}" ` +
+    `class="extension-line" stroke="black" stroke-width="${width}" />`
   )
 }
 
@@ -178,7 +281,7 @@ function renderExtensionLine(extLine: ExtensionLine, scale: number): string {
  * Render a closed, filled arrowhead
  * ISO standard: 3mm long, 1mm wide (3:1 ratio)
  */
-function renderArrowhead(arrow: Arrowhead, scale: number): string {
+export function renderArrowhead(arrow: Arrowhead, scale: number): string {
   // Calculate three points of the arrowhead triangle
   const tipX = arrow.position.x
   const tipY = arrow.position.y
@@ -198,26 +301,34 @@ function renderArrowhead(arrow: Arrowhead, scale: number): string {
   
   // Create filled polygon
   return (
-    `<polygon points="${tipX * scale},${tipY * scale} ` +
-    `${side1X * scale},${side1Y * scale} ` +
-    `${side2X * scale},${side2Y * scale}" ` +
+    `<polygon points="${tipX * scale},${-tipY * scale} ` +
+    `${side1X * scale},${-side1Y * scale} ` +
+    `${side2X * scale},${-side2Y * scale}" ` +
     `class="arrowhead" fill="black" />`
   )
 }
 
+// Unidirectional text stays horizontal whatever the dimension line
+function textOrientation(orientation: string, config: DimensionConfig): string {
+  return config.textOrientation === 'unidirectional' ? 'horizontal' : orientation
+}
+
 /**
  * Render dimension text with proper formatting
  * ISO 3098-2: Sans-serif font, 3.5mm height
+ * A tolerance follows the value (ISO 129-1): deviations smaller and stacked,
+ * upper over lower, and a fit's hole class over its shaft class.
  */
 function renderDimensionText(
   position: Point2D,
   text: string,
   orientation: string,
-  scale: number
+  scale: number,
+  tolerance?: Tolerance
 ): string {
   // Text positioning
   const x = position.x * scale
-  const y = position.y * scale
+  const y = -position.y * scale
   
   // Text styling (ISO 3098-2)
   const fontSize = 3.5 * scale  // 3.5mm at 1:1 scale
@@ -228,6 +339,28 @@ function renderDimensionText(
     transform = ` transform="rotate(-90 ${x} ${y})"`
   }
   
+  if (tolerance) {
+    // Label laid out left to right and centred on the position, as estimated for collisions
+    const charWidth = fontSize * 0.6
+    const gap = TOLERANCE_GAP * charWidth
+    const { inline, upper, lower } = toleranceText(tolerance)
+    let cursor = x - ((text.length + toleranceLength(tolerance)) * charWidth) / 2
+    const texts = [renderTextRun(cursor, y, fontSize, text, 'dimension-value')]
+    cursor += text.length * charWidth
+    if (inline) {
+      texts.push(renderTextRun(cursor + gap, y, fontSize, inline, 'tolerance'))
+      cursor += gap + inline.length * charWidth
+    }
+    if (upper !== undefined || lower !== undefined) {
+      const small = fontSize * DEVIATION_TEXT_SCALE
+      texts.push(
+        renderTextRun(cursor + gap, y - small * 0.55, small, upper ?? '', 'tolerance-upper'),
+        renderTextRun(cursor + gap, y + small * 0.55, small, lower ?? '', 'tolerance-lower')
+      )
+    }
+    return `<g class="dimension-text"${transform}>${texts.join('')}</g>`
+  }
+  
   return (
     `<text x="${x}" y="${y}" ` +
     `class="dimension-text" ` +
@@ -239,22 +372,30 @@ function renderDimensionText(
   )
 }
 
+// One run of a toleranced label, starting at x
+function renderTextRun(x: number, y: number, fontSize: number, text: string, className: string): string {
+  return (
+    `<text x="${x}" y="${y}" class="${className}" font-family="Arial, sans-serif" font-size="${fontSize}" ` +
+    `text-anchor="start" dominant-baseline="middle" fill="black">${text}</text>`
+  )
+}
+
 /**
  * Render center mark for circular features
  * ISO standard: thin crossed lines extending slightly beyond circle
  */
-function renderCenterMark(center: Point2D, radius: number, scale: number): string {
+function renderCenterMark(center: Point2D, radius: number, scale: number, width: number): string {
   const markLength = Math.min(radius * 0.3, 3)  // 30% of radius or 3mm max
   const cx = center.x * scale
-  const cy = center.y * scale
+  const cy = -center.y * scale
   const len = markLength * scale
   
   return (
     `<g class="center-mark">` +
     `<line x1="${cx - len}" y1="${cy}" x2="${cx + len}" y2="${cy}" ` +
-    `stroke="black" stroke-width="0.35" stroke-dasharray="8,2,2,2" />` +
+    `stroke="black" stroke-width="${width}" stroke-dasharray="8,2,2,2" />` +
     `<line x1="${cx}" y1="${cy - len}" x2="${cx}" y2="${cy + len}" ` +
-    `stroke="black" stroke-width="0.35" stroke-dasharray="8,2,2,2" />` +
+    `stroke="black" stroke-width="${width}" stroke-dasharray="8,2,2,2" />` +
     `</g>`
   )
 }
@@ -274,6 +415,12 @@ export function dimensionToSVG(dimension: Dimension, scale: number = 1): string
       return renderRadialDimension(dimension as RadialDimension, scale)
     case 'angular':
       return renderAngularDimension(dimension as AngularDimension, scale)
+    case 'callout':
+      return renderHoleCallout(dimension as HoleCallout, scale)
+    case 'chamfer':
+      return renderChamferNote(dimension as ChamferNote, scale)
+    case 'ordinate':
+      return renderOrdinateDimension(dimension as OrdinateDimension, scale)
     default:
       return ''
   }
@@ -5,134 +5,66 @@
  * ray-casting based visibility detection for ISO-compliant technical drawings.
  */
 
-import { Vector3, BufferGeometry, Matrix4, Raycaster, Mesh, BoxGeometry, CylinderGeometry, SphereGeometry, TorusGeometry, Euler } from 'three'
-import type { PartRecipe, Primitive } from '../types/part'
+import { Vector3, BufferGeometry, Ray, Triangle, DoubleSide } from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+import type { PartRecipe } from '../types/part'
+import { createPrimitiveGeometry, applyPrimitiveTransform } from '../csg/primitives'
 
+/**
+ * Straight segment; the unit of mesh-level extraction and visibility tests
+ */
 export interface Edge {
   start: Vector3
   end: Vector3
 }
 
-export interface ClassifiedEdge extends Edge {
-  visible: boolean
-  type: 'sharp' | 'smooth' | 'silhouette'
+/**
+ * Drawing-level straight line
+ */
+export interface LineEdge extends Edge {
+  kind: 'line'
 }
 
 /**
- * Edge angle threshold in radians
- * Edges between faces with angle > threshold are considered sharp edges
+ * Drawing-level circular arc (less than a full turn)
  */
-const EDGE_ANGLE_THRESHOLD = Math.PI / 6 // 30 degrees
+export interface ArcEdge extends Edge {
+  kind: 'arc'
+  center: Vector3
+  /** Unit axis; the arc runs counter-clockwise about it from start to end */
+  normal: Vector3
+  radius: number
+  /** Swept angle in radians (0 < sweep < 2π) */
+  sweep: number
+}
 
 /**
- * Create a BufferGeometry for a primitive
+ * Drawing-level full circle
  */
-function createPrimitiveGeometry(primitive: Primitive): BufferGeometry {
-  switch (primitive.kind) {
-    case 'box': {
-      const p = primitive.params as any
-      const width = p.width || 100
-      const depth = p.depth || 50
-      const height = p.height || 25
-      return new BoxGeometry(width, depth, height)
-    }
-    
-    case 'cylinder': {
-      const p = primitive.params as any
-      const radius = p.radius || 20
-      const height = p.height || 50
-      // Use 32 segments for smooth cylinders
-      return new CylinderGeometry(radius, radius, height, 32)
-    }
-    
-    case 'sphere': {
-      const p = primitive.params as any
-      const radius = p.radius || 20
-      return new SphereGeometry(radius, 32, 16)
-    }
-    
-    case 'cone': {
-      const p = primitive.params as any
-      const radiusTop = p.radiusTop || 0
-      const radiusBottom = p.radiusBottom || 20
-      const height = p.height || 50
-      return new CylinderGeometry(radiusTop, radiusBottom, height, 32)
-    }
-    
-    case 'torus': {
-      const p = primitive.params as any
-      const majorRadius = p.majorRadius || 40
-      const tubeRadius = p.tubeRadius || 8
-      return new TorusGeometry(majorRadius, tubeRadius, 24, 48)
-    }
-    
-    default:
-      throw new Error(`Unsupported primitive kind: ${(primitive as any).kind}`)
-  }
+export interface CircleEdge {
+  kind: 'circle'
+  center: Vector3
+  /** Unit axis of the circle's plane */
+  normal: Vector3
+  radius: number
 }
 
 /**
- * Apply transform to geometry
+ * Curve-aware drawing edge: line, circular arc or full circle
  */
-function applyPrimitiveTransform(
-  geometry: BufferGeometry,
-  primitive: Primitive
-): BufferGeometry {
-  const transform = primitive.transform
-  if (!transform) return geometry
-  
-  const matrix = new Matrix4()
-  
-  // Apply translation
-  if (transform.position) {
-    matrix.makeTranslation(
-      transform.position.x,
-      transform.position.y,
-      transform.position.z
-    )
-  }
-  
-  // Apply rotation (degrees to radians)
-  if (transform.rotation) {
-    const rotMatrix = new Matrix4()
-    rotMatrix.makeRotationFromEuler(
-      new Euler(
-        transform.rotation.x * Math.PI / 180,
-        transform.rotation.y * Math.PI / 180,
-        transform.rotation.z * Math.PI / 180,
-        'XYZ'
-      )
-    )
-    matrix.multiply(rotMatrix)
-  }
-  
-  // Apply scale
-  if (transform.scale) {
-    const scaleMatrix = new Matrix4()
-    scaleMatrix.makeScale(
-      transform.scale.x,
-      transform.scale.y,
-      transform.scale.z
-    )
-    matrix.multiply(scaleMatrix)
-  }
-  
-  // Handle legacy axis parameter for cylinders
-  const axis = (primitive.params as any)?.axis
-  if (axis && axis !== 'z' && !transform.rotation) {
-    const axisMatrix = new Matrix4()
-    if (axis === 'x') {
-      axisMatrix.makeRotationZ(Math.PI / 2)
-    } else if (axis === 'y') {
-      axisMatrix.makeRotationX(Math.PI / 2)
-    }
-    matrix.multiply(axisMatrix)
-  }
-  
-  geometry.applyMatrix4(matrix)
-  return geometry
+export type CurveEdge = LineEdge | ArcEdge | CircleEdge
+
+export interface ClassifiedEdge extends Edge {
+  visible: boolean
+  type: 'sharp' | 'smooth' | 'silhouette'
 }
 
+/**
+ * Edge angle threshold in radians
+ * Edges between faces with angle > threshold are considered sharp edges
+ */
+const EDGE_ANGLE_THRESHOLD = Math.PI / 6 // 30 degrees
+
 /**
  * Extract sharp edges from a mesh by analyzing face angles
  * 
@@ -330,61 +262,213 @@ export function extractSilhouetteEdges(
 }
 
 /**
- * Classify edge visibility using ray-casting
- * 
- * @param edges - Edges to classify
- * @param mesh - The complete CSG mesh to test against
- * @param viewOrigin - Camera/view origin position
- * @param epsilon - Small offset to avoid self-intersection
- * @returns Classified edges with visibility information
+ * Distance (mm) within which a sample point counts as lying on the solid's surface
+ */
+const SURFACE_TOLERANCE = 0.01
+
+/**
+ * Hits closer than this (mm) to the sample are the sample's own faces
+ */
+const RAY_EPSILON = 0.01
+
+/**
+ * Target spacing (mm) between visibility samples along an edge
+ */
+const SAMPLE_SPACING = 2
+
+/**
+ * Maximum number of sample intervals per edge
+ */
+const MAX_SAMPLES = 64
+
+/**
+ * Shortest run (mm) kept as its own segment when splitting an edge
+ */
+const MIN_SEGMENT_LENGTH = 0.1
+
+/**
+ * Bisection steps used to locate a visibility change between two samples
+ */
+const BOUNDARY_ITERATIONS = 12
+
+type SampleState = 'visible' | 'hidden' | 'absent'
+
+// BVHs are built once per geometry and reused across the three views
+const bvhCache = new WeakMap<BufferGeometry, MeshBVH>()
+
+function getBVH(geometry: BufferGeometry): MeshBVH {
+  let bvh = bvhCache.get(geometry)
+  if (!bvh) {
+    // Build over a position-only copy: MeshBVH indexes (and reorders) the geometry
+    // it is given, and interpolating normals fails on degenerate CSG slivers
+    const positionsOnly = new BufferGeometry()
+    positionsOnly.setAttribute('position', geometry.attributes.position)
+    if (geometry.index) positionsOnly.setIndex(geometry.index.clone())
+    bvh = new MeshBVH(positionsOnly)
+    bvhCache.set(geometry, bvh)
+  }
+  return bvh
+}
+
+// Outward normal of a BVH triangle (winding gives the orientation)
+function faceNormal(bvh: MeshBVH, faceIndex: number): Vector3 {
+  const position = bvh.geometry.attributes.position
+  const index = bvh.geometry.index
+  const vertex = (corner: number) => {
+    const i = index ? index.getX(faceIndex * 3 + corner) : faceIndex * 3 + corner
+    return new Vector3().fromBufferAttribute(position, i)
+  }
+  return new Triangle(vertex(0), vertex(1), vertex(2)).getNormal(new Vector3())
+}
+
+// Strictly inside the solid: off the surface and behind the nearest face
+function isInterior(bvh: MeshBVH, point: Vector3): boolean {
+  const closest = bvh.closestPointToPoint(point)
+  if (!closest || closest.distance < SURFACE_TOLERANCE) return false
+  return closest.point.clone().sub(point).dot(faceNormal(bvh, closest.faceIndex)) > 0
+}
+
+/**
+ * Stretches of a line that run through the solid
+ *
+ * @param solid - Evaluated CSG geometry
+ * @param origin - Start of the line, outside the solid
+ * @param direction - Direction of the line
+ * @returns Distances from the origin where each stretch of material starts
+ *          and ends, in order along the line
+ */
+export function materialIntervals(solid: BufferGeometry, origin: Vector3, direction: Vector3): Array<[number, number]> {
+  const bvh = getBVH(solid)
+  const ray = new Ray(origin.clone(), direction.clone().normalize())
+
+  // Triangles sharing an edge or vertex report the same crossing
+  const crossings = bvh.raycast(ray, DoubleSide)
+    .map(hit => hit.distance)
+    .sort((a, b) => a - b)
+    .filter((d, i, all) => i === 0 || d - all[i - 1] > SURFACE_TOLERANCE)
+
+  const intervals: Array<[number, number]> = []
+  for (let i = 1; i < crossings.length; i++) {
+    const [from, to] = [crossings[i - 1], crossings[i]]
+    if (!isInterior(bvh, ray.at((from + to) / 2, new Vector3()))) continue
+    const last = intervals[intervals.length - 1]
+    if (last && last[1] === from) last[1] = to
+    else intervals.push([from, to])
+  }
+  return intervals
+}
+
+/**
+ * Classify edge visibility using ray-casting against the solid
+ *
+ * Each edge is sampled along its length. A sample is visible when a ray cast
+ * from it towards the viewer escapes the solid, hidden when the ray hits the
+ * solid, and absent when the sample does not lie on the solid's surface at all
+ * (e.g. tool primitive edges outside the part). Wherever the state changes the
+ * boundary is refined by bisection and the edge is split there, so a partly
+ * occluded edge yields separate visible and hidden segments.
+ *
+ * @param edges - Edges to classify (same coordinate space as the solid)
+ * @param solid - Evaluated CSG geometry to test against
+ * @param towardViewer - Unit direction from the part towards the viewer
+ *                       (orthographic, so all rays are parallel)
+ * @returns Visible and hidden edge segments; absent portions are dropped
  */
 export function classifyEdgeVisibility(
   edges: Edge[],
-  mesh: Mesh,
-  viewOrigin: Vector3,
-  epsilon = 0.01
+  solid: BufferGeometry,
+  towardViewer: Vector3
 ): ClassifiedEdge[] {
-  const raycaster = new Raycaster()
+  const bvh = getBVH(solid)
+  const ray = new Ray()
+  const direction = towardViewer.clone().normalize()
   const classifiedEdges: ClassifiedEdge[] = []
-  
+
+  const classifyPoint = (point: Vector3): SampleState => {
+    const closest = bvh.closestPointToPoint(point)
+    if (!closest || closest.distance > SURFACE_TOLERANCE) return 'absent'
+
+    // The sample is hidden if any stretch of the ray towards the viewer passes
+    // through material. Testing stretch midpoints (rather than the first hit)
+    // keeps rays that graze a face, or leave through a face's far edge, visible.
+    ray.origin.copy(point)
+    ray.direction.copy(direction)
+    const distances = bvh.raycast(ray, DoubleSide)
+      .map(hit => hit.distance)
+      .filter(d => d > RAY_EPSILON)
+      .sort((a, b) => a - b)
+
+    let from = 0
+    for (const to of distances) {
+      if (to - from > 2 * SURFACE_TOLERANCE && isInterior(bvh, ray.at((from + to) / 2, new Vector3()))) {
+        return 'hidden'
+      }
+      from = to
+    }
+    return 'visible'
+  }
+
   edges.forEach(edge => {
-    // Test visibility at multiple points along the edge
-    const testPoints = [
-      edge.start,
-      edge.end,
-      edge.start.clone().lerp(edge.end, 0.5) // midpoint
-    ]
-    
-    let visiblePoints = 0
-    
-    testPoints.forEach(point => {
-      // Cast ray from view origin to point
-      const direction = point.clone().sub(viewOrigin).normalize()
-      const distance = point.distanceTo(viewOrigin)
-      
-      raycaster.set(viewOrigin, direction)
-      raycaster.near = epsilon
-      raycaster.far = distance - epsilon
-      
-      const intersects = raycaster.intersectObject(mesh, true)
-      
-      // Point is visible if no intersections or only intersects beyond the point
-      if (intersects.length === 0 || intersects[0].distance > distance - epsilon) {
-        visiblePoints++
+    const length = edge.start.distanceTo(edge.end)
+    const intervals = Math.min(MAX_SAMPLES, Math.max(2, Math.ceil(length / SAMPLE_SPACING)))
+    const pointAt = (t: number) => edge.start.clone().lerp(edge.end, t)
+
+    // Classify evenly spaced samples along the edge
+    const samples: { t: number; state: SampleState }[] = []
+    for (let i = 0; i <= intervals; i++) {
+      const t = i / intervals
+      samples.push({ t, state: classifyPoint(pointAt(t)) })
+    }
+
+    // Split into runs of equal state, bisecting between samples that differ
+    const runs: { t0: number; t1: number; state: SampleState }[] = []
+    let runStart = 0
+    let runState = samples[0].state
+
+    for (let i = 1; i < samples.length; i++) {
+      const { t, state } = samples[i]
+      if (state === runState) continue
+
+      let lo = samples[i - 1].t
+      let hi = t
+      for (let k = 0; k < BOUNDARY_ITERATIONS; k++) {
+        const mid = (lo + hi) / 2
+        if (classifyPoint(pointAt(mid)) === runState) lo = mid
+        else hi = mid
+      }
+
+      runs.push({ t0: runStart, t1: hi, state: runState })
+      runStart = hi
+      runState = state
+    }
+    runs.push({ t0: runStart, t1: 1, state: runState })
+
+    // Near corners, samples can flip state over a tiny stretch;
+    // fold those slivers into the neighbouring run
+    const minT = MIN_SEGMENT_LENGTH / Math.max(length, MIN_SEGMENT_LENGTH)
+    const merged: typeof runs = []
+    runs.forEach(run => {
+      const last = merged[merged.length - 1]
+      if (last && (run.state === last.state || run.t1 - run.t0 < minT)) {
+        last.t1 = run.t1
+      } else if (last && last.t1 - last.t0 < minT) {
+        merged[merged.length - 1] = { ...run, t0: last.t0 }
+      } else {
+        merged.push({ ...run })
       }
     })
-    
-    // Edge is visible if at least 2 out of 3 test points are visible
-    const visible = visiblePoints >= 2
-    
-    classifiedEdges.push({
-      start: edge.start,
-      end: edge.end,
-      visible,
-      type: 'sharp' // Can be enhanced to distinguish sharp/silhouette
+
+    merged.forEach(({ t0, t1, state }) => {
+      if (state === 'absent') return
+      classifiedEdges.push({
+        start: pointAt(t0),
+        end: pointAt(t1),
+        visible: state === 'visible',
+        type: 'sharp'
+      })
     })
   })
-  
+
   return classifiedEdges
 }
 
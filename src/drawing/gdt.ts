@@ -0,0 +1,362 @@
+/**
+ * Geometric tolerancing per ISO 1101 and ISO 5459
+ *
+ * - Datum feature symbols (A, B, C) on faces of the part and on hole axes
+ * - Feature control frames for flatness, perpendicularity, position and
+ *   concentricity: on a face with a leader, or under a hole's callout
+ *
+ * Recipes request them in `metadata.gdt` (see GeometricTolerancing). Faces
+ * are named by their outward normal in the recipe axes; holes by one of
+ * their tool primitives.
+ */
+
+import { Vector3, type Box3, type Matrix4 } from 'three'
+import type { PartRecipe } from '../types/part'
+import { CALLOUT_LINE_SPACING, DEFAULT_DIMENSION_CONFIG, formatLength, getDimensionBounds, type BoundingBox2D, type Dimension, type DimensionConfig, type HoleCallout, type Point2D } from './dimensions'
+import { bodyBounds } from './holes'
+import { ORTHOGRAPHIC_MATRICES, towardViewer, type OrthographicView } from './projection'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Face of the part's body, by its outward normal in the recipe axes
+ */
+export type PartFace = '+x' | '-x' | '+y' | '-y' | '+z' | '-z'
+
+/**
+ * Geometric characteristics supported in feature control frames (ISO 1101)
+ */
+export type GeometricCharacteristic = 'flatness' | 'perpendicularity' | 'position' | 'concentricity'
+
+/** Symbols of the geometric characteristics (ISO 1101) */
+export const GEOMETRIC_SYMBOLS: Record<GeometricCharacteristic, string> = {
+  flatness: '⏥',
+  perpendicularity: '⟂',
+  position: '⌖',
+  concentricity: '◎'
+}
+
+/**
+ * Datum feature requested by a recipe: a face, or the axis of a hole
+ */
+export interface DatumFeatureSpec {
+  /** Capital letter; I, O and Q are not used (ISO 5459) */
+  letter: string
+  face?: PartFace
+  /** Any tool primitive of the hole */
+  primitiveId?: string
+}
+
+/**
+ * Feature control frame requested by a recipe, on a face or a hole
+ */
+export interface FeatureControlFrameSpec {
+  characteristic: GeometricCharacteristic
+  /** Width of the tolerance zone (mm); its diameter for hole axes */
+  tolerance: number
+  /** Datum letters in order of precedence */
+  datums?: string[]
+  face?: PartFace
+  /** Any tool primitive of the hole */
+  primitiveId?: string
+}
+
+/**
+ * Geometric tolerancing of a part, as found in `recipe.metadata.gdt`
+ */
+export interface GeometricTolerancing {
+  datums: DatumFeatureSpec[]
+  frames: FeatureControlFrameSpec[]
+}
+
+/**
+ * Datum feature symbol: a filled triangle on the feature joined to a square
+ * with the datum letter
+ */
+export interface DatumFeatureSymbol {
+  letter: string
+  view: OrthographicView
+  base: Point2D          // Middle of the triangle's base, on the feature
+  box: Point2D           // Centre of the square
+  size: number           // Side of the square (mm)
+}
+
+/**
+ * Feature control frame: characteristic, tolerance and datums in a row of cells
+ */
+export interface FeatureControlFrame {
+  id: string
+  view: OrthographicView
+  characteristic: GeometricCharacteristic
+  cells: Array<{ text: string; width: number }>
+  origin: Point2D        // Upper-left corner
+  height: number
+  leader?: {
+    start: Point2D       // On the toleranced face (arrowhead)
+    end: Point2D         // On the frame
+  }
+}
+
+/**
+ * Datum symbols and frames of a drawing
+ */
+export interface GeometricAnnotations {
+  datums: DatumFeatureSymbol[]
+  frames: FeatureControlFrame[]
+}
+
+// ============================================================================
+// Recipe Metadata
+// ============================================================================
+
+const FACE_NORMALS: Record<PartFace, Vector3> = {
+  '+x': new Vector3(1, 0, 0),
+  '-x': new Vector3(-1, 0, 0),
+  '+y': new Vector3(0, 1, 0),
+  '-y': new Vector3(0, -1, 0),
+  '+z': new Vector3(0, 0, 1),
+  '-z': new Vector3(0, 0, -1)
+}
+
+/**
+ * Read and check the geometric tolerancing requested in `recipe.metadata.gdt`
+ *
+ * @param recipe - Part recipe
+ * @returns The tolerancing, or undefined when the recipe requests none
+ * @throws Error if a datum or frame is malformed
+ */
+export function readGeometricTolerancing(recipe: PartRecipe): GeometricTolerancing | undefined {
+  const gdt = recipe.metadata?.gdt as Partial<GeometricTolerancing> | undefined
+  if (!gdt) return undefined
+  const datums = gdt.datums ?? []
+  const frames = gdt.frames ?? []
+
+  const letters = new Set<string>()
+  for (const datum of datums) {
+    if (!/^[A-HJ-NPR-Z]$/.test(datum.letter)) throw new Error(`Invalid datum letter: ${datum.letter} (A-Z without I, O and Q)`)
+    if (letters.has(datum.letter)) throw new Error(`Datum ${datum.letter} given twice`)
+    checkTarget(`Datum ${datum.letter}`, datum)
+    letters.add(datum.letter)
+  }
+
+  frames.forEach((frame, i) => {
+    const name = `Frame ${i + 1} (${frame.characteristic})`
+    if (!(frame.characteristic in GEOMETRIC_SYMBOLS)) throw new Error(`${name}: unsupported characteristic`)
+    if (!(frame.tolerance > 0)) throw new Error(`${name}: tolerance must be positive`)
+    checkTarget(name, frame)
+    const references = frame.datums ?? []
+    const unknown = references.find(letter => !letters.has(letter))
+    if (unknown) throw new Error(`${name}: unknown datum ${unknown}`)
+    if (frame.characteristic === 'flatness' && (references.length > 0 || !frame.face)) {
+      throw new Error(`${name}: flatness is the form of a face, without datums`)
+    }
+    if (frame.characteristic !== 'flatness' && references.length === 0) throw new Error(`${name}: needs a datum`)
+    if ((frame.characteristic === 'position' || frame.characteristic === 'concentricity') && !frame.primitiveId) {
+      throw new Error(`${name}: applies to a hole`)
+    }
+  })
+
+  return { datums, frames }
+}
+
+/**
+ * Turn the faces of a part's tolerancing with the part (front view selection)
+ *
+ * @param gdt - Tolerancing in the recipe's axes
+ * @param rotation - Quarter-turn rotation applied to the part
+ */
+export function orientGeometricTolerancing(gdt: GeometricTolerancing, rotation: Matrix4): GeometricTolerancing {
+  const turn = <T extends { face?: PartFace }>(target: T): T => target.face ? { ...target, face: turnFace(target.face, rotation) } : target
+  return { datums: (gdt.datums ?? []).map(turn), frames: (gdt.frames ?? []).map(turn) }
+}
+
+/**
+ * Face a face becomes when the part is turned by a quarter-turn rotation
+ */
+export function turnFace(face: PartFace, rotation: Matrix4): PartFace {
+  return faceFromNormal(FACE_NORMALS[face].clone().applyMatrix4(rotation))
+}
+
+/**
+ * Whether a value names a face of the part ('+x', '-z', ...)
+ */
+export function isPartFace(value: unknown): value is PartFace {
+  return typeof value === 'string' && value in FACE_NORMALS
+}
+
+// A datum or frame goes on a face or a hole, not both
+function checkTarget(name: string, target: { face?: PartFace; primitiveId?: string }) {
+  if (!target.face === !target.primitiveId) throw new Error(`${name}: give either a face or a hole`)
+  if (target.face && !isPartFace(target.face)) throw new Error(`${name}: unknown face ${target.face}`)
+}
+
+function faceFromNormal(normal: Vector3): PartFace {
+  const face = (Object.keys(FACE_NORMALS) as PartFace[]).find(name => FACE_NORMALS[name].dot(normal) > 1 - 1e-6)
+  if (!face) throw new Error(`No face along (${normal.x}, ${normal.y}, ${normal.z})`)
+  return face
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+// Where along a face (from its first end) datum symbols and frame leaders attach
+const DATUM_ATTACHMENT = 0.3
+const FRAME_ATTACHMENT = 0.7
+
+/**
+ * Lay out the datum symbols and feature control frames of a part
+ *
+ * Frames on holes hang under the hole's callout, one below the other; a
+ * datum on a hole sits on the callout's shoulder. Face datums and frames
+ * go in the view seeing the face edge-on, beyond the dimensions on that
+ * side. Frames on holes without a callout are left out.
+ *
+ * @param recipe - Part recipe with `metadata.gdt`
+ * @param dimensions - The part's dimensions, after collision resolution
+ * @param config - Dimension configuration (text height and spacing)
+ * @throws Error if the tolerancing is malformed
+ */
+export function generateGeometricTolerances(
+  recipe: PartRecipe,
+  dimensions: Dimension[],
+  config: DimensionConfig = DEFAULT_DIMENSION_CONFIG
+): GeometricAnnotations {
+  const annotations: GeometricAnnotations = { datums: [], frames: [] }
+  const gdt = readGeometricTolerancing(recipe)
+  if (!gdt) return annotations
+
+  const body = bodyBounds(recipe)
+  const obstacles = (view: OrthographicView) => dimensions.filter(d => d.view === view).map(d => getDimensionBounds(d, config))
+  const callouts = dimensions.filter((d): d is HoleCallout => d.type === 'callout')
+  const calloutOf = (primitiveId: string) => callouts.find(callout => callout.primitiveIds.includes(primitiveId))
+  const size = 2 * config.textHeight
+
+  for (const datum of gdt.datums) {
+    if (datum.face) {
+      const { view, from, to, outward } = faceInView(body, datum.face)
+      const base = along(from, to, DATUM_ATTACHMENT)
+      const reach = clearancePast(obstacles(view), base, outward, config) + size / 2
+      annotations.datums.push({ letter: datum.letter, view, base, box: { x: base.x + outward.x * reach, y: base.y + outward.y * reach }, size })
+    } else {
+      const callout = calloutOf(datum.primitiveId!)
+      if (!callout) continue
+      const base = { x: (callout.leaderLine.end.x + callout.shoulder.x) / 2, y: callout.shoulder.y }
+      annotations.datums.push({ letter: datum.letter, view: callout.view, base, box: { x: base.x, y: base.y + 1.5 * size }, size })
+    }
+  }
+
+  // Next free line under each callout, and distance out from each face
+  const underCallout = new Map<string, number>()
+  const outFromFace = new Map<PartFace, number>()
+
+  gdt.frames.forEach((spec, i) => {
+    const cells = frameCells(spec, config)
+    const width = cells.reduce((sum, cell) => sum + cell.width, 0)
+    const frame = { id: `gdt-frame-${i + 1}`, characteristic: spec.characteristic, cells, height: size }
+
+    if (spec.face) {
+      const { view, from, to, outward } = faceInView(body, spec.face)
+      const start = along(from, to, FRAME_ATTACHMENT)
+      const reach = outFromFace.get(spec.face) ?? clearancePast(obstacles(view), start, outward, config)
+      const end = { x: start.x + outward.x * reach, y: start.y + outward.y * reach }
+      // The leader meets the middle of the frame's near side
+      const origin = outward.x !== 0
+        ? { x: outward.x > 0 ? end.x : end.x - width, y: end.y + size / 2 }
+        : { x: end.x - width / 2, y: outward.y > 0 ? end.y + size : end.y }
+      annotations.frames.push({ ...frame, view, origin, leader: { start, end } })
+      outFromFace.set(spec.face, reach + size + config.minSpacingBetween)
+      return
+    }
+
+    const callout = calloutOf(spec.primitiveId!)
+    if (!callout) return
+    // The note starts 1 mm beyond the shoulder (see renderLeaderNote)
+    const side = Math.sign(callout.shoulder.x - callout.leaderLine.end.x)
+    const x = callout.shoulder.x + side
+    const top = underCallout.get(callout.id) ??
+      callout.shoulder.y - (callout.lines.length - 1) * config.textHeight * CALLOUT_LINE_SPACING - config.textHeight
+    annotations.frames.push({ ...frame, view: callout.view, origin: { x: side > 0 ? x : x - width, y: top } })
+    underCallout.set(callout.id, top - size)
+  })
+
+  return annotations
+}
+
+/**
+ * Text of a feature control frame: characteristic, tolerance, datums
+ * (e.g. "⌖ | Ø0.1 | A | B | C")
+ */
+export function formatFeatureControlFrame(frame: FeatureControlFrame): string {
+  return frame.cells.map(cell => cell.text).join(' | ')
+}
+
+// Cells of a frame: square symbol and datum cells, the tolerance as wide as its text
+function frameCells(spec: FeatureControlFrameSpec, config: DimensionConfig): FeatureControlFrame['cells'] {
+  const height = 2 * config.textHeight
+  // Hole axes have cylindrical tolerance zones; inch tolerances take three places
+  const value = config.units === 'mm' ? String(Number(spec.tolerance.toFixed(3))) : formatLength(spec.tolerance, { units: config.units, decimalPlaces: 3 })
+  const tolerance = `${spec.primitiveId ? 'Ø' : ''}${value}`
+  return [
+    { text: GEOMETRIC_SYMBOLS[spec.characteristic], width: height },
+    { text: tolerance, width: Math.max(height, (tolerance.length * 0.6 + 1) * config.textHeight) },
+    ...(spec.datums ?? []).map(letter => ({ text: letter, width: height }))
+  ]
+}
+
+/**
+ * Bounds of the datum symbols and frames of a view (view mm)
+ */
+export function geometricToleranceBounds(annotations: GeometricAnnotations, view: OrthographicView): BoundingBox2D[] {
+  return [
+    ...annotations.datums.filter(datum => datum.view === view).map(({ box, size }) =>
+      ({ x: box.x - size / 2, y: box.y - size / 2, width: size, height: size })),
+    ...annotations.frames.filter(frame => frame.view === view).map(({ origin, cells, height }) =>
+      ({ x: origin.x, y: origin.y - height, width: cells.reduce((sum, cell) => sum + cell.width, 0), height }))
+  ]
+}
+
+/**
+ * First view seeing a face edge-on: the face's line and its outward
+ * direction (view mm)
+ */
+export function faceInView(body: Box3, face: PartFace): { view: OrthographicView; from: Point2D; to: Point2D; outward: Point2D } {
+  const normal = FACE_NORMALS[face]
+  const view = (Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]).find(name =>
+    Math.abs(towardViewer(ORTHOGRAPHIC_MATRICES[name]).dot(normal)) < 1e-6)!
+  const matrix = ORTHOGRAPHIC_MATRICES[view]
+
+  // The body's box flattened onto the face, seen edge-on
+  const axis = face[1] as 'x' | 'y' | 'z'
+  const flat = body.clone()
+  flat.min[axis] = flat.max[axis] = face[0] === '+' ? body.max[axis] : body.min[axis]
+  const { min, max } = flat.applyMatrix4(matrix)
+  const direction = normal.clone().transformDirection(matrix)
+  const outward = { x: Math.round(direction.x), y: Math.round(direction.y) }
+
+  return outward.x !== 0
+    ? { view, from: { x: min.x, y: min.y }, to: { x: min.x, y: max.y }, outward }
+    : { view, from: { x: min.x, y: min.y }, to: { x: max.x, y: min.y }, outward }
+}
+
+function along(from: Point2D, to: Point2D, t: number): Point2D {
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }
+}
+
+/**
+ * Distance out from a point on a face past the given boxes (view mm), at
+ * least the minimum offset from the outline
+ */
+export function clearancePast(obstacles: BoundingBox2D[], point: Point2D, outward: Point2D, config: DimensionConfig): number {
+  let reach = config.minOffsetFromOutline
+  for (const bounds of obstacles) {
+    for (const x of [bounds.x, bounds.x + bounds.width]) {
+      for (const y of [bounds.y, bounds.y + bounds.height]) {
+        reach = Math.max(reach, (x - point.x) * outward.x + (y - point.y) * outward.y + config.minSpacingBetween)
+      }
+    }
+  }
+  return reach
+}
@@ -0,0 +1,102 @@
+/**
+ * SVG rendering for geometric tolerancing (ISO 1101, ISO 5459)
+ *
+ * - Datum feature symbols: filled triangle on the feature, thin line to a
+ *   square with the datum letter
+ * - Feature control frames: a row of cells (characteristic, tolerance,
+ *   datums), with a leader and arrowhead to a toleranced face
+ *
+ * Annotations are given in view-plane mm (y up) around the view centre;
+ * Y is flipped here for SVG.
+ */
+
+import { DEFAULT_DIMENSION_CONFIG, type DimensionConfig } from './dimensions'
+import { renderArrowhead } from './dimensionsSVG'
+import type { DatumFeatureSymbol, FeatureControlFrame, GeometricAnnotations } from './gdt'
+import type { OrthographicView } from './projection'
+
+/**
+ * Generate SVG group element containing the datum symbols and frames of a view
+ * (leader arrowheads and line width from the dimension configuration)
+ */
+export function renderGeometricTolerances(
+  annotations: GeometricAnnotations,
+  view: OrthographicView,
+  scale: number = 1,
+  config: DimensionConfig = DEFAULT_DIMENSION_CONFIG
+): string {
+  const elements = [
+    ...annotations.datums.filter(datum => datum.view === view).map(datum => renderDatumFeatureSymbol(datum, scale, config)),
+    ...annotations.frames.filter(frame => frame.view === view).map(frame => renderFeatureControlFrame(frame, scale, config))
+  ]
+  if (elements.length === 0) return ''
+
+  return `<g class="geometric-tolerances" data-view="${view}">\n${elements.join('\n')}\n</g>`
+}
+
+/**
+ * Render a datum feature symbol; the triangle's base lies on the feature
+ */
+function renderDatumFeatureSymbol(datum: DatumFeatureSymbol, scale: number, config: DimensionConfig): string {
+  const { base, box, size } = datum
+  const length = Math.hypot(box.x - base.x, box.y - base.y)
+  const u = { x: (box.x - base.x) / length, y: (box.y - base.y) / length }
+  const half = size / 4
+  const apex = { x: base.x + u.x * size * 0.4, y: base.y + u.y * size * 0.4 }
+  const edge = { x: box.x - u.x * size / 2, y: box.y - u.y * size / 2 }
+  const point = (p: { x: number; y: number }) => `${p.x * scale},${-p.y * scale}`
+
+  return (
+    `<g class="datum-feature" data-letter="${datum.letter}">` +
+    `<polygon points="${point({ x: base.x - u.y * half, y: base.y + u.x * half })} ${point({ x: base.x + u.y * half, y: base.y - u.x * half })} ${point(apex)}" ` +
+    `fill="black" />` +
+    `<line x1="${apex.x * scale}" y1="${-apex.y * scale}" x2="${edge.x * scale}" y2="${-edge.y * scale}" stroke="black" stroke-width="${config.thinLineWidth}" />` +
+    `<rect x="${(box.x - size / 2) * scale}" y="${-(box.y + size / 2) * scale}" width="${size * scale}" height="${size * scale}" ` +
+    `fill="white" stroke="black" stroke-width="${config.thinLineWidth}" />` +
+    renderCellText(box.x, box.y, datum.letter, scale) +
+    `</g>`
+  )
+}
+
+/**
+ * Render a feature control frame, with its leader when it points at a face
+ */
+function renderFeatureControlFrame(frame: FeatureControlFrame, scale: number, config: DimensionConfig): string {
+  const parts: string[] = []
+  const { origin, height } = frame
+
+  if (frame.leader) {
+    const { start, end } = frame.leader
+    parts.push(
+      `<line x1="${start.x * scale}" y1="${-start.y * scale}" x2="${end.x * scale}" y2="${-end.y * scale}" ` +
+      `class="leader-line" stroke="black" stroke-width="${config.thinLineWidth}" />`,
+      renderArrowhead({
+        position: start,
+        angle: Math.atan2(start.y - end.y, start.x - end.x),
+        length: config.arrowheadLength,
+        width: config.arrowheadWidth
+      }, scale)
+    )
+  }
+
+  // Cells left to right, each with its text centred
+  let x = origin.x
+  for (const cell of frame.cells) {
+    parts.push(
+      `<rect x="${x * scale}" y="${-origin.y * scale}" width="${cell.width * scale}" height="${height * scale}" ` +
+      `fill="white" stroke="black" stroke-width="${config.thinLineWidth}" />`,
+      renderCellText(x + cell.width / 2, origin.y - height / 2, cell.text, scale)
+    )
+    x += cell.width
+  }
+
+  return `<g class="feature-control-frame" data-id="${frame.id}" data-characteristic="${frame.characteristic}">\n${parts.join('\n')}\n</g>`
+}
+
+// Text centred in a cell (ISO 3098-2, 3.5 mm)
+function renderCellText(x: number, y: number, text: string, scale: number): string {
+  return (
+    `<text x="${x * scale}" y="${-y * scale}" font-family="Arial, sans-serif" font-size="${3.5 * scale}" ` +
+    `text-anchor="middle" dominant-baseline="middle" fill="black">${text}</text>`
+  )
+}
@@ -0,0 +1,405 @@
+/**
+ * Hole recognition for hole callouts (ISO 129-1, ASME Y14.5)
+ *
+ * A drilled hole is often made from several subtraction tools: the drill
+ * cylinder plus a wider cylinder (counterbore) or a cone (countersink) on
+ * the same axis. Identical holes are usually patterned. To call each hole
+ * out once:
+ * 1. Collect the revolved subtraction tools and group coaxial ones
+ * 2. The narrowest cylinder of a group is the hole; wider cylinders are
+ *    counterbores and cones countersinks, measured from the face they open on
+ * 3. Holes of the same size and direction form one pattern (4× Ø8 THRU)
+ * 4. A pattern on a circle is a bolt circle (6× Ø8 THRU on PCD Ø50); one
+ *    along a line shares a centre line
+ */
+
+import { Box3, Vector3, type BufferAttribute, type BufferGeometry } from 'three'
+import type { BooleanOp, PartRecipe, Primitive } from '../types/part'
+import { resolvePrimitives } from './sections'
+import { materialIntervals } from './edges'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+import { recipeSolid } from '../csg/evaluate'
+
+/**
+ * Counterbore at the entry of a hole
+ */
+export interface Counterbore {
+  diameter: number
+  /** Depth from the entry face (mm) */
+  depth: number
+}
+
+/**
+ * Countersink at the entry of a hole
+ */
+export interface Countersink {
+  /** Diameter at the entry face (mm) */
+  diameter: number
+  /** Included angle (degrees) */
+  angle: number
+}
+
+/**
+ * Hole made by one or more coaxial subtraction tools
+ */
+export interface HoleFeature {
+  /** Tool primitives making up the hole: the drill first, then counterbore or countersink */
+  primitiveIds: string[]
+
+  /** Point where the axis meets the entry face (part space) */
+  center: Vector3
+
+  /** Unit direction of the axis, from the entry face into the part */
+  axis: Vector3
+
+  diameter: number
+
+  /** Depth from the entry face (mm); undefined for through holes */
+  depth?: number
+
+  counterbore?: Counterbore
+
+  countersink?: Countersink
+}
+
+/**
+ * Arrangement of the holes of a pattern, seen down their axis
+ * - circular: equally spaced on a pitch circle, located by its centre and diameter (PCD)
+ * - linear: along one line, drawn with a common centre line
+ */
+export type PatternLayout =
+  | { kind: 'circular'; center: Vector3; radius: number }
+  | { kind: 'linear'; start: Vector3; end: Vector3 }
+
+// Patterns of fewer holes have no layout
+const MIN_LAYOUT_HOLES = 3
+
+// Axes within this angle of each other are parallel
+const PARALLEL_TOLERANCE = Math.cos(Math.PI / 180)
+
+// Axes closer than this (mm) are the same axis; tools closer than this to a face reach it
+const AXIS_TOLERANCE = 0.01
+
+// Sizes are compared to this precision (mm, degrees) when grouping holes into patterns
+const SIZE_PRECISION = 2
+
+// Material around a hole is probed this far (mm) outside its widest tool
+const FACE_PROBE_CLEARANCE = 0.5
+
+/**
+ * Revolved subtraction tool with its axis in part space
+ */
+interface RevolvedTool {
+  primitive: Primitive
+  center: Vector3
+  /** Local +Y of the tool (the radiusTop end of a cone) */
+  axis: Vector3
+  height: number
+  radiusTop: number
+  radiusBottom: number
+}
+
+/**
+ * Find the holes of a part
+ *
+ * Only holes along a part axis are found (inclined holes are shown in
+ * auxiliary views). A group of tools counts as a hole when it opens onto a
+ * face of the material around it and its drill stays clear of the side faces
+ * of the body. The faces are found by ray-casting the evaluated solid beside
+ * the hole, or taken from the body's bounding box when it cannot be evaluated.
+ *
+ * @param recipe - Part recipe
+ * @returns Holes in the order of their drill tools
+ */
+export function findHoleFeatures(recipe: PartRecipe): HoleFeature[] {
+  const solid = recipeSolid(recipe)
+  const body = bodyBounds(recipe)
+
+  // Coaxial tools, in recipe order
+  const groups: RevolvedTool[][] = []
+  for (const tool of findRevolvedTools(recipe)) {
+    const group = groups.find(([first]) => Math.abs(first.axis.dot(tool.axis)) > PARALLEL_TOLERANCE &&
+      tool.center.clone().sub(first.center).cross(first.axis).length() < AXIS_TOLERANCE)
+    if (group) group.push(tool)
+    else groups.push([tool])
+  }
+
+  const holes: HoleFeature[] = []
+  for (const group of groups) {
+    // Holes along a part axis only
+    const axisIndex = [0, 1, 2].find(i => Math.abs(group[0].axis.getComponent(i)) > PARALLEL_TOLERANCE)
+    if (axisIndex === undefined) continue
+
+    const cylinders = group.filter(tool => tool.primitive.kind === 'cylinder').sort((a, b) => a.radiusTop - b.radiusTop)
+    const cones = group.filter(tool => tool.primitive.kind === 'cone')
+    const drill = cylinders[0]
+    if (!drill) continue
+
+    // Tools breaking out through a side face round an edge or cut a slot
+    const inside = [0, 1, 2].filter(i => i !== axisIndex).every(i =>
+      drill.center.getComponent(i) - drill.radiusTop >= body.min.getComponent(i) - AXIS_TOLERANCE &&
+      drill.center.getComponent(i) + drill.radiusTop <= body.max.getComponent(i) + AXIS_TOLERANCE)
+    if (!inside) continue
+
+    // Extent of each tool along the part axis, and which faces it reaches
+    const { low, high } = holeFaces(group, drill, axisIndex, body, solid)
+    const extent = (tool: RevolvedTool) => {
+      const c = tool.center.getComponent(axisIndex)
+      return { min: c - tool.height / 2, max: c + tool.height / 2 }
+    }
+    const reaches = (tool: RevolvedTool, side: 1 | -1) => {
+      const { min, max } = extent(tool)
+      return side > 0 ? max >= high - AXIS_TOLERANCE : min <= low + AXIS_TOLERANCE
+    }
+
+    // The counterbore or countersink decides the entry face; a plain hole
+    // enters from the positive face when it reaches it
+    const counterbore = cylinders.slice(1).find(tool => tool.radiusTop > drill.radiusTop + AXIS_TOLERANCE)
+    const countersink = cones[0]
+    const entryTool = counterbore ?? countersink ?? drill
+    const side = reaches(entryTool, 1) ? 1 : reaches(entryTool, -1) ? -1 : 0
+    if (side === 0) continue
+
+    const through = reaches(drill, 1) && reaches(drill, -1)
+    const face = side > 0 ? high : low
+    const depthFrom = (tool: RevolvedTool) => side > 0 ? high - extent(tool).min : extent(tool).max - low
+
+    const axis = new Vector3().setComponent(axisIndex, -side)
+    const center = drill.center.clone().setComponent(axisIndex, face)
+    const hole: HoleFeature = {
+      primitiveIds: [drill, counterbore, countersink].filter(tool => tool !== undefined).map(tool => tool.primitive.id),
+      center,
+      axis,
+      diameter: 2 * drill.radiusTop,
+      depth: through ? undefined : depthFrom(drill)
+    }
+    if (counterbore) {
+      hole.counterbore = { diameter: 2 * counterbore.radiusTop, depth: depthFrom(counterbore) }
+    }
+    if (countersink) {
+      // Radius where the cone meets the entry face
+      const along = (face - countersink.center.getComponent(axisIndex)) * Math.sign(countersink.axis.getComponent(axisIndex))
+      const t = Math.min(1, Math.max(0, along / countersink.height + 0.5))
+      const radius = countersink.radiusBottom + (countersink.radiusTop - countersink.radiusBottom) * t
+      const angle = (2 * Math.atan(Math.abs(countersink.radiusTop - countersink.radiusBottom) / countersink.height) * 180) / Math.PI
+      hole.countersink = { diameter: 2 * radius, angle: Math.round(angle) }
+    }
+    holes.push(hole)
+  }
+
+  return holes
+}
+
+/**
+ * Faces a hole runs between along its part axis: where the material just
+ * outside its widest tool starts and ends, beside the drill. Falls back to
+ * the body's faces when there is no solid or no material beside the hole.
+ */
+function holeFaces(
+  group: RevolvedTool[],
+  drill: RevolvedTool,
+  axisIndex: number,
+  body: Box3,
+  solid: BufferGeometry | undefined
+): { low: number; high: number } {
+  const bodyFaces = { low: body.min.getComponent(axisIndex), high: body.max.getComponent(axisIndex) }
+  if (!solid) return bodyFaces
+
+  const reach = Math.max(...group.map(tool => Math.max(tool.radiusTop, tool.radiusBottom))) + FACE_PROBE_CLEARANCE
+  const drillMin = drill.center.getComponent(axisIndex) - drill.height / 2
+  const drillMax = drill.center.getComponent(axisIndex) + drill.height / 2
+  const start = bodyFaces.low - 1
+  const direction = new Vector3().setComponent(axisIndex, 1)
+
+  // Probe on both sides across the two other part axes
+  let low = Infinity
+  let high = -Infinity
+  for (const i of [0, 1, 2].filter(i => i !== axisIndex)) {
+    for (const sign of [1, -1]) {
+      const origin = drill.center.clone()
+        .setComponent(i, drill.center.getComponent(i) + sign * reach)
+        .setComponent(axisIndex, start)
+      for (const [from, to] of materialIntervals(solid, origin, direction)) {
+        if (start + to < drillMin || start + from > drillMax) continue
+        low = Math.min(low, start + from)
+        high = Math.max(high, start + to)
+      }
+    }
+  }
+  return low < high ? { low, high } : bodyFaces
+}
+
+/**
+ * Bounding box of the part's body (part space): the evaluated solid's, or
+ * when it cannot be evaluated, the operations worked through on the
+ * primitives' boxes (unions grow the box, intersections trim it, subtractions
+ * leave it). Unlike `bounding_mm` this follows the primitives' actual
+ * placement, whichever way they were built.
+ *
+ * @param recipe - Part recipe
+ */
+export function bodyBounds(recipe: PartRecipe): Box3 {
+  const solid = recipeSolid(recipe)
+  if (solid) {
+    return new Box3().setFromBufferAttribute(solid.getAttribute('position') as BufferAttribute)
+  }
+
+  const primitiveBounds = (primitive: Primitive) => {
+    const geometry = createPrimitiveGeometry(primitive).applyMatrix4(primitiveMatrix(primitive))
+    return new Box3().setFromBufferAttribute(geometry.getAttribute('position') as BufferAttribute)
+  }
+
+  // Without operations the body is every primitive
+  const operations = recipe.operations ?? []
+  if (operations.length === 0) {
+    return recipe.primitives.reduce((bounds, primitive) => bounds.union(primitiveBounds(primitive)), new Box3())
+  }
+
+  // Same semantics as evaluateRecipe(): results replace the target, the last is the part
+  const boxes = new Map<string, Box3>()
+  const resolve = (id: string): Box3 => {
+    const known = boxes.get(id)
+    if (known) return known
+    const primitive = recipe.primitives.find(p => p.id === id)
+    return primitive ? primitiveBounds(primitive) : new Box3()
+  }
+
+  let bounds = new Box3()
+  for (const op of operations) {
+    const target = resolve(op.targetId).clone()
+    const tool = resolve(op.toolId)
+    bounds = op.op === 'union' ? target.union(tool) : op.op === 'intersect' ? target.intersect(tool) : target
+    boxes.set(op.id, bounds)
+    boxes.set(op.targetId, bounds)
+  }
+  return bounds
+}
+
+/**
+ * Primitives used as subtraction tools
+ *
+ * @param recipe - Part recipe
+ */
+export function subtractedPrimitiveIds(recipe: PartRecipe): Set<string> {
+  return toolPrimitiveIds(recipe, 'subtract')
+}
+
+/**
+ * Primitives used as tools of one kind of operation: subtracted,
+ * intersected (trimming the body) or unioned onto it
+ *
+ * @param recipe - Part recipe
+ * @param kind - Operation the primitives are tools of
+ */
+export function toolPrimitiveIds(recipe: PartRecipe, kind: BooleanOp): Set<string> {
+  return new Set((recipe.operations ?? [])
+    .filter(op => op.op === kind)
+    .flatMap(op => resolvePrimitives(recipe, op.toolId).map(primitive => primitive.id)))
+}
+
+/**
+ * Group identical holes into patterns
+ * Holes match when they have the same sizes and run the same way.
+ *
+ * @param holes - Holes of a part
+ * @returns Patterns in the order of their first hole
+ */
+export function groupHolePatterns(holes: HoleFeature[]): HoleFeature[][] {
+  const patterns = new Map<string, HoleFeature[]>()
+  for (const hole of holes) {
+    const key = holeSignature(hole)
+    patterns.set(key, [...(patterns.get(key) ?? []), hole])
+  }
+  return [...patterns.values()]
+}
+
+/**
+ * Find the circle or line the holes of a pattern lie on
+ *
+ * @param pattern - Identical holes (groupHolePatterns)
+ * @returns The layout on the holes' entry face, or undefined for fewer than
+ *   three holes or holes neither on a line nor equally spaced on a circle
+ */
+export function patternLayout(pattern: HoleFeature[]): PatternLayout | undefined {
+  if (pattern.length < MIN_LAYOUT_HOLES) return undefined
+  const [first] = pattern
+  const points = pattern.map(hole => hole.center)
+
+  // Furthest hole from the first, then the hole furthest off the line through both
+  const far = points.reduce((best, p) => p.distanceTo(first.center) > best.distanceTo(first.center) ? p : best)
+  const direction = far.clone().sub(first.center).normalize()
+  const offLine = (p: Vector3) => p.clone().sub(first.center).cross(direction).length()
+  const off = points.reduce((best, p) => offLine(p) > offLine(best) ? p : best)
+
+  if (offLine(off) < AXIS_TOLERANCE) {
+    const along = points.map(p => p.clone().sub(first.center).dot(direction))
+    return {
+      kind: 'linear',
+      start: first.center.clone().addScaledVector(direction, Math.min(...along)),
+      end: first.center.clone().addScaledVector(direction, Math.max(...along))
+    }
+  }
+
+  // Circle through the three: centre from the circumcentre of the triangle
+  const ab = far.clone().sub(first.center)
+  const ac = off.clone().sub(first.center)
+  const normal = ab.clone().cross(ac)
+  const center = first.center.clone().add(
+    normal.clone().cross(ab).multiplyScalar(ac.lengthSq())
+      .add(ac.clone().cross(normal).multiplyScalar(ab.lengthSq()))
+      .divideScalar(2 * normal.lengthSq())
+  )
+  const radius = center.distanceTo(first.center)
+  if (points.some(p => Math.abs(p.distanceTo(center) - radius) > AXIS_TOLERANCE)) return undefined
+
+  // Bolt circles are equally spaced all round
+  const u = first.center.clone().sub(center).divideScalar(radius)
+  const v = normal.normalize().cross(u)
+  const angles = points.map(p => {
+    const offset = p.clone().sub(center)
+    const angle = Math.atan2(offset.dot(v), offset.dot(u))
+    return angle < -1e-9 ? angle + 2 * Math.PI : Math.max(0, angle)
+  }).sort((a, b) => a - b)
+  const pitch = (2 * Math.PI) / points.length
+  const even = angles.every((angle, i) => Math.abs(angle - i * pitch) * radius < AXIS_TOLERANCE)
+  return even ? { kind: 'circular', center, radius } : undefined
+}
+
+/**
+ * Sizes and direction of a hole, rounded for comparison
+ */
+function holeSignature(hole: HoleFeature): string {
+  const round = (value: number | undefined) => value === undefined ? null : Number(value.toFixed(SIZE_PRECISION))
+  return JSON.stringify([
+    hole.axis.toArray().map(round),
+    round(hole.diameter),
+    round(hole.depth),
+    hole.counterbore && [round(hole.counterbore.diameter), round(hole.counterbore.depth)],
+    hole.countersink && [round(hole.countersink.diameter), round(hole.countersink.angle)]
+  ])
+}
+
+/**
+ * Cylinder and cone subtraction tools, with their axes in part space
+ */
+function findRevolvedTools(recipe: PartRecipe): RevolvedTool[] {
+  const tools: RevolvedTool[] = []
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const primitive of resolvePrimitives(recipe, op.toolId)) {
+      if (primitive.kind !== 'cylinder' && primitive.kind !== 'cone') continue
+      const params = primitive.params as { radius?: number; radiusTop?: number; radiusBottom?: number; height?: number }
+      const matrix = primitiveMatrix(primitive)
+      tools.push({
+        primitive,
+        center: new Vector3().applyMatrix4(matrix),
+        axis: new Vector3(0, 1, 0).transformDirection(matrix),
+        height: params.height ?? 50,
+        radiusTop: primitive.kind === 'cylinder' ? params.radius ?? 20 : params.radiusTop ?? 0,
+        radiusBottom: primitive.kind === 'cylinder' ? params.radius ?? 20 : params.radiusBottom ?? 20
+      })
+    }
+  }
+  return tools
+}
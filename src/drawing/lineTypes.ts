@@ -26,6 +26,8 @@ export enum LineType {
   EXTENSION = 'extension',                 // Extension lines
   LEADER = 'leader',                       // Leader lines for notes/callouts
   HATCHING = 'hatching',                   // Section hatching pattern
+  THREAD_ROOT = 'thread-root',             // Roots of screw threads (ISO 6410)
+  BREAK_LINE = 'break-line',               // Limits of interrupted views (with zigzags)
   
   // Thin dashed lines (0.35mm, short dashes)
   HIDDEN_EDGE = 'hidden-edge',             // Hidden edges
@@ -99,6 +101,20 @@ export const LINE_STYLES: Record<LineType, LineStyle> = {
     strokeLinecap: 'butt'
   },
   
+  [LineType.THREAD_ROOT]: {
+    strokeWidth: 0.35,
+    stroke: '#000',
+    strokeDasharray: 'none',
+    strokeLinecap: 'butt'
+  },
+  
+  [LineType.BREAK_LINE]: {
+    strokeWidth: 0.35,
+    stroke: '#000',
+    strokeDasharray: 'none',
+    strokeLinecap: 'butt'
+  },
+  
   // === THIN DASHED LINES (0.35mm) ===
   // Dash pattern: 3mm dash, 1.5mm space (per ISO 128-24)
   [LineType.HIDDEN_EDGE]: {
@@ -142,10 +158,11 @@ export const LINE_STYLES: Record<LineType, LineStyle> = {
  * 
  * @param lineType - Type of line to render
  * @param scale - Scale factor (default 2.0 means 2 SVG units = 1mm)
+ * @param styles - Line styles of the drawing standard (default: ISO 128-24)
  * @returns Object with SVG path attributes
  */
-export function getLineStyleAttributes(lineType: LineType, scale = 2.0): Record<string, string | number> {
-  const style = LINE_STYLES[lineType]
+export function getLineStyleAttributes(lineType: LineType, scale = 2.0, styles: Record<LineType, LineStyle> = LINE_STYLES): Record<string, string | number> {
+  const style = styles[lineType]
   
   const attrs: Record<string, string | number> = {
     stroke: style.stroke,
@@ -178,10 +195,11 @@ export function getLineStyleAttributes(lineType: LineType, scale = 2.0): Record<
  * 
  * @param lineType - Type of line
  * @param scale - Scale factor for dimensions
+ * @param styles - Line styles of the drawing standard (default: ISO 128-24)
  * @returns CSS rule string
  */
-export function generateLineStyleCSS(lineType: LineType, scale = 2.0): string {
-  const style = LINE_STYLES[lineType]
+export function generateLineStyleCSS(lineType: LineType, scale = 2.0, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
+  const style = styles[lineType]
   const className = lineType // Use enum value as class name
   
   let css = `  .${className} {\n`
@@ -210,9 +228,9 @@ export function generateLineStyleCSS(lineType: LineType, scale = 2.0): string {
  * Generate CSS for all line types.
  * Use in SVG <defs><style> block.
  */
-export function generateAllLineStylesCSS(scale = 2.0): string {
+export function generateAllLineStylesCSS(scale = 2.0, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
   const allTypes = Object.values(LineType) as LineType[]
-  return allTypes.map(type => generateLineStyleCSS(type, scale)).join('\n')
+  return allTypes.map(type => generateLineStyleCSS(type, scale, styles)).join('\n')
 }
 
 /**
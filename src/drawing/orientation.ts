@@ -0,0 +1,291 @@
+/**
+ * Automatic front view selection (ISO 5456-2: the front view is the most
+ * informative view of the part)
+ *
+ * Each candidate turns one face direction of the part towards the viewer.
+ * Candidates are scored on their front view:
+ * - Projected area: extent of the part across the view (larger is better)
+ * - Visible edges: more detail shown (more is better)
+ * - Hidden lines: detail only shown dashed (fewer is better)
+ * - Feature visibility: arcs and circles seen in true shape (more is better)
+ *
+ * The chosen orientation is applied to the recipe and the solid, so the
+ * drawing modules (dimensions, centre lines, sections) work unchanged.
+ */
+
+import { Box3, Euler, Matrix4, Vector3, type BufferGeometry } from 'three'
+import type { PartRecipe, Primitive, Transform, Vec3 } from '../types/part'
+import { extractRecipeEdges, type Edge } from './edges'
+import { computeViewEdges, type ViewEdges } from './projection'
+import { orientGeometricTolerancing, readGeometricTolerancing } from './gdt'
+import { orientSurfaceFinish, readSurfaceFinish } from './surfaceTexture'
+import { setRecipeSolid } from '../csg/evaluate'
+
+/**
+ * Direction of the part (recipe axes) that faces the viewer in the front view
+ */
+export type FrontDirection = '+z' | '-z' | '+x' | '-x' | '+y' | '-y'
+
+/**
+ * Rotation turning each direction towards the viewer (+Z); the recipe's own
+ * front is '+z'. Side candidates turn about the vertical axis, top and
+ * bottom candidates tip the part towards the viewer.
+ */
+export const FRONT_ORIENTATIONS: Record<FrontDirection, Matrix4> = {
+  '+z': new Matrix4(),
+  '-z': signedPermutation(new Matrix4().makeRotationY(Math.PI)),
+  '+x': signedPermutation(new Matrix4().makeRotationY(-Math.PI / 2)),
+  '-x': signedPermutation(new Matrix4().makeRotationY(Math.PI / 2)),
+  '+y': signedPermutation(new Matrix4().makeRotationX(Math.PI / 2)),
+  '-y': signedPermutation(new Matrix4().makeRotationX(-Math.PI / 2))
+}
+
+export interface FrontViewScore {
+  direction: FrontDirection
+  /** Bounding area of the part in the view (mm²) */
+  area: number
+  visibleEdges: number
+  hiddenEdges: number
+  /** Visible arcs and circles (features seen in true shape) */
+  features: number
+  /** Weighted score, criteria normalised to the best candidate */
+  score: number
+}
+
+export interface FrontViewChoice {
+  direction: FrontDirection
+  /** Human-readable reason for the choice */
+  reason: string
+  /** All candidates, best first */
+  scores: FrontViewScore[]
+}
+
+type AxisLetter = 'x' | 'y' | 'z'
+
+// Direction each `axis` letter builds (csg/primitives.ts): cylinders and cones
+// run along local +Y (towards radiusTop) before the legacy axis rotation,
+// tori turn about local Z
+const CYLINDER_AXES: Record<AxisLetter, Vec3> = { x: { x: -1, y: 0, z: 0 }, y: { x: 0, y: 0, z: 1 }, z: { x: 0, y: 1, z: 0 } }
+const TORUS_AXES: Record<AxisLetter, Vec3> = { x: { x: 0, y: 0, z: 1 }, y: { x: 0, y: -1, z: 0 }, z: { x: 0, y: 0, z: 1 } }
+
+const WEIGHTS = { area: 0.35, features: 0.25, visibleEdges: 0.2, hiddenEdges: 0.2 }
+// Another candidate must beat the recipe's own front by this much to replace it
+const SWITCH_MARGIN = 0.05
+
+/**
+ * Score every candidate front direction and pick the most descriptive one
+ *
+ * @param solid - Post-boolean solid (ray-cast visibility); recipe edges are used without it
+ * @param recipeEdges - Per-primitive edges, used only when there is no solid
+ */
+export function selectFrontView(solid: BufferGeometry | undefined, recipeEdges: Edge[]): FrontViewChoice {
+  const directions = Object.keys(FRONT_ORIENTATIONS) as FrontDirection[]
+  const size = partSize(solid, recipeEdges)
+  const raw = directions.map(direction =>
+    measureView(direction, size, computeViewEdges(FRONT_ORIENTATIONS[direction], solid, recipeEdges)))
+
+  const max = (key: 'area' | 'visibleEdges' | 'hiddenEdges' | 'features') =>
+    Math.max(...raw.map(s => s[key])) || 1
+  const scores = raw.map(s => ({
+    ...s,
+    score: WEIGHTS.area * s.area / max('area')
+      + WEIGHTS.features * s.features / max('features')
+      + WEIGHTS.visibleEdges * s.visibleEdges / max('visibleEdges')
+      - WEIGHTS.hiddenEdges * s.hiddenEdges / max('hiddenEdges')
+  }))
+
+  // Stable sort keeps the recipe order on ties, so '+z' wins equal scores
+  const ranked = [...scores].sort((a, b) => b.score - a.score)
+  const recipeFront = scores[0]
+  const best = ranked[0].score > recipeFront.score + SWITCH_MARGIN ? ranked[0] : recipeFront
+
+  return { direction: best.direction, reason: describeChoice(best, scores), scores: ranked }
+}
+
+/**
+ * Orient a part for drawing: pick the front view (or use the requested one)
+ * and turn the recipe and solid to match. The turned solid is recorded as
+ * the turned recipe's (recipeSolid()), so dimensioning does not evaluate it again.
+ *
+ * @param recipe - Part recipe in its own axes
+ * @param solid - Post-boolean solid in the recipe's axes, if it could be evaluated
+ * @param frontView - 'auto' to score the candidates, or a fixed direction
+ */
+export function orientForDrawing(
+  recipe: PartRecipe,
+  solid: BufferGeometry | undefined,
+  frontView: FrontDirection | 'auto' = 'auto'
+): { recipe: PartRecipe; solid: BufferGeometry | undefined; recipeEdges: Edge[]; choice: FrontViewChoice } {
+  // Per-primitive edges are only needed when the recipe cannot be evaluated
+  const recipeEdges = solid ? [] : extractRecipeEdges(recipe)
+  const choice: FrontViewChoice = frontView === 'auto'
+    ? selectFrontView(solid, recipeEdges)
+    : { direction: frontView, reason: `${frontView} face requested by the drawing options`, scores: [] }
+  const rotation = FRONT_ORIENTATIONS[choice.direction]
+  const oriented = orientRecipe(recipe, choice.direction)
+  const orientedSolid = solid && orientSolid(solid, choice.direction)
+  setRecipeSolid(oriented, orientedSolid)
+
+  return {
+    recipe: oriented,
+    solid: orientedSolid,
+    recipeEdges: recipeEdges.map(edge => ({ ...edge, start: edge.start.clone().applyMatrix4(rotation), end: edge.end.clone().applyMatrix4(rotation) })),
+    choice
+  }
+}
+
+/**
+ * Turn a recipe so that the given direction faces the viewer
+ * Positions, box sizes, cylinder axes, rotations and the faces of the
+ * geometric tolerancing and surface finishes are rewritten in the new axes; the part's identity
+ * (id, seed, name) is unchanged.
+ */
+export function orientRecipe(recipe: PartRecipe, direction: FrontDirection): PartRecipe {
+  if (direction === '+z') return recipe
+  const rotation = FRONT_ORIENTATIONS[direction]
+
+  return {
+    ...recipe,
+    bounding_mm: extents(recipe.bounding_mm, rotation),
+    primitives: recipe.primitives.map(primitive => orientPrimitive(primitive, rotation)),
+    operations: recipe.operations.map(operation =>
+      operation.transform ? { ...operation, transform: orientTransform(operation.transform, rotation) } : operation),
+    metadata: orientMetadata(recipe, rotation)
+  }
+}
+
+// Metadata with its faces turned with the part
+function orientMetadata(recipe: PartRecipe, rotation: Matrix4): PartRecipe['metadata'] {
+  const gdt = readGeometricTolerancing(recipe)
+  const surfaceFinish = readSurfaceFinish(recipe)
+  if (!gdt && !surfaceFinish) return recipe.metadata
+
+  return {
+    ...recipe.metadata,
+    ...(gdt && { gdt: orientGeometricTolerancing(gdt, rotation) }),
+    ...(surfaceFinish && { surfaceFinish: orientSurfaceFinish(surfaceFinish, rotation) })
+  }
+}
+
+/**
+ * Turn a solid so that the given direction faces the viewer (returns a copy)
+ */
+export function orientSolid(solid: BufferGeometry, direction: FrontDirection): BufferGeometry {
+  return direction === '+z' ? solid : solid.clone().applyMatrix4(FRONT_ORIENTATIONS[direction])
+}
+
+// Extents of the part along the recipe axes (mm)
+function partSize(solid: BufferGeometry | undefined, recipeEdges: Edge[]): Vector3 {
+  if (solid) {
+    solid.computeBoundingBox()
+    return solid.boundingBox!.getSize(new Vector3())
+  }
+  return new Box3().setFromPoints(recipeEdges.flatMap(edge => [edge.start, edge.end])).getSize(new Vector3())
+}
+
+function measureView(direction: FrontDirection, size: Vector3, { visible, hidden }: ViewEdges): Omit<FrontViewScore, 'score'> {
+  // Extents across the view: the size along the viewing axis drops out
+  const depth = Math.abs(size.clone().applyMatrix4(FRONT_ORIENTATIONS[direction]).z)
+
+  return {
+    direction,
+    area: size.x * size.y * size.z / Math.max(depth, 1e-6),
+    visibleEdges: visible.length,
+    hiddenEdges: hidden.length,
+    features: visible.filter(curve => curve.kind !== 'line').length
+  }
+}
+
+function describeChoice(best: FrontViewScore, scores: FrontViewScore[]): string {
+  const leads: string[] = []
+  if (best.area >= Math.max(...scores.map(s => s.area)) - 1e-6) leads.push('largest projected area')
+  if (best.features > 0 && best.features >= Math.max(...scores.map(s => s.features))) {
+    leads.push(`${best.features} feature${best.features === 1 ? '' : 's'} in true shape`)
+  }
+  if (best.visibleEdges >= Math.max(...scores.map(s => s.visibleEdges))) leads.push('most visible edges')
+  if (best.hiddenEdges <= Math.min(...scores.map(s => s.hiddenEdges))) leads.push('fewest hidden lines')
+
+  const subject = best.direction === '+z' ? 'recipe front view kept' : `${best.direction} face turned to the front`
+  return `${subject}: ${leads.length ? leads.join(', ') : 'best overall score'} (score ${best.score.toFixed(2)})`
+}
+
+function orientPrimitive(primitive: Primitive, rotation: Matrix4): Primitive {
+  const params = { ...primitive.params } as Record<string, unknown>
+  const rotated = !!primitive.transform?.rotation
+
+  // Without an own rotation, sizes and axes are rewritten so the drawing
+  // modules, which read them directly, see the turned part
+  if (primitive.kind === 'box' && !rotated) {
+    const size = extents({ x: Number(params.width), y: Number(params.depth), z: Number(params.height) }, rotation)
+    Object.assign(params, { width: size.x, depth: size.y, height: size.z })
+  }
+  if ('axis' in params || primitive.kind === 'cylinder' || primitive.kind === 'cone' || primitive.kind === 'torus') {
+    const axis = (params.axis as AxisLetter | undefined) ?? 'z'
+    const directions = primitive.kind === 'torus' ? TORUS_AXES : CYLINDER_AXES
+    const turned = rotate(directions[axis], rotation)
+    const along = (letter: AxisLetter) => dot(directions[letter], turned)
+    // Prefer the current letter where two letters build the same axis (tori)
+    const letter = ([axis, 'x', 'y', 'z'] as AxisLetter[]).find(l => Math.abs(along(l)) > 0.5)
+
+    if (letter) {
+      params.axis = letter
+      // Cones are not symmetric: keep the small end where the turned part has it
+      if (primitive.kind === 'cone' && along(letter) < 0) {
+        Object.assign(params, { radiusTop: params.radiusBottom, radiusBottom: params.radiusTop })
+      }
+    }
+  }
+
+  return {
+    ...primitive,
+    params,
+    ...(primitive.transform ? { transform: orientTransform(primitive.transform, rotation) } : {})
+  }
+}
+
+function orientTransform(transform: Transform, rotation: Matrix4): Transform {
+  const oriented: Transform = { ...transform }
+  if (transform.position) oriented.position = rotate(transform.position, rotation)
+
+  if (transform.rotation) {
+    const own = new Matrix4().makeRotationFromEuler(new Euler(
+      transform.rotation.x * Math.PI / 180,
+      transform.rotation.y * Math.PI / 180,
+      transform.rotation.z * Math.PI / 180,
+      'XYZ'
+    ))
+    const euler = new Euler().setFromRotationMatrix(rotation.clone().multiply(own), 'XYZ')
+    oriented.rotation = { x: clean(euler.x * 180 / Math.PI), y: clean(euler.y * 180 / Math.PI), z: clean(euler.z * 180 / Math.PI) }
+  } else if (transform.scale) {
+    // Scale acts along the world axes when there is no rotation
+    oriented.scale = extents(transform.scale, rotation)
+  }
+
+  return oriented
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z
+}
+
+function rotate(v: Vec3, rotation: Matrix4): Vec3 {
+  const p = new Vector3(v.x, v.y, v.z).applyMatrix4(rotation)
+  return { x: clean(p.x), y: clean(p.y), z: clean(p.z) }
+}
+
+// Sizes along the new axes
+function extents(v: Vec3, rotation: Matrix4): Vec3 {
+  const p = rotate(v, rotation)
+  return { x: Math.abs(p.x), y: Math.abs(p.y), z: Math.abs(p.z) }
+}
+
+// Remove floating-point noise (and negative zero) from rotated values
+function clean(value: number): number {
+  const rounded = Math.round(value * 1e9) / 1e9
+  return rounded === 0 ? 0 : rounded
+}
+
+// Quarter-turn rotation with exact 0 / ±1 entries
+function signedPermutation(m: Matrix4): Matrix4 {
+  return new Matrix4().fromArray(m.elements.map(Math.round))
+}
@@ -0,0 +1,274 @@
+/**
+ * Projection of a part's logical edges into a 2D orthographic view
+ *
+ * Shared by the SVG drawing and the DXF exporter so both formats get the
+ * same curves:
+ * 1. Extract logical edges (feature edges of the solid, or merged recipe
+ *    edges when the recipe cannot be evaluated)
+ * 2. Classify visible / hidden segments (ray-cast against the solid)
+ * 3. Recognise arcs and circles, then drop everything onto the view plane
+ *
+ * Output is in view-plane millimetres (x right, y up, z = 0). Arcs and
+ * circles that face the viewer keep their true shape with the normal
+ * pointing at the viewer (+Z), so arcs always run counter-clockwise from
+ * start to end. Arcs seen edge-on or obliquely are flattened to lines.
+ */
+
+import { Matrix4, Vector3, type BufferGeometry } from 'three'
+import { classifyEdgeVisibility, type Edge, type ArcEdge, type ClassifiedEdge, type CurveEdge, type LineEdge } from './edges'
+import { extractFeatureEdges, foldOntoCurves, mergeCollinearEdges, recognizeArcs, resolveCoincidentEdges, simplifyEdges } from './consolidate'
+
+/**
+ * Orthographic projection method (ISO 5456-2)
+ * - first-angle: ISO default; each view is placed on the far side of the
+ *   front view from where it is seen (top view below, right view on the left)
+ * - third-angle: ASME Y14.3; each view is placed on the side it is seen
+ *   from (top view above, right view on the right)
+ */
+export type ProjectionMethod = 'first-angle' | 'third-angle'
+
+export const DEFAULT_PROJECTION_METHOD: ProjectionMethod = 'first-angle'
+
+/**
+ * Position of the top and right views relative to the front view,
+ * in unit steps on the sheet (x right, y up)
+ */
+export const VIEW_ARRANGEMENT: Record<ProjectionMethod, { top: { x: number; y: number }; right: { x: number; y: number } }> = {
+  'first-angle': { top: { x: 0, y: -1 }, right: { x: -1, y: 0 } },
+  'third-angle': { top: { x: 0, y: 1 }, right: { x: 1, y: 0 } }
+}
+
+/**
+ * Principal orthographic views of a drawing
+ */
+export type OrthographicView = 'front' | 'top' | 'right'
+
+/**
+ * View matrices for the principal views: the front view looks along -Z,
+ * the top view along -Y and the right view along -X
+ */
+export const ORTHOGRAPHIC_MATRICES: Record<OrthographicView, Matrix4> = {
+  front: new Matrix4(),
+  top: new Matrix4().makeRotationX(Math.PI / 2),
+  right: new Matrix4().makeRotationY(-Math.PI / 2)
+}
+
+/**
+ * Pictorial (axonometric) view style, ISO 5456-3
+ */
+export type PictorialStyle = 'isometric' | 'dimetric'
+
+/**
+ * View matrices for pictorial views, seen from above, right and in front
+ * of the front view. Isometric foreshortens all three axes equally;
+ * dimetric (axes at 7° and 42°) halves the receding axis.
+ */
+export const PICTORIAL_MATRICES: Record<PictorialStyle, Matrix4> = {
+  isometric: new Matrix4().makeRotationX(Math.atan(1 / Math.SQRT2)).multiply(new Matrix4().makeRotationY(-Math.PI / 4)),
+  dimetric: new Matrix4().makeRotationX(Math.asin(1 / 3)).multiply(new Matrix4().makeRotationY(-Math.asin(1 / Math.sqrt(8))))
+}
+
+/**
+ * Enlargement applied to pictorial projections so that lengths along the
+ * (non-receding) axes are true to the drawing scale, as in ISO 5456-3
+ * isometric and dimetric drawings
+ */
+export const PICTORIAL_AXIS_SCALE: Record<PictorialStyle, number> = {
+  isometric: Math.sqrt(3 / 2),
+  dimetric: 3 / (2 * Math.SQRT2)
+}
+
+/**
+ * Curves of one view, split by visibility
+ */
+export interface ViewEdges {
+  visible: CurveEdge[]
+  hidden: CurveEdge[]
+}
+
+// |normal · toward| above this keeps an arc's true shape
+const FACING_THRESHOLD = 1 - 1e-3
+// Angular step when flattening arcs seen at an angle
+const SAMPLE_ANGLE = Math.PI / 16
+// Projected lines shorter than this (mm) are dropped
+const MIN_PROJECTED_LENGTH = 0.01
+
+/**
+ * Unit direction from the part towards the viewer, in world space
+ * Views look along -Z in view space, so the viewer sits at view-space +Z.
+ */
+export function towardViewer(viewMatrix: Matrix4): Vector3 {
+  return new Vector3(0, 0, 1).transformDirection(viewMatrix.clone().invert())
+}
+
+/**
+ * Compute the visible and hidden curves of a view
+ *
+ * @param viewMatrix - Rotation from world space into view space
+ * @param solid - Post-boolean solid; enables feature edges and ray-cast visibility
+ * @param recipeEdges - Per-primitive edges, used only when there is no solid
+ */
+export function computeViewEdges(
+  viewMatrix: Matrix4,
+  solid: BufferGeometry | undefined,
+  recipeEdges: Edge[]
+): ViewEdges {
+  const toward = towardViewer(viewMatrix)
+
+  const classified = solid
+    ? classifyEdgeVisibility(extractFeatureEdges(solid, toward), solid, toward)
+    : classifyByDepth(mergeCollinearEdges(recipeEdges), viewMatrix)
+
+  return projectCurves(classified, viewMatrix)
+}
+
+/**
+ * Bounding rectangle of a view's curves in view-plane mm (includes the origin)
+ * Arcs are bounded by their full circle.
+ */
+export function viewEdgesBounds({ visible, hidden }: ViewEdges): { minX: number; maxX: number; minY: number; maxY: number } {
+  const bounds = { minX: 0, maxX: 0, minY: 0, maxY: 0 }
+  const include = (x: number, y: number) => {
+    bounds.minX = Math.min(bounds.minX, x)
+    bounds.maxX = Math.max(bounds.maxX, x)
+    bounds.minY = Math.min(bounds.minY, y)
+    bounds.maxY = Math.max(bounds.maxY, y)
+  }
+
+  ;[...visible, ...hidden].forEach(curve => {
+    if (curve.kind === 'line') {
+      include(curve.start.x, curve.start.y)
+      include(curve.end.x, curve.end.y)
+    } else {
+      include(curve.center.x - curve.radius, curve.center.y - curve.radius)
+      include(curve.center.x + curve.radius, curve.center.y + curve.radius)
+    }
+  })
+
+  return bounds
+}
+
+// Legacy Z-depth classification, used only when no solid is available for ray-casting
+function classifyByDepth(edges: Edge[], viewMatrix: Matrix4): ClassifiedEdge[] {
+  const classified: ClassifiedEdge[] = []
+
+  edges.forEach((edge) => {
+    const v1 = edge.start.clone().applyMatrix4(viewMatrix)
+    const v2 = edge.end.clone().applyMatrix4(viewMatrix)
+
+    // If both endpoints are behind the view plane, skip the edge entirely
+    if (v1.z > 0.0001 && v2.z > 0.0001) return
+
+    // If at least one endpoint is in front, treat as visible, otherwise hidden
+    const visible = v1.z < -0.0001 || v2.z < -0.0001
+    classified.push({ ...edge, visible, type: 'sharp' })
+  })
+
+  return classified
+}
+
+// Recognise curves per visibility class and drop them onto the view plane
+function projectCurves(edges: ClassifiedEdge[], viewMatrix: Matrix4): ViewEdges {
+  const toward = towardViewer(viewMatrix)
+  const toPlane = (p: Vector3) => p.clone().applyMatrix4(viewMatrix).setZ(0)
+
+  const lines = { visible: [] as Edge[], hidden: [] as Edge[] }
+  const curves = { visible: [] as CurveEdge[], hidden: [] as CurveEdge[] }
+  // Coincident curves (front and back rims of a through-hole) are kept once, visible first
+  const seen = new Set<string>()
+
+  for (const visible of [true, false]) {
+    const pool = visible ? lines.visible : lines.hidden
+
+    recognizeArcs(edges.filter(edge => edge.visible === visible)).forEach(curve => {
+      if (curve.kind === 'line') {
+        pool.push({ start: toPlane(curve.start), end: toPlane(curve.end) })
+        return
+      }
+
+      const facing = curve.normal.dot(toward)
+      if (Math.abs(facing) < FACING_THRESHOLD) {
+        // Edge-on or oblique: keep the projected facets
+        const points = sampleCurve(curve).map(toPlane)
+        for (let i = 1; i < points.length; i++) pool.push({ start: points[i - 1], end: points[i] })
+        return
+      }
+
+      const projected = projectFacingCurve(curve, facing, toPlane)
+      const key = curveKey(projected)
+      if (seen.has(key)) return
+      seen.add(key)
+      ;(visible ? curves.visible : curves.hidden).push(projected)
+    })
+  }
+
+  // Arcs on a circle the view draws (a back rim broken by a cross hole) go
+  // too, visible circles covering hidden arcs
+  const circleKey = (arc: ArcEdge) => curveKey({ kind: 'circle', center: arc.center, normal: arc.normal, radius: arc.radius })
+  const circlesOf = (pool: CurveEdge[]) => pool.filter(c => c.kind === 'circle').map(curveKey)
+  const visibleCircles = new Set(circlesOf(curves.visible))
+  const allCircles = new Set([...visibleCircles, ...circlesOf(curves.hidden)])
+  curves.visible = curves.visible.filter(c => c.kind !== 'arc' || !visibleCircles.has(circleKey(c)))
+  curves.hidden = curves.hidden.filter(c => c.kind !== 'arc' || !allCircles.has(circleKey(c)))
+
+  // Merge lines in the view plane so back edges behind a visible outline are
+  // not drawn twice; facets lying on a rim the view draws as a curve go too
+  const resolved = resolveCoincidentEdges(
+    simplifyEdges(foldOntoCurves(lines.visible, curves.visible)),
+    simplifyEdges(foldOntoCurves(lines.hidden, [...curves.visible, ...curves.hidden]))
+  )
+  const toLines = (edges: Edge[]): LineEdge[] => edges
+    .filter(edge => edge.start.distanceTo(edge.end) >= MIN_PROJECTED_LENGTH)
+    .map(edge => ({ kind: 'line', start: edge.start, end: edge.end }))
+
+  return {
+    visible: [...toLines(resolved.visible), ...curves.visible],
+    hidden: [...toLines(resolved.hidden), ...curves.hidden]
+  }
+}
+
+// Arc or circle facing the viewer, re-expressed in the view plane with a +Z normal
+function projectFacingCurve(
+  curve: Exclude<CurveEdge, LineEdge>,
+  facing: number,
+  toPlane: (p: Vector3) => Vector3
+): CurveEdge {
+  const center = toPlane(curve.center)
+  const normal = new Vector3(0, 0, 1)
+
+  if (curve.kind === 'circle') {
+    return { kind: 'circle', center, normal, radius: curve.radius }
+  }
+
+  // Counter-clockwise about a normal pointing away is clockwise for the viewer
+  const [start, end] = facing > 0 ? [curve.start, curve.end] : [curve.end, curve.start]
+  return { ...curve, center, normal, start: toPlane(start), end: toPlane(end) }
+}
+
+// Points along an arc or circle (3D), at most SAMPLE_ANGLE apart
+function sampleCurve(curve: Exclude<CurveEdge, LineEdge>): Vector3[] {
+  const sweep = curve.kind === 'circle' ? 2 * Math.PI : curve.sweep
+  const radial = curve.kind === 'circle'
+    ? perpendicular(curve.normal).multiplyScalar(curve.radius)
+    : curve.start.clone().sub(curve.center)
+
+  const steps = Math.max(1, Math.ceil(sweep / SAMPLE_ANGLE))
+  return Array.from({ length: steps + 1 }, (_, i) =>
+    radial.clone().applyAxisAngle(curve.normal, (i / steps) * sweep).add(curve.center))
+}
+
+// Any unit vector perpendicular to n
+function perpendicular(n: Vector3): Vector3 {
+  const helper = Math.abs(n.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0)
+  return helper.cross(n).normalize()
+}
+
+function curveKey(curve: CurveEdge): string {
+  const r = (v: number) => (Math.abs(v) < 0.005 ? 0 : v).toFixed(2)
+  const pt = (p: Vector3) => `${r(p.x)},${r(p.y)}`
+  switch (curve.kind) {
+    case 'circle': return `circle:${pt(curve.center)}:${r(curve.radius)}`
+    case 'arc': return `arc:${pt(curve.center)}:${r(curve.radius)}:${pt(curve.start)}:${pt(curve.end)}`
+    case 'line': return `line:${pt(curve.start)}:${pt(curve.end)}`
+  }
+}
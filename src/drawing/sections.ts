@@ -12,9 +12,12 @@
  * - ISO 128-24: Line types for section planes (chain thick)
  */
 
-import type { PartRecipe, Primitive, CylinderParams } from '../types/part'
-import type { BufferGeometry } from 'three'
-import { sliceGeometryCSG, DEFAULT_SLICING_OPTIONS } from './slicing'
+import type { PartRecipe, PartMaterial, Primitive, CylinderParams } from '../types/part'
+import { Box3, Matrix4, Vector3, type BufferAttribute, type BufferGeometry } from 'three'
+import { sliceGeometryCSG, joinSectionBands, sectionPlaneAxes, DEFAULT_SLICING_OPTIONS } from './slicing'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+import { computeViewEdges } from './projection'
+import type { CurveEdge } from './edges'
 
 /**
  * 3D vector type (simplified, compatible with Three.js Vector3)
@@ -50,6 +53,24 @@ export interface CuttingPlane {
   
   /** Which orthographic view to show the cutting plane line in */
   parentView: 'front' | 'top' | 'right'
+
+  /**
+   * Offset sections: parallel planes joined by jogs, in order along the
+   * section's horizontal axis. Each step cuts between its limits.
+   */
+  steps?: CuttingPlaneStep[]
+}
+
+/**
+ * One parallel plane of an offset section
+ */
+export interface CuttingPlaneStep {
+  /** Point on this plane (differs from the others only along the normal) */
+  position: Vector3Like
+
+  /** Limits along the section's horizontal axis (section x, mm) */
+  from: number
+  to: number
 }
 
 /**
@@ -75,6 +96,11 @@ export interface SectionContour {
   winding: 'cw' | 'ccw'
 }
 
+/**
+ * Hatching style: parallel lines, two crossing families of lines, or a solid fill
+ */
+export type HatchStyle = 'lines' | 'cross' | 'solid'
+
 /**
  * Hatch pattern configuration per ISO 128-50
  */
@@ -89,7 +115,10 @@ export interface HatchPattern {
   lineWidth: number
   
   /** Material type (affects pattern style) */
-  material?: 'steel' | 'aluminum' | 'plastic' | 'general'
+  material?: PartMaterial
+
+  /** Hatching style (default: lines) */
+  style?: HatchStyle
 }
 
 /**
@@ -99,9 +128,36 @@ export const DEFAULT_HATCH_PATTERN: HatchPattern = {
   angle: 45,
   spacing: 3,
   lineWidth: 0.35,
-  material: 'general'
+  material: 'general',
+  style: 'lines'
+}
+
+/**
+ * Hatch patterns by material. ISO 128-50 leaves material patterns to the
+ * drawing's own conventions; these follow common practice: metals in plain
+ * 45° hatching (light alloys more widely spaced), plastics closely spaced
+ * and rubber cross-hatched.
+ */
+export const MATERIAL_HATCH_PATTERNS: Record<PartMaterial, HatchPattern> = {
+  general: DEFAULT_HATCH_PATTERN,
+  steel: { ...DEFAULT_HATCH_PATTERN, material: 'steel' },
+  aluminium: { ...DEFAULT_HATCH_PATTERN, material: 'aluminium', spacing: 5 },
+  plastic: { ...DEFAULT_HATCH_PATTERN, material: 'plastic', spacing: 1.5 },
+  rubber: { ...DEFAULT_HATCH_PATTERN, material: 'rubber', spacing: 2, style: 'cross' }
 }
 
+// Sections narrower than half a hatch spacing hold no hatch line and are filled solid (ISO 128-50)
+const THIN_SECTION_SPACINGS = 0.5
+
+// Outline edges within this angle (degrees) of the hatching count as parallel to it
+const PARALLEL_HATCH_ANGLE = 10
+
+// Share of the outline allowed to run parallel to the hatching before the angle changes
+const PARALLEL_HATCH_SHARE = 0.1
+
+// Angles tried, in order of preference, when 45° would run along the outline
+const HATCH_ANGLES = [45, 135, 30, 60, 120, 150]
+
 /**
  * Complete section view representation
  */
@@ -109,8 +165,14 @@ export interface SectionView {
   /** The cutting plane that generated this section */
   plane: CuttingPlane
   
-  /** Contours extracted from the cut (outer and inner boundaries) */
+  /** Contours extracted from the cut (outer and inner boundaries), section-plane mm */
   contours: SectionContour[]
+
+  /**
+   * Half sections: visible edges of the uncut half, seen in the direction of
+   * viewing (view-plane mm, y up)
+   */
+  exterior?: CurveEdge[]
   
   /** Hatch pattern to use for filled regions */
   hatchPattern: HatchPattern
@@ -130,65 +192,313 @@ export interface HatchLine {
   end: Point2D
 }
 
+/**
+ * Internal feature made by a subtraction tool (hole, counterbore, pocket...)
+ */
+export interface SectionFeature {
+  /** Id of the tool primitive */
+  primitiveId: string
+
+  /** Centre of the tool (part space) */
+  center: Vector3Like
+
+  /** Axis of revolution (holes, counterbores, countersinks, grooves); pockets and spheres have none */
+  axis?: Vector3Like
+
+  /** Extent of the tool (part space) */
+  bounds: { min: Vector3Like; max: Vector3Like }
+}
+
+// Offsets closer than this (mm) are treated as the same plane
+const PLANE_TOLERANCE = 0.01
+
+const PLANE_AXES = [
+  { key: 'x', normal: { x: 1, y: 0, z: 0 } },
+  { key: 'y', normal: { x: 0, y: 1, z: 0 } },
+  { key: 'z', normal: { x: 0, y: 0, z: 1 } }
+] as const
+
+type PlaneAxis = typeof PLANE_AXES[number]
+
+/** Letters for section and detail views; I and O are skipped as they read as 1 and 0 */
+export const VIEW_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+
+/** Most section views generated for one drawing */
+export const MAX_SECTIONS = 3
+
+/**
+ * Find the internal features a section could reveal
+ *
+ * Every subtraction tool is a candidate (nested tool operations are
+ * resolved to their primitives). Box tools that break through three or
+ * more faces of the part (notches, steps, edge slots) already show in the
+ * outline, so they are left out.
+ *
+ * @param recipe - Part recipe
+ * @returns Features with their centre and, for revolved tools, axis
+ */
+export function findSectionFeatures(recipe: PartRecipe): SectionFeature[] {
+  const half = { x: recipe.bounding_mm.x / 2, y: recipe.bounding_mm.y / 2, z: recipe.bounding_mm.z / 2 }
+  const features: SectionFeature[] = []
+
+  for (const op of recipe.operations ?? []) {
+    if (op.op !== 'subtract') continue
+
+    for (const tool of resolvePrimitives(recipe, op.toolId)) {
+      const matrix = primitiveMatrix(tool)
+      const center = new Vector3().applyMatrix4(matrix)
+      const bounds = new Box3().setFromBufferAttribute(
+        createPrimitiveGeometry(tool).applyMatrix4(matrix).getAttribute('position') as BufferAttribute
+      )
+
+      if (tool.kind === 'box') {
+        const pierced = PLANE_AXES.reduce((count, { key }) =>
+          count + (bounds.min[key] < -half[key] + PLANE_TOLERANCE ? 1 : 0) + (bounds.max[key] > half[key] - PLANE_TOLERANCE ? 1 : 0), 0)
+        if (pierced >= 3) continue
+        features.push({ primitiveId: tool.id, center, bounds })
+      } else if (tool.kind === 'cylinder' || tool.kind === 'cone' || tool.kind === 'torus') {
+        // Cylinders and cones are built along local Y, tori about local Z
+        const local = tool.kind === 'torus' ? new Vector3(0, 0, 1) : new Vector3(0, 1, 0)
+        features.push({ primitiveId: tool.id, center, axis: local.transformDirection(matrix), bounds })
+      } else {
+        features.push({ primitiveId: tool.id, center, bounds })
+      }
+    }
+  }
+
+  return features
+}
+
 /**
  * Select optimal cutting plane for a part
  * 
  * Strategy:
- * 1. Start with midplane sections (X=0, Y=0, Z=0)
- * 2. Choose plane that reveals most internal features
- * 3. Prefer planes aligned with major axes
+ * 1. Collect the internal features made by subtraction tools
+ * 2. Try axis-aligned planes through each feature centre; a plane cuts a
+ *    revolved feature lengthwise only if it contains the feature axis
+ * 3. Choose the plane through the most features, then the one nearest the
+ *    midplane, then the one across the largest part dimension
  * 
  * @param recipe - Part recipe with geometry
- * @returns Suggested cutting plane
+ * @returns Suggested cutting plane, or undefined when no plane reveals an internal feature
+ */
+export function selectCuttingPlane(recipe: PartRecipe): CuttingPlane | undefined {
+  const candidates = planeCandidates(recipe, findSectionFeatures(recipe))
+  const best = candidates.sort(compareCandidates(recipe))[0]
+
+  // Nothing internal to show: a section would only repeat the outline
+  return best && toCuttingPlane(best, 0, 'full')
+}
+
+/**
+ * Select the cutting planes for all section views of a part
+ *
+ * Strategy:
+ * 1. Candidate planes as in selectCuttingPlane
+ * 2. Parallel candidates whose features do not overlap along the cutting
+ *    line are joined into an offset section that jogs from one to the next
+ * 3. Sections are picked one at a time, each showing the most features not
+ *    shown yet, until every feature is shown or maxSections is reached
+ * 4. A section of a part that is mirror-symmetric about the middle of the
+ *    section view becomes a half section
+ *
+ * @param recipe - Part recipe with geometry
+ * @param maxSections - Most sections to return
+ * @returns Cutting planes lettered A, B, C... (empty when no plane reveals an internal feature)
+ */
+export function selectCuttingPlanes(recipe: PartRecipe, maxSections: number = MAX_SECTIONS): CuttingPlane[] {
+  const features = findSectionFeatures(recipe)
+  const candidates = planeCandidates(recipe, features).sort(compareCandidates(recipe))
+  const pool = [...candidates, ...offsetCandidates(recipe, features, candidates)]
+
+  const planes: CuttingPlane[] = []
+  const shown = new Set<string>()
+  const gain = (candidate: PlaneCandidate) => [...candidate.features].filter(id => !shown.has(id)).length
+  const byOrder = compareCandidates(recipe)
+
+  while (planes.length < maxSections) {
+    const next = pool
+      .filter(candidate => gain(candidate) > 0)
+      .sort((a, b) =>
+        gain(b) - gain(a) ||
+        (a.steps?.length ?? 1) - (b.steps?.length ?? 1) ||
+        byOrder(a, b))[0]
+    if (!next) break
+
+    next.features.forEach(id => shown.add(id))
+    const type = next.steps ? 'offset' : isMirrorSymmetric(recipe, next.axis) ? 'half' : 'full'
+    planes.push(toCuttingPlane(next, planes.length, type))
+  }
+
+  return planes
+}
+
+/**
+ * Planes a section cuts with, and their limits along section x
+ * Full sections are one unbounded plane and half sections keep section
+ * x ≥ 0; the outer steps of an offset section run out past the part.
+ *
+ * @param plane - Cutting plane
  */
-export function selectCuttingPlane(recipe: PartRecipe): CuttingPlane {
+export function sectionSteps(plane: CuttingPlane): CuttingPlaneStep[] {
+  if (plane.type === 'offset' && plane.steps?.length) {
+    const last = plane.steps.length - 1
+    return plane.steps.map((step, i) => ({
+      position: step.position,
+      from: i === 0 ? -Infinity : step.from,
+      to: i === last ? Infinity : step.to
+    }))
+  }
+  return [{ position: plane.position, from: plane.type === 'half' ? 0 : -Infinity, to: Infinity }]
+}
+
+interface PlaneCandidate {
+  axis: PlaneAxis
+  offset: number
+  features: Set<string>
+  /** Offset sections: one step per parallel plane, in order along section x */
+  steps?: CuttingPlaneStep[]
+}
+
+// Axis-aligned planes through each feature centre, with the features they cut lengthwise
+function planeCandidates(recipe: PartRecipe, features: SectionFeature[]): PlaneCandidate[] {
   const { bounding_mm } = recipe
-  const { x: width, y: depth, z: height } = bounding_mm
-  
-  // For now, use simple heuristic: section through largest dimension
-  // This is most likely to reveal internal features
-  
-  // Find largest dimension
-  const maxDim = Math.max(width, depth, height)
-  
-  let plane: CuttingPlane
-  
-  if (maxDim === width) {
-    // Section perpendicular to X axis (shows front view internals)
-    plane = {
-      id: 'A',
-      type: 'full',
-      position: { x: 0, y: 0, z: 0 },
-      normal: { x: 1, y: 0, z: 0 },
-      viewDirection: { x: 1, y: 0, z: 0 },
-      label: 'SECTION A-A',
-      parentView: 'top'
-    }
-  } else if (maxDim === depth) {
-    // Section perpendicular to Y axis (shows top view internals)
-    plane = {
-      id: 'A',
-      type: 'full',
-      position: { x: 0, y: 0, z: 0 },
-      normal: { x: 0, y: 1, z: 0 },
-      viewDirection: { x: 0, y: 1, z: 0 },
-      label: 'SECTION A-A',
-      parentView: 'front'
+
+  // Candidate planes keyed by normal axis and offset
+  const candidates = new Map<string, PlaneCandidate>()
+
+  for (const axis of PLANE_AXES) {
+    const half = bounding_mm[axis.key] / 2
+
+    for (const feature of features) {
+      const offset = feature.center[axis.key]
+      // The plane must cut the part
+      if (Math.abs(offset) >= half - PLANE_TOLERANCE) continue
+
+      const key = `${axis.key}:${Math.round(offset / PLANE_TOLERANCE)}`
+      const candidate = candidates.get(key) ?? { axis, offset, features: new Set<string>() }
+      candidates.set(key, candidate)
+
+      // Count every feature the plane passes through lengthwise
+      for (const other of features) {
+        const onPlane = Math.abs(other.center[axis.key] - offset) < PLANE_TOLERANCE
+        const lengthwise = !other.axis || Math.abs(other.axis[axis.key]) < 1e-3
+        if (onPlane && lengthwise) candidate.features.add(other.primitiveId)
+      }
     }
-  } else {
-    // Section perpendicular to Z axis (shows side view internals)
-    plane = {
-      id: 'A',
-      type: 'full',
-      position: { x: 0, y: 0, z: 0 },
-      normal: { x: 0, y: 0, z: 1 },
-      viewDirection: { x: 0, y: 0, z: 1 },
-      label: 'SECTION A-A',
-      parentView: 'front'
+  }
+
+  return [...candidates.values()].filter(candidate => candidate.features.size > 0)
+}
+
+// Most features first, then nearest the midplane, then across the largest
+// part dimension, as the most likely to reveal the interior
+function compareCandidates(recipe: PartRecipe): (a: PlaneCandidate, b: PlaneCandidate) => number {
+  const { bounding_mm } = recipe
+  const preference = [...PLANE_AXES].sort((a, b) => bounding_mm[b.key] - bounding_mm[a.key]).map(a => a.key)
+  return (a, b) =>
+    b.features.size - a.features.size ||
+    Math.abs(a.offset) - Math.abs(b.offset) ||
+    preference.indexOf(a.axis.key) - preference.indexOf(b.axis.key)
+}
+
+// Join parallel candidates whose features lie side by side along the
+// cutting line into one offset section per normal axis
+function offsetCandidates(recipe: PartRecipe, features: SectionFeature[], candidates: PlaneCandidate[]): PlaneCandidate[] {
+  const byId = new Map(features.map(feature => [feature.primitiveId, feature]))
+  const offsets: PlaneCandidate[] = []
+
+  for (const axis of PLANE_AXES) {
+    const { u } = sectionPlaneAxes(axis.normal)
+    // Extent of a candidate's features along section x
+    const span = (candidate: PlaneCandidate) => [...candidate.features].reduce(([lo, hi], id) => {
+      const { min, max } = byId.get(id)!.bounds
+      const ends = [u.dot(new Vector3(min.x, min.y, min.z)), u.dot(new Vector3(max.x, max.y, max.z))]
+      return [Math.min(lo, ...ends), Math.max(hi, ...ends)]
+    }, [Infinity, -Infinity])
+
+    // Candidates are in order of preference; each joins if it shows something
+    // new and stays clear of the steps taken so far
+    const steps: Array<{ candidate: PlaneCandidate; lo: number; hi: number }> = []
+    const shown = new Set<string>()
+    for (const candidate of candidates.filter(c => c.axis.key === axis.key)) {
+      if ([...candidate.features].every(id => shown.has(id))) continue
+      const [lo, hi] = span(candidate)
+      if (steps.some(step => lo < step.hi + PLANE_TOLERANCE && step.lo < hi + PLANE_TOLERANCE)) continue
+      steps.push({ candidate, lo, hi })
+      candidate.features.forEach(id => shown.add(id))
     }
+    if (steps.length < 2) continue
+
+    // Jogs halfway between neighbouring steps; the outer steps reach the part outline
+    steps.sort((a, b) => a.lo - b.lo)
+    const reach = Math.abs(u.dot(new Vector3(recipe.bounding_mm.x, recipe.bounding_mm.y, recipe.bounding_mm.z))) / 2
+    offsets.push({
+      axis,
+      offset: steps[0].candidate.offset,
+      features: shown,
+      steps: steps.map((step, i) => ({
+        position: { x: 0, y: 0, z: 0, [axis.key]: step.candidate.offset },
+        from: i === 0 ? -reach : (steps[i - 1].hi + step.lo) / 2,
+        to: i === steps.length - 1 ? reach : (step.hi + steps[i + 1].lo) / 2
+      }))
+    })
   }
-  
-  return plane
+
+  return offsets
+}
+
+function toCuttingPlane(candidate: PlaneCandidate, index: number, type: CuttingPlane['type']): CuttingPlane {
+  const id = VIEW_LETTERS[index % VIEW_LETTERS.length]
+  const position = { x: 0, y: 0, z: 0, [candidate.axis.key]: candidate.offset }
+  return {
+    id,
+    type,
+    position,
+    normal: { ...candidate.axis.normal },
+    viewDirection: { ...candidate.axis.normal },
+    label: `SECTION ${id}-${id}`,
+    // A plane shows as a line in views that look along it: X and Z planes
+    // in the top view, Y planes in the front view
+    parentView: candidate.axis.key === 'y' ? 'front' : 'top',
+    ...(candidate.steps && { steps: candidate.steps })
+  }
+}
+
+// Whether the part mirrors onto itself about the middle of the section
+// view: every primitive has a twin of the same kind, size and orientation
+// reflected across the plane through the origin normal to section x
+function isMirrorSymmetric(recipe: PartRecipe, axis: PlaneAxis): boolean {
+  const { u } = sectionPlaneAxes(axis.normal)
+  const reflect = (d: Vector3) => d.clone().sub(u.clone().multiplyScalar(2 * d.dot(u)))
+
+  const frames = recipe.primitives.map(primitive => {
+    const matrix = primitiveMatrix(primitive)
+    return {
+      primitive,
+      signature: JSON.stringify([primitive.kind, primitive.params, primitive.transform?.scale]),
+      center: new Vector3().applyMatrix4(matrix),
+      x: new Vector3(1, 0, 0).transformDirection(matrix),
+      y: new Vector3(0, 1, 0).transformDirection(matrix),
+      z: new Vector3(0, 0, 1).transformDirection(matrix)
+    }
+  })
+
+  const parallel = (a: Vector3, b: Vector3) => Math.abs(a.dot(b)) > 1 - 1e-6
+  return frames.every(a => frames.some(b => {
+    if (a.signature !== b.signature || reflect(a.center).distanceTo(b.center) > PLANE_TOLERANCE) return false
+    switch (a.primitive.kind) {
+      // Boxes are symmetric about each of their own axes
+      case 'box': return parallel(reflect(a.x), b.x) && parallel(reflect(a.y), b.y) && parallel(reflect(a.z), b.z)
+      case 'cylinder': return parallel(reflect(a.y), b.y)
+      // Cones taper along local Y, so their direction matters
+      case 'cone': return reflect(a.y).dot(b.y) > 1 - 1e-6
+      case 'torus': return parallel(reflect(a.z), b.z)
+      case 'sphere': return true
+      // Custom geometry cannot be compared
+      default: return false
+    }
+  }))
 }
 
 /**
@@ -410,18 +720,89 @@ export function classifyContours(contours: SectionContour[]): {
  * Generate hatch lines for a contour
  * 
  * Algorithm:
- * 1. Calculate bounding box of contour
- * 2. Generate parallel lines at specified angle and spacing
- * 3. Clip lines to contour boundary using polygon clipping
- * 4. Return line segments
+ * 1. Pick the style: solid (no lines) for thin regions, else the pattern's
+ * 2. Pick the angle: the pattern's, unless it runs along the outline
+ * 3. Generate parallel lines at that angle and spacing (and at right
+ *    angles to them for cross-hatching)
+ * 4. Clip lines to contour boundary and holes
  * 
  * @param contour - Section contour to hatch
  * @param pattern - Hatch pattern configuration
+ * @param holes - Inner contours lying inside the contour (left unhatched)
  * @returns Array of hatch line segments
  */
 export function generateHatchLines(
   contour: SectionContour,
-  pattern: HatchPattern
+  pattern: HatchPattern,
+  holes: SectionContour[] = []
+): HatchLine[] {
+  const style = hatchStyle(contour, pattern, holes)
+  if (style === 'solid') return []
+
+  const angle = hatchAngle(contour, pattern)
+  const angles = style === 'cross' ? [angle, angle + 90] : [angle]
+  return angles.flatMap(a => hatchLineFamily(contour, a, pattern.spacing, holes))
+}
+
+/**
+ * Hatching style of a region: narrow regions are filled solid, since hatch
+ * lines would be too few to read (ISO 128-50). The width is estimated as
+ * twice the area over the perimeter, the thickness of a long strip.
+ * 
+ * @param contour - Section contour
+ * @param pattern - Hatch pattern configuration
+ * @param holes - Inner contours lying inside the contour
+ * @returns Style to render the region with
+ */
+export function hatchStyle(contour: SectionContour, pattern: HatchPattern, holes: SectionContour[] = []): HatchStyle {
+  const style = pattern.style ?? 'lines'
+  if (style === 'solid') return style
+
+  const area = Math.abs(polygonArea(contour.points)) - holes.reduce((sum, hole) => sum + Math.abs(polygonArea(hole.points)), 0)
+  const perimeter = [contour, ...holes].reduce((sum, c) => sum + polygonPerimeter(c.points), 0)
+  return perimeter > 0 && (2 * area) / perimeter < THIN_SECTION_SPACINGS * pattern.spacing ? 'solid' : style
+}
+
+/**
+ * Hatch angle of a region in degrees: the pattern's angle, unless the lines
+ * (or, when cross-hatched, the crossing lines) would run along the outline.
+ * Then the first angle in 45°, 135°, 30°, 60°, 120°, 150° with the least
+ * outline parallel to it is taken.
+ *
+ * @param contour - Section contour
+ * @param pattern - Hatch pattern configuration
+ * @returns Angle of the hatch lines in degrees
+ */
+export function hatchAngle(contour: SectionContour, pattern: HatchPattern): number {
+  const perimeter = polygonPerimeter(contour.points)
+  if (perimeter === 0) return pattern.angle
+
+  // Share of the outline within PARALLEL_HATCH_ANGLE of the lines
+  const parallelShare = (angle: number) => {
+    const angles = pattern.style === 'cross' ? [angle, angle + 90] : [angle]
+    let parallel = 0
+    contour.points.forEach((p, i) => {
+      const q = contour.points[(i + 1) % contour.points.length]
+      const edge = (Math.atan2(q.y - p.y, q.x - p.x) * 180) / Math.PI
+      const along = angles.some(a => {
+        const diff = (((edge - a) % 180) + 180) % 180
+        return Math.min(diff, 180 - diff) < PARALLEL_HATCH_ANGLE
+      })
+      if (along) parallel += Math.hypot(q.x - p.x, q.y - p.y)
+    })
+    return parallel / perimeter
+  }
+
+  if (parallelShare(pattern.angle) <= PARALLEL_HATCH_SHARE) return pattern.angle
+  return HATCH_ANGLES.reduce((best, angle) => (parallelShare(angle) < parallelShare(best) ? angle : best), pattern.angle)
+}
+
+// Parallel hatch lines at one angle, clipped to the contour and its holes
+function hatchLineFamily(
+  contour: SectionContour,
+  angle: number,
+  spacing: number,
+  holes: SectionContour[]
 ): HatchLine[] {
     const hatchLines: HatchLine[] = []
   
@@ -429,7 +810,7 @@ export function generateHatchLines(
     const bounds = getContourBounds(contour)
   
     // Convert angle to radians
-    const angleRad = (pattern.angle * Math.PI) / 180
+    const angleRad = (angle * Math.PI) / 180
   
     // Calculate direction vector for hatch lines
     const dx = Math.cos(angleRad)
@@ -440,7 +821,7 @@ export function generateHatchLines(
     const perpY = dx
   
     // Expand bounds slightly to ensure coverage
-    const margin = pattern.spacing * 2
+    const margin = spacing * 2
     const expandedMinX = bounds.minX - margin
     const expandedMinY = bounds.minY - margin
     const expandedMaxX = bounds.maxX + margin
@@ -470,11 +851,11 @@ export function generateHatchLines(
       maxProj = Math.max(maxProj, proj)
     }
   
-    const numLines = Math.ceil((maxProj - minProj) / pattern.spacing) + 1
+    const numLines = Math.ceil((maxProj - minProj) / spacing) + 1
   
     // Generate parallel lines
     for (let i = 0; i < numLines; i++) {
-      const offset = minProj + i * pattern.spacing
+      const offset = minProj + i * spacing
     
       // Start and end points of line (before clipping)
       const centerX = offset * perpX
@@ -490,8 +871,9 @@ export function generateHatchLines(
         y: centerY + dy * diagonal / 2
       }
     
-      // Clip line to contour
+      // Clip line to contour, leaving out the holes
       const clippedSegments = clipLineToPolygon(start, end, contour.points)
+        .flatMap(segment => holes.reduce((pieces, hole) => pieces.flatMap(piece => clipLineOutsidePolygon(piece, hole.points)), [segment]))
     
       // Add clipped segments
       hatchLines.push(...clippedSegments)
@@ -507,11 +889,15 @@ export function generateHatchLines(
  * 1. CSG slicing (if geometry provided): Accurate contours from mesh intersection
  * 2. Simplified slicing (fallback): Rectangular bounds + cylindrical holes
  * 
+ * Offset sections are sliced step by step and joined; half sections keep
+ * the cut half (section x ≥ 0) and add the outside of the other half.
+ * 
  * @param recipe - Part recipe
  * @param plane - Optional cutting plane (auto-selected if not provided)
  * @param position - Position on drawing sheet
  * @param scale - Drawing scale
  * @param geometry - Optional BufferGeometry for accurate CSG slicing
+ * @param hatchPatterns - Hatch patterns by material of the drawing standard
  * @returns Complete section view
  */
 export function createSectionView(
@@ -519,39 +905,99 @@ export function createSectionView(
   plane?: CuttingPlane,
   position: { x: number; y: number } = { x: 0, y: 0 },
   scale: number = 1,
-  geometry?: BufferGeometry
+  geometry?: BufferGeometry,
+  hatchPatterns: Record<PartMaterial, HatchPattern> = MATERIAL_HATCH_PATTERNS
 ): SectionView {
   // Use provided plane or auto-select
   const cuttingPlane = plane ?? selectCuttingPlane(recipe)
-  
-  let rawContours: SectionContour[]
-  
-  // Try CSG slicing if geometry provided
-  if (geometry) {
-    rawContours = sliceGeometryCSG(geometry, cuttingPlane, DEFAULT_SLICING_OPTIONS)
-    
-    // Fall back to simplified slicing if CSG fails
-    if (rawContours.length === 0) {
-      console.warn('CSG slicing produced no contours, falling back to simplified slicing')
-      rawContours = sliceGeometry(recipe, cuttingPlane)
-    }
-  } else {
-    // Use simplified slicing (no geometry available)
-    rawContours = sliceGeometry(recipe, cuttingPlane)
+  if (!cuttingPlane) {
+    throw new Error('No cutting plane reveals an internal feature')
   }
   
-  // Project contours to 2D view space with scaling
-  const contours = projectContours(rawContours, cuttingPlane, scale)
+  const bands = sectionSteps(cuttingPlane).map(step => ({
+    contours: slicePlane(recipe, { ...cuttingPlane, type: 'full', position: step.position, steps: undefined }, geometry),
+    from: step.from,
+    to: step.to
+  }))
+  const rawContours = bands.length === 1 && bands[0].from === -Infinity && bands[0].to === Infinity
+    ? bands[0].contours
+    : joinSectionBands(bands)
+  
+  // Contours stay in section-plane mm; the drawing scale is applied when rendering
+  const contours = projectContours(rawContours, cuttingPlane)
   
   return {
     plane: cuttingPlane,
     contours,
-    hatchPattern: DEFAULT_HATCH_PATTERN,
+    ...(cuttingPlane.type === 'half' && geometry && { exterior: uncutHalf(cuttingPlane, geometry) }),
+    hatchPattern: hatchPatterns[recipe.material ?? 'general'],
     position,
     scale
   }
 }
 
+// Contours of a single flat plane
+function slicePlane(recipe: PartRecipe, plane: CuttingPlane, geometry?: BufferGeometry): SectionContour[] {
+  // Use simplified slicing when no geometry is available
+  if (!geometry) return sliceGeometry(recipe, plane)
+
+  const contours = sliceGeometryCSG(geometry, plane, DEFAULT_SLICING_OPTIONS)
+  
+  // Fall back to simplified slicing if CSG fails
+  if (contours.length === 0) {
+    console.warn('CSG slicing produced no contours, falling back to simplified slicing')
+    return sliceGeometry(recipe, plane)
+  }
+  return contours
+}
+
+// Visible edges of the half a half section leaves uncut (section x ≤ 0),
+// seen in the direction of viewing
+function uncutHalf(plane: CuttingPlane, geometry: BufferGeometry): CurveEdge[] {
+  const { u, v } = sectionPlaneAxes(plane.normal)
+  const n = new Vector3(plane.normal.x, plane.normal.y, plane.normal.z)
+
+  // View x along section x and view y up; the viewer stands on the removed side
+  const matrix = new Matrix4().set(
+    u.x, u.y, u.z, 0,
+    -v.x, -v.y, -v.z, 0,
+    -n.x, -n.y, -n.z, 0,
+    0, 0, 0, 1
+  )
+  const { visible } = computeViewEdges(matrix, geometry, [])
+
+  const kept: CurveEdge[] = []
+  const keepLine = (start: Vector3, end: Vector3) => {
+    // Lines on the centre line give way to it
+    if (Math.max(start.x, end.x) <= PLANE_TOLERANCE) {
+      if (Math.min(start.x, end.x) < -PLANE_TOLERANCE) kept.push({ kind: 'line', start, end })
+    } else if (Math.min(start.x, end.x) < -PLANE_TOLERANCE) {
+      const cut = start.clone().lerp(end, start.x / (start.x - end.x))
+      kept.push({ kind: 'line', start: start.x < 0 ? start : end, end: cut })
+    }
+  }
+
+  for (const curve of visible) {
+    if (curve.kind === 'line') {
+      keepLine(curve.start, curve.end)
+    } else if (curve.center.x + curve.radius <= PLANE_TOLERANCE) {
+      kept.push(curve)
+    } else if (curve.center.x - curve.radius < -PLANE_TOLERANCE) {
+      // Curves across the centre line are flattened and clipped
+      const from = curve.kind === 'arc' ? Math.atan2(curve.start.y - curve.center.y, curve.start.x - curve.center.x) : 0
+      const sweep = curve.kind === 'arc' ? curve.sweep : 2 * Math.PI
+      const steps = Math.ceil(sweep / (Math.PI / 32))
+      const points = Array.from({ length: steps + 1 }, (_, i) => {
+        const angle = from + (i / steps) * sweep
+        return new Vector3(curve.center.x + curve.radius * Math.cos(angle), curve.center.y + curve.radius * Math.sin(angle), 0)
+      })
+      for (let i = 1; i < points.length; i++) keepLine(points[i - 1], points[i])
+    }
+  }
+
+  return kept
+}
+
 /**
  * Check if a point is inside a polygon (contour)
  * Uses ray casting algorithm
@@ -579,6 +1025,21 @@ export function isPointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
   return inside
 }
 
+// Signed area of a polygon (positive when counter-clockwise)
+function polygonArea(points: Point2D[]): number {
+  return points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length]
+    return sum + p.x * q.y - q.x * p.y
+  }, 0) / 2
+}
+
+function polygonPerimeter(points: Point2D[]): number {
+  return points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length]
+    return sum + Math.hypot(q.x - p.x, q.y - p.y)
+  }, 0)
+}
+
 /**
  * Calculate bounding box for a contour
  * 
@@ -687,6 +1148,35 @@ export function getContourBounds(contour: SectionContour): {
     return segments
   }
 
+  /**
+   * Clip a line segment to the outside of a polygon (e.g. a hole)
+   * 
+   * @param segment - Line segment
+   * @param polygon - Polygon points (closed contour)
+   * @returns Array of line segments that lie outside the polygon
+   */
+  export function clipLineOutsidePolygon(segment: HatchLine, polygon: Point2D[]): HatchLine[] {
+    const { start, end } = segment
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const length2 = dx * dx + dy * dy
+    if (length2 === 0) return []
+    const at = (p: Point2D) => ((p.x - start.x) * dx + (p.y - start.y) * dy) / length2
+    const point = (t: number): Point2D => ({ x: start.x + dx * t, y: start.y + dy * t })
+  
+    // Gaps between the pieces inside the polygon
+    const segments: HatchLine[] = []
+    let from = 0
+    for (const inside of clipLineToPolygon(start, end, polygon)) {
+      const [t0, t1] = [at(inside.start), at(inside.end)].sort((a, b) => a - b)
+      if (t0 > from + 1e-9) segments.push({ start: point(from), end: point(t0) })
+      from = Math.max(from, t1)
+    }
+    if (from < 1 - 1e-9) segments.push({ start: point(from), end })
+  
+    return segments
+  }
+
   /**
    * Find intersection between two line segments
    * 
@@ -734,3 +1224,19 @@ export function getContourBounds(contour: SectionContour): {
   
     return null
   }
+
+/**
+ * Primitives making up an operand: a primitive id, or all primitives of an operation
+ *
+ * @param recipe - Part recipe
+ * @param id - Primitive or operation id
+ */
+export function resolvePrimitives(recipe: PartRecipe, id: string, seen = new Set<string>()): Primitive[] {
+  const primitive = recipe.primitives.find(p => p.id === id)
+  if (primitive) return [primitive]
+
+  const op = recipe.operations.find(o => o.id === id)
+  if (!op || seen.has(id)) return []
+  seen.add(id)
+  return [...resolvePrimitives(recipe, op.targetId, seen), ...resolvePrimitives(recipe, op.toolId, seen)]
+}
@@ -3,36 +3,63 @@
  * 
  * Generates SVG elements for:
  * - Section contours (thick outline)
- * - Hatch patterns (thin lines at 45°)
+ * - Hatch patterns by material (thin lines, cross-hatching, or solid fill for thin regions)
+ * - Half sections: the uncut half and the centre line between the halves
  * - Section labels (SECTION A-A)
- * - Cutting plane indicators (chain thick line with arrows)
+ * - Cutting plane indicators (chain thick line with arrows, jogging for offset sections)
  */
 
-import type { SectionView, SectionContour, HatchLine, CuttingPlane, Point2D } from './sections'
-import { generateHatchLines } from './sections'
-import { LineType, LINE_STYLES } from './lineTypes'
+import type { SectionView, SectionContour, HatchLine, HatchPattern, CuttingPlane, Point2D, Vector3Like } from './sections'
+import { generateHatchLines, hatchStyle, isPointInPolygon, sectionSteps } from './sections'
+import { sectionPlaneAxes } from './slicing'
+import type { CurveEdge } from './edges'
+import { LineType, LINE_STYLES, type LineStyle } from './lineTypes'
+import { DEFAULT_CENTER_LINE_CONFIG } from './centerLines'
+import { fitPolyline } from './consolidate'
+import { Vector3 } from 'three'
 
 /**
  * Render a complete section view to SVG
  * 
  * @param sectionView - Section view to render
+ * @param styles - Line styles of the drawing standard
  * @returns SVG group element containing section view
  */
-export function renderSectionView(sectionView: SectionView): string {
-  const { contours, hatchPattern, position, scale, plane } = sectionView
+export function renderSectionView(sectionView: SectionView, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
+  const { contours, exterior, hatchPattern, position, scale, plane } = sectionView
+  const half = plane.type === 'half'
   
   const elements: string[] = []
   
   // Group for entire section view
-  elements.push(`<g class="section-view" data-id="${plane.id}" transform="translate(${position.x}, ${position.y})">`)
+  elements.push(`<g class="section-view" data-id="${plane.id}" data-type="${plane.type}" transform="translate(${position.x}, ${position.y})">`)
   
-  // Render each contour
+  // Render each contour; a half section meets the uncut half at the centre line, not an outline.
+  // Holes inside a region are left out of its hatching.
   for (const contour of contours) {
-    elements.push(renderSectionContour(contour, hatchPattern, scale))
+    const holes = contour.isOuter
+      ? contours.filter(other => !other.isOuter && other.points.length > 0 && isPointInPolygon(other.points[0], contour.points))
+      : []
+    elements.push(renderSectionContour(contour, hatchPattern, scale, half ? 0 : undefined, holes, styles))
+  }
+  
+  // Vertical extent of the view (section y runs downwards)
+  const ys = [
+    ...contours.flatMap(contour => contour.points.map(p => p.y)),
+    ...(exterior ?? []).flatMap(curve => curve.kind === 'line'
+      ? [-curve.start.y, -curve.end.y]
+      : [-curve.center.y - curve.radius, -curve.center.y + curve.radius])
+  ]
+  const top = ys.length > 0 ? Math.min(...ys) : 0
+  const bottom = ys.length > 0 ? Math.max(...ys) : 0
+
+  if (half) {
+    elements.push(renderExteriorEdges(exterior ?? [], scale, styles))
+    elements.push(renderHalfSectionCentreLine(top, bottom, scale, styles))
   }
   
   // Add section label
-  elements.push(renderSectionLabel(plane.label, scale))
+  elements.push(renderSectionLabel(plane.label, scale, top))
   
   elements.push('</g>')
   
@@ -45,23 +72,36 @@ export function renderSectionView(sectionView: SectionView): string {
  * @param contour - Section contour to render
  * @param hatchPattern - Hatch pattern configuration
  * @param scale - Drawing scale
+ * @param divider - Half sections: section x of the centre line, where the outline is left open
+ * @param holes - Inner contours lying inside the contour
+ * @param styles - Line styles of the drawing standard
  * @returns SVG group with contour outline and hatch
  */
 export function renderSectionContour(
   contour: SectionContour,
-  hatchPattern: any,
-  scale: number
+  hatchPattern: HatchPattern,
+  scale: number,
+  divider?: number,
+  holes: SectionContour[] = [],
+  styles: Record<LineType, LineStyle> = LINE_STYLES
 ): string {
   const elements: string[] = []
   
   // Generate path data for contour
-  const pathData = contourToPathData(contour.points, scale)
+  const pathData = contourToPathData(contour.points, scale, divider)
   
   // Use appropriate line type based on contour type
   const lineType = contour.isOuter ? LineType.VISIBLE_EDGE : LineType.VISIBLE_EDGE
-  const style = LINE_STYLES[lineType]
+  const style = styles[lineType]
   
   elements.push(`<g class="section-contour">`)
+
+  // Thin regions are filled solid, holes left open
+  const solid = contour.isOuter && hatchStyle(contour, hatchPattern, holes) === 'solid'
+  if (solid) {
+    const fillData = [contour, ...holes].map(c => contourToPathData(c.points, scale)).join(' ')
+    elements.push(`<path class="section-fill" d="${fillData}" fill="${style.stroke}" fill-rule="evenodd" stroke="none" />`)
+  }
   
   // Draw contour outline (thick line per ISO)
   elements.push(
@@ -74,9 +114,9 @@ export function renderSectionContour(
   )
   
     // Generate and render hatch pattern for outer contours only
-    if (contour.isOuter) {
-      const hatchLines = generateHatchLines(contour, hatchPattern)
-      elements.push(renderHatchLines(hatchLines, scale))
+    if (contour.isOuter && !solid) {
+      const hatchLines = generateHatchLines(contour, hatchPattern, holes)
+      elements.push(renderHatchLines(hatchLines, scale, hatchPattern.lineWidth, styles))
     }
   
   elements.push(`</g>`)
@@ -86,45 +126,133 @@ export function renderSectionContour(
 
 /**
  * Convert contour points to SVG path data
+ *
+ * Faceted runs that lie on a circle are written as native arcs (A);
+ * a contour that is a full circle becomes two half arcs.
  * 
  * @param points - Array of 2D points
  * @param scale - Drawing scale
  * @returns SVG path data string
  */
-export function contourToPathData(points: Point2D[], scale: number): string {
+export function contourToPathData(points: Point2D[], scale: number, divider?: number): string {
   if (points.length === 0) return ''
   
-  const scaledPoints = points.map(p => ({
-    x: p.x * scale,
-    y: p.y * scale
-  }))
-  
-  // Start with M (move to first point)
-  let pathData = `M ${scaledPoints[0].x.toFixed(2)} ${scaledPoints[0].y.toFixed(2)}`
-  
-  // Add L (line to) for remaining points
-  for (let i = 1; i < scaledPoints.length; i++) {
-    pathData += ` L ${scaledPoints[i].x.toFixed(2)} ${scaledPoints[i].y.toFixed(2)}`
+  const loop = points.map(p => new Vector3(p.x * scale, p.y * scale, 0))
+  if (loop[0].distanceTo(loop[loop.length - 1]) > 1e-9) loop.push(loop[0].clone())
+
+  const fmt = (v: number) => v.toFixed(2)
+
+  // Edges on the divider are left out: the loop becomes open runs between them
+  const onDivider = (a: Vector3, b: Vector3) =>
+    divider !== undefined && Math.abs(a.x - divider * scale) < 1e-6 && Math.abs(b.x - divider * scale) < 1e-6
+  const skipped = loop.findIndex((p, i) => i > 0 && onDivider(loop[i - 1], p))
+  if (skipped > 0) {
+    const rotated = [...loop.slice(skipped), ...loop.slice(1, skipped + 1)]
+    const runs: Vector3[][] = [[rotated[0]]]
+    for (let i = 1; i < rotated.length; i++) {
+      if (onDivider(rotated[i - 1], rotated[i])) runs.push([rotated[i]])
+      else runs[runs.length - 1].push(rotated[i])
+    }
+    return runs
+      .filter(run => run.length > 1)
+      .map(run => `M ${fmt(run[0].x)} ${fmt(run[0].y)}` + curvesToPathData(fitPolyline(run, false)))
+      .join(' ')
+  }
+
+  const curves = fitPolyline(loop, true)
+
+  if (curves.length === 1 && curves[0].kind === 'circle') {
+    const { center, radius } = curves[0]
+    const r = fmt(radius)
+    return `M ${fmt(center.x + radius)} ${fmt(center.y)}` +
+      ` A ${r} ${r} 0 1 1 ${fmt(center.x - radius)} ${fmt(center.y)}` +
+      ` A ${r} ${r} 0 1 1 ${fmt(center.x + radius)} ${fmt(center.y)} Z`
+  }
+
+  // Start with M (move to first point), then close path (Z)
+  return `M ${fmt(loop[0].x)} ${fmt(loop[0].y)}` + curvesToPathData(curves) + ' Z'
+}
+
+// L (line to) for straight pieces, A (arc to) for curved ones
+function curvesToPathData(curves: CurveEdge[]): string {
+  const fmt = (v: number) => v.toFixed(2)
+  let pathData = ''
+  
+  for (const curve of curves) {
+    if (curve.kind === 'line') {
+      pathData += ` L ${fmt(curve.end.x)} ${fmt(curve.end.y)}`
+    } else if (curve.kind === 'arc') {
+      // Section coordinates are not Y-flipped: counter-clockwise is sweep-flag 1
+      const r = fmt(curve.radius)
+      const largeArc = curve.sweep > Math.PI ? 1 : 0
+      const sweepFlag = curve.normal.z > 0 ? 1 : 0
+      pathData += ` A ${r} ${r} 0 ${largeArc} ${sweepFlag} ${fmt(curve.end.x)} ${fmt(curve.end.y)}`
+    }
   }
-  
-  // Close path (Z)
-  pathData += ' Z'
   
   return pathData
 }
 
+/**
+ * Render the uncut half of a half section as a plain view
+ * Curves are in view-plane mm with y up, so they are flipped into section coordinates.
+ *
+ * @param curves - Visible edges of the uncut half
+ * @param scale - Drawing scale
+ * @param styles - Line styles of the drawing standard
+ * @returns SVG group with visible outlines
+ */
+export function renderExteriorEdges(curves: CurveEdge[], scale: number, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
+  const style = styles[LineType.VISIBLE_EDGE]
+  const fmt = (v: number) => v.toFixed(2)
+  const pt = (p: Vector3) => `${fmt(p.x * scale)} ${fmt(-p.y * scale)}`
+
+  const paths = curves.map(curve => {
+    const d = curve.kind === 'line'
+      ? `M ${pt(curve.start)} L ${pt(curve.end)}`
+      : curve.kind === 'circle'
+      ? `M ${pt(curve.center.clone().setX(curve.center.x + curve.radius))}` +
+        ` A ${fmt(curve.radius * scale)} ${fmt(curve.radius * scale)} 0 1 0 ${pt(curve.center.clone().setX(curve.center.x - curve.radius))}` +
+        ` A ${fmt(curve.radius * scale)} ${fmt(curve.radius * scale)} 0 1 0 ${pt(curve.center.clone().setX(curve.center.x + curve.radius))}`
+      // Counter-clockwise with y up is sweep-flag 0 once flipped
+      : `M ${pt(curve.start)} A ${fmt(curve.radius * scale)} ${fmt(curve.radius * scale)} 0 ${curve.sweep > Math.PI ? 1 : 0} 0 ${pt(curve.end)}`
+    return `<path d="${d}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" stroke-linecap="round" />`
+  })
+
+  return `<g class="section-exterior">\n${paths.join('\n')}\n</g>`
+}
+
+// Chain thin centre line between the halves of a half section, past the outline at both ends
+function renderHalfSectionCentreLine(top: number, bottom: number, scale: number, styles: Record<LineType, LineStyle>): string {
+  const style = styles[LineType.CENTER_LINE]
+  const extension = DEFAULT_CENTER_LINE_CONFIG.extension
+  return (
+    `<line class="section-divider" x1="0" y1="${((top - extension) * scale).toFixed(2)}" ` +
+    `x2="0" y2="${((bottom + extension) * scale).toFixed(2)}" ` +
+    `stroke="${style.stroke}" stroke-width="${style.strokeWidth}" ` +
+    `stroke-dasharray="${style.strokeDasharray}" />`
+  )
+}
+
 /**
  * Render hatch lines for a contour
  * 
  * @param hatchLines - Array of hatch line segments
  * @param scale - Drawing scale
+ * @param lineWidth - Width of the hatch pattern (default: the standard's thin line)
+ * @param styles - Line styles of the drawing standard
  * @returns SVG group with hatch lines
  */
-export function renderHatchLines(hatchLines: HatchLine[], scale: number): string {
+export function renderHatchLines(
+  hatchLines: HatchLine[],
+  scale: number,
+  lineWidth?: number,
+  styles: Record<LineType, LineStyle> = LINE_STYLES
+): string {
   const elements: string[] = []
   
   // Use thin line for hatching per ISO 128-50
-  const style = LINE_STYLES[LineType.DIMENSION]
+  const style = styles[LineType.HATCHING]
   
   elements.push(`<g class="hatch-pattern">`)
   
@@ -137,7 +265,7 @@ export function renderHatchLines(hatchLines: HatchLine[], scale: number): string
     elements.push(
       `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" ` +
         `stroke="${style.stroke}" ` +
-        `stroke-width="${style.strokeWidth}" ` +
+        `stroke-width="${lineWidth ?? style.strokeWidth}" ` +
       `stroke-linecap="butt" />`
     )
   }
@@ -152,12 +280,13 @@ export function renderHatchLines(hatchLines: HatchLine[], scale: number): string
  * 
  * @param label - Label text
  * @param scale - Drawing scale
+ * @param top - Topmost section y of the view (mm)
  * @returns SVG text element
  */
-export function renderSectionLabel(label: string, scale: number): string {
+export function renderSectionLabel(label: string, scale: number, top: number = 0): string {
   // Position label above section view
   const fontSize = 5 * scale  // 5mm text height
-  const y = -10 * scale  // 10mm above section
+  const y = (top - 10) * scale  // 10mm above section
   
   return (
     `<text x="0" y="${y}" ` +
@@ -171,106 +300,108 @@ export function renderSectionLabel(label: string, scale: number): string {
 
 /**
  * Render cutting plane indicator in parent view
- * Shows where the section was taken from
+ * Shows where the section was taken from: a straight line for full
+ * sections, a line jogging between the steps of an offset section, and a
+ * line from the outline to the centre for half sections
  * 
  * @param plane - Cutting plane
- * @param viewBounds - Bounds of parent view
+ * @param viewBounds - Bounds of parent view (view-plane mm, y up)
  * @param scale - Drawing scale
+ * @param arrowDirection - Direction of viewing in SVG coordinates (unit vector
+ *                         perpendicular to the line); follows the projection method
+ * @param styles - Line styles of the drawing standard
  * @returns SVG group with cutting plane line and arrows
  */
 export function renderCuttingPlaneIndicator(
   plane: CuttingPlane,
   viewBounds: { minX: number; maxX: number; minY: number; maxY: number },
-  scale: number
+  scale: number,
+  arrowDirection: Point2D = Math.abs(plane.normal.x) > 0.5 ? { x: 1, y: 0 } : { x: 0, y: 1 },
+  styles: Record<LineType, LineStyle> = LINE_STYLES
 ): string {
   const elements: string[] = []
   
-  // Use chain thick line for cutting plane per ISO 128-50
-  const style = LINE_STYLES[LineType.CENTER_LINE]
-  
-  elements.push(`<g class="cutting-plane" data-id="${plane.id}">`)
-  
-  // Determine cutting plane position in parent view
-  // For midplane section at origin, draw line through center of view
-  const centerX = (viewBounds.minX + viewBounds.maxX) / 2
-  const centerY = (viewBounds.minY + viewBounds.maxY) / 2
-  
-  // Draw horizontal or vertical line based on plane normal
-  let x1, y1, x2, y2
-  
-  if (Math.abs(plane.normal.x) > 0.5) {
-    // Vertical line (X-axis normal)
-    x1 = x2 = centerX * scale
-    y1 = viewBounds.minY * scale
-    y2 = viewBounds.maxY * scale
-  } else if (Math.abs(plane.normal.y) > 0.5) {
-    // Horizontal line (Y-axis normal)
-    y1 = y2 = centerY * scale
-    x1 = viewBounds.minX * scale
-    x2 = viewBounds.maxX * scale
-  } else {
-    // Z-axis normal - horizontal line
-    y1 = y2 = centerY * scale
-    x1 = viewBounds.minX * scale
-    x2 = viewBounds.maxX * scale
-  }
+  // Use chain thick line for cutting plane per ISO 128-50: the chain of a
+  // centre line at the width of a cutting plane
+  const style = styles[LineType.CENTER_LINE]
+  const width = styles[LineType.CUTTING_PLANE].strokeWidth
+  
+  elements.push(`<g class="cutting-plane" data-id="${plane.id}" data-type="${plane.type}">`)
+  
+  // The line runs along section x; its ends stop at the view bounds (SVG y runs downwards)
+  const toView = parentViewMapping(plane.parentView)
+  const along = toView(sectionPlaneAxes(plane.normal).u)
+  const [low, high] = along.x !== 0
+    ? [viewBounds.minX * along.x, viewBounds.maxX * along.x]
+    : [viewBounds.maxY * -along.y, viewBounds.minY * -along.y]
+  const [minU, maxU] = [Math.min(low, high), Math.max(low, high)]
+  
+  // Corner points of the line: along each step, jogging between steps
+  const points = sectionSteps(plane).flatMap(step => {
+    const origin = toView(step.position)
+    return [Math.max(step.from, minU), Math.min(step.to, maxU)].map(u => ({
+      x: (origin.x + along.x * u) * scale,
+      y: (origin.y + along.y * u) * scale
+    }))
+  })
+  // Half sections start at the outline, where the arrow is
+  if (plane.type === 'half') points.reverse()
   
   // Draw cutting plane line (thicker chain line)
-  elements.push(
-    `<line x1="${x1.toFixed(2)}" y1="${y1.toFixed(2)}" ` +
-    `x2="${x2.toFixed(2)}" y2="${y2.toFixed(2)}" ` +
-      `stroke="${style.stroke}" ` +
-      `stroke-width="${style.strokeWidth * 2}" ` +  // Thick chain line
-      `stroke-dasharray="${style.strokeDasharray}" ` +
-    `stroke-linecap="butt" />`
-  )
+  for (let i = 1; i < points.length; i++) {
+    const [from, to] = [points[i - 1], points[i]]
+    if (Math.abs(from.x - to.x) < 1e-9 && Math.abs(from.y - to.y) < 1e-9) continue
+    elements.push(
+      `<line x1="${from.x.toFixed(2)}" y1="${from.y.toFixed(2)}" ` +
+      `x2="${to.x.toFixed(2)}" y2="${to.y.toFixed(2)}" ` +
+        `stroke="${style.stroke}" ` +
+        `stroke-width="${width}" ` +  // Thick chain line
+        `stroke-dasharray="${style.strokeDasharray}" ` +
+      `stroke-linecap="butt" />`
+    )
+  }
   
-  // Add arrowheads at ends pointing in viewing direction
+  // Add arrowheads and labels at the ends pointing in viewing direction;
+  // a half section has only the outer end
+  const ends = plane.type === 'half' ? [points[0]] : [points[0], points[points.length - 1]]
   const arrowSize = 4 * scale
-  elements.push(renderCuttingPlaneArrow(x1, y1, plane, arrowSize, 'start'))
-  elements.push(renderCuttingPlaneArrow(x2, y2, plane, arrowSize, 'end'))
-  
-  // Add labels at arrow ends
-  elements.push(renderCuttingPlaneLabel(x1, y1, plane.id, scale, 'start'))
-  elements.push(renderCuttingPlaneLabel(x2, y2, plane.id, scale, 'end'))
+  ends.forEach(end => elements.push(renderCuttingPlaneArrow(end.x, end.y, arrowDirection, arrowSize)))
+  ends.forEach((end, i) => elements.push(renderCuttingPlaneLabel(end.x, end.y, plane.id, scale, i === 0 ? 'start' : 'end')))
   
   elements.push(`</g>`)
   
   return elements.join('\n')
 }
 
+// Part space to parent-view SVG directions (mm, y down): the front view
+// shows X and Y, the top view X and Z, the right view Z and Y
+function parentViewMapping(view: CuttingPlane['parentView']): (p: Vector3Like) => Point2D {
+  switch (view) {
+    case 'front': return p => ({ x: p.x, y: -p.y })
+    case 'top': return p => ({ x: p.x, y: p.z })
+    case 'right': return p => ({ x: -p.z, y: -p.y })
+  }
+}
+
 /**
  * Render arrow for cutting plane indicator
  * 
- * @param x - Arrow position X
- * @param y - Arrow position Y
- * @param plane - Cutting plane
+ * @param x - Line end X
+ * @param y - Line end Y
+ * @param direction - Unit direction of viewing (SVG coordinates)
  * @param size - Arrow size
- * @param position - 'start' or 'end' of line
- * @returns SVG polygon for arrow
+ * @returns SVG polygon for arrow, tip pointing along direction
  */
 function renderCuttingPlaneArrow(
   x: number,
   y: number,
-  plane: CuttingPlane,
-  size: number,
-  position: 'start' | 'end'
+  direction: Point2D,
+  size: number
 ): string {
-  // Arrow points perpendicular to cutting plane line
-  // Direction depends on view direction
-  
-  // Simplified: arrow points up or right depending on plane orientation
-  let points: string
-  
-  if (Math.abs(plane.normal.x) > 0.5) {
-    // Vertical line, arrow points right or left
-    const dir = position === 'start' ? -1 : 1
-    points = `${x},${y} ${x + dir * size},${y - size / 2} ${x + dir * size},${y + size / 2}`
-  } else {
-    // Horizontal line, arrow points up or down
-    const dir = position === 'start' ? -1 : 1
-    points = `${x},${y} ${x - size / 2},${y + dir * size} ${x + size / 2},${y + dir * size}`
-  }
+  // Arrow sits beside the line end with its base on the line
+  const tip = { x: x + direction.x * size, y: y + direction.y * size }
+  const half = { x: -direction.y * size / 2, y: direction.x * size / 2 }
+  const points = `${tip.x},${tip.y} ${x + half.x},${y + half.y} ${x - half.x},${y - half.y}`
   
   return `<polygon points="${points}" fill="black" />`
 }
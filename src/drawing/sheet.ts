@@ -0,0 +1,317 @@
+/**
+ * Drawing sheet layout per ISO 5457 and title block per ISO 7200
+ *
+ * Sheet furniture is written in millimetres inside a group scaled to SVG
+ * units:
+ * - Trimmed sheet A4–A0, portrait or landscape
+ * - Drawing frame: 20 mm filing margin on the left, 10 mm elsewhere
+ * - Centring marks at the middle of each side, reaching 5 mm into the frame
+ * - Zone grid: 50 mm fields counted from the centring marks, numbered left
+ *   to right along the top and bottom, lettered top to bottom along the sides
+ * - Title block in the bottom-right corner of the frame, laid out per
+ *   ISO 7200 or ASME Y14.1
+ */
+
+import type { PartRecipe } from '../types/part'
+import { LINE_STYLES, LineType, type LineStyle } from './lineTypes'
+import type { ProjectionMethod } from './projection'
+
+export type SheetSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0'
+export type SheetOrientation = 'portrait' | 'landscape'
+
+export interface SheetOptions {
+  size: SheetSize
+  orientation: SheetOrientation
+}
+
+/**
+ * Sheet with resolved dimensions (mm)
+ */
+export interface Sheet extends SheetOptions {
+  width: number
+  height: number
+  /** Drawing frame (inner border) */
+  frame: { x: number; y: number; width: number; height: number }
+}
+
+/**
+ * Title block data fields (ISO 7200)
+ */
+export interface TitleBlockInfo {
+  title: string
+  drawingNumber: string
+  scale: string
+  /** Unit of the dimensions ('mm', 'in') */
+  units: string
+  projection: ProjectionMethod
+  drawnBy: string
+  /** Date of issue, ISO 8601 (YYYY-MM-DD) */
+  date: string
+  sheetNumber: number
+  sheetCount: number
+  toleranceNote: string
+}
+
+/**
+ * Title block layout: ISO 7200 or ASME Y14.1 (tolerance block, projection
+ * caption, size and drawing number)
+ */
+export type TitleBlockLayout = 'iso-7200' | 'asme-y14.1'
+
+export const DEFAULT_SHEET: SheetOptions = { size: 'A3', orientation: 'landscape' }
+
+// Trimmed sheet sizes, portrait (mm)
+export const SHEET_SIZES: Record<SheetSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  A2: { width: 420, height: 594 },
+  A1: { width: 594, height: 841 },
+  A0: { width: 841, height: 1189 }
+}
+
+export const FRAME_MARGIN = { left: 20, right: 10, top: 10, bottom: 10 }
+export const TITLE_BLOCK_SIZE = { width: 180, height: 36 }
+
+const ZONE_LENGTH = 50
+const CENTRING_MARK_OVERLAP = 5
+// Zone letters skip I and O, which read as 1 and 0
+const ZONE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+
+/**
+ * Resolve sheet dimensions and drawing frame
+ */
+export function getSheet(options: SheetOptions = DEFAULT_SHEET): Sheet {
+  const portrait = SHEET_SIZES[options.size]
+  const [width, height] = options.orientation === 'portrait'
+    ? [portrait.width, portrait.height]
+    : [portrait.height, portrait.width]
+
+  return {
+    ...options,
+    width,
+    height,
+    frame: {
+      x: FRAME_MARGIN.left,
+      y: FRAME_MARGIN.top,
+      width: width - FRAME_MARGIN.left - FRAME_MARGIN.right,
+      height: height - FRAME_MARGIN.top - FRAME_MARGIN.bottom
+    }
+  }
+}
+
+/**
+ * Drawing number derived from the recipe (stable across regenerations)
+ */
+export function drawingNumber(recipe: PartRecipe): string {
+  return `T19-${recipe.difficulty.charAt(0).toUpperCase()}-${recipe.id}`
+}
+
+/**
+ * Render the drawing frame, centring marks and zone grid
+ *
+ * @param sheet - Resolved sheet
+ * @param unitScale - SVG units per mm
+ * @param styles - Line styles of the drawing standard: frame and centring
+ *                 marks in thick lines, zone ticks in thin
+ */
+export function renderSheetFrame(sheet: Sheet, unitScale: number, styles: Record<LineType, LineStyle> = LINE_STYLES): string {
+  const { frame } = sheet
+  const thick = styles[LineType.VISIBLE_EDGE].strokeWidth
+  const thin = styles[LineType.DIMENSION].strokeWidth
+  const right = frame.x + frame.width
+  const bottom = frame.y + frame.height
+  const elements: string[] = []
+
+  elements.push(`<rect x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" fill="none" stroke="#000" stroke-width="${thick}" />`)
+
+  // Centring marks: from the sheet edge to 5 mm inside the frame
+  const cx = sheet.width / 2
+  const cy = sheet.height / 2
+  elements.push(
+    `<line x1="${cx}" y1="0" x2="${cx}" y2="${frame.y + CENTRING_MARK_OVERLAP}" stroke="#000" stroke-width="${thick}" />`,
+    `<line x1="${cx}" y1="${sheet.height}" x2="${cx}" y2="${bottom - CENTRING_MARK_OVERLAP}" stroke="#000" stroke-width="${thick}" />`,
+    `<line x1="0" y1="${cy}" x2="${frame.x + CENTRING_MARK_OVERLAP}" y2="${cy}" stroke="#000" stroke-width="${thick}" />`,
+    `<line x1="${sheet.width}" y1="${cy}" x2="${right - CENTRING_MARK_OVERLAP}" y2="${cy}" stroke="#000" stroke-width="${thick}" />`
+  )
+
+  // Zone grid: ticks in the border at field boundaries, labels centred in each field
+  const columns = zoneBoundaries(frame.x, right, cx)
+  const rows = zoneBoundaries(frame.y, bottom, cy)
+  const tick = FRAME_MARGIN.right / 2
+
+  columns.slice(1, -1).forEach(x => elements.push(
+    `<line x1="${x}" y1="${frame.y}" x2="${x}" y2="${frame.y - tick}" stroke="#000" stroke-width="${thin}" />`,
+    `<line x1="${x}" y1="${bottom}" x2="${x}" y2="${bottom + tick}" stroke="#000" stroke-width="${thin}" />`
+  ))
+  rows.slice(1, -1).forEach(y => elements.push(
+    `<line x1="${frame.x}" y1="${y}" x2="${frame.x - tick}" y2="${y}" stroke="#000" stroke-width="${thin}" />`,
+    `<line x1="${right}" y1="${y}" x2="${right + tick}" y2="${y}" stroke="#000" stroke-width="${thin}" />`
+  ))
+
+  const label = (x: number, y: number, text: string) =>
+    `<text x="${x}" y="${y}" font-family="sans-serif" font-size="3.5" text-anchor="middle" dominant-baseline="middle">${text}</text>`
+
+  for (let i = 0; i < columns.length - 1; i++) {
+    const x = (columns[i] + columns[i + 1]) / 2
+    elements.push(label(x, frame.y / 2, String(i + 1)), label(x, bottom + FRAME_MARGIN.bottom / 2, String(i + 1)))
+  }
+  for (let i = 0; i < rows.length - 1; i++) {
+    const y = (rows[i] + rows[i + 1]) / 2
+    const letter = ZONE_LETTERS[i % ZONE_LETTERS.length]
+    elements.push(label(frame.x - FRAME_MARGIN.right / 2, y, letter), label(right + FRAME_MARGIN.right / 2, y, letter))
+  }
+
+  return `
+    <g class="sheet-frame" data-sheet="${sheet.size}" data-orientation="${sheet.orientation}" data-zones="${columns.length - 1}x${rows.length - 1}" transform="scale(${unitScale})">
+      ${elements.join('\n      ')}
+    </g>
+  `
+}
+
+// Field boundaries along one side: frame ends plus every 50 mm from the centring mark
+function zoneBoundaries(start: number, end: number, centre: number): number[] {
+  const boundaries = [start, end]
+  for (let k = 0; centre - k * ZONE_LENGTH > start || centre + k * ZONE_LENGTH < end; k++) {
+    if (centre - k * ZONE_LENGTH > start) boundaries.push(centre - k * ZONE_LENGTH)
+    if (k > 0 && centre + k * ZONE_LENGTH < end) boundaries.push(centre + k * ZONE_LENGTH)
+  }
+  return boundaries.sort((a, b) => a - b)
+}
+
+/**
+ * Render the title block in the bottom-right corner of the frame
+ *
+ * ISO 7200 layout (180 × 36 mm):
+ * Layout (180 × 36 mm):
+ * ┌──────────────────────────┬─────────┬─────────┬─────────┐
+ * │ General tolerances       │ Proj.   │ Scale   │ Units   │
+ * ├──────────────────┬───────┴─────────┼─────────┴─────────┤
+ * │ Drawn by         │ Date of issue   │ Sheet             │
+ * ├──────────────────┴─────────────────┼───────────────────┤
+ * │ Title                              │ Drawing number    │
+ * └────────────────────────────────────┴───────────────────┘
+ *
+ * ASME Y14.1 layout (same size):
+ * ┌────────────────────┬──────────┬────────────────────────┐
+ * │ Tolerance block    │ Drawn    │ Title                  │
+ * │                    ├──────────┤                        │
+ * ├────────────────────┤ Date     ├──────┬─────────────────┤
+ * │ Projection         ├──────────┤ Size │ Dwg no.         │
+ * │                    │ Units    ├──────┴───┬─────────────┤
+ * │                    │          │ Scale    │ Sheet       │
+ * └────────────────────┴──────────┴──────────┴─────────────┘
+ *
+ * @param info - Title block fields
+ * @param sheet - Resolved sheet
+ * @param unitScale - SVG units per mm
+ * @param layout - Layout of the drawing standard (default: ISO 7200)
+ * @param styles - Line styles of the drawing standard: border in thick lines, cells in thin
+ */
+export function renderTitleBlock(
+  info: TitleBlockInfo,
+  sheet: Sheet,
+  unitScale: number,
+  layout: TitleBlockLayout = 'iso-7200',
+  styles: Record<LineType, LineStyle> = LINE_STYLES
+): string {
+  const { width, height } = TITLE_BLOCK_SIZE
+  const thick = styles[LineType.VISIBLE_EDGE].strokeWidth
+  const thin = styles[LineType.DIMENSION].strokeWidth
+  const x0 = sheet.frame.x + sheet.frame.width - width
+  const y0 = sheet.frame.y + sheet.frame.height - height
+
+  const cells: string[] = []
+  const cell = (x: number, y: number, w: number, h: number, label: string, field: string, value: string, fontSize = 3.5) => {
+    cells.push(
+      `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="none" stroke="#000" stroke-width="${thin}" />`,
+      `<text x="${x + 1.5}" y="${y + 3}" font-family="sans-serif" font-size="2">${label}</text>`
+    )
+    if (value) {
+      cells.push(`<text x="${x + 1.5}" y="${y + h - 2.5}" font-family="sans-serif" font-size="${fontSize}" data-field="${field}">${escapeXML(value)}</text>`)
+    }
+  }
+
+  if (layout === 'asme-y14.1') {
+    // Tolerance block and projection, responsibility, then title and identification
+    cell(0, 0, 60, 20, 'UNLESS OTHERWISE SPECIFIED', 'tolerance', info.toleranceNote, 2.5)
+    cells.push(
+      `<text x="1.5" y="7" font-family="sans-serif" font-size="2">DIMENSIONS ARE IN ${info.units === 'in' ? 'INCHES' : 'MILLIMETERS'}</text>`,
+      `<text x="1.5" y="11" font-family="sans-serif" font-size="2">TOLERANCES:</text>`
+    )
+    cell(0, 20, 60, 16, `${info.projection === 'first-angle' ? 'FIRST' : 'THIRD'} ANGLE PROJECTION`, 'projection', '')
+    cell(60, 0, 30, 12, 'DRAWN', 'drawn-by', info.drawnBy, 3)
+    cell(60, 12, 30, 12, 'DATE', 'date', info.date, 3)
+    cell(60, 24, 30, 12, 'UNITS', 'units', info.units.toUpperCase(), 3)
+    cell(90, 0, 90, 18, 'TITLE', 'title', info.title, 5)
+    cell(90, 18, 15, 10, 'SIZE', 'size', sheet.size, 3)
+    cell(105, 18, 75, 10, 'DWG NO.', 'drawing-number', info.drawingNumber)
+    cell(90, 28, 40, 8, 'SCALE', 'scale', info.scale, 3)
+    cell(130, 28, 50, 8, 'SHEET', 'sheet', `${info.sheetNumber} OF ${info.sheetCount}`, 3)
+
+    return `
+    <g class="title-block" data-layout="${layout}" transform="scale(${unitScale}) translate(${x0} ${y0})">
+      <rect x="0" y="0" width="${width}" height="${height}" fill="none" stroke="#000" stroke-width="${thick}" />
+      ${cells.join('\n      ')}
+      ${renderProjectionSymbol(info.projection, 23.75, 26, 5, thin)}
+    </g>
+  `
+  }
+
+  // Row 1: general tolerances, projection method, scale, units
+  cell(0, 0, 90, 10, 'General tolerances', 'tolerance', info.toleranceNote, 3)
+  cell(90, 0, 30, 10, 'Projection', 'projection', '')
+  cell(120, 0, 30, 10, 'Scale', 'scale', info.scale)
+  cell(150, 0, 30, 10, 'Units', 'units', info.units)
+
+  // Row 2: responsibility, date, sheet x of y
+  cell(0, 10, 60, 10, 'Drawn by', 'drawn-by', info.drawnBy)
+  cell(60, 10, 60, 10, 'Date of issue', 'date', info.date)
+  cell(120, 10, 60, 10, 'Sheet', 'sheet', `${info.sheetNumber} / ${info.sheetCount}`)
+
+  // Row 3: title and identification
+  cell(0, 20, 110, 16, 'Title', 'title', info.title, 5)
+  cell(110, 20, 70, 16, 'Drawing number', 'drawing-number', info.drawingNumber, 5)
+
+  return `
+    <g class="title-block" data-layout="${layout}" transform="scale(${unitScale}) translate(${x0} ${y0})">
+      <rect x="0" y="0" width="${width}" height="${height}" fill="none" stroke="#000" stroke-width="${thick}" />
+      ${cells.join('\n      ')}
+      ${renderProjectionSymbol(info.projection, 98.75, 4, 5, thin)}
+    </g>
+  `
+}
+
+/**
+ * ISO 5456-2 projection symbol: a truncated cone (small end left) and its end view
+ * The end view is seen from the left, so it sits on the right in
+ * first-angle and on the left in third-angle.
+ *
+ * @param projection - Projection method
+ * @param x - Left edge (symbol is 2.5 × size wide)
+ * @param y - Top edge (symbol is size high)
+ * @param size - Large diameter of the cone
+ * @param lineWidth - Thin line width (mm)
+ */
+export function renderProjectionSymbol(
+  projection: ProjectionMethod,
+  x: number,
+  y: number,
+  size: number,
+  lineWidth: number = LINE_STYLES[LineType.DIMENSION].strokeWidth
+): string {
+  const d = size // Large diameter; small diameter is half of it
+  const coneX = projection === 'first-angle' ? x : x + 1.5 * d
+  const circleX = projection === 'first-angle' ? x + 2 * d : x + d / 2
+  const cy = y + d / 2
+  const cone = `M ${coneX} ${cy - d / 4} L ${coneX + d} ${cy - d / 2} L ${coneX + d} ${cy + d / 2} L ${coneX} ${cy + d / 4} Z`
+  return `
+      <g class="projection-symbol" data-projection="${projection}" fill="none" stroke="#000" stroke-width="${lineWidth}">
+        <path d="${cone}" />
+        <circle cx="${circleX}" cy="${cy}" r="${d / 2}" />
+        <circle cx="${circleX}" cy="${cy}" r="${d / 4}" />
+      </g>`
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
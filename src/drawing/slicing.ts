@@ -14,7 +14,7 @@
  */
 
 import type { BufferGeometry, Vector3 } from 'three'
-import type { CuttingPlane, SectionContour, Point2D } from './sections'
+import type { CuttingPlane, SectionContour, Point2D, Vector3Like } from './sections'
 import { Vector3 as ThreeVector3, Plane as ThreePlane } from 'three'
 
 /**
@@ -71,10 +71,8 @@ export function sliceGeometryCSG(
 ): SectionContour[] {
   try {
     // Convert CuttingPlane to Three.js Plane
-    const threePlane = new ThreePlane(
-      new ThreeVector3(plane.normal.x, plane.normal.y, plane.normal.z),
-      0 // Distance from origin (midplane at 0)
-    )
+    const normal = new ThreeVector3(plane.normal.x, plane.normal.y, plane.normal.z)
+    const threePlane = new ThreePlane(normal, -normal.dot(new ThreeVector3(plane.position.x, plane.position.y, plane.position.z)))
     
     // Step 1: Extract intersection segments from mesh triangles
     const segments3D = extractIntersectionSegments(geometry, threePlane, options)
@@ -110,6 +108,91 @@ export function sliceGeometryCSG(
   }
 }
 
+/**
+ * Section band: contours cut by one plane, kept between two limits along the
+ * section's horizontal axis (section x, mm)
+ */
+export interface SectionBand {
+  contours: SectionContour[]
+  from: number
+  to: number
+}
+
+/**
+ * Join the bands of an offset or half section into one set of contours
+ *
+ * Each loop is clipped to its band, then the pieces are stitched together
+ * again. Edges lying on a band limit are kept only where material lies on
+ * one side of it: the jogs of an offset cutting plane are not shown in the
+ * section (ISO 128-50), while a step between two cut depths is.
+ *
+ * @param bands - Contours of each cutting plane with their limits
+ * @param options - Slicing options
+ * @returns Classified contours of the whole section
+ */
+export function joinSectionBands(
+  bands: SectionBand[],
+  options: SlicingOptions = DEFAULT_SLICING_OPTIONS
+): SectionContour[] {
+  const segments: Segment2D[] = []
+  // Edges on each band limit, split into covered intervals of the limit line
+  const limitEdges = new Map<number, Array<[number, number]>>()
+
+  for (const { contours, from, to } of bands) {
+    for (const contour of contours) {
+      const clipped = clipLoopToBand(contour.points, from, to)
+      for (let i = 0; i < clipped.length; i++) {
+        const start = clipped[i]
+        const end = clipped[(i + 1) % clipped.length]
+        if (pointsEqual(start, end, options.tolerance)) continue
+
+        const limit = [from, to].find(x => Math.abs(start.x - x) < options.tolerance && Math.abs(end.x - x) < options.tolerance)
+        if (limit === undefined) {
+          segments.push({ start, end })
+        } else {
+          const edges = limitEdges.get(limit) ?? []
+          edges.push([Math.min(start.y, end.y), Math.max(start.y, end.y)])
+          limitEdges.set(limit, edges)
+        }
+      }
+    }
+  }
+
+  // Coverage parity along each limit: material on both sides (or a clipping
+  // artefact running there and back) cancels out
+  limitEdges.forEach((edges, x) => {
+    const breaks = [...new Set(edges.flat())].sort((a, b) => a - b)
+    for (let i = 1; i < breaks.length; i++) {
+      const mid = (breaks[i - 1] + breaks[i]) / 2
+      const covered = edges.filter(([lo, hi]) => lo < mid && mid < hi).length
+      if (covered % 2 === 1) segments.push({ start: { x, y: breaks[i - 1] }, end: { x, y: breaks[i] } })
+    }
+  })
+
+  return classifyLoops(stitchSegmentsIntoLoops(segments, options), options)
+}
+
+// Sutherland–Hodgman clip of a closed loop to from ≤ x ≤ to
+function clipLoopToBand(points: Point2D[], from: number, to: number): Point2D[] {
+  const clip = (loop: Point2D[], inside: (p: Point2D) => boolean, x: number): Point2D[] => {
+    const result: Point2D[] = []
+    loop.forEach((current, i) => {
+      const previous = loop[(i + loop.length - 1) % loop.length]
+      if (inside(current) !== inside(previous)) {
+        const t = (x - previous.x) / (current.x - previous.x)
+        result.push({ x, y: previous.y + t * (current.y - previous.y) })
+      }
+      if (inside(current)) result.push(current)
+    })
+    return result
+  }
+
+  let loop = points
+  if (Number.isFinite(from)) loop = clip(loop, p => p.x >= from, from)
+  if (Number.isFinite(to)) loop = clip(loop, p => p.x <= to, to)
+  return loop
+}
+
 /**
  * Extract intersection segments from BufferGeometry triangles
  * 
@@ -172,7 +255,7 @@ function extractIntersectionSegments(
  * 
  * Algorithm:
  * 1. Compute signed distances of vertices to plane
- * 2. Classify vertices as above (+), on (0), or below (-) plane
+ * 2. Classify vertices as above (+, including on the plane) or below (-)
  * 3. If all same sign, no intersection
  * 4. Otherwise, find two edge-plane intersection points
  * 
@@ -195,64 +278,53 @@ function intersectTriangleWithPlane(
   const d1 = plane.distanceToPoint(v1)
   const d2 = plane.distanceToPoint(v2)
   
-  // Classify vertices (with tolerance)
-  const s0 = Math.abs(d0) < tolerance ? 0 : Math.sign(d0)
-  const s1 = Math.abs(d1) < tolerance ? 0 : Math.sign(d1)
-  const s2 = Math.abs(d2) < tolerance ? 0 : Math.sign(d2)
+  // Classify vertices; vertices on the plane (within tolerance) count as
+  // above it, as if the plane were moved down by an infinitesimal step.
+  // Cuts through hole axes and along faces hit mesh vertices exactly, and
+  // this keeps every crossing reported once, by the triangles below.
+  const s0 = d0 < -tolerance ? -1 : 1
+  const s1 = d1 < -tolerance ? -1 : 1
+  const s2 = d2 < -tolerance ? -1 : 1
   
   // Check if all vertices on same side (no intersection)
-  if (s0 === s1 && s1 === s2 && s0 !== 0) return null
-  
-  // Collect intersection points
-  const intersectionPoints: Vector3[] = []
-  
-  // Check edge v0-v1
-  if (s0 !== s1) {
-    const t = d0 / (d0 - d1)
-    if (t >= 0 && t <= 1) {
-      intersectionPoints.push(
-        new ThreeVector3().lerpVectors(v0, v1, t)
-      )
-    }
-  } else if (s0 === 0) {
-    intersectionPoints.push(v0.clone())
-  }
+  if (s0 === s1 && s1 === s2) return null
   
-  // Check edge v1-v2
-  if (s1 !== s2) {
-    const t = d1 / (d1 - d2)
-    if (t >= 0 && t <= 1) {
-      intersectionPoints.push(
-        new ThreeVector3().lerpVectors(v1, v2, t)
-      )
-    }
-  } else if (s1 === 0 && intersectionPoints.length === 0) {
-    intersectionPoints.push(v1.clone())
-  }
-  
-  // Check edge v2-v0
-  if (s2 !== s0) {
-    const t = d2 / (d2 - d0)
-    if (t >= 0 && t <= 1) {
-      intersectionPoints.push(
-        new ThreeVector3().lerpVectors(v2, v0, t)
-      )
-    }
-  } else if (s2 === 0 && intersectionPoints.length === 0) {
-    intersectionPoints.push(v2.clone())
-  }
+  // Intersection point on each crossing edge (clamped: an on-plane vertex
+  // within tolerance may sit just below zero)
+  const crossing = (a: Vector3, b: Vector3, da: number, db: number) =>
+    new ThreeVector3().lerpVectors(a, b, Math.min(1, Math.max(0, da / (da - db))))
   
-  // Need exactly 2 intersection points
-  if (intersectionPoints.length !== 2) return null
+  const points: Vector3[] = []
+  if (s0 !== s1) points.push(crossing(v0, v1, d0, d1))
+  if (s1 !== s2) points.push(crossing(v1, v2, d1, d2))
+  if (s2 !== s0) points.push(crossing(v2, v0, d2, d0))
   
-  // Return segment (skip degenerate zero-length segments)
-  const segmentLength = intersectionPoints[0].distanceTo(intersectionPoints[1])
-  if (segmentLength < tolerance) return null
+  // A triangle touching the plane only at a vertex gives a zero-length segment
+  if (points[0].distanceTo(points[1]) < tolerance) return null
   
   return {
-    start: intersectionPoints[0],
-    end: intersectionPoints[1]
+    start: points[0],
+    end: points[1]
+  }
+}
+
+/**
+ * In-plane axes of a section: section x (u) and y (v) in part space
+ * The cutting-plane line in the parent view runs along u.
+ *
+ * @param normal - Plane normal (axis-aligned)
+ */
+export function sectionPlaneAxes(normal: Vector3Like): { u: ThreeVector3; v: ThreeVector3 } {
+  const n = new ThreeVector3(normal.x, normal.y, normal.z)
+
+  if (Math.abs(n.x) > 0.9) {
+    // Normal ~parallel to X-axis → use Y and Z for plane
+    const v = new ThreeVector3(0, 1, 0)
+    return { u: new ThreeVector3().crossVectors(v, n).normalize(), v }
   }
+  // Normal ~parallel to Y or Z-axis → X across the plane
+  const u = new ThreeVector3(1, 0, 0)
+  return { u, v: new ThreeVector3().crossVectors(n, u).normalize() }
 }
 
 /**
@@ -274,27 +346,7 @@ function projectSegmentsTo2D(
   segments3D: IntersectionSegment[],
   plane: CuttingPlane
 ): Segment2D[] {
-  // Define 2D coordinate system on cutting plane
-  const normal = new ThreeVector3(plane.normal.x, plane.normal.y, plane.normal.z)
-  
-  // Choose X-axis perpendicular to normal
-  // Use world axes to ensure consistent orientation
-  let xAxis: ThreeVector3
-  let yAxis: ThreeVector3
-  
-  if (Math.abs(normal.x) > 0.9) {
-    // Normal ~parallel to X-axis → use Y and Z for plane
-    yAxis = new ThreeVector3(0, 1, 0)
-    xAxis = new ThreeVector3().crossVectors(yAxis, normal).normalize()
-  } else if (Math.abs(normal.y) > 0.9) {
-    // Normal ~parallel to Y-axis → use X and Z for plane
-    xAxis = new ThreeVector3(1, 0, 0)
-    yAxis = new ThreeVector3().crossVectors(normal, xAxis).normalize()
-  } else {
-    // Normal ~parallel to Z-axis → use X and Y for plane
-    xAxis = new ThreeVector3(1, 0, 0)
-    yAxis = new ThreeVector3().crossVectors(normal, xAxis).normalize()
-  }
+  const { u: xAxis, v: yAxis } = sectionPlaneAxes(plane.normal)
   
   const origin = new ThreeVector3(plane.position.x, plane.position.y, plane.position.z)
   
@@ -444,14 +496,13 @@ function pointsEqual(p1: Point2D, p2: Point2D, tolerance: number): boolean {
  * Classify loops as outer boundaries or inner holes
  * 
  * Algorithm:
- * 1. Compute signed area (ccw = positive, cw = negative)
- * 2. Largest positive area → outer boundary
- * 3. Negative area → inner hole
- * 4. Filter out tiny loops (noise)
+ * 1. Compute signed area and filter out tiny loops (noise)
+ * 2. Count how many other loops contain each loop (nesting depth)
+ * 3. Even depth → outer boundary of material; odd depth → inner hole
  * 
- * Note: In some coordinate systems, the winding may be inverted.
- * We use absolute area to find the largest loop (assumed outer)
- * and classify others relative to it.
+ * Stitching follows segments in whatever direction it meets them, so the
+ * winding of a loop says nothing about its role; a cut through several
+ * separate regions of material has several outer boundaries.
  * 
  * @param loops - Array of point loops
  * @param options - Slicing options
@@ -463,8 +514,6 @@ function classifyLoops(
 ): SectionContour[] {
   if (loops.length === 0) return []
   
-  const contours: SectionContour[] = []
-  
   // Compute areas and filter tiny loops
   const loopsWithArea = loops
     .map(loop => ({
@@ -473,28 +522,34 @@ function classifyLoops(
     }))
     .filter(({ area }) => Math.abs(area) >= options.minLoopArea)
   
-  if (loopsWithArea.length === 0) return []
-  
-  // Find largest loop by absolute area - this is the outer boundary
+  // Largest first, so outer boundaries precede the holes inside them
   loopsWithArea.sort((a, b) => Math.abs(b.area) - Math.abs(a.area))
-  const largestArea = loopsWithArea[0].area
-  
-  // Classify based on area sign relative to largest
-  // If largest is positive, positive = outer (ccw), negative = inner (cw)
-  // If largest is negative, negative = outer (cw), positive = inner (ccw)
-  const outerSign = Math.sign(largestArea)
   
-  for (const { loop, area } of loopsWithArea) {
-    const isOuter = Math.sign(area) === outerSign
+  return loopsWithArea.map(({ loop, area }, i) => {
+    const depth = loopsWithArea.filter((other, j) =>
+      j !== i && Math.abs(other.area) > Math.abs(area) && containsPoint(other.loop, loop[0])
+    ).length
     
-    contours.push({
+    return {
       points: loop,
-      isOuter,
+      isOuter: depth % 2 === 0,
       winding: area > 0 ? 'ccw' : 'cw'
-    })
+    }
+  })
+}
+
+// Even-odd point-in-polygon test
+function containsPoint(polygon: Point2D[], point: Point2D): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
   }
-  
-  return contours
+  return inside
 }
 
 /**
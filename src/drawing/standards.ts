@@ -0,0 +1,122 @@
+/**
+ * Drawing standard profiles: the conventions a drawing follows, switched together
+ *
+ * - ISO: ISO 128-24 lines, ISO 129-1 dimensions in millimetres with text
+ *   aligned to the dimension lines, hatching by material (ISO 128-50),
+ *   ISO 7200 title block, first-angle projection
+ * - ASME: ASME Y14.2 lines and general-purpose section lining, ASME Y14.5
+ *   dimensions in decimal inches with unidirectional text, ASME Y14.1 title
+ *   block with its tolerance block, third-angle projection
+ *
+ * Geometry stays in millimetres; only what is written and how lines look
+ * changes. Sheets stay ISO 5457 A-series (no ANSI A–E sizes) and surface
+ * texture keeps Ra in micrometres (no microinches) under both standards.
+ */
+
+import type { PartMaterial } from '../types/part'
+import { DEFAULT_DIMENSION_CONFIG, MM_PER_INCH, type DimensionConfig } from './dimensions'
+import { LINE_STYLES, LineType, type LineStyle } from './lineTypes'
+import type { ProjectionMethod } from './projection'
+import { DEFAULT_HATCH_PATTERN, MATERIAL_HATCH_PATTERNS, type HatchPattern } from './sections'
+import type { TitleBlockLayout } from './sheet'
+
+export type DrawingStandardName = 'iso' | 'asme'
+
+/**
+ * Conventions of a drawing standard
+ */
+export interface DrawingStandard {
+  name: DrawingStandardName
+  /** View arrangement and projection symbol, unless the drawing asks for another */
+  projection: ProjectionMethod
+  /** Widths and patterns of the line types */
+  lineStyles: Record<LineType, LineStyle>
+  /** Dimensioning: units, decimal places, spacing, arrowheads, text orientation, fits */
+  dimensions: DimensionConfig
+  /** Section hatching by material */
+  hatchPatterns: Record<PartMaterial, HatchPattern>
+  titleBlock: TitleBlockLayout
+}
+
+export const DEFAULT_DRAWING_STANDARD: DrawingStandardName = 'iso'
+
+// ASME Y14.2 line widths (mm): thick and thin only
+const ASME_THICK = 0.6
+const ASME_THIN = 0.3
+
+// ASME Y14.2 dash patterns (mm): hidden lines in short dashes, chain lines
+// with long dashes of 3/4 to 1 1/2 in
+const ASME_DASHES: Partial<Record<LineType, string>> = {
+  [LineType.HIDDEN_EDGE]: '3 1',
+  [LineType.CENTER_LINE]: '24 1.5 3 1.5',
+  [LineType.PITCH_CIRCLE]: '24 1.5 3 1.5',
+  [LineType.PHANTOM]: '24 1.5 3 1.5 3 1.5'
+}
+
+/**
+ * Line styles per ASME Y14.2: the ISO line types at 0.6 and 0.3 mm, with
+ * longer chain dashes
+ */
+export const ASME_LINE_STYLES = Object.fromEntries((Object.entries(LINE_STYLES) as Array<[LineType, LineStyle]>).map(([type, style]) => [type, {
+  ...style,
+  strokeWidth: style.strokeWidth > LINE_STYLES[LineType.DIMENSION].strokeWidth ? ASME_THICK : ASME_THIN,
+  strokeDasharray: ASME_DASHES[type] ?? style.strokeDasharray
+}])) as Record<LineType, LineStyle>
+
+/**
+ * Dimensioning per ASME Y14.5 and Y14.2: decimal inches to two places,
+ * unidirectional text, 1/8 in arrowheads three times as long as wide.
+ * ISO 286 fits are metric and left off; sizes are toleranced by the title block.
+ */
+export const ASME_DIMENSION_CONFIG: DimensionConfig = {
+  ...DEFAULT_DIMENSION_CONFIG,
+  minOffsetFromOutline: 0.375 * MM_PER_INCH,
+  minSpacingBetween: 0.25 * MM_PER_INCH,
+  thinLineWidth: ASME_THIN,
+  arrowheadLength: 0.125 * MM_PER_INCH,
+  arrowheadWidth: (0.125 * MM_PER_INCH) / 3,
+  extensionLineGap: 0.0625 * MM_PER_INCH,
+  extensionLineOverhang: 0.125 * MM_PER_INCH,
+  decimalPlaces: 2,
+  units: 'in',
+  textOrientation: 'unidirectional',
+  boreFit: '',
+  shaftFit: ''
+}
+
+// General-purpose section lining (ASME Y14.2): 45° thin lines 1/8 in apart
+const ASME_HATCH_PATTERN: HatchPattern = { ...DEFAULT_HATCH_PATTERN, spacing: 0.125 * MM_PER_INCH, lineWidth: ASME_THIN }
+
+/**
+ * ASME Y14.2 hatches every material with the general-purpose lining; the
+ * material is given in the notes
+ */
+export const ASME_HATCH_PATTERNS: Record<PartMaterial, HatchPattern> = {
+  general: ASME_HATCH_PATTERN,
+  steel: { ...ASME_HATCH_PATTERN, material: 'steel' },
+  aluminium: { ...ASME_HATCH_PATTERN, material: 'aluminium' },
+  plastic: { ...ASME_HATCH_PATTERN, material: 'plastic' },
+  rubber: { ...ASME_HATCH_PATTERN, material: 'rubber' }
+}
+
+/**
+ * Drawing standards by name
+ */
+export const DRAWING_STANDARDS: Record<DrawingStandardName, DrawingStandard> = {
+  iso: {
+    name: 'iso',
+    projection: 'first-angle',
+    lineStyles: LINE_STYLES,
+    dimensions: DEFAULT_DIMENSION_CONFIG,
+    hatchPatterns: MATERIAL_HATCH_PATTERNS,
+    titleBlock: 'iso-7200'
+  },
+  asme: {
+    name: 'asme',
+    projection: 'third-angle',
+    lineStyles: ASME_LINE_STYLES,
+    dimensions: ASME_DIMENSION_CONFIG,
+    hatchPatterns: ASME_HATCH_PATTERNS,
+    titleBlock: 'asme-y14.1'
+  }
+}
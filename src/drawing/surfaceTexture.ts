@@ -0,0 +1,366 @@
+/**
+ * Surface texture symbols per ISO 1302
+ *
+ * - Machined surfaces: faces made by subtraction operations (hole patterns,
+ *   pockets, slots) get the symbol for material removal with their Ra value
+ *   and lay direction; holes on their callout, other features on a leader
+ *   ending in a dot inside the feature
+ * - Faces of the body given a finish in the recipe get a symbol on a leader
+ *   with an arrowhead, in the view seeing the face edge-on
+ * - All other surfaces take the general roughness, noted next to the title
+ *   block: the general symbol followed by the basic symbol in parentheses
+ *
+ * Recipes give finishes in `metadata.surfaceFinish` (see SurfaceFinishSpec).
+ */
+
+import { Box3, type BufferAttribute, type Matrix4 } from 'three'
+import type { PartRecipe } from '../types/part'
+import { createPrimitiveGeometry, primitiveMatrix } from '../csg/primitives'
+import { DEFAULT_DIMENSION_CONFIG, getDimensionBounds, type Dimension, type DimensionConfig, type HoleCallout, type Point2D } from './dimensions'
+import { renderArrowhead } from './dimensionsSVG'
+import { clearancePast, faceInView, geometricToleranceBounds, isPartFace, turnFace, type GeometricAnnotations, type PartFace } from './gdt'
+import { bodyBounds, findHoleFeatures, subtractedPrimitiveIds } from './holes'
+import { ORTHOGRAPHIC_MATRICES, towardViewer, type OrthographicView } from './projection'
+import { TITLE_BLOCK_SIZE, type Sheet } from './sheet'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Direction of the tool marks (ISO 1302 lay symbols): parallel (=) or
+ * perpendicular (⊥) to the plane of the view, crossed (X), multi-directional
+ * (M), circular (C) or radial (R) about the centre, or particulate (P)
+ */
+export type LayDirection = '=' | '⊥' | 'X' | 'M' | 'C' | 'R' | 'P'
+
+/**
+ * Finish of a surface: arithmetic mean roughness and lay
+ */
+export interface SurfaceFinish {
+  /** Ra (µm) */
+  ra: number
+  lay?: LayDirection
+}
+
+/**
+ * Finishes requested by a recipe in `metadata.surfaceFinish`
+ */
+export interface SurfaceFinishSpec {
+  /** Roughness of all surfaces without their own symbol (default Ra 6.3) */
+  general?: SurfaceFinish
+  /** Machined features, by any of their tool primitives */
+  features?: Array<SurfaceFinish & { primitiveId: string }>
+  /** Faces of the body, by outward normal */
+  faces?: Array<SurfaceFinish & { face: PartFace }>
+}
+
+/**
+ * Surface texture symbol in a view
+ */
+export interface SurfaceTextureSymbol {
+  id: string
+  view: OrthographicView
+  ra: number
+  lay: LayDirection
+  root: Point2D          // Point of the symbol, on its reference line
+  leader?: {
+    points: Point2D[]    // From the surface to the end of the reference line
+    terminator: 'arrow' | 'dot'
+  }
+  primitiveIds?: string[]
+  face?: PartFace
+}
+
+/** Finishes used where the recipe gives none */
+export const DEFAULT_SURFACE_FINISH = {
+  general: { ra: 6.3, lay: 'M' } as Required<SurfaceFinish>,
+  hole: { ra: 3.2, lay: 'C' } as Required<SurfaceFinish>,
+  feature: { ra: 3.2, lay: 'M' } as Required<SurfaceFinish>,
+  face: { ra: 1.6, lay: '=' } as Required<SurfaceFinish>
+}
+
+const LAY_DIRECTIONS: LayDirection[] = ['=', '⊥', 'X', 'M', 'C', 'R', 'P']
+
+// Symbol proportions for 3.5 mm text (ISO 1302 Annex A): legs at 60°, the
+// short one H1 high and the long one H2, carrying the line the Ra value is written under
+const H1 = 5
+const H2 = 10.5
+const LEG_RUN = 1 / Math.tan(Math.PI / 3)
+const TEXT_HEIGHT = 3.5
+const RA_TEXT_X = H2 * LEG_RUN + 0.3
+const SHORT_LEG_X = -H1 * LEG_RUN
+
+// Reference line between a feature leader and its symbol (mm)
+const REFERENCE_LINE_LENGTH = 3
+
+// ============================================================================
+// Recipe Metadata
+// ============================================================================
+
+/**
+ * Read and check the finishes requested in `recipe.metadata.surfaceFinish`
+ *
+ * @param recipe - Part recipe
+ * @returns The finishes, or undefined when the recipe gives none
+ * @throws Error if a roughness, lay or face is malformed
+ */
+export function readSurfaceFinish(recipe: PartRecipe): SurfaceFinishSpec | undefined {
+  const spec = recipe.metadata?.surfaceFinish as SurfaceFinishSpec | undefined
+  if (!spec) return undefined
+
+  const check = (name: string, finish: SurfaceFinish) => {
+    if (!(finish.ra > 0)) throw new Error(`${name}: Ra must be positive`)
+    if (finish.lay !== undefined && !LAY_DIRECTIONS.includes(finish.lay)) throw new Error(`${name}: unknown lay ${finish.lay}`)
+  }
+  if (spec.general) check('General finish', spec.general)
+  for (const feature of spec.features ?? []) check(`Finish of ${feature.primitiveId}`, feature)
+  for (const face of spec.faces ?? []) {
+    if (!isPartFace(face.face)) throw new Error(`Finish of face ${face.face}: unknown face`)
+    check(`Finish of face ${face.face}`, face)
+  }
+  return spec
+}
+
+/**
+ * Turn the faces of a part's finishes with the part (front view selection)
+ *
+ * @param spec - Finishes in the recipe's axes
+ * @param rotation - Quarter-turn rotation applied to the part
+ */
+export function orientSurfaceFinish(spec: SurfaceFinishSpec, rotation: Matrix4): SurfaceFinishSpec {
+  return spec.faces ? { ...spec, faces: spec.faces.map(face => ({ ...face, face: turnFace(face.face, rotation) })) } : spec
+}
+
+/**
+ * Roughness of the surfaces without their own symbol
+ */
+export function generalSurfaceFinish(recipe: PartRecipe): Required<SurfaceFinish> {
+  const general = readSurfaceFinish(recipe)?.general
+  return { ...DEFAULT_SURFACE_FINISH.general, ...general }
+}
+
+/**
+ * Text of a symbol's requirements (e.g. "Ra 3.2 C")
+ */
+export function formatSurfaceFinish(finish: SurfaceFinish): string {
+  return `Ra ${finish.ra}${finish.lay ? ` ${finish.lay}` : ''}`
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Place the surface texture symbols of a part
+ *
+ * - Hole patterns: on top of the callout note, one symbol per callout
+ * - Other axis-aligned subtraction tools breaking through the body
+ *   (pockets, slots, steps): in the view looking into the opening, on a
+ *   leader from a dot at the feature's centre that runs out at 45° past
+ *   the outline. Rotated tools (chamfers, inclined holes) only get a
+ *   symbol when the recipe gives their finish.
+ * - Faces with a finish in the recipe: in the view seeing the face edge-on,
+ *   on a leader past the dimensions and geometric tolerances on that side
+ *
+ * @param recipe - Part recipe
+ * @param dimensions - The part's dimensions, after collision resolution
+ * @param geometricTolerances - Datum symbols and frames already placed
+ * @param config - Dimension configuration (offsets and spacing)
+ * @throws Error if the recipe's finishes are malformed
+ */
+export function generateSurfaceTextureSymbols(
+  recipe: PartRecipe,
+  dimensions: Dimension[],
+  geometricTolerances: GeometricAnnotations = { datums: [], frames: [] },
+  config: DimensionConfig = DEFAULT_DIMENSION_CONFIG
+): SurfaceTextureSymbol[] {
+  const spec = readSurfaceFinish(recipe) ?? {}
+  const requested = (primitiveIds: string[]) => spec.features?.find(feature => primitiveIds.includes(feature.primitiveId))
+  const symbols: SurfaceTextureSymbol[] = []
+
+  // Hole patterns: on their callout, above the first line of the note
+  const callouts = dimensions.filter((d): d is HoleCallout => d.type === 'callout')
+  for (const callout of callouts) {
+    const finish = { ...DEFAULT_SURFACE_FINISH.hole, ...requested(callout.primitiveIds) }
+    const side = Math.sign(callout.shoulder.x - callout.leaderLine.end.x)
+    const start = callout.shoulder.x + side * (1 - SHORT_LEG_X)
+    const root = { x: side > 0 ? start : start - symbolWidth(finish), y: callout.shoulder.y + TEXT_HEIGHT / 2 + 0.5 }
+    symbols.push({ id: `surface-${callout.id}`, view: callout.view, ra: finish.ra, lay: finish.lay, root, primitiveIds: callout.primitiveIds })
+  }
+
+  // Other machined features: on a leader from their centre
+  const body = bodyBounds(recipe)
+  const holeTools = new Set(findHoleFeatures(recipe).flatMap(hole => hole.primitiveIds))
+  const tools = subtractedPrimitiveIds(recipe)
+  for (const primitive of recipe.primitives) {
+    if (!tools.has(primitive.id) || holeTools.has(primitive.id)) continue
+    const own = requested([primitive.id])
+    const rotation = primitive.transform?.rotation
+    if (!own && rotation && (rotation.x || rotation.y || rotation.z)) continue
+
+    const geometry = createPrimitiveGeometry(primitive).applyMatrix4(primitiveMatrix(primitive))
+    const cut = new Box3().setFromBufferAttribute(geometry.getAttribute('position') as BufferAttribute).intersect(body)
+    const view = openingView(cut, body)
+    if (!view || cut.isEmpty()) continue
+
+    const finish = { ...DEFAULT_SURFACE_FINISH.feature, ...own }
+    const matrix = ORTHOGRAPHIC_MATRICES[view]
+    const outline = body.clone().applyMatrix4(matrix)
+    const c = cut.getCenter(cut.min.clone()).applyMatrix4(matrix)
+    const side = c.x >= 0 ? 1 : -1
+    const across = side > 0 ? outline.max.x - c.x : c.x - outline.min.x
+    const reach = Math.min(across, outline.max.y - c.y) * Math.SQRT2 + config.minOffsetFromOutline
+    const end = { x: c.x + side * reach * Math.SQRT1_2, y: c.y + reach * Math.SQRT1_2 }
+    symbols.push({
+      id: `surface-${primitive.id}`,
+      view,
+      ra: finish.ra,
+      lay: finish.lay,
+      ...onReferenceLine({ x: c.x, y: c.y }, end, side, finish, 'dot'),
+      primitiveIds: [primitive.id]
+    })
+  }
+
+  // Faces of the body, past what is already drawn on that side
+  for (const face of spec.faces ?? []) {
+    const finish = { ...DEFAULT_SURFACE_FINISH.face, ...face }
+    const { view, from, to, outward } = faceInView(body, face.face)
+    const start = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }
+    const obstacles = [
+      ...dimensions.filter(d => d.view === view).map(d => getDimensionBounds(d, config)),
+      ...geometricToleranceBounds(geometricTolerances, view)
+    ]
+    // A symbol below the face stands on its reference line, so it needs its height too
+    const reach = clearancePast(obstacles, start, outward, config) + (outward.y < 0 ? H2 : 0)
+    const end = { x: start.x + outward.x * reach, y: start.y + outward.y * reach }
+    symbols.push({
+      id: `surface-face${face.face}`,
+      view,
+      ra: finish.ra,
+      lay: finish.lay,
+      ...onReferenceLine(start, end, outward.x < 0 ? -1 : 1, finish, 'arrow'),
+      face: face.face
+    })
+  }
+
+  return symbols
+}
+
+// First view looking into the opening a tool makes in the body (where the
+// tool's box reaches the body's), if any
+function openingView(cut: Box3, body: Box3): OrthographicView | undefined {
+  const eps = 1e-6
+  return (Object.keys(ORTHOGRAPHIC_MATRICES) as OrthographicView[]).find(name => {
+    const toward = towardViewer(ORTHOGRAPHIC_MATRICES[name])
+    return (['x', 'y', 'z'] as const).some(axis => Math.abs(toward[axis]) > 1 - eps &&
+      (cut.max[axis] >= body.max[axis] - eps || cut.min[axis] <= body.min[axis] + eps))
+  })
+}
+
+// Leader from the surface to a reference line running on to the side, with
+// the symbol standing on the reference line
+function onReferenceLine(start: Point2D, end: Point2D, side: number, finish: SurfaceFinish, terminator: 'arrow' | 'dot'): Pick<SurfaceTextureSymbol, 'root' | 'leader'> {
+  const near = end.x + side * REFERENCE_LINE_LENGTH
+  const root = { x: side > 0 ? near - SHORT_LEG_X : near - symbolWidth(finish), y: end.y }
+  const far = { x: side > 0 ? root.x + symbolWidth(finish) : root.x + SHORT_LEG_X, y: end.y }
+  return { root, leader: { points: [start, end, far], terminator } }
+}
+
+// Width of a symbol right of its point: the long leg, or the Ra value under its line
+function symbolWidth(finish: SurfaceFinish): number {
+  return Math.max(H2 * LEG_RUN, RA_TEXT_X + `Ra ${finish.ra}`.length * TEXT_HEIGHT * 0.6) + 0.5
+}
+
+// ============================================================================
+// SVG Rendering
+// ============================================================================
+
+/**
+ * Render the surface texture symbols of a view (view mm, y up, around the view centre)
+ */
+export function renderSurfaceTextureSymbols(
+  symbols: SurfaceTextureSymbol[],
+  view: OrthographicView,
+  scale: number = 1,
+  config: DimensionConfig = DEFAULT_DIMENSION_CONFIG
+): string {
+  const elements = symbols.filter(symbol => symbol.view === view).map(symbol => {
+    const parts: string[] = []
+    if (symbol.leader) {
+      const [start, next] = symbol.leader.points
+      parts.push(
+        `<polyline points="${symbol.leader.points.map(p => `${p.x * scale},${-p.y * scale}`).join(' ')}" ` +
+        `class="leader-line" stroke="black" stroke-width="${config.thinLineWidth}" fill="none" />`,
+        symbol.leader.terminator === 'dot'
+          ? `<circle cx="${start.x * scale}" cy="${-start.y * scale}" r="${0.6 * scale}" fill="black" />`
+          : renderArrowhead({
+              position: start,
+              angle: Math.atan2(start.y - next.y, start.x - next.x),
+              length: config.arrowheadLength,
+              width: config.arrowheadWidth
+            }, scale)
+      )
+    }
+    parts.push(renderSymbol(symbol.root.x * scale, -symbol.root.y * scale, scale, config.thinLineWidth, symbol))
+    return `<g class="surface-texture" data-id="${symbol.id}" data-ra="${symbol.ra}" data-lay="${symbol.lay}">\n${parts.join('\n')}\n</g>`
+  })
+  if (elements.length === 0) return ''
+
+  return `<g class="surface-textures" data-view="${view}">\n${elements.join('\n')}\n</g>`
+}
+
+/**
+ * Render the general roughness note left of the title block: the general
+ * symbol, then the basic symbol in parentheses ("all other surfaces")
+ *
+ * @param finish - General roughness
+ * @param sheet - Resolved sheet
+ * @param unitScale - SVG units per mm
+ * @param lineWidth - Thin line width of the drawing standard (mm)
+ */
+export function renderGeneralSurfaceNote(
+  finish: SurfaceFinish,
+  sheet: Sheet,
+  unitScale: number,
+  lineWidth: number = DEFAULT_DIMENSION_CONFIG.thinLineWidth
+): string {
+  const right = sheet.frame.x + sheet.frame.width - TITLE_BLOCK_SIZE.width - 5
+  const baseline = sheet.frame.y + sheet.frame.height - 8
+  const paren = TEXT_HEIGHT * 2
+  const basic = H2 * LEG_RUN - SHORT_LEG_X
+  const generalX = right - paren - basic - paren - 2 - symbolWidth(finish)
+  const basicX = right - paren - H2 * LEG_RUN
+  const text = (x: number, value: string) =>
+    `<text x="${x}" y="${baseline - H1}" font-family="Arial, sans-serif" font-size="${paren}" text-anchor="middle" dominant-baseline="middle">${value}</text>`
+
+  return `
+    <g class="general-surface-texture" data-ra="${finish.ra}" transform="scale(${unitScale})">
+      ${renderSymbol(generalX, baseline, 1, lineWidth, finish)}
+      ${text(basicX + SHORT_LEG_X - paren / 2, '(')}
+      ${renderSymbol(basicX, baseline, 1, lineWidth)}
+      ${text(right - paren / 2, ')')}
+    </g>
+  `
+}
+
+// Symbol for material removal with its point at (x, y) in SVG units (y down),
+// drawn in thin lines of the given width (mm); with a finish, its line and requirements too
+function renderSymbol(x: number, y: number, scale: number, lineWidth: number, finish?: SurfaceFinish): string {
+  const point = (u: number, v: number) => `${x + u * scale},${y - v * scale}`
+  const longLeg = H2 * LEG_RUN
+  const path = [
+    `M ${point(SHORT_LEG_X, H1)} L ${point(0, 0)} L ${point(longLeg, H2)}`,
+    finish ? `L ${point(symbolWidth(finish), H2)}` : '',
+    `M ${point(SHORT_LEG_X, H1)} L ${point(H1 * LEG_RUN, H1)}`
+  ].join(' ')
+  const parts = [`<path d="${path}" fill="none" stroke="black" stroke-width="${lineWidth * scale}" />`]
+  if (finish) {
+    const text = (u: number, v: number, value: string, className: string) =>
+      `<text x="${x + u * scale}" y="${y - v * scale}" class="${className}" font-family="Arial, sans-serif" font-size="${TEXT_HEIGHT * scale}" ` +
+      `text-anchor="start" dominant-baseline="middle" fill="black">${value}</text>`
+    parts.push(text(RA_TEXT_X, H2 - TEXT_HEIGHT / 2 - 0.5, `Ra ${finish.ra}`, 'roughness'))
+    if (finish.lay) parts.push(text(H1 * LEG_RUN, TEXT_HEIGHT / 2 + 0.25, finish.lay, 'lay'))
+  }
+  return parts.join('')
+}
@@ -5,15 +5,52 @@
 import { Matrix4, Vector3 } from 'three'
 import type { BufferGeometry } from 'three'
 import type { PartRecipe } from '../types/part'
-import { extractRecipeEdges, extractGeometryEdges, type Edge } from './edges'
-import { generateDimensions, DEFAULT_DIMENSION_CONFIG } from './dimensions'
+import type { CurveEdge, Edge } from './edges'
+import {
+  computeViewEdges,
+  towardViewer,
+  viewEdgesBounds,
+  ORTHOGRAPHIC_MATRICES,
+  PICTORIAL_AXIS_SCALE,
+  PICTORIAL_MATRICES,
+  VIEW_ARRANGEMENT,
+  type OrthographicView,
+  type PictorialStyle,
+  type ProjectionMethod,
+  type ViewEdges
+} from './projection'
+import { generateDimensions, type Dimension, type DimensionConfig } from './dimensions'
+import { DECIMAL_INCH_TOLERANCE_NOTE, generalToleranceNote } from './tolerances'
 import { renderDimensions } from './dimensionsSVG'
+import { generateGeometricTolerances } from './gdt'
+import { renderGeometricTolerances } from './gdtSVG'
+import { generalSurfaceFinish, generateSurfaceTextureSymbols, renderGeneralSurfaceNote, renderSurfaceTextureSymbols } from './surfaceTexture'
 import { getEdgeLineType, generateAllLineStylesCSS } from './lineTypes'
-import { extractCenterLines, renderCenterLines, DEFAULT_CENTER_LINE_CONFIG } from './centerLines'
-import { createSectionView, selectCuttingPlane, type CuttingPlane } from './sections'
+import { extractCenterLines, extractPitchCircles, renderCenterLines, renderPitchCircles, DEFAULT_CENTER_LINE_CONFIG } from './centerLines'
+import { extractThreadArcs, extractThreadLines, renderThreadArcs, renderThreadLines } from './threads'
+import { breakPoints, breakShortening, findPartBreak, renderBrokenView, viewBreak, type ViewBreak } from './breaks'
+import { DEFAULT_DRAWING_STANDARD, DRAWING_STANDARDS, type DrawingStandardName } from './standards'
+import { createSectionView, selectCuttingPlanes, MAX_SECTIONS, type CuttingPlane, type Point2D } from './sections'
+import { sectionPlaneAxes } from './slicing'
 import { renderSectionView, renderCuttingPlaneIndicator } from './sectionsSVG'
-
-type View = 'front' | 'top' | 'right'
+import { selectDetailViews, clipViewEdgesToCircle, MAX_DETAILS } from './details'
+import { renderDetailCallout, renderDetailFrame } from './detailsSVG'
+import { selectAuxiliaryViews, auxiliaryCenterLines, MAX_AUXILIARY_VIEWS } from './auxiliary'
+import { renderAuxiliaryLabel, renderViewingArrow } from './auxiliarySVG'
+import { tryEvaluateRecipe } from '../csg/evaluate'
+import { orientForDrawing, type FrontDirection } from './orientation'
+import {
+  getSheet,
+  drawingNumber,
+  renderSheetFrame,
+  renderTitleBlock,
+  DEFAULT_SHEET,
+  TITLE_BLOCK_SIZE,
+  type SheetOptions,
+  type TitleBlockInfo
+} from './sheet'
+
+type View = OrthographicView
 
 interface ViewConfig {
   matrix: Matrix4
@@ -22,164 +59,271 @@ interface ViewConfig {
   viewDirection: Vector3
 }
 
-// First-angle orthographic projection
+// Orthographic views; placement on the sheet follows the projection method
 const VIEW_CONFIGS: Record<View, ViewConfig> = {
   front: {
-    matrix: new Matrix4(), // Front view: no rotation
+    matrix: ORTHOGRAPHIC_MATRICES.front, // Front view: no rotation
     name: 'Front View',
     offset: new Vector3(100, 100, 0),
     viewDirection: new Vector3(0, 0, -1) // Looking along -Z
   },
   top: {
-    matrix: new Matrix4().makeRotationX(-Math.PI/2), // Top view: rotate -90° around X
+    matrix: ORTHOGRAPHIC_MATRICES.top, // Top view: rotate 90° around X
     name: 'Top View', 
     offset: new Vector3(100, 220, 0),
-    viewDirection: new Vector3(0, 1, 0) // Looking along +Y (rotated to -Z)
+    viewDirection: new Vector3(0, -1, 0) // Looking along -Y, from above the front view
   },
   right: {
-    matrix: new Matrix4().makeRotationY(Math.PI/2), // Right view: rotate 90° around Y
+    matrix: ORTHOGRAPHIC_MATRICES.right, // Right view: rotate -90° around Y
     name: 'Right View',
     offset: new Vector3(220, 100, 0),
-    viewDirection: new Vector3(-1, 0, 0) // Looking along -X (rotated to -Z)
+    viewDirection: new Vector3(-1, 0, 0) // Looking along -X, from the right of the front view
   }
 }
 
-// SVG canvas/page constants
-const PAGE_WIDTH = 800 // SVG units
-const PAGE_HEIGHT = 600 // SVG units
-const UNIT_SCALE = 2.0 // SVG units per mm (affects sizes like stroke width)
+/**
+ * Options for generateDrawing()
+ */
+export interface DrawingOptions {
+  /** Drawing standard: line styles, dimensioning, hatching, title block and projection method (default: ISO) */
+  standard?: DrawingStandardName
+  /** View arrangement and title-block symbol (default: the standard's, first-angle for ISO) */
+  projection?: ProjectionMethod
+  /** Pictorial view drawn in the free cell when there is no section or detail view (default: isometric) */
+  pictorial?: PictorialStyle | 'none'
+  /** Face turned to the front view: 'auto' picks the most descriptive one (default) */
+  frontView?: FrontDirection | 'auto'
+  /** ISO 5457 sheet size and orientation (default: A3 landscape) */
+  sheet?: SheetOptions
+  /** Most section views to draw, lettered A-A, B-B... (default: 3) */
+  maxSections?: number
+  /** Most auxiliary views of inclined features to draw, lettered after the sections (default: 1) */
+  maxAuxiliaryViews?: number
+  /** Most detail views of small features to draw, lettered after the auxiliary views (default: 2) */
+  maxDetails?: number
+  /** Dimensioning settings over the standard's, e.g. chain, baseline or ordinate location dimensions */
+  dimensions?: Partial<DimensionConfig>
+  /** Title block fields not taken from the recipe (defaults: generator, recipe date, sheet 1 / 1, general tolerances of the dimensions) */
+  titleBlock?: Partial<Pick<TitleBlockInfo, 'drawnBy' | 'date' | 'drawingNumber' | 'sheetNumber' | 'sheetCount' | 'toleranceNote'>>
+}
+
+// SVG units per mm (affects sizes like stroke width); the page is the ISO sheet at this scale
+const UNIT_SCALE = 2.0
+
+// Allowed standard scales per ISO 5455 (geometry multipliers)
+const STANDARD_SCALES = [10, 5, 2, 1, 0.5, 0.25, 0.2, 0.1]
+const MIN_SCALE = STANDARD_SCALES[STANDARD_SCALES.length - 1]
+
+// Format a scale factor as an ISO 5455 label (2:1, 1:1, 1:5, ...)
+const formatScaleLabel = (s: number) => (s >= 1 ? `${Math.round(s)}:1` : `1:${Math.round(1 / s)}`)
 
 // Debug logging flag for SVG generation; set to true to enable verbose logs
 const DEBUG_DRAWING = false
 const debug = (...args: any[]) => { if (DEBUG_DRAWING) console.log(...args) }
 
-function createTitleBlock(name: string, scale = '1:1', units = 'mm') {
-  const y = 200 // Title block at bottom of page
-  return `
-    <g transform="translate(180 ${y})">
-      <rect x="0" y="0" width="100" height="50" fill="none" stroke="black" strokeWidth="0.5" />
-      <text x="5" y="15" font-family="sans-serif" font-size="8">${name}</text>
-      <text x="5" y="30" font-family="sans-serif" font-size="8">Scale: ${scale}</text>
-      <text x="5" y="45" font-family="sans-serif" font-size="8">Units: ${units}</text>
-    </g>
-  `
+// Map a view-plane point (mm, Y up) to SVG coordinates
+function toSVG(point: Vector3, viewConfig: ViewConfig, scale: number): { x: number; y: number } {
+  return {
+    x: point.x * scale + viewConfig.offset.x,
+    y: -point.y * scale + viewConfig.offset.y // Flip Y for SVG coords
+  }
 }
 
-// Project 3D edges to 2D SVG paths
-function projectEdges(edges: Edge[], viewConfig: ViewConfig, scale = 1): string[] {
-  const paths: string[] = []
-  
-  edges.forEach((edge) => {
-    const { start, end } = edge
-    
-    // Debug log input points
-    debug(`Edge: ${start.toArray()} -> ${end.toArray()}`)
+// Room above a section view for its label (SVG units)
+const SECTION_LABEL_SPACE = 20
+
+// Features in a detail view are enlarged to at least this size on paper (mm)
+const DETAIL_FEATURE_SIZE = 10
+
+// Bounds of a view turned clockwise on the sheet by `angle` (view-plane mm, y up)
+function turnedBounds(bounds: { minX: number; maxX: number; minY: number; maxY: number }, angle: number) {
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)]
+  const corners = [[bounds.minX, bounds.minY], [bounds.maxX, bounds.minY], [bounds.minX, bounds.maxY], [bounds.maxX, bounds.maxY]]
+    .map(([x, y]) => ({ x: x * cos + y * sin, y: -x * sin + y * cos }))
+  return {
+    minX: Math.min(...corners.map(p => p.x)),
+    maxX: Math.max(...corners.map(p => p.x)),
+    minY: Math.min(...corners.map(p => p.y)),
+    maxY: Math.max(...corners.map(p => p.y))
+  }
+}
 
-    // Transform to view space
-    const v1 = start.clone().applyMatrix4(viewConfig.matrix)
-    const v2 = end.clone().applyMatrix4(viewConfig.matrix)
-    
-  debug(`  After transform: ${v1.toArray()} -> ${v2.toArray()}`)
-
-    // Skip edges that are exactly parallel to view direction (have same Z)
-    // Allow small variations for near-parallel edges
-    if (Math.abs(v1.z - v2.z) < 0.0001 &&
-          Math.abs(v1.x - v2.x) < 0.0001 &&
-          Math.abs(v1.y - v2.y) < 0.0001) {
-      debug('  Skipping - parallel')
-      return
-    }
-    
-    // For our camera convention the viewer looks along -Z, so more negative Z is closer.
-    // Consider a point "in front" of the view plane when its Z is sufficiently negative.
-    const p1InFront = v1.z < -0.0001
-    const p2InFront = v2.z < -0.0001
-    const p1Behind = v1.z > 0.0001
-    const p2Behind = v2.z > 0.0001
-
-  debug(`  p1InFront: ${p1InFront}, p2InFront: ${p2InFront}, p1Behind: ${p1Behind}, p2Behind: ${p2Behind}`)
-
-    // If both endpoints are behind the view plane, skip the edge entirely
-    if (p1Behind && p2Behind) {
-      debug('  Skipping - both endpoints behind view plane')
-      return
-    }
-    
-    // Project to 2D (drop Z) and apply offset
-    const x1 = v1.x * scale + viewConfig.offset.x
-    const y1 = -v1.y * scale + viewConfig.offset.y // Flip Y for SVG coords
-    const x2 = v2.x * scale + viewConfig.offset.x  
-    const y2 = -v2.y * scale + viewConfig.offset.y
-
-    // Skip near-zero length projected edges
-      if (Math.abs(x2 - x1) < 0.01 && Math.abs(y2 - y1) < 0.01) {
-      debug('  Skipping - zero length')
-      return
-    }
+// Width (section x) and height (section y) of a section view in mm
+function sectionExtents(plane: CuttingPlane, bb: { x: number; y: number; z: number }): { w: number; h: number } {
+  const { u, v } = sectionPlaneAxes(plane.normal)
+  const size = new Vector3(bb.x, bb.y, bb.z)
+  return { w: Math.max(1, Math.abs(u.dot(size))), h: Math.max(1, Math.abs(v.dot(size))) }
+}
 
-    // Classify visible/hidden: if at least one endpoint is in front, treat as visible,
-    // otherwise mark as hidden (edge lies on or behind the view plane)
-    let type = (p1InFront || p2InFront) ? 'visible' : 'hidden'
+// Direction (SVG coords) of the cutting-plane arrows, i.e. the direction of viewing.
+// Like any other view, the section lies beyond the plane in first-angle
+// (arrows point towards it) and on the viewer's side in third-angle (arrows point away).
+function cuttingPlaneArrow(plane: CuttingPlane, parentCenter: Vector3, sectionCenter: Vector3, projection: ProjectionMethod): Point2D {
+  // Arrows are drawn perpendicular to the cutting-plane line
+  const axis = Math.abs(plane.normal.x) > 0.5 ? { x: 1, y: 0 } : { x: 0, y: 1 }
+  const towardSection = (sectionCenter.x - parentCenter.x) * axis.x + (sectionCenter.y - parentCenter.y) * axis.y
+  const sign = (towardSection >= 0) === (projection === 'first-angle') ? 1 : -1
+  return { x: axis.x * sign, y: axis.y * sign }
+}
 
-    // Special-case heuristic for cylinder rim visibility in the front view.
-    // Our primitive approximation places circle edges at the cylinder top/bottom.
-    // For a through-hole seen in front view, only the near half of the rim should be visible.
-    // Detect likely cylinder rim edges by checking for large |Z| on both endpoints
-    // and in the front view only keep those whose midpoint has positive Y (near side).
-    try {
-      if (viewConfig.name === 'Front View') {
-        const zThresh = 50 // anything with |z| > 50 is part of our long cylinder
-        if (Math.abs(v1.z) > zThresh && Math.abs(v2.z) > zThresh) {
-          const midY = (v1.y + v2.y) / 2
-          if (midY <= 0) {
-            type = 'hidden'
-          }
-        }
-      }
-    } catch (e) {
-      // ignore heuristics on failure
-    }
+// Render one view-plane curve as an SVG line path, circle or arc path
+function curveToSVG(curve: CurveEdge, viewConfig: ViewConfig, scale: number, lineType: string): string | null {
+  if (curve.kind === 'circle') {
+    const c = toSVG(curve.center, viewConfig, scale)
+    return `<circle cx="${c.x}" cy="${c.y}" r="${curve.radius * scale}" class="${lineType}" />`
+  }
 
-  debug(`  Adding ${type} edge: (${x1},${y1}) -> (${x2},${y2})`)
-    
-    // Map visibility to ISO line type
-    const lineType = getEdgeLineType(type === 'visible')
-    paths.push(`<path d="M ${x1} ${y1} L ${x2} ${y2}" class="${lineType}" />`)
-  })
+  const p1 = toSVG(curve.start, viewConfig, scale)
+  const p2 = toSVG(curve.end, viewConfig, scale)
+
+  // Skip near-zero length projected edges
+  if (curve.kind === 'line' && Math.abs(p2.x - p1.x) < 0.01 && Math.abs(p2.y - p1.y) < 0.01) {
+    return null
+  }
+
+  if (curve.kind === 'line') {
+    return `<path d="M ${p1.x} ${p1.y} L ${p2.x} ${p2.y}" class="${lineType}" />`
+  }
+
+  // View-plane arcs run counter-clockwise, which is sweep-flag 0 once Y is flipped
+  const r = curve.radius * scale
+  const largeArc = curve.sweep > Math.PI ? 1 : 0
+  return `<path d="M ${p1.x} ${p1.y} A ${r} ${r} 0 ${largeArc} 0 ${p2.x} ${p2.y}" class="${lineType}" />`
+}
+
+// Render a view's visible and hidden curves as SVG elements
+function projectEdges(edges: ViewEdges, viewConfig: ViewConfig, scale = 1): string[] {
+  const paths: string[] = []
+
+  for (const visible of [true, false]) {
+    const lineType = getEdgeLineType(visible)
+    ;(visible ? edges.visible : edges.hidden).forEach(curve => {
+      const svg = curveToSVG(curve, viewConfig, scale, lineType)
+      if (!svg) return
+      debug(`  Adding ${visible ? 'visible' : 'hidden'} ${curve.kind}: ${svg}`)
+      paths.push(svg)
+    })
+  }
 
   return paths
 }
 
+// Pictorial view (visible edges only) centred in a grid cell at the largest standard scale that fits
+function renderPictorialView(
+  style: PictorialStyle,
+  solid: BufferGeometry | undefined,
+  recipeEdges: Edge[],
+  center: Vector3,
+  slotW: number,
+  slotH: number,
+  sheetScale: number
+): string {
+  const matrix = PICTORIAL_MATRICES[style]
+  const { visible } = computeViewEdges(matrix, solid, recipeEdges)
+  if (visible.length === 0) return ''
+
+  // Sizes along the axes are true to scale, so the projection is enlarged first
+  const axisScale = PICTORIAL_AXIS_SCALE[style]
+  const bounds = viewEdgesBounds({ visible, hidden: [] })
+  const w = Math.max(1, bounds.maxX - bounds.minX) * axisScale
+  const h = Math.max(1, bounds.maxY - bounds.minY) * axisScale
+  const limit = Math.min(slotW / (w * UNIT_SCALE), slotH / (h * UNIT_SCALE))
+  const scale = STANDARD_SCALES.find(s => s <= limit) ?? MIN_SCALE
+  const totalScale = UNIT_SCALE * scale * axisScale
+
+  const config: ViewConfig = {
+    matrix,
+    name: style === 'isometric' ? 'Isometric View' : 'Dimetric View',
+    offset: new Vector3(
+      center.x - ((bounds.minX + bounds.maxX) / 2) * totalScale,
+      center.y + ((bounds.minY + bounds.maxY) / 2) * totalScale, // Y is flipped in SVG
+      0
+    ),
+    viewDirection: towardViewer(matrix).negate()
+  }
+
+  // Hidden edges are omitted in pictorials; state the scale when it differs from the sheet
+  const paths = projectEdges({ visible, hidden: [] }, config, totalScale)
+  const label = scale === sheetScale ? config.name : `${config.name} (${formatScaleLabel(scale)})`
+  debug(`[SVG] Generated ${style} view with ${paths.length} paths at ${formatScaleLabel(scale)}`)
+
+  return `
+      <g class="view pictorial" data-style="${style}">
+        <text x="${center.x}" y="${center.y - (h * UNIT_SCALE * scale) / 2 - 6}" 
+              font-family="sans-serif" font-size="8" text-anchor="middle">${label}</text>
+        ${paths.join('\n')}
+      </g>
+    `
+}
+
+/**
+ * Drawing of a part with what it shows
+ */
+export interface DrawingResult {
+  svg: string
+  /** Recipe as drawn, turned to its front view */
+  recipe: PartRecipe
+  /** Dimensions placed on the views, in the turned recipe's axes */
+  dimensions: Dimension[]
+}
+
 /**
  * Generate an SVG drawing for a part recipe
  * 
  * @param recipe - Part recipe with primitives and operations
- * @param geometry - Optional BufferGeometry for accurate section views
+ * @param geometry - Optional CSG BufferGeometry (defaults to evaluateRecipe());
+ *                   used for hidden-line removal and section views
+ * @param options - Drawing options (standard, projection method, pictorial view, front view, sheet, title block)
+ */
+export function generateDrawing(recipe: PartRecipe, geometry?: BufferGeometry, options: DrawingOptions = {}): string {
+  return createDrawing(recipe, geometry, options).svg
+}
+
+/**
+ * Generate an SVG drawing together with the recipe and dimensions it shows,
+ * e.g. to check the dimensioning of the drawing (checkDimensioning())
+ *
+ * @param recipe - Part recipe with primitives and operations
+ * @param geometry - Optional CSG BufferGeometry (defaults to evaluateRecipe())
+ * @param options - Drawing options
  */
-export function generateDrawing(recipe: PartRecipe, geometry?: BufferGeometry): string {
-  // Extract edges: use CSG geometry if available, otherwise fall back to recipe primitives
-  const edges = geometry 
-    ? extractGeometryEdges(geometry)
-    : extractRecipeEdges(recipe)
+export function createDrawing(recipe: PartRecipe, geometry?: BufferGeometry, options: DrawingOptions = {}): DrawingResult {
+  const standard = DRAWING_STANDARDS[options.standard ?? DEFAULT_DRAWING_STANDARD]
+  const projection = options.projection ?? standard.projection
+
+  // Post-boolean solid for edges, hidden-line removal and section slicing,
+  // turned together with the recipe so the most descriptive face is in front
+  const oriented = orientForDrawing(recipe, geometry ?? tryEvaluateRecipe(recipe), options.frontView)
+  const { solid, recipeEdges, choice: frontView } = oriented
+  recipe = oriented.recipe
+  debug(`[SVG] Front view: ${frontView.reason}`)
   
-  debug(`[SVG] Extracted ${edges.length} edges from ${geometry ? 'CSG geometry' : 'recipe primitives'} with ${recipe.primitives.length} primitives`)
+  debug(`[SVG] Using ${solid ? 'CSG geometry' : 'recipe primitives'} edges for ${recipe.primitives.length} primitives`)
 
-  // Generate dimensions using ISO 129-1 compliant system
-  const dimensions = generateDimensions(recipe, DEFAULT_DIMENSION_CONFIG)
+  // Generate dimensions using ISO 129-1 compliant system, in the standard's units and style
+  const dimensionConfig = { ...standard.dimensions, ...options.dimensions }
+  const dimensions = generateDimensions(recipe, dimensionConfig)
   debug(`[SVG] Generated ${dimensions.length} dimensions`)
+  const geometricTolerances = generateGeometricTolerances(recipe, dimensions, dimensionConfig)
+  const surfaceTextures = generateSurfaceTextureSymbols(recipe, dimensions, geometricTolerances, dimensionConfig)
 
-  // ----- Scale selection (Phase 3.3) -----
-  // Define page layout in mm (derived from SVG units and UNIT_SCALE)
-  const marginMM = 15
+  // ----- Sheet and scale selection (Phase 3.3) -----
+  const sheet = getSheet(options.sheet ?? DEFAULT_SHEET)
+  const pageWidth = sheet.width * UNIT_SCALE
+  const pageHeight = sheet.height * UNIT_SCALE
+
+  // Views are laid out inside the drawing frame, above the title block (mm → SVG units)
+  const paddingMM = 5
   const gapMM = 10
 
-  const marginU = marginMM * UNIT_SCALE
+  const originX = (sheet.frame.x + paddingMM) * UNIT_SCALE
+  const originY = (sheet.frame.y + paddingMM) * UNIT_SCALE
   const gapU = gapMM * UNIT_SCALE
 
-  const contentW = PAGE_WIDTH - 2 * marginU
-  const contentH = PAGE_HEIGHT - 2 * marginU
+  const contentW = (sheet.frame.width - 2 * paddingMM) * UNIT_SCALE
+  const contentH = (sheet.frame.height - TITLE_BLOCK_SIZE.height - 2 * paddingMM) * UNIT_SCALE
 
-  // Split content area into a 2x2 grid; bottom-right is left mostly for title block
+  // Split content area into a 2x2 grid
   const slotW = (contentW - gapU) / 2
   const slotH = (contentH - gapU) / 2
 
@@ -197,114 +341,352 @@ export function generateDrawing(recipe: PartRecipe, geometry?: BufferGeometry):
   const limitRight = Math.min(slotW / (viewMM.right.w * UNIT_SCALE), slotH / (viewMM.right.h * UNIT_SCALE))
   const globalLimit = Math.max(0.01, Math.min(limitFront, limitTop, limitRight))
 
-  // Allowed standard scales per ISO 5455 (geometry multipliers)
-  const STANDARD_SCALES = [10, 5, 2, 1, 0.5, 0.25, 0.2, 0.1]
-  const MIN_SCALE = STANDARD_SCALES[STANDARD_SCALES.length - 1]
-  const viewScale = STANDARD_SCALES.find(s => s <= globalLimit) ?? MIN_SCALE
-  const oversize = globalLimit < MIN_SCALE
+  // Curves of each orthographic view, shared by the views and their details
+  const viewEdges = Object.fromEntries((Object.keys(VIEW_CONFIGS) as View[]).map(name =>
+    [name, computeViewEdges(VIEW_CONFIGS[name].matrix, solid, recipeEdges)])) as Record<View, ViewEdges>
+
+  // Long parts are drawn as interrupted views when leaving out a uniform
+  // stretch allows a larger scale; the views along the break get shorter
+  const wholeScale = STANDARD_SCALES.find(s => s <= globalLimit) ?? MIN_SCALE
+  const partBreak = findPartBreak(viewEdges)
+  const brokenViewsFit = (scale: number) => partBreak !== undefined && (Object.keys(VIEW_CONFIGS) as View[]).every(name => {
+    const bounds = viewEdgesBounds(viewEdges[name])
+    const brk = viewBreak(partBreak, name, viewEdges[name], scale)
+    const shortening = brk ? breakShortening(partBreak, scale) : 0
+    const w = bounds.maxX - bounds.minX - (brk?.direction === 'x' ? shortening : 0)
+    const h = bounds.maxY - bounds.minY - (brk?.direction === 'y' ? shortening : 0)
+    return w * UNIT_SCALE * scale <= slotW && h * UNIT_SCALE * scale <= slotH
+  })
+  const brokenScale = STANDARD_SCALES.find(s => s > wholeScale && brokenViewsFit(s))
+  const viewScale = brokenScale ?? wholeScale
+  const oversize = !brokenScale && globalLimit < MIN_SCALE
+  const viewBreaks = Object.fromEntries((Object.keys(VIEW_CONFIGS) as View[]).map(name =>
+    [name, brokenScale && partBreak ? viewBreak(partBreak, name, viewEdges[name], brokenScale) : undefined])) as Record<View, ViewBreak | undefined>
+  if (brokenScale) debug(`[SVG] Broken along ${partBreak!.axis} from ${partBreak!.from} to ${partBreak!.to}`)
 
-  // Helper to format scale label
-  const formatScaleLabel = (s: number) => (s >= 1 ? `${Math.round(s)}:1` : `1:${Math.round(1 / s)}`)
   const scaleLabel = formatScaleLabel(viewScale)
 
   // Total conversion from mm to SVG units for geometry positions/lengths
   const totalScale = UNIT_SCALE * viewScale
 
-  // Compute per-slot centers (offsets) in SVG units
-  const frontCenter = new Vector3(marginU + slotW / 2, marginU + slotH / 2, 0)
-  const topCenter   = new Vector3(marginU + slotW / 2, marginU + slotH + gapU + slotH / 2, 0)
-  const rightCenter = new Vector3(marginU + slotW + gapU + slotW / 2, marginU + slotH / 2, 0)
-
-  // Generate section view if there are subtraction operations (holes, pockets, etc.)
+  // Compute per-slot centers (offsets) in SVG units; the projection method
+  // decides which grid cell each view takes (SVG rows run downwards)
+  const slotCenter = (col: number, row: number) =>
+    new Vector3(originX + col * (slotW + gapU) + slotW / 2, originY + row * (slotH + gapU) + slotH / 2, 0)
+  const arrangement = VIEW_ARRANGEMENT[projection]
+  const frontCol = arrangement.right.x < 0 ? 1 : 0
+  const frontRow = arrangement.top.y > 0 ? 1 : 0
+  const frontCenter = slotCenter(frontCol, frontRow)
+  const topCenter   = slotCenter(frontCol + arrangement.top.x, frontRow - arrangement.top.y)
+  const rightCenter = slotCenter(frontCol + arrangement.right.x, frontRow - arrangement.right.y)
+  // Section (or pictorial) view takes the remaining cell, diagonal to the front view
+  const freeCenter = slotCenter(frontCol + arrangement.right.x, frontRow - arrangement.top.y)
+  const viewCenters: Record<View, Vector3> = { front: frontCenter, top: topCenter, right: rightCenter }
+
+  // Cutting planes through the internal features; none if a section would reveal nothing
   const hasSubtractions = recipe.operations?.some(op => op.op === 'subtract') ?? false
-  let sectionViewSVG = ''
-  let cuttingPlane: CuttingPlane | undefined
-  
+  let planes: CuttingPlane[] = []
   if (hasSubtractions) {
     try {
-      // Select cutting plane
-      cuttingPlane = selectCuttingPlane(recipe)
-      
-      // Position section view in bottom-right area (below right view)
-      const sectionPosition = {
-        x: marginU + slotW + gapU + slotW / 2,
-        y: marginU + slotH + gapU + slotH / 2
+      planes = selectCuttingPlanes(recipe, options.maxSections ?? MAX_SECTIONS)
+      if (planes.length === 0) {
+        debug('[SVG] No cutting plane reveals an internal feature; section skipped')
       }
-      
-      // Create section view (with geometry if available for CSG mode)
-      const sectionView = createSectionView(recipe, cuttingPlane, sectionPosition, totalScale, geometry)
-      
-      // Render to SVG
-      sectionViewSVG = renderSectionView(sectionView)
-      
-      debug(`[SVG] Generated section view with ${sectionView.contours.length} contours`)
     } catch (error) {
-      console.warn('[SVG] Failed to generate section view:', error)
-      cuttingPlane = undefined
+      console.warn('[SVG] Failed to select cutting planes:', error)
+    }
+  }
+
+  // Inclined features get auxiliary views, lettered after the sections; each is
+  // seen from the end of the feature axis that puts it towards the free cell
+  const towards = Object.fromEntries((Object.keys(VIEW_CONFIGS) as View[]).map(name =>
+    [name, { x: freeCenter.x - viewCenters[name].x, y: viewCenters[name].y - freeCenter.y }])) as Record<View, Point2D>
+  const auxiliaryViews = hasSubtractions
+    ? selectAuxiliaryViews(recipe, ORTHOGRAPHIC_MATRICES, projection, towards, planes.length, options.maxAuxiliaryViews ?? MAX_AUXILIARY_VIEWS)
+    : []
+  // Each auxiliary view is turned on the sheet so that its projection lines run from the parent view
+  const auxiliaryEdges = auxiliaryViews.map(view => computeViewEdges(view.matrix, solid, recipeEdges))
+  const auxiliaryTurns = auxiliaryViews.map(view => Math.atan2(view.placement.x, view.placement.y))
+  const auxiliaryBounds = auxiliaryEdges.map((edges, i) => turnedBounds(viewEdgesBounds(edges), auxiliaryTurns[i]))
+
+  // Small features get detail views, lettered after the auxiliary views
+  let details = hasSubtractions
+    ? selectDetailViews(recipe, viewScale, ORTHOGRAPHIC_MATRICES, planes.length + auxiliaryViews.length, options.maxDetails ?? MAX_DETAILS)
+    : []
+
+  // Sections, auxiliary views and details share the free grid cell side by side,
+  // or stacked when that allows larger scales. Sections and auxiliary views are
+  // drawn at the sheet scale unless the cell is too small for it; details are
+  // enlarged until their features read well.
+  const layoutFreeCell = () => {
+    const extents = [
+      ...planes.map(plane => sectionExtents(plane, bb)),
+      ...auxiliaryBounds.map(bounds => ({ w: Math.max(1, bounds.maxX - bounds.minX), h: Math.max(1, bounds.maxY - bounds.minY) })),
+      ...details.map(detail => ({ w: 2 * detail.radius, h: 2 * detail.radius }))
+    ]
+    const wanted = [
+      ...planes.map(() => viewScale),
+      ...auxiliaryViews.map(() => viewScale),
+      ...details.map(detail => STANDARD_SCALES.slice().reverse().find(s => detail.featureSize * s >= DETAIL_FEATURE_SIZE) ?? STANDARD_SCALES[0])
+    ]
+    const n = extents.length
+    const layouts = [
+      { sideBySide: true, cellW: (slotW - (n - 1) * gapU) / n, cellH: slotH },
+      { sideBySide: false, cellW: slotW, cellH: (slotH - (n - 1) * gapU) / n }
+    ].map(layout => {
+      const limits = extents.map(({ w, h }) =>
+        Math.min(layout.cellW / (w * UNIT_SCALE), (layout.cellH - SECTION_LABEL_SPACE) / (h * UNIT_SCALE)))
+      // Worst shortfall against the wanted scales decides between the layouts
+      return { ...layout, limits, fit: Math.min(...limits.map((limit, i) => limit / wanted[i])) }
+    })
+    const layout = layouts[0].fit >= layouts[1].fit ? layouts[0] : layouts[1]
+
+    const scaleFor = (i: number) => STANDARD_SCALES.find(s => s <= Math.min(wanted[i], layout.limits[i])) ?? MIN_SCALE
+    const sectionLimit = Math.min(...layout.limits.slice(0, planes.length))
+    return {
+      cellW: layout.cellW,
+      cellH: layout.cellH,
+      sectionScale: STANDARD_SCALES.find(s => s <= Math.min(viewScale, sectionLimit)) ?? MIN_SCALE,
+      auxiliaryScales: auxiliaryViews.map((_, i) => scaleFor(planes.length + i)),
+      detailScales: details.map((_, i) => scaleFor(planes.length + auxiliaryViews.length + i)),
+      centers: extents.map((_, i) => {
+        const step = i - (n - 1) / 2
+        return layout.sideBySide
+          ? new Vector3(freeCenter.x + step * (layout.cellW + gapU), freeCenter.y + SECTION_LABEL_SPACE / 2, 0)
+          : new Vector3(freeCenter.x, freeCenter.y + step * (layout.cellH + gapU) + SECTION_LABEL_SPACE / 2, 0)
+      })
     }
   }
+  let freeCell = layoutFreeCell()
+  // A detail no larger than the sheet scale shows nothing new
+  if (freeCell.detailScales.some(s => s <= viewScale)) {
+    details = details.filter((_, i) => freeCell.detailScales[i] > viewScale)
+    freeCell = layoutFreeCell()
+  }
+
+  // Generate section views from the post-boolean solid (CSG mode)
+  const sectionViewSVGs: string[] = []
+  const sections: Array<{ plane: CuttingPlane; center: Vector3 }> = []
+  try {
+    const { sectionScale } = freeCell
+    planes.forEach((plane, i) => {
+      const center = freeCell.centers[i]
+      const label = sectionScale === viewScale ? plane.label : `${plane.label} (${formatScaleLabel(sectionScale)})`
+      const sectionView = createSectionView(recipe, { ...plane, label }, { x: center.x, y: center.y }, UNIT_SCALE * sectionScale, solid, standard.hatchPatterns)
+
+      // Render to SVG
+      sectionViewSVGs.push(renderSectionView(sectionView, standard.lineStyles))
+      sections.push({ plane, center })
+
+      debug(`[SVG] Generated ${plane.type} section ${plane.id}-${plane.id} with ${sectionView.contours.length} contours`)
+    })
+  } catch (error) {
+    console.warn('[SVG] Failed to generate section view:', error)
+    sectionViewSVGs.length = 0
+    sections.length = 0
+  }
+  const sectionViewSVG = sectionViewSVGs.join('\n')
+
+  // Detail views: the parent view's curves inside the callout circle, enlarged
+  const detailViewSVG = details.map((detail, i) => {
+    const center = freeCell.centers[planes.length + auxiliaryViews.length + i]
+    const scale = freeCell.detailScales[i]
+    const detailScale = UNIT_SCALE * scale
+    const config: ViewConfig = {
+      ...VIEW_CONFIGS[detail.parentView],
+      name: detail.label,
+      // Callout centre at the group origin (Y is flipped in SVG)
+      offset: new Vector3(-detail.center.x * detailScale, detail.center.y * detailScale, 0)
+    }
+    const paths = projectEdges(clipViewEdgesToCircle(viewEdges[detail.parentView], detail.center, detail.radius), config, detailScale)
+    debug(`[SVG] Generated detail ${detail.id} at ${formatScaleLabel(scale)} with ${paths.length} paths`)
+
+    return `
+      <g class="view detail" data-id="${detail.id}" transform="translate(${center.x}, ${center.y})">
+        ${paths.join('\n')}
+        ${renderDetailFrame(detail, detailScale, formatScaleLabel(scale), standard.lineStyles)}
+      </g>`
+  }).join('\n')
+
+  // Auxiliary views: in projection position when the projection line from the
+  // parent view crosses their place in the free cell, otherwise anywhere in it
+  // with a viewing-direction arrow in the parent view (ISO 128-30)
+  const auxiliaryPlaced = auxiliaryViews.map((view, i) => {
+    const cell = freeCell.centers[planes.length + i]
+    const scale = freeCell.auxiliaryScales[i]
+    const auxScale = UNIT_SCALE * scale
+    const bounds = auxiliaryBounds[i]
+    const w = (bounds.maxX - bounds.minX) * auxScale
+    const h = (bounds.maxY - bounds.minY) * auxScale
+    // Centre of the turned view relative to the part origin (SVG)
+    const middle = { x: ((bounds.minX + bounds.maxX) / 2) * auxScale, y: -((bounds.minY + bounds.maxY) / 2) * auxScale }
+
+    // Slide the part origin along the projection line to the cell
+    const parent = viewCenters[view.parentView]
+    const along = { x: view.placement.x, y: -view.placement.y }
+    const t = (cell.x - parent.x - middle.x) * along.x + (cell.y - parent.y - middle.y) * along.y
+    const origin = { x: parent.x + t * along.x, y: parent.y + t * along.y }
+    const aligned = scale === viewScale && t > 0 &&
+      Math.abs(origin.x + middle.x - cell.x) + w / 2 <= freeCell.cellW / 2 &&
+      Math.abs(origin.y + middle.y - cell.y) + h / 2 <= (freeCell.cellH - SECTION_LABEL_SPACE) / 2
+    return { view, scale, aligned, origin: aligned ? origin : { x: cell.x - middle.x, y: cell.y - middle.y }, middle, h }
+  })
+  const auxiliaryViewSVG = auxiliaryPlaced.map(({ view, scale, aligned, origin, middle, h }, i) => {
+    const auxScale = UNIT_SCALE * scale
+    const config: ViewConfig = { matrix: view.matrix, name: view.label, offset: new Vector3(), viewDirection: view.direction.clone().negate() }
+    const paths = projectEdges(auxiliaryEdges[i], config, auxScale)
+    const centerLineSVG = renderCenterLines(auxiliaryCenterLines(recipe, view, DEFAULT_CENTER_LINE_CONFIG.extension), auxScale)
+    // In projection position the view is named like the principal views
+    const name = aligned ? 'Auxiliary View' : view.label
+    const label = scale === viewScale ? name : `${name} (${formatScaleLabel(scale)})`
+    const turn = (auxiliaryTurns[i] * 180) / Math.PI
+    debug(`[SVG] Generated auxiliary view ${view.id} from the ${view.parentView} view${aligned ? ' in projection position' : ''}`)
+
+    return `
+      <g class="view auxiliary" data-id="${view.id}" data-parent="${view.parentView}" data-aligned="${aligned}">
+        ${renderAuxiliaryLabel(label, origin.x + middle.x, origin.y + middle.y - h / 2)}
+        <g transform="translate(${origin.x}, ${origin.y}) rotate(${turn.toFixed(3)})">
+          ${paths.join('\n')}
+          <g class="center-lines">
+            ${centerLineSVG}
+          </g>
+        </g>
+      </g>`
+  }).join('\n')
+
+  // Pictorial view in the free cell when it holds no other view
+  const pictorial = options.pictorial ?? 'isometric'
+  const pictorialSVG = !sectionViewSVG && !detailViewSVG && !auxiliaryViewSVG && pictorial !== 'none'
+    ? renderPictorialView(pictorial, solid, recipeEdges, freeCenter, slotW, slotH, viewScale)
+    : ''
 
   // Project each view
   const views = (Object.entries(VIEW_CONFIGS) as Array<[View, ViewConfig]>).map(([name, config]) => {
     // Override offsets with computed centers
     const withOffset: ViewConfig = {
       ...config,
-      offset: name === 'front' ? frontCenter : name === 'top' ? topCenter : rightCenter
+      offset: viewCenters[name]
     }
 
-    const paths = projectEdges(edges, withOffset, totalScale)
-    const dimensionSVG = renderDimensions(dimensions, name as 'front' | 'top' | 'right', totalScale)
+    const paths = projectEdges(viewEdges[name], withOffset, totalScale)
+
+    // Annotations of an interrupted view move with the ends they belong to
+    const brk = viewBreaks[name]
+    const broken = <T extends { view: View }>(items: T[]) => brk ? items.map(item => item.view === name ? breakPoints(item, brk) : item) : items
+    const dimensionSVG = renderDimensions(broken(dimensions), name as 'front' | 'top' | 'right', totalScale, dimensionConfig)
+    const geometricToleranceSVG = renderGeometricTolerances(
+      { datums: broken(geometricTolerances.datums), frames: broken(geometricTolerances.frames) }, name as 'front' | 'top' | 'right', totalScale, dimensionConfig)
+    const surfaceTextureSVG = renderSurfaceTextureSymbols(broken(surfaceTextures), name as 'front' | 'top' | 'right', totalScale, dimensionConfig)
     
     // Extract and render center lines for cylindrical features
     const centerLines = extractCenterLines(recipe, name as 'front' | 'top' | 'right', DEFAULT_CENTER_LINE_CONFIG)
     const centerLineSVG = renderCenterLines(centerLines, totalScale)
+    const pitchCircleSVG = renderPitchCircles(extractPitchCircles(recipe, name as 'front' | 'top' | 'right'), totalScale)
+    const threadSVG = [
+      renderThreadLines(extractThreadLines(recipe, name as 'front' | 'top' | 'right'), totalScale),
+      renderThreadArcs(extractThreadArcs(recipe, name as 'front' | 'top' | 'right'), totalScale)
+    ].join('\n    ')
     debug(`[SVG] Generated ${centerLines.length} center lines for ${name} view`)
     
-    // Render cutting plane indicator if this is the parent view
-    let cuttingPlaneSVG = ''
-    if (cuttingPlane && cuttingPlane.parentView === name) {
-      // Calculate view bounds based on bounding box
-      const viewBounds = name === 'front' 
-        ? { minX: -bb.x/2, maxX: bb.x/2, minY: -bb.z/2, maxY: bb.z/2 }
-        : name === 'top'
-        ? { minX: -bb.x/2, maxX: bb.x/2, minY: -bb.y/2, maxY: bb.y/2 }
-        : { minX: -bb.y/2, maxX: bb.y/2, minY: -bb.z/2, maxY: bb.z/2 }
-      
-      cuttingPlaneSVG = `
+    // Calculate view bounds (view-plane mm) based on bounding box: the front
+    // view shows X across and Y up, the top view X and Z, the right view Z and Y
+    const viewBounds = name === 'front' 
+      ? { minX: -bb.x/2, maxX: bb.x/2, minY: -bb.y/2, maxY: bb.y/2 }
+      : name === 'top'
+      ? { minX: -bb.x/2, maxX: bb.x/2, minY: -bb.z/2, maxY: bb.z/2 }
+      : { minX: -bb.z/2, maxX: bb.z/2, minY: -bb.y/2, maxY: bb.y/2 }
+
+    // Render cutting plane indicators in their parent view
+    const cuttingPlaneSVG = sections.filter(({ plane }) => plane.parentView === name).map(({ plane, center }) => {
+      return `
         <g transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
-          ${renderCuttingPlaneIndicator(cuttingPlane, viewBounds, totalScale)}
+          ${renderCuttingPlaneIndicator(plane, viewBounds, totalScale, cuttingPlaneArrow(plane, withOffset.offset, center, projection), standard.lineStyles)}
         </g>`
-    }
+    }).join('')
     
-    return `
-      <g class="view ${name}">
-        <text x="${withOffset.offset.x}" y="${withOffset.offset.y - 10}" 
-              font-family="sans-serif" font-size="8" text-anchor="middle">${withOffset.name}</text>
+    // Viewing-direction arrows for auxiliary views out of projection position
+    const viewingArrowSVG = auxiliaryPlaced.filter(({ view, aligned }) => view.parentView === name && !aligned).map(({ view }) => {
+      const seen = view.direction.clone().applyMatrix4(withOffset.matrix)
+      const length = Math.hypot(seen.x, seen.y)
+      return `
+        <g transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
+          ${renderViewingArrow(view, { x: -seen.x / length, y: -seen.y / length }, viewBounds, totalScale, standard.lineStyles)}
+        </g>`
+    }).join('')
+
+    // Circle the regions shown enlarged in detail views
+    const detailCalloutSVG = details.filter(detail => detail.parentView === name).map(detail => `
+        <g transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
+          ${renderDetailCallout(detail, totalScale, standard.lineStyles)}
+        </g>`).join('')
+
+    // The part and the lines drawn on it; an interrupted view shows it with the stretch left out
+    const partSVG = `
         ${paths.join('\n')}
         <g class="center-lines" transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
           ${centerLineSVG}
+          ${pitchCircleSVG}
+        </g>
+        <g class="threads" transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
+          ${threadSVG}
         </g>
         ${cuttingPlaneSVG}
-        ${dimensionSVG}
+        ${viewingArrowSVG}
+        ${detailCalloutSVG}`
+
+    return `
+      <g class="view ${name}">
+        <text x="${withOffset.offset.x}" y="${withOffset.offset.y - 10}" 
+              font-family="sans-serif" font-size="8" text-anchor="middle">${withOffset.name}</text>
+        ${brk ? renderBrokenView(partSVG, brk, withOffset.offset, totalScale, `break-${name}`) : partSVG}
+        <g transform="translate(${withOffset.offset.x}, ${withOffset.offset.y})">
+          ${dimensionSVG}
+          ${geometricToleranceSVG}
+          ${surfaceTextureSVG}
+        </g>
       </g>
     `
   })
 
   // Compose final SVG with style block for line types
-  // Using ISO 128-24 compliant line styles (scale 2.0 = 2 SVG units per mm)
-  const lineStylesCSS = generateAllLineStylesCSS(UNIT_SCALE)
+  // Using the standard's line styles (scale 2.0 = 2 SVG units per mm)
+  const lineStylesCSS = generateAllLineStylesCSS(UNIT_SCALE, standard.lineStyles)
   
   const warningSVG = oversize
-    ? `<text x="${marginU}" y="${PAGE_HEIGHT - marginU / 2}" font-family="sans-serif" font-size="10" fill="red">Warning: Part exceeds page at 1:10; drawing may be clipped</text>`
+    ? `<text x="${originX}" y="${(sheet.frame.y + sheet.frame.height - 2) * UNIT_SCALE}" font-family="sans-serif" font-size="10" fill="red">Warning: Part exceeds page at 1:10; drawing may be clipped</text>`
     : ''
 
+  const titleBlock: TitleBlockInfo = {
+    title: recipe.name,
+    drawingNumber: drawingNumber(recipe),
+    scale: scaleLabel,
+    units: dimensionConfig.units,
+    projection,
+    drawnBy: 'Tower19',
+    date: recipe.createdAt.slice(0, 10),
+    sheetNumber: 1,
+    sheetCount: 1,
+    toleranceNote: dimensionConfig.units === 'in' ? DECIMAL_INCH_TOLERANCE_NOTE : generalToleranceNote(dimensionConfig.generalTolerance),
+    ...options.titleBlock
+  }
+
   if (oversize) {
     // Emit a single console warning to aid in debugging oversized drawings
     console.warn('[SVG] Oversize part: selected 1:10 but geometry may exceed page bounds')
   }
 
-  return `
-    <svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}">
+  // Drawing metadata: which face is in front and why
+  const metadata = JSON.stringify({
+    frontView: {
+      direction: frontView.direction,
+      reason: frontView.reason,
+      scores: frontView.scores.map(s => ({ ...s, area: Math.round(s.area), score: Number(s.score.toFixed(3)) }))
+    }
+  })
+
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}" height="${pageHeight}" viewBox="0 0 ${pageWidth} ${pageHeight}" data-sheet="${sheet.size}" data-orientation="${sheet.orientation}" data-standard="${standard.name}">
+      <metadata id="drawing-metadata">${metadata.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</metadata>
       <defs>
         <style>
 ${lineStylesCSS}
@@ -313,10 +695,16 @@ ${lineStylesCSS}
       
       ${views.join('\n')}
       ${sectionViewSVG}
-      ${createTitleBlock(recipe.name, scaleLabel)}
+      ${auxiliaryViewSVG}
+      ${detailViewSVG}
+      ${pictorialSVG}
+      ${renderSheetFrame(sheet, UNIT_SCALE, standard.lineStyles)}
+      ${renderTitleBlock(titleBlock, sheet, UNIT_SCALE, standard.titleBlock, standard.lineStyles)}
+      ${renderGeneralSurfaceNote(generalSurfaceFinish(recipe), sheet, UNIT_SCALE, dimensionConfig.thinLineWidth)}
       ${warningSVG}
     </svg>
   `
+  return { svg, recipe, dimensions }
 }
 
 export default generateDrawing
\ No newline at end of file
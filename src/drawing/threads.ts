@@ -0,0 +1,242 @@
+/**
+ * Screw thread representation per ISO 6410-1 (simplified convention)
+ *
+ * Threads are kept on their cylinder (`metadata.thread`, see ThreadSpec);
+ * the solid only has the tap drill or the plain shaft. In the views:
+ * - Seen from the side: the thread roots as lines along the full thread
+ *   (the major diameter of a tapped hole, the minor diameter of a shaft),
+ *   ended by the thread-end line across the major diameter. A tapped hole
+ *   lies inside the part, so all of it is hidden.
+ * - Seen end-on from where the thread starts: the roots as a thin
+ *   three-quarter circle, open in the upper right quadrant
+ * - Callouts give the designation (M8×1.25 - 6H ↧12)
+ */
+
+import { Vector3 } from 'three'
+import type { CylinderParams, PartRecipe, Primitive, ThreadKind, ThreadSpec } from '../types/part'
+import { primitiveMatrix } from '../csg/primitives'
+import { bodyBounds, findHoleFeatures, subtractedPrimitiveIds } from './holes'
+import { LineType } from './lineTypes'
+import { ORTHOGRAPHIC_MATRICES, towardViewer, type OrthographicView } from './projection'
+
+/**
+ * Thread of a part, with its axis in part space
+ */
+export interface ThreadFeature {
+  primitiveId: string
+  thread: ThreadSpec
+  /** Point on the axis where the thread starts: the hole entry or the shaft end (part space) */
+  start: Vector3
+  /** Unit direction along the thread from its start */
+  axis: Vector3
+  /** Length of the hole or shaft from the start (mm) */
+  length: number
+}
+
+/**
+ * Line of a thread in a view seen from the side
+ */
+export interface ThreadLine {
+  type: 'root' | 'end'
+  lineType: LineType
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+/**
+ * Thread roots seen end-on: a three-quarter circle
+ */
+export interface ThreadArc {
+  lineType: LineType.THREAD_ROOT
+  cx: number
+  cy: number
+  radius: number
+}
+
+/** Tolerance class of a thread without one (ISO 965-1 medium fit) */
+export const DEFAULT_THREAD_TOLERANCE: Record<ThreadKind, string> = { internal: '6H', external: '6g' }
+
+// Lengths closer than this (mm) are equal; directions within it are parallel
+const EPSILON = 1e-6
+
+/**
+ * Read and check the thread of a primitive (`metadata.thread`)
+ *
+ * @param primitive - Recipe primitive
+ * @returns The thread, or undefined when the primitive has none
+ * @throws Error if the thread is malformed
+ */
+export function readThread(primitive: Primitive): ThreadSpec | undefined {
+  const thread = primitive.metadata?.thread as ThreadSpec | undefined
+  if (!thread) return undefined
+
+  const name = `Thread of ${primitive.id}`
+  if (primitive.kind !== 'cylinder') throw new Error(`${name}: threads are cut on cylinders`)
+  if (thread.kind !== 'internal' && thread.kind !== 'external') throw new Error(`${name}: unknown kind ${thread.kind}`)
+  if (!(thread.size > 0) || !(thread.pitch > 0) || thread.pitch >= thread.size / 2) throw new Error(`${name}: size and pitch must be positive, pitch under half the size`)
+  if (!(thread.depth > 0)) throw new Error(`${name}: depth must be positive`)
+  return thread
+}
+
+/**
+ * Basic minor diameter of a metric thread (ISO 724: d − 1.0825 P)
+ */
+export function threadMinorDiameter(thread: ThreadSpec): number {
+  return thread.size - 1.082532 * thread.pitch
+}
+
+/**
+ * Designation of a thread with its tolerance class (e.g., "M8×1.25 - 6H")
+ */
+export function formatThreadDesignation(thread: ThreadSpec): string {
+  return `M${thread.size}×${thread.pitch} - ${thread.tolerance ?? DEFAULT_THREAD_TOLERANCE[thread.kind]}`
+}
+
+/**
+ * Find the threads of a part
+ *
+ * - Tapped holes: threads on the drill of a hole (see findHoleFeatures)
+ *   start at its entry face
+ * - Threaded shafts: threads on a cylinder of the body start at the end
+ *   farther from the centre of the body (the free end of a stud)
+ *
+ * @param recipe - Part recipe
+ * @throws Error if a thread is malformed
+ */
+export function findThreads(recipe: PartRecipe): ThreadFeature[] {
+  const threads: ThreadFeature[] = []
+  const primitives = new Map(recipe.primitives.map(primitive => [primitive.id, primitive]))
+  const body = bodyBounds(recipe)
+
+  for (const hole of findHoleFeatures(recipe)) {
+    const drill = primitives.get(hole.primitiveIds[0])!
+    const thread = readThread(drill)
+    if (thread?.kind !== 'internal') continue
+    const axisIndex = [0, 1, 2].find(i => Math.abs(hole.axis.getComponent(i)) > 1 - EPSILON)!
+    const length = hole.depth ?? body.max.getComponent(axisIndex) - body.min.getComponent(axisIndex)
+    threads.push({ primitiveId: drill.id, thread, start: hole.center.clone(), axis: hole.axis.clone(), length })
+  }
+
+  const tools = subtractedPrimitiveIds(recipe)
+  const centre = body.getCenter(new Vector3())
+  for (const primitive of recipe.primitives) {
+    const thread = readThread(primitive)
+    if (thread?.kind !== 'external' || tools.has(primitive.id)) continue
+    const matrix = primitiveMatrix(primitive)
+    const axis = new Vector3(0, 1, 0).transformDirection(matrix)
+    const middle = new Vector3().setFromMatrixPosition(matrix)
+    const length = (primitive.params as CylinderParams).height
+    // Free end: the end farther from the body's centre (the + end when level)
+    const outward = middle.clone().sub(centre).dot(axis) >= -EPSILON ? 1 : -1
+    threads.push({
+      primitiveId: primitive.id,
+      thread,
+      start: middle.clone().addScaledVector(axis, outward * length / 2),
+      axis: axis.multiplyScalar(-outward),
+      length
+    })
+  }
+
+  return threads
+}
+
+/**
+ * Extract the thread lines of a view seeing threads from the side
+ *
+ * @param recipe - Part recipe
+ * @param view - Principal view
+ * @returns Root lines and thread-end lines (view mm, y up)
+ */
+export function extractThreadLines(recipe: PartRecipe, view: OrthographicView): ThreadLine[] {
+  const matrix = ORTHOGRAPHIC_MATRICES[view]
+  const toward = towardViewer(matrix)
+  const lines: ThreadLine[] = []
+
+  for (const { thread, start, axis, length } of findThreads(recipe)) {
+    if (Math.abs(toward.dot(axis)) > EPSILON) continue
+    const internal = thread.kind === 'internal'
+    const full = Math.min(thread.depth, length)
+    const s = start.clone().applyMatrix4(matrix)
+    const e = start.clone().addScaledVector(axis, full).applyMatrix4(matrix)
+    // Unit normal to the axis in the view
+    const along = Math.hypot(e.x - s.x, e.y - s.y)
+    const n = { x: -(e.y - s.y) / along, y: (e.x - s.x) / along }
+
+    const root = (internal ? thread.size : threadMinorDiameter(thread)) / 2
+    for (const side of [1, -1]) {
+      lines.push({
+        type: 'root',
+        lineType: internal ? LineType.HIDDEN_EDGE : LineType.THREAD_ROOT,
+        x1: s.x + side * n.x * root, y1: s.y + side * n.y * root,
+        x2: e.x + side * n.x * root, y2: e.y + side * n.y * root
+      })
+    }
+    // No end line where the thread runs the full length
+    if (full < length - EPSILON) {
+      const major = thread.size / 2
+      lines.push({
+        type: 'end',
+        lineType: internal ? LineType.HIDDEN_EDGE : LineType.VISIBLE_EDGE,
+        x1: e.x + n.x * major, y1: e.y + n.y * major,
+        x2: e.x - n.x * major, y2: e.y - n.y * major
+      })
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Extract the three-quarter circles of the threads a view sees end-on from
+ * their start (threads seen from their far end are not shown)
+ *
+ * @param recipe - Part recipe
+ * @param view - Principal view
+ * @returns Root circles (view mm, y up)
+ */
+export function extractThreadArcs(recipe: PartRecipe, view: OrthographicView): ThreadArc[] {
+  const matrix = ORTHOGRAPHIC_MATRICES[view]
+  const toward = towardViewer(matrix)
+
+  return findThreads(recipe)
+    .filter(({ axis }) => toward.dot(axis) < -1 + EPSILON)
+    .map(({ thread, start }) => {
+      const c = start.clone().applyMatrix4(matrix)
+      const radius = (thread.kind === 'internal' ? thread.size : threadMinorDiameter(thread)) / 2
+      return { lineType: LineType.THREAD_ROOT, cx: c.x, cy: c.y, radius }
+    })
+}
+
+/**
+ * Render thread lines to SVG path elements
+ * @param lines - Thread lines to render
+ * @param scale - Scale factor (SVG units per mm)
+ * @returns SVG path elements as string
+ */
+export function renderThreadLines(lines: ThreadLine[], scale: number): string {
+  return lines
+    .map(line => `<path d="M ${(line.x1 * scale).toFixed(2)} ${(-line.y1 * scale).toFixed(2)} L ${(line.x2 * scale).toFixed(2)} ${(-line.y2 * scale).toFixed(2)}" ` +
+      `class="${line.lineType}" data-thread="${line.type}" />`)
+    .join('\n    ')
+}
+
+/**
+ * Render thread root circles to SVG arcs: from the top, counter-clockwise
+ * round to the right, leaving the upper right quadrant open
+ * @param arcs - Thread arcs to render
+ * @param scale - Scale factor (SVG units per mm)
+ * @returns SVG path elements as string
+ */
+export function renderThreadArcs(arcs: ThreadArc[], scale: number): string {
+  return arcs
+    .map(arc => {
+      const cx = arc.cx * scale
+      const cy = -arc.cy * scale
+      const r = arc.radius * scale
+      return `<path d="M ${cx.toFixed(2)} ${(cy - r).toFixed(2)} A ${r.toFixed(2)} ${r.toFixed(2)} 0 1 0 ${(cx + r).toFixed(2)} ${cy.toFixed(2)}" ` +
+        `class="${arc.lineType}" data-thread="root" />`
+    })
+    .join('\n    ')
+}
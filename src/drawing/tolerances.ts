@@ -0,0 +1,199 @@
+/**
+ * Tolerances on dimensions
+ *
+ * - Symmetric (50 ±0.1) and limit deviations (50 +0.2/-0.1)
+ * - ISO 286-1 tolerance classes for holes and shafts (Ø20 H7, Ø20 g6) and
+ *   fits between them (Ø20 H7/g6), on the bores and journals a recipe marks
+ *   as bearing or locating
+ * - ISO 2768-1 general tolerances for dimensions without their own, given
+ *   once in the title block (decimal-inch drawings give them by places instead)
+ */
+
+import type { FitKind, Primitive } from '../types/part'
+
+/**
+ * Tolerance of a dimension; deviations are in mm from the nominal value
+ */
+export type Tolerance =
+  | { type: 'symmetric'; deviation: number }
+  | { type: 'limits'; upper: number; lower: number }
+  | { type: 'fit'; hole?: ToleranceClass; shaft?: ToleranceClass }
+
+/**
+ * ISO 286-1 tolerance class with its deviations for one nominal size
+ */
+export interface ToleranceClass {
+  /** Fundamental deviation letter and grade, e.g. 'H7' (holes) or 'g6' (shafts) */
+  designation: string
+  upper: number
+  lower: number
+}
+
+/**
+ * ISO 2768-1 tolerance class: fine, medium, coarse or very coarse
+ */
+export type GeneralToleranceClass = 'f' | 'm' | 'c' | 'v'
+
+/** Largest nominal size (mm) the ISO 286-1 tables here cover */
+export const ISO_286_MAX_SIZE = 500
+
+// Upper limits of the ISO 286-1 nominal size ranges (mm)
+const SIZE_STEPS = [3, 6, 10, 18, 30, 50, 80, 120, 180, 250, 315, 400, 500]
+
+// Standard tolerance grades IT5 to IT11 per size range (µm)
+const IT_GRADES: Record<number, number[]> = {
+  5: [4, 5, 6, 8, 9, 11, 13, 15, 18, 20, 23, 25, 27],
+  6: [6, 8, 9, 11, 13, 16, 19, 22, 25, 29, 32, 36, 40],
+  7: [10, 12, 15, 18, 21, 25, 30, 35, 40, 46, 52, 57, 63],
+  8: [14, 18, 22, 27, 33, 39, 46, 54, 63, 72, 81, 89, 97],
+  9: [25, 30, 36, 43, 52, 62, 74, 87, 100, 115, 130, 140, 155],
+  10: [40, 48, 58, 70, 84, 100, 120, 140, 160, 185, 210, 230, 250],
+  11: [60, 75, 90, 110, 130, 160, 190, 220, 250, 290, 320, 360, 400]
+}
+
+// Fundamental deviations of shafts per size range (µm): the upper deviation
+// for f, g and h, the lower deviation for k, m, n and p (k: grades 4 to 7)
+const SHAFT_DEVIATIONS: Record<string, { side: 'upper' | 'lower'; values: number[] }> = {
+  f: { side: 'upper', values: [-6, -10, -13, -16, -20, -25, -30, -36, -43, -50, -56, -62, -68] },
+  g: { side: 'upper', values: [-2, -4, -5, -6, -7, -9, -10, -12, -14, -15, -17, -18, -20] },
+  h: { side: 'upper', values: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  k: { side: 'lower', values: [0, 1, 1, 1, 2, 2, 2, 3, 3, 4, 4, 4, 5] },
+  m: { side: 'lower', values: [2, 4, 6, 7, 8, 9, 11, 13, 15, 17, 20, 21, 23] },
+  n: { side: 'lower', values: [4, 8, 10, 12, 15, 17, 20, 23, 27, 31, 34, 37, 40] },
+  p: { side: 'lower', values: [6, 12, 15, 18, 22, 26, 32, 37, 43, 50, 56, 62, 68] }
+}
+
+// Holes F, G and H mirror the shafts f, g and h: lower deviation EI = -es
+const HOLE_LETTERS = ['F', 'G', 'H']
+
+/**
+ * Deviations of an ISO 286-1 tolerance class for a nominal size
+ * Upper-case letters are holes (F, G, H, JS), lower-case shafts
+ * (f, g, h, js, k, m, n, p); grades 5 to 11.
+ *
+ * @param nominal - Nominal size (mm), up to ISO_286_MAX_SIZE
+ * @param designation - Tolerance class, e.g. 'H7' or 'g6'
+ * @throws Error if the class or size is not covered
+ */
+export function toleranceClass(nominal: number, designation: string): ToleranceClass {
+  const match = /^(JS|js|[A-Z]|[a-z])(\d+)$/.exec(designation)
+  if (!match) throw new Error(`Invalid tolerance class: ${designation}`)
+  const [, letter, gradeText] = match
+  const grade = Number(gradeText)
+  if (!IT_GRADES[grade]) throw new Error(`Unsupported tolerance grade: IT${grade}`)
+  const range = SIZE_STEPS.findIndex(step => nominal <= step)
+  if (nominal <= 0 || range < 0) throw new Error(`Nominal size ${nominal} mm outside ISO 286-1 tables (0-${ISO_286_MAX_SIZE} mm)`)
+
+  const tolerance = IT_GRADES[grade][range]
+  let upper: number
+  let lower: number
+  if (letter === 'JS' || letter === 'js') {
+    upper = tolerance / 2
+    lower = -tolerance / 2
+  } else if (HOLE_LETTERS.includes(letter)) {
+    lower = -SHAFT_DEVIATIONS[letter.toLowerCase()].values[range]
+    upper = lower + tolerance
+  } else if (SHAFT_DEVIATIONS[letter]) {
+    const { side, values } = SHAFT_DEVIATIONS[letter]
+    if (side === 'upper') {
+      upper = values[range]
+      lower = upper - tolerance
+    } else {
+      lower = letter === 'k' && (grade < 4 || grade > 7) ? 0 : values[range]
+      upper = lower + tolerance
+    }
+  } else {
+    throw new Error(`Unsupported fundamental deviation: ${letter}`)
+  }
+
+  return { designation, upper: upper / 1000, lower: lower / 1000 }
+}
+
+/**
+ * Tolerance from an ISO 286-1 designation: a hole class ('H7'), a shaft
+ * class ('g6') or a fit between them ('H7/g6')
+ *
+ * @param nominal - Nominal size (mm)
+ * @param designation - Class or fit
+ * @throws Error if a class is not covered, or a fit is not hole/shaft
+ */
+export function fitTolerance(nominal: number, designation: string): Tolerance {
+  const classes = designation.split('/').map(part => toleranceClass(nominal, part.trim()))
+  const isHole = (c: ToleranceClass) => /^[A-Z]/.test(c.designation)
+  if (classes.length === 1) {
+    return isHole(classes[0]) ? { type: 'fit', hole: classes[0] } : { type: 'fit', shaft: classes[0] }
+  }
+  const [hole, shaft] = classes
+  if (classes.length !== 2 || !isHole(hole) || isHole(shaft)) throw new Error(`Invalid fit: ${designation} (expected hole/shaft, e.g. H7/g6)`)
+  return { type: 'fit', hole, shaft }
+}
+
+/**
+ * Read and check the fit of a primitive (`metadata.fit`)
+ *
+ * @param primitive - Recipe primitive
+ * @returns Whether it is a bearing or locating bore or journal, or undefined when it takes no fit
+ * @throws Error if the fit is malformed
+ */
+export function readFit(primitive: Primitive): FitKind | undefined {
+  const fit = primitive.metadata?.fit
+  if (fit === undefined) return undefined
+  if (fit !== 'bearing' && fit !== 'locating') throw new Error(`Fit of ${primitive.id}: unknown kind ${String(fit)}`)
+  if (primitive.kind !== 'cylinder') throw new Error(`Fit of ${primitive.id}: fits are given on cylinders`)
+  return fit
+}
+
+/**
+ * Text of a tolerance after the nominal value: written on the line
+ * (±0.1, H7), stacked upper over lower (+0.021 over 0), or both
+ */
+export function toleranceText(tolerance: Tolerance): { inline?: string; upper?: string; lower?: string } {
+  switch (tolerance.type) {
+    case 'symmetric':
+      return { inline: `±${formatDeviation(tolerance.deviation).replace('+', '')}` }
+    case 'limits':
+      return { upper: formatDeviation(tolerance.upper), lower: formatDeviation(tolerance.lower) }
+    case 'fit': {
+      const { hole, shaft } = tolerance
+      if (hole && shaft) return { upper: hole.designation, lower: shaft.designation }
+      const one = (hole ?? shaft)!
+      return { inline: one.designation, upper: formatDeviation(one.upper), lower: formatDeviation(one.lower) }
+    }
+  }
+}
+
+/** Height of stacked deviations relative to the dimension text */
+export const DEVIATION_TEXT_SCALE = 0.7
+
+/** Space before each part of a tolerance, in characters of the dimension text */
+export const TOLERANCE_GAP = 0.5
+
+/**
+ * Width of a tolerance after the nominal value, in characters of the
+ * dimension text
+ */
+export function toleranceLength(tolerance: Tolerance): number {
+  const { inline, upper, lower } = toleranceText(tolerance)
+  const stacked = Math.max(upper?.length ?? 0, lower?.length ?? 0) * DEVIATION_TEXT_SCALE
+  return (inline ? TOLERANCE_GAP + inline.length : 0) + (stacked ? TOLERANCE_GAP + stacked : 0)
+}
+
+/**
+ * Note for the title block: general tolerances of dimensions without their own
+ */
+export function generalToleranceNote(toleranceClass: GeneralToleranceClass): string {
+  return `ISO 2768-${toleranceClass}`
+}
+
+/**
+ * General tolerances of a decimal-inch drawing, by the places a value is
+ * written to (the tolerance block of an ASME Y14.1 title block)
+ */
+export const DECIMAL_INCH_TOLERANCE_NOTE = '.XX ±.01  .XXX ±.005  ANGLES ±0.5°'
+
+// Deviation in mm with its sign, without trailing zeros: +0.021, -0.007, 0
+function formatDeviation(value: number): string {
+  const rounded = Number(value.toFixed(3))
+  if (rounded === 0) return '0'
+  return `${rounded > 0 ? '+' : '-'}${Math.abs(rounded)}`
+}
@@ -4,27 +4,29 @@
  * Converts drawing data to DXF R12 format (AutoCAD compatible) with:
  * - Proper layer organization (OUTLINE, HIDDEN, DIMENSIONS, CENTERLINES)
  * - Line types (continuous, dashed, center)
- * - Accurate geometry coordinates
+ * - Accurate geometry coordinates, with native CIRCLE/ARC entities for
+ *   holes and rounds so CAD tools can snap to their centres
  * - Text entities for dimensions
  */
 
 import type { PartRecipe } from '../types/part'
-import type { Edge } from '../drawing/edges'
-import { extractGeometryEdges, extractRecipeEdges } from '../drawing/edges'
-import type { Dimension } from '../drawing/dimensions'
-import { generateDimensions, DEFAULT_DIMENSION_CONFIG } from '../drawing/dimensions'
+import type { CurveEdge, Edge } from '../drawing/edges'
+import { orientForDrawing, type FrontDirection } from '../drawing/orientation'
+import { computeViewEdges, viewEdgesBounds, VIEW_ARRANGEMENT, type ProjectionMethod, type ViewEdges } from '../drawing/projection'
+import { tryEvaluateRecipe } from '../csg/evaluate'
+import type { Dimension, LinearDimension } from '../drawing/dimensions'
+import { generateDimensions } from '../drawing/dimensions'
+import { DEFAULT_DRAWING_STANDARD, DRAWING_STANDARDS, type DrawingStandardName } from '../drawing/standards'
 import type { BufferGeometry, Matrix4 } from 'three'
 import { Matrix4 as ThreeMatrix4, Vector3 as ThreeVec3 } from 'three'
 
+type View = 'front' | 'top' | 'right'
+
 export interface DXFExportOptions {
   /** Part recipe for metadata */
   recipe: PartRecipe
-  /** Drawing edges organized by view and visibility */
-  edges: {
-    front: { visible: Edge[]; hidden: Edge[] }
-    top: { visible: Edge[]; hidden: Edge[] }
-    right: { visible: Edge[]; hidden: Edge[] }
-  }
+  /** Drawing curves (view-plane mm) organized by view and visibility */
+  edges: Record<View, ViewEdges>
   /** Dimensions to export */
   dimensions: Dimension[]
   /** Optional filename (defaults to part name) */
@@ -44,78 +46,93 @@ const DXF_LAYERS = {
   TEXT: { name: 'TEXT', color: 7, lineType: 'CONTINUOUS' }       // White, solid
 }
 
-type View = 'front' | 'top' | 'right'
-
 interface ViewConfig {
   matrix: Matrix4
   name: string
 }
 
-// Minimal view configuration (no offsets; DXF uses direct mm coordinates)
+// Minimal view configuration (DXF uses direct mm coordinates; views are
+// placed around the front view by arrangeViews())
 const VIEW_CONFIGS: Record<View, ViewConfig> = {
   front: {
     matrix: new ThreeMatrix4(),
     name: 'Front View'
   },
   top: {
-    matrix: new ThreeMatrix4().makeRotationX(-Math.PI / 2),
+    matrix: new ThreeMatrix4().makeRotationX(Math.PI / 2),
     name: 'Top View'
   },
   right: {
-    matrix: new ThreeMatrix4().makeRotationY(Math.PI / 2),
+    matrix: new ThreeMatrix4().makeRotationY(-Math.PI / 2),
     name: 'Right View'
   }
 }
 
-function projectEdgesForView(allEdges: Edge[], view: View): { visible: Edge[]; hidden: Edge[] } {
-  const cfg = VIEW_CONFIGS[view]
-  const visible: Edge[] = []
-  const hidden: Edge[] = []
-
-  allEdges.forEach((edge) => {
-    const v1 = edge.start.clone().applyMatrix4(cfg.matrix) as ThreeVec3
-    const v2 = edge.end.clone().applyMatrix4(cfg.matrix) as ThreeVec3
-
-    // Skip degenerate edges after projection
-    if (Math.abs(v2.x - v1.x) < 0.01 && Math.abs(v2.y - v1.y) < 0.01) {
-      return
-    }
-
-    // Viewer looks along -Z in our convention; more negative Z is closer
-    const p1InFront = v1.z < -0.0001
-    const p2InFront = v2.z < -0.0001
-    const p1Behind = v1.z > 0.0001
-    const p2Behind = v2.z > 0.0001
+// Clear space between adjacent views (mm)
+const VIEW_GAP = 20
 
-    // If both endpoints are behind the view plane, skip
-    if (p1Behind && p2Behind) {
-      return
-    }
+/**
+ * Edges and dimensions of the three views, with the part turned to the same
+ * front view as the SVG drawing and dimensioned per the same standard
+ */
+function buildDrawingData(
+  recipe: PartRecipe,
+  geometry?: BufferGeometry,
+  standardName: DrawingStandardName = DEFAULT_DRAWING_STANDARD,
+  projection?: ProjectionMethod,
+  frontView: FrontDirection | 'auto' = 'auto'
+): { edges: Record<View, ViewEdges>; dimensions: Dimension[] } {
+  const standard = DRAWING_STANDARDS[standardName]
+  // Post-boolean solid for feature edges and hidden-line removal; per-primitive edges only if evaluation fails
+  const oriented = orientForDrawing(recipe, geometry ?? tryEvaluateRecipe(recipe), frontView)
+  return {
+    edges: buildEdgesByView(oriented.solid, oriented.recipeEdges, projection ?? standard.projection),
+    dimensions: generateDimensions(oriented.recipe, standard.dimensions)
+  }
+}
 
-    // DXF coordinates: keep Y up (no SVG flip)
-    const start = new ThreeVec3(v1.x, v1.y, 0)
-    const end = new ThreeVec3(v2.x, v2.y, 0)
+function buildEdgesByView(
+  solid: BufferGeometry | undefined,
+  recipeEdges: Edge[],
+  projection: ProjectionMethod
+): Record<View, ViewEdges> {
+
+  return arrangeViews({
+    front: computeViewEdges(VIEW_CONFIGS.front.matrix, solid, recipeEdges),
+    top: computeViewEdges(VIEW_CONFIGS.top.matrix, solid, recipeEdges),
+    right: computeViewEdges(VIEW_CONFIGS.right.matrix, solid, recipeEdges)
+  }, projection)
+}
 
-    const classified: Edge = { start, end }
-    if (p1InFront || p2InFront) {
-      visible.push(classified)
-    } else {
-      hidden.push(classified)
-    }
-  })
+/**
+ * Move the top and right views beside the front view per the projection method
+ */
+function arrangeViews(edges: Record<View, ViewEdges>, projection: ProjectionMethod): Record<View, ViewEdges> {
+  const arrangement = VIEW_ARRANGEMENT[projection]
+  const front = viewEdgesBounds(edges.front)
+  const top = viewEdgesBounds(edges.top)
+  const right = viewEdgesBounds(edges.right)
 
-  return { visible, hidden }
-}
+  const topY = arrangement.top.y > 0 ? front.maxY + VIEW_GAP - top.minY : front.minY - VIEW_GAP - top.maxY
+  const rightX = arrangement.right.x > 0 ? front.maxX + VIEW_GAP - right.minX : front.minX - VIEW_GAP - right.maxX
 
-function buildEdgesByView(recipe: PartRecipe, geometry?: BufferGeometry) {
-  const baseEdges = geometry ? extractGeometryEdges(geometry) : extractRecipeEdges(recipe)
   return {
-    front: projectEdgesForView(baseEdges, 'front'),
-    top: projectEdgesForView(baseEdges, 'top'),
-    right: projectEdgesForView(baseEdges, 'right')
+    front: edges.front,
+    top: translateView(edges.top, new ThreeVec3(0, topY, 0)),
+    right: translateView(edges.right, new ThreeVec3(rightX, 0, 0))
   }
 }
 
+function translateView({ visible, hidden }: ViewEdges, offset: ThreeVec3): ViewEdges {
+  const move = (curve: CurveEdge): CurveEdge => curve.kind === 'circle'
+    ? { ...curve, center: curve.center.clone().add(offset) }
+    : curve.kind === 'arc'
+      ? { ...curve, center: curve.center.clone().add(offset), start: curve.start.clone().add(offset), end: curve.end.clone().add(offset) }
+      : { ...curve, start: curve.start.clone().add(offset), end: curve.end.clone().add(offset) }
+
+  return { visible: visible.map(move), hidden: hidden.map(move) }
+}
+
 /**
  * Generate DXF header section
  */
@@ -276,140 +293,108 @@ SECTION
 ENTITIES
 `
 
-  // Add visible edges (OUTLINE layer)
-  const allVisibleEdges = [
-    ...edges.front.visible,
-    ...edges.top.visible,
-    ...edges.right.visible
-  ]
-  
-  allVisibleEdges.forEach(edge => {
-    dxf += `0
-LINE
-8
-${DXF_LAYERS.OUTLINE.name}
-10
-${(edge.start.x * scale).toFixed(3)}
-20
-${(edge.start.y * scale).toFixed(3)}
-30
-0.0
-11
-${(edge.end.x * scale).toFixed(3)}
-21
-${(edge.end.y * scale).toFixed(3)}
-31
-0.0
-`
-  })
-
-  // Add hidden edges (HIDDEN layer)
-  const allHiddenEdges = [
-    ...edges.front.hidden,
-    ...edges.top.hidden,
-    ...edges.right.hidden
-  ]
-  
-  allHiddenEdges.forEach(edge => {
-    dxf += `0
-LINE
-8
-${DXF_LAYERS.HIDDEN.name}
-10
-${(edge.start.x * scale).toFixed(3)}
-20
-${(edge.start.y * scale).toFixed(3)}
-30
-0.0
-11
-${(edge.end.x * scale).toFixed(3)}
-21
-${(edge.end.y * scale).toFixed(3)}
-31
-0.0
-`
-  })
+  // Visible curves on OUTLINE, hidden curves on HIDDEN
+  const views = [edges.front, edges.top, edges.right]
+  views.forEach(view => view.visible.forEach(curve => {
+    dxf += curveToDXF(curve, DXF_LAYERS.OUTLINE.name, scale)
+  }))
+  views.forEach(view => view.hidden.forEach(curve => {
+    dxf += curveToDXF(curve, DXF_LAYERS.HIDDEN.name, scale)
+  }))
 
   // Add dimension lines (simplified - full dimension entities would be more complex)
   dimensions.forEach(dim => {
     if (dim.type === 'linear') {
-      const linear = dim as any
-      // Extension line 1
+      const linear = dim as LinearDimension
+      // Extension lines
+      linear.extensionLines.forEach(ext => {
+        dxf += lineToDXF(ext.start, ext.end, DXF_LAYERS.DIMENSIONS.name, scale)
+      })
+      // Dimension line
+      dxf += lineToDXF(linear.dimensionLine.start, linear.dimensionLine.end, DXF_LAYERS.DIMENSIONS.name, scale)
+      // Dimension text
       dxf += `0
-LINE
+TEXT
 8
-${DXF_LAYERS.DIMENSIONS.name}
+${DXF_LAYERS.TEXT.name}
 10
-${(linear.p1.x * scale).toFixed(3)}
+${(linear.position.x * scale).toFixed(3)}
 20
-${(linear.p1.y * scale).toFixed(3)}
+${(linear.position.y * scale).toFixed(3)}
 30
 0.0
-11
-${(linear.dimLine1.x * scale).toFixed(3)}
-21
-${(linear.dimLine1.y * scale).toFixed(3)}
-31
-0.0
+40
+3.5
+1
+${linear.text}
 `
-      // Extension line 2
-      dxf += `0
-LINE
-8
-${DXF_LAYERS.DIMENSIONS.name}
-10
-${(linear.p2.x * scale).toFixed(3)}
-20
-${(linear.p2.y * scale).toFixed(3)}
-30
-0.0
-11
-${(linear.dimLine2.x * scale).toFixed(3)}
-21
-${(linear.dimLine2.y * scale).toFixed(3)}
-31
-0.0
+    }
+  })
+
+  dxf += `0
+ENDSEC
 `
-      // Dimension line
-      dxf += `0
+
+  return dxf
+}
+
+/**
+ * LINE entity between two view-plane points
+ */
+function lineToDXF(start: { x: number; y: number }, end: { x: number; y: number }, layer: string, scale: number): string {
+  return `0
 LINE
 8
-${DXF_LAYERS.DIMENSIONS.name}
+${layer}
 10
-${(linear.dimLine1.x * scale).toFixed(3)}
+${(start.x * scale).toFixed(3)}
 20
-${(linear.dimLine1.y * scale).toFixed(3)}
+${(start.y * scale).toFixed(3)}
 30
 0.0
 11
-${(linear.dimLine2.x * scale).toFixed(3)}
+${(end.x * scale).toFixed(3)}
 21
-${(linear.dimLine2.y * scale).toFixed(3)}
+${(end.y * scale).toFixed(3)}
 31
 0.0
 `
-      // Dimension text
-      dxf += `0
-TEXT
+}
+
+/**
+ * LINE, CIRCLE or ARC entity for a view-plane curve
+ * View-plane arcs run counter-clockwise from start to end, as DXF ARC expects.
+ */
+function curveToDXF(curve: CurveEdge, layer: string, scale: number): string {
+  if (curve.kind === 'line') {
+    return lineToDXF(curve.start, curve.end, layer, scale)
+  }
+
+  let dxf = `0
+${curve.kind === 'circle' ? 'CIRCLE' : 'ARC'}
 8
-${DXF_LAYERS.TEXT.name}
+${layer}
 10
-${(linear.textPos.x * scale).toFixed(3)}
+${(curve.center.x * scale).toFixed(3)}
 20
-${(linear.textPos.y * scale).toFixed(3)}
+${(curve.center.y * scale).toFixed(3)}
 30
 0.0
 40
-3.5
-1
-${dim.value.toFixed(1)}
+${(curve.radius * scale).toFixed(3)}
 `
-    }
-  })
 
-  dxf += `0
-ENDSEC
+  if (curve.kind === 'arc') {
+    const angle = (p: { x: number; y: number }) => {
+      const degrees = Math.atan2(p.y - curve.center.y, p.x - curve.center.x) * 180 / Math.PI
+      return (degrees + 360) % 360
+    }
+    dxf += `50
+${angle(curve.start).toFixed(3)}
+51
+${angle(curve.end).toFixed(3)}
 `
+  }
 
   return dxf
 }
@@ -423,6 +408,44 @@ EOF
 `
 }
 
+/**
+ * Generate DXF file content
+ *
+ * @param options - Export configuration
+ * @returns DXF R12 document as a string
+ */
+export function generateDXF(options: DXFExportOptions): string {
+  let dxf = ''
+  dxf += generateDXFHeader()
+  dxf += generateDXFTables()
+  dxf += generateDXFEntities(options)
+  dxf += generateDXFFooter()
+  return dxf
+}
+
+/**
+ * Generate DXF file content directly from a recipe and optional CSG geometry
+ * Builds curves (per view) and dimensions; usable outside the browser.
+ */
+export function generateDXFFromRecipe(params: {
+  recipe: PartRecipe
+  geometry?: BufferGeometry | null
+  scale?: number
+  /** Drawing standard: dimension units and format, default projection (default: ISO) */
+  standard?: DrawingStandardName
+  /** View arrangement (default: the standard's) */
+  projection?: ProjectionMethod
+  /** Face turned to the front view (default: 'auto', as in the SVG drawing) */
+  frontView?: FrontDirection | 'auto'
+}): string {
+  const { recipe, geometry, scale = 1, standard, projection, frontView } = params
+  return generateDXF({
+    recipe,
+    ...buildDrawingData(recipe, geometry ?? undefined, standard, projection, frontView),
+    scale
+  })
+}
+
 /**
  * Export drawing data to DXF format
  * 
@@ -430,12 +453,7 @@ EOF
  */
 export function exportToDXF(options: DXFExportOptions): void {
   try {
-    // Generate DXF file content
-    let dxf = ''
-    dxf += generateDXFHeader()
-    dxf += generateDXFTables()
-    dxf += generateDXFEntities(options)
-    dxf += generateDXFFooter()
+    const dxf = generateDXF(options)
 
     // Create blob and download
     const blob = new Blob([dxf], { type: 'application/dxf' })
@@ -466,10 +484,15 @@ export function exportToDXFFromRecipe(params: {
   geometry?: BufferGeometry | null
   filename?: string
   scale?: number
+  /** Drawing standard: dimension units and format, default projection (default: ISO) */
+  standard?: DrawingStandardName
+  /** View arrangement (default: the standard's) */
+  projection?: ProjectionMethod
+  /** Face turned to the front view (default: 'auto', as in the SVG drawing) */
+  frontView?: FrontDirection | 'auto'
 }): void {
-  const { recipe, geometry, filename, scale = 1 } = params
-  const edges = buildEdgesByView(recipe, geometry ?? undefined)
-  const dimensions = generateDimensions(recipe, DEFAULT_DIMENSION_CONFIG)
+  const { recipe, geometry, filename, scale = 1, standard, projection, frontView } = params
+  const { edges, dimensions } = buildDrawingData(recipe, geometry ?? undefined, standard, projection, frontView)
 
   exportToDXF({
     recipe,
@@ -2,14 +2,15 @@
  * PDF export functionality for technical drawings
  * 
  * Converts SVG drawings to PDF format using jsPDF with proper:
- * - ISO A4 page size (210mm × 297mm)
- * - Correct scaling preservation
+ * - ISO 216 paper format matching the drawing sheet (A4–A0)
+ * - Correct scaling preservation (the sheet fills the page at 1:1)
  * - Metadata (title, author, subject)
  * - High quality rendering
  */
 
 import { jsPDF } from 'jspdf'
 import type { PartRecipe } from '../types/part'
+import { DEFAULT_SHEET, FRAME_MARGIN, type SheetOptions, type SheetOrientation, type SheetSize } from '../drawing/sheet'
 
 export interface PDFExportOptions {
   /** Part recipe for metadata */
@@ -18,8 +19,8 @@ export interface PDFExportOptions {
   svgContent: string
   /** Optional filename (defaults to part name) */
   filename?: string
-  /** Page orientation */
-  orientation?: 'portrait' | 'landscape'
+  /** Paper format (defaults to the sheet the SVG was drawn on) */
+  sheet?: SheetOptions
   /** Include timestamp in metadata */
   includeTimestamp?: boolean
 }
@@ -35,16 +36,28 @@ export async function exportToPDF(options: PDFExportOptions): Promise<void> {
     recipe,
     svgContent,
     filename,
-    orientation = 'landscape',
     includeTimestamp = true
   } = options
 
   try {
-    // Create PDF document (A4 size)
+    // Parse SVG to get dimensions and the sheet it was drawn on
+    const parser = new DOMParser()
+    const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml')
+    const svgElement = svgDoc.documentElement as unknown as SVGSVGElement
+
+    const drawnSheet = svgElement.getAttribute('data-sheet')
+      ? {
+          size: svgElement.getAttribute('data-sheet') as SheetSize,
+          orientation: (svgElement.getAttribute('data-orientation') ?? DEFAULT_SHEET.orientation) as SheetOrientation
+        }
+      : undefined
+    const sheet = options.sheet ?? drawnSheet ?? DEFAULT_SHEET
+
+    // Create PDF document on the matching paper format
     const pdf = new jsPDF({
-      orientation,
+      orientation: sheet.orientation,
       unit: 'mm',
-      format: 'a4'
+      format: sheet.size.toLowerCase()
     })
 
     // Set metadata
@@ -57,11 +70,6 @@ export async function exportToPDF(options: PDFExportOptions): Promise<void> {
       creator: 'Tower19 Technical Drawing Generator'
     })
 
-    // Parse SVG to get dimensions
-    const parser = new DOMParser()
-    const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml')
-    const svgElement = svgDoc.documentElement as unknown as SVGSVGElement
-
     const viewBox = svgElement.getAttribute('viewBox')
     const [, , svgWidth, svgHeight] = viewBox 
       ? viewBox.split(' ').map(Number) 
@@ -71,8 +79,10 @@ export async function exportToPDF(options: PDFExportOptions): Promise<void> {
     const pageWidth = pdf.internal.pageSize.getWidth()
     const pageHeight = pdf.internal.pageSize.getHeight()
 
-    // Calculate scale to fit drawing on page with margins
-    const margin = 10 // mm
+    // A drawing on this sheet already has its frame: place it edge to edge.
+    // Anything else is fitted to the page with margins.
+    const sheetSized = drawnSheet?.size === sheet.size && drawnSheet.orientation === sheet.orientation
+    const margin = sheetSized ? 0 : 10 // mm
     const availableWidth = pageWidth - 2 * margin
     const availableHeight = pageHeight - 2 * margin
     
@@ -99,12 +109,12 @@ export async function exportToPDF(options: PDFExportOptions): Promise<void> {
           // Add image to PDF
           pdf.addImage(img, 'PNG', x, y, scaledWidth, scaledHeight)
           
-          // Add footer with metadata
+          // Add footer with metadata, below the frame clear of the zone labels
           if (includeTimestamp) {
-            pdf.setFontSize(8)
+            pdf.setFontSize(6)
             pdf.setTextColor(128)
             const date = new Date().toLocaleString()
-            pdf.text(`Generated: ${date} | Seed: ${recipe.id}`, margin, pageHeight - 5)
+            pdf.text(`Generated: ${date} | Seed: ${recipe.id}`, FRAME_MARGIN.left, pageHeight - 1.5)
           }
           
           URL.revokeObjectURL(svgUrl)
@@ -360,9 +360,11 @@ function generateCylinderWithCutouts(seed: number, r: () => number): PartRecipe
   // Add box cutouts
   const cutoutCount = 1 + Math.floor(r() * 2)
   for (let i = 0; i < cutoutCount; i++) {
-    const cutWidth = Math.round(radius * 0.4)
-    const cutDepth = Math.round(radius * 2.5)
-    const cutHeight = Math.round(height * 0.4)
+    // Each further cutout is 1 mm smaller every way: its faces fall half a
+    // millimetre off the last one's, so the two never share a plane
+    const cutWidth = Math.round(radius * 0.4) - i
+    const cutDepth = Math.round(radius * 2.5) - i
+    const cutHeight = Math.round(height * 0.4) - i
     
     primitives.push({
       id: `p${i + 2}`,
@@ -607,26 +609,28 @@ function generateBlockWithCountersinks(seed: number, r: () => number): PartRecip
   const holePairs = 2 + Math.floor(r() * 2) // 2-3 countersunk holes
   for (let i = 0; i < holePairs; i++) {
     const baseR = Math.round(3 + r() * 5)
-    const csR = Math.round(baseR * (1.8 + r() * 1.2))
-    const csDepth = Math.round(4 + r() * 6)
+    // 90° countersink about twice the hole diameter, clear of the neighbouring holes and the sides
+    const csR = Math.min(Math.round(baseR * (1.8 + r() * 0.4)), Math.floor(width * 0.15) - 1, Math.floor(depth / 2) - 2)
+    const csDepth = csR - baseR
     const x = Math.round((i - (holePairs - 1) / 2) * (width * 0.3))
-    const y = Math.round((r() - 0.5) * depth * 0.5)
+    const y = Math.round((r() - 0.5) * (depth - 2 * csR - 4))
 
-    // Through hole (cylinder)
+    // Through hole (cylinder) along Z, through the height
     primitives.push({
       id: `p${primitives.length}`,
       kind: 'cylinder',
-      params: { radius: baseR, height: height * 3, axis: 'z' },
+      params: { radius: baseR, height: height * 3, axis: 'y' },
       transform: { position: { x, y, z: 0 } }
     })
     operations.push({ id: `op${operations.length}`, op: 'subtract', targetId: 'p0', toolId: `p${primitives.length - 1}` })
 
-    // Countersink (cone/frustum), placed at top surface
+    // Countersink (cone/frustum) on the same axis, wide end in the top surface.
+    // The cone runs 1 mm past the face, widening at 90°, so no cap lies in it
     primitives.push({
       id: `p${primitives.length}`,
       kind: 'cone',
-      params: { radiusTop: baseR, radiusBottom: csR, height: csDepth, axis: 'z' },
-      transform: { position: { x, y, z: height / 2 - csDepth / 2 } }
+      params: { radiusTop: csR + 1, radiusBottom: baseR, height: csDepth + 1, axis: 'y' },
+      transform: { position: { x, y, z: height / 2 - csDepth / 2 + 0.5 } }
     })
     operations.push({ id: `op${operations.length}`, op: 'subtract', targetId: 'p0', toolId: `p${primitives.length - 1}` })
   }
@@ -832,9 +836,10 @@ function generateCylinderWithCircularHolePattern(seed: number, r: () => number):
     const angle = angleStep * i
     const angleRad = (angle * Math.PI) / 180
     
-    // Calculate position on circle
+    // Calculate position on circle, across the cylinder axis ('z' cylinders
+    // are built along Y); unrounded so the holes stay on the pitch circle
     const xPos = patternRadius * Math.cos(angleRad)
-    const yPos = patternRadius * Math.sin(angleRad)
+    const zPos = patternRadius * Math.sin(angleRad)
     
     primitives.push({
       id: `p${i + 1}`,
@@ -842,9 +847,9 @@ function generateCylinderWithCircularHolePattern(seed: number, r: () => number):
       params: { radius: holeRadius, height: height * 2, axis: 'z' },
       transform: {
         position: {
-          x: Math.round(xPos),
-          y: Math.round(yPos),
-          z: 0
+          x: xPos,
+          y: 0,
+          z: zPos
         }
       }
     })
@@ -872,7 +877,7 @@ function generateCylinderWithCircularHolePattern(seed: number, r: () => number):
 
 /**
  * Strategy 13: Block with chamfered edges (approximated by subtracting rotated boxes)
- * We emulate chamfers on selected top vertical edges by subtracting small boxes rotated 45°.
+ * We emulate chamfers on selected vertical edges by subtracting boxes centred on the edge and rotated 45°.
  */
 function generateBlockWithChamferedEdges(seed: number, r: () => number): PartRecipe {
   const width = Math.round(60 + r() * 90)
@@ -905,12 +910,12 @@ function generateBlockWithChamferedEdges(seed: number, r: () => number): PartRec
     primitives.push({
       id: `p${primId}`,
       kind: 'box',
-      params: { width: chamferSize, depth: chamferSize, height: height * 0.6 },
+      params: { width: chamferSize * Math.SQRT2, depth: chamferSize * Math.SQRT2, height: height + 2 },
       transform: {
         position: {
-          x: edge.x * (width / 2 - chamferSize / 2),
-          y: edge.y * (depth / 2 - chamferSize / 2),
-          z: height / 2 - chamferSize / 4
+          x: edge.x * width / 2,
+          y: edge.y * depth / 2,
+          z: 0
         },
         rotation: { x: 0, y: 0, z: 45 }
       }
@@ -0,0 +1,461 @@
+/**
+ * Expert-level procedural generator
+ * Creates complex parts with 10+ primitives using nested boolean trees,
+ * intersect operations and compound angled features
+ * Target: Advanced CAD practice where the modelling order is not obvious
+ */
+
+import type { PartRecipe, Primitive, Operation, PrimitiveKind, PrimitiveParams, Transform, BooleanOp, Vec3 } from '../types/part'
+
+// Cylinders are built along local Y; the legacy `axis` param turns them to
+// run along X ('x'), Z, i.e. vertical ('y'), or leaves them along Y, i.e.
+// front to back ('z'). Height is along Z.
+
+// Simple LCG random number generator (shared with beginner)
+function rand(seed: number) {
+  let s = seed % 2147483647
+  if (s <= 0) s += 2147483646
+  return function () {
+    s = (s * 16807) % 2147483647
+    return (s - 1) / 2147483646
+  }
+}
+
+// Helper to pick from array
+function pick<T>(arr: T[], r: () => number): T {
+  return arr[Math.floor(r() * arr.length)]
+}
+
+// Random sign helper for mirrored/compound angles
+function sign(r: () => number): number {
+  return r() > 0.5 ? 1 : -1
+}
+
+// Rotation (degrees) of a cylinder leaning from the vertical towards +X by
+// `towardX` and towards +Y by `towardY`; both turns move the axis, which
+// becomes (sin x, cos x sin y, cos x cos y)
+function compoundTilt(towardX: number, towardY: number): Vec3 {
+  return { x: 90 - towardY, y: 0, z: -towardX }
+}
+
+// Placement of a drilling `length` long from `start` along a compound tilt
+function compoundDrilling(start: Vec3, towardX: number, towardY: number, length: number): Transform {
+  const [x, y] = [towardX, towardY].map(angle => (angle * Math.PI) / 180)
+  const axis = { x: Math.sin(x), y: Math.cos(x) * Math.sin(y), z: Math.cos(x) * Math.cos(y) }
+  return {
+    position: { x: start.x + axis.x * length / 2, y: start.y + axis.y * length / 2, z: start.z + axis.z * length / 2 },
+    rotation: compoundTilt(towardX, towardY)
+  }
+}
+
+// Append a primitive and return its id (p0, p1, ...)
+function addPrimitive(
+  primitives: Primitive[],
+  kind: PrimitiveKind,
+  params: PrimitiveParams,
+  transform: Transform,
+  metadata?: Primitive['metadata']
+): string {
+  const id = `p${primitives.length}`
+  primitives.push(metadata ? { id, kind, params, transform, metadata } : { id, kind, params, transform })
+  return id
+}
+
+// Append an operation and return its id (op1, op2, ...)
+function addOperation(
+  operations: Operation[],
+  op: BooleanOp,
+  targetId: string,
+  toolId: string
+): string {
+  const id = `op${operations.length + 1}`
+  operations.push({ id, op, targetId, toolId })
+  return id
+}
+
+// Four vertical through-holes near the corners, chained onto `targetId`;
+// returns the hole primitives
+function addCornerHoles(
+  primitives: Primitive[],
+  operations: Operation[],
+  targetId: string,
+  halfX: number,
+  halfY: number,
+  radius: number,
+  length: number
+): string[] {
+  let current = targetId
+  const holes: string[] = []
+  for (const xSign of [-1, 1]) {
+    for (const ySign of [-1, 1]) {
+      const hole = addPrimitive(primitives, 'cylinder', { radius, height: length, axis: 'y' }, {
+        position: { x: xSign * halfX, y: ySign * halfY, z: 0 }
+      })
+      current = addOperation(operations, 'subtract', current, hole)
+      holes.push(hole)
+    }
+  }
+  return holes
+}
+
+// Geometric tolerancing of the mounting holes (recipe metadata): the base
+// they are drilled through is datum A and held flat; the holes are
+// positioned from A and two side faces, B and C
+function mountingHoleTolerancing(holeId: string): Record<string, unknown> {
+  return {
+    gdt: {
+      datums: [{ letter: 'A', face: '-z' }, { letter: 'B', face: '-x' }, { letter: 'C', face: '-y' }],
+      frames: [
+        { characteristic: 'flatness', tolerance: 0.05, face: '-z' },
+        { characteristic: 'position', tolerance: 0.2, datums: ['A', 'B', 'C'], primitiveId: holeId },
+        { characteristic: 'perpendicularity', tolerance: 0.1, datums: ['A'], primitiveId: holeId }
+      ]
+    }
+  }
+}
+
+// Part generation strategies for expert difficulty
+type ExpertStrategy =
+  | 'compound-angle-manifold'
+  | 'crowned-bearing-housing'
+  | 'twin-lug-yoke'
+  | 'angled-sensor-mount'
+
+const STRATEGIES: ExpertStrategy[] = [
+  'compound-angle-manifold',
+  'crowned-bearing-housing',
+  'twin-lug-yoke',
+  'angled-sensor-mount'
+]
+
+/**
+ * Generate an expert-level part recipe
+ */
+export function generateExpertPartRecipe(seed = Date.now()): PartRecipe {
+  const r = rand(seed)
+  const strategy = pick(STRATEGIES, r)
+
+  let recipe: PartRecipe
+
+  switch (strategy) {
+    case 'compound-angle-manifold':
+      recipe = generateCompoundAngleManifold(seed, r)
+      break
+    case 'crowned-bearing-housing':
+      recipe = generateCrownedBearingHousing(seed, r)
+      break
+    case 'twin-lug-yoke':
+      recipe = generateTwinLugYoke(seed, r)
+      break
+    case 'angled-sensor-mount':
+      recipe = generateAngledSensorMount(seed, r)
+      break
+    default:
+      recipe = generateCompoundAngleManifold(seed, r)
+  }
+
+  return recipe
+}
+
+/**
+ * Strategy 1: Hydraulic manifold block
+ * Body is a box intersected with a cylinder (rounded vertical edges), a
+ * front port boss is unioned on, and a cutter tree (counterbored port +
+ * two compound-angle drillings) is subtracted in a single operation.
+ */
+function generateCompoundAngleManifold(seed: number, r: () => number): PartRecipe {
+  const width = Math.round(90 + r() * 60)
+  const depth = Math.round(60 + r() * 40)
+  const height = Math.round(50 + r() * 40)
+
+  const primitives: Primitive[] = []
+  const operations: Operation[] = []
+
+  // Body: box ∩ cylinder trims the four vertical edges into arcs
+  const body = addPrimitive(primitives, 'box', { width, depth, height }, { position: { x: 0, y: 0, z: 0 } })
+  const halfMax = Math.max(width, depth) / 2
+  const trimRadius = Math.round((halfMax + Math.hypot(width / 2, depth / 2)) / 2)
+  const trim = addPrimitive(primitives, 'cylinder', { radius: trimRadius, height: height * 1.2, axis: 'y' }, {
+    position: { x: 0, y: 0, z: 0 }
+  })
+  const trimmed = addOperation(operations, 'intersect', body, trim)
+
+  // Port boss on the front face
+  const bossRadius = Math.round(height * (0.25 + r() * 0.08))
+  const bossLength = Math.round(10 + r() * 10)
+  const boss = addPrimitive(primitives, 'cylinder', { radius: bossRadius, height: bossLength + 2, axis: 'z' }, {
+    position: { x: 0, y: -depth / 2 - bossLength / 2 + 1, z: 0 }
+  })
+  const withBoss = addOperation(operations, 'union', trimmed, boss)
+
+  // Cutter 1: counterbored port (bore + counterbore)
+  const portRadius = Math.max(4, Math.round(bossRadius * 0.45))
+  const portDepth = Math.round(bossLength + depth * 0.55)
+  const portStart = -depth / 2 - bossLength - 1
+  const port = addPrimitive(primitives, 'cylinder', { radius: portRadius, height: portDepth, axis: 'z' }, {
+    position: { x: 0, y: portStart + portDepth / 2, z: 0 }
+  })
+  const cbDepth = Math.round(4 + r() * 4)
+  const counterbore = addPrimitive(primitives, 'cylinder', { radius: Math.round(portRadius * 1.6), height: cbDepth + 1, axis: 'z' }, {
+    position: { x: 0, y: portStart + (cbDepth + 1) / 2, z: 0 }
+  })
+  const portCutter = addOperation(operations, 'union', port, counterbore)
+
+  // Cutter 2: pair of compound-angle drillings from the top face down to the
+  // inner end of the port, leaning apart in X and back in Y
+  const drillRadius = Math.round(3 + r() * 3)
+  const tiltX = Math.round(10 + r() * 10)
+  const tiltY = Math.round(15 + r() * 15)
+  const meet = { x: 0, y: portStart + portDepth - portRadius, z: 0 }
+  const drillA = addPrimitive(primitives, 'cylinder', { radius: drillRadius, height }, compoundDrilling(meet, tiltX, tiltY, height))
+  const drillB = addPrimitive(primitives, 'cylinder', { radius: drillRadius, height }, compoundDrilling(meet, -tiltX, tiltY, height))
+  const drillCutter = addOperation(operations, 'union', drillA, drillB)
+
+  // Nested tree: (port ∪ drillings) subtracted from (body ∪ boss)
+  const cutter = addOperation(operations, 'union', portCutter, drillCutter)
+  const machined = addOperation(operations, 'subtract', withBoss, cutter)
+
+  // Mounting holes, kept inside the trimmed corners
+  const inset = Math.round(Math.min(width, depth) * 0.18)
+  const mountingHoles = addCornerHoles(primitives, operations, machined, width / 2 - inset, depth / 2 - inset, Math.round(3 + r() * 2), height * 1.5)
+
+  return {
+    id: String(seed),
+    seed,
+    name: 'Compound-Angle Manifold',
+    difficulty: 'Expert',
+    units: 'mm',
+    bounding_mm: { x: width, y: depth + bossLength, z: height },
+    primitives,
+    operations,
+    createdAt: new Date().toISOString(),
+    metadata: mountingHoleTolerancing(mountingHoles[0])
+  }
+}
+
+/**
+ * Strategy 2: Crowned bearing housing
+ * Box ∩ sphere gives a crowned top. A bore with two torus grooves and a
+ * pair of compound-angle lubrication holes form the cutter tree.
+ */
+function generateCrownedBearingHousing(seed: number, r: () => number): PartRecipe {
+  const width = Math.round(100 + r() * 60)
+  const depth = Math.round(70 + r() * 40)
+  const height = Math.round(60 + r() * 40)
+
+  const primitives: Primitive[] = []
+  const operations: Operation[] = []
+
+  // Crown: sphere centred on the bottom face keeps the base intact and
+  // rounds off the top corners
+  const body = addPrimitive(primitives, 'box', { width, depth, height }, { position: { x: 0, y: 0, z: 0 } })
+  const planHalfDiagonal = Math.hypot(width / 2, depth / 2)
+  const crownRadius = Math.round(Math.max(planHalfDiagonal * 1.05, height * 1.08))
+  const crown = addPrimitive(primitives, 'sphere', { radius: crownRadius }, { position: { x: 0, y: 0, z: -height / 2 } })
+  const crowned = addOperation(operations, 'intersect', body, crown)
+
+  // Cutter 1: bore along X with two retaining-ring grooves
+  const boreRadius = Math.round(Math.min(depth, height) * (0.18 + r() * 0.06))
+  const bore = addPrimitive(primitives, 'cylinder', { radius: boreRadius, height: width * 1.4, axis: 'x' }, {
+    position: { x: 0, y: 0, z: 0 }
+  }, { fit: 'bearing' })
+  const grooveTube = Math.round(2 + r())
+  const grooveOffset = Math.round(width * (0.2 + r() * 0.1))
+  // Tori are built about local Z; turned to wrap the bore
+  const grooveA = addPrimitive(primitives, 'torus', { majorRadius: boreRadius, tubeRadius: grooveTube }, {
+    position: { x: -grooveOffset, y: 0, z: 0 },
+    rotation: { x: 0, y: 90, z: 0 }
+  })
+  const grooveB = addPrimitive(primitives, 'torus', { majorRadius: boreRadius, tubeRadius: grooveTube }, {
+    position: { x: grooveOffset, y: 0, z: 0 },
+    rotation: { x: 0, y: 90, z: 0 }
+  })
+  const boreWithGroove = addOperation(operations, 'union', bore, grooveA)
+  const boreCutter = addOperation(operations, 'union', boreWithGroove, grooveB)
+
+  // Cutter 2: compound-angle lubrication holes from the crown down to the
+  // bore axis, leaning towards each other in X and to one side in Y
+  const lubeRadius = Math.round(2 + r() * 2)
+  const tiltX = Math.round(5 + r() * 7)
+  const tiltY = Math.round(15 + r() * 15) * sign(r)
+  const lubeX = Math.round(width * 0.2)
+  const lubeA = addPrimitive(primitives, 'cylinder', { radius: lubeRadius, height }, compoundDrilling({ x: -lubeX, y: 0, z: 0 }, tiltX, tiltY, height))
+  const lubeB = addPrimitive(primitives, 'cylinder', { radius: lubeRadius, height }, compoundDrilling({ x: lubeX, y: 0, z: 0 }, -tiltX, tiltY, height))
+  const lubeCutter = addOperation(operations, 'union', lubeA, lubeB)
+
+  // Nested tree: (bore ∪ lube holes) subtracted from the crowned body
+  const cutter = addOperation(operations, 'union', boreCutter, lubeCutter)
+  const machined = addOperation(operations, 'subtract', crowned, cutter)
+
+  // Hold-down holes through the base corners
+  const inset = Math.round(Math.min(width, depth) * 0.15)
+  const mountingHoles = addCornerHoles(primitives, operations, machined, width / 2 - inset, depth / 2 - inset, Math.round(4 + r() * 2), height * 1.5)
+
+  return {
+    id: String(seed),
+    seed,
+    name: 'Crowned Bearing Housing',
+    difficulty: 'Expert',
+    units: 'mm',
+    bounding_mm: { x: width, y: depth, z: height },
+    primitives,
+    operations,
+    createdAt: new Date().toISOString(),
+    metadata: mountingHoleTolerancing(mountingHoles[0])
+  }
+}
+
+/**
+ * Strategy 3: Twin-lug yoke
+ * Two lugs are intersected with a stadium-shaped envelope (cylinder ∪ box)
+ * to round their tops, then unioned onto a base plate. A cross pin bore and
+ * a compound-angle grease hole are subtracted together.
+ */
+function generateTwinLugYoke(seed: number, r: () => number): PartRecipe {
+  const width = Math.round(120 + r() * 60)
+  const depth = Math.round(70 + r() * 30)
+  const plateHeight = Math.round(15 + r() * 10)
+
+  const lugThickness = Math.round(12 + r() * 8)
+  const lugGap = Math.round(width * (0.25 + r() * 0.1))
+  const lugRadius = Math.round(depth * 0.3)
+  const lugHeight = Math.round(lugRadius * 2 + 20 + r() * 30)
+  const lugX = lugGap / 2 + lugThickness / 2
+  const lugTop = plateHeight / 2 + lugHeight
+  const pinZ = lugTop - lugRadius
+
+  const primitives: Primitive[] = []
+  const operations: Operation[] = []
+
+  const plate = addPrimitive(primitives, 'box', { width, depth, height: plateHeight }, { position: { x: 0, y: 0, z: 0 } })
+
+  // Lug pair
+  const lugA = addPrimitive(primitives, 'box', { width: lugThickness, depth: lugRadius * 2, height: lugHeight }, {
+    position: { x: -lugX, y: 0, z: plateHeight / 2 + lugHeight / 2 }
+  })
+  const lugB = addPrimitive(primitives, 'box', { width: lugThickness, depth: lugRadius * 2, height: lugHeight }, {
+    position: { x: lugX, y: 0, z: plateHeight / 2 + lugHeight / 2 }
+  })
+  const lugs = addOperation(operations, 'union', lugA, lugB)
+
+  // Stadium envelope: half-round top over a straight lower section
+  const envelopeSpan = lugGap + lugThickness * 2 + 2
+  const envelopeRound = addPrimitive(primitives, 'cylinder', { radius: lugRadius, height: envelopeSpan, axis: 'x' }, {
+    position: { x: 0, y: 0, z: pinZ }
+  })
+  const lowerHeight = pinZ - plateHeight / 2 + 2
+  const envelopeBody = addPrimitive(primitives, 'box', { width: envelopeSpan, depth: lugRadius * 2, height: lowerHeight }, {
+    position: { x: 0, y: 0, z: plateHeight / 2 - 2 + lowerHeight / 2 }
+  })
+  const envelope = addOperation(operations, 'union', envelopeRound, envelopeBody)
+  const roundedLugs = addOperation(operations, 'intersect', lugs, envelope)
+  const assembled = addOperation(operations, 'union', plate, roundedLugs)
+
+  // Cutter: cross pin bore plus compound-angle grease hole into it
+  const pinRadius = Math.round(lugRadius * (0.4 + r() * 0.15))
+  const pin = addPrimitive(primitives, 'cylinder', { radius: pinRadius, height: envelopeSpan + 10, axis: 'x' }, {
+    position: { x: 0, y: 0, z: pinZ }
+  }, { fit: 'locating' })
+  const greaseRadius = Math.round(2 + r() * 1.5)
+  // From the pin axis out through the rounded top of a lug, leaning little
+  // across the lug's thickness
+  const greaseStart = { x: lugX * sign(r), y: 0, z: pinZ }
+  const grease = addPrimitive(primitives, 'cylinder', { radius: greaseRadius, height: lugRadius * 1.5 },
+    compoundDrilling(greaseStart, Math.round(4 + r() * 4) * sign(r), Math.round(25 + r() * 15), lugRadius * 1.5))
+  const cutter = addOperation(operations, 'union', pin, grease)
+  const machined = addOperation(operations, 'subtract', assembled, cutter)
+
+  // Base plate holes outboard of the lugs
+  const holeX = width / 2 - Math.round((width / 2 - lugX - lugThickness / 2) / 2)
+  const mountingHoles = addCornerHoles(primitives, operations, machined, holeX, depth / 2 - Math.round(depth * 0.2), Math.round(4 + r() * 2), plateHeight * 3)
+
+  return {
+    id: String(seed),
+    seed,
+    name: 'Twin-Lug Yoke',
+    difficulty: 'Expert',
+    units: 'mm',
+    bounding_mm: { x: width, y: depth, z: plateHeight + lugHeight },
+    primitives,
+    operations,
+    createdAt: new Date().toISOString(),
+    metadata: mountingHoleTolerancing(mountingHoles[0])
+  }
+}
+
+/**
+ * Strategy 4: Angled sensor mount
+ * Block ∩ cylinder rounds the top edges running front to back. A sensor
+ * boss sits on the top face at a compound angle; its bore, seat and a
+ * vent drilling are combined into one cutter.
+ */
+function generateAngledSensorMount(seed: number, r: () => number): PartRecipe {
+  const width = Math.round(80 + r() * 50)
+  const depth = Math.round(60 + r() * 40)
+  const height = Math.round(40 + r() * 30)
+
+  const primitives: Primitive[] = []
+  const operations: Operation[] = []
+
+  const body = addPrimitive(primitives, 'box', { width, depth, height }, { position: { x: 0, y: 0, z: 0 } })
+  // Cylinder centred on the bottom face: keeps the base and the middle of
+  // the top, trims the top corners
+  const roundRadius = Math.round((Math.max(width / 2, height) + Math.hypot(width / 2, height)) / 2)
+  const roundTool = addPrimitive(primitives, 'cylinder', { radius: roundRadius, height: depth * 1.2, axis: 'z' }, {
+    position: { x: 0, y: 0, z: -height / 2 }
+  })
+  const rounded = addOperation(operations, 'intersect', body, roundTool)
+
+  // Compound-angle sensor boss
+  const tilt = compoundTilt(Math.round(10 + r() * 10) * sign(r), Math.round(10 + r() * 10) * sign(r))
+  const bossRadius = Math.round(10 + r() * 4)
+  const bossHeight = Math.round(height * 0.8)
+  const bossCenter = { x: Math.round(width * 0.15), y: 0, z: height / 2 }
+  const boss = addPrimitive(primitives, 'cylinder', { radius: bossRadius, height: bossHeight }, {
+    position: bossCenter,
+    rotation: tilt
+  })
+  const withBoss = addOperation(operations, 'union', rounded, boss)
+
+  // Cutter 1: sensor bore plus spherical seat
+  const boreRadius = Math.round(bossRadius * 0.5)
+  const bore = addPrimitive(primitives, 'cylinder', { radius: boreRadius, height: bossHeight * 1.2 }, {
+    position: bossCenter,
+    rotation: tilt
+  })
+  const seat = addPrimitive(primitives, 'sphere', { radius: Math.round(bossRadius * 0.75) }, { position: bossCenter })
+  const sensorCutter = addOperation(operations, 'union', bore, seat)
+
+  // Cutter 2: two parallel compound-angle vent drillings through the block,
+  // leaning inwards at the top, clear of the corner holes
+  const ventRadius = Math.round(2 + r() * 2)
+  const ventTilt = compoundTilt(Math.round(5 + r() * 5), Math.round(5 + r() * 7) * sign(r))
+  const ventA = addPrimitive(primitives, 'cylinder', { radius: ventRadius, height: height * 2 }, {
+    position: { x: -Math.round(width * 0.2), y: Math.round(depth * 0.1), z: 0 },
+    rotation: ventTilt
+  })
+  const ventB = addPrimitive(primitives, 'cylinder', { radius: ventRadius, height: height * 2 }, {
+    position: { x: -Math.round(width * 0.2), y: -Math.round(depth * 0.1), z: 0 },
+    rotation: ventTilt
+  })
+  const ventCutter = addOperation(operations, 'union', ventA, ventB)
+
+  const cutter = addOperation(operations, 'union', sensorCutter, ventCutter)
+  const machined = addOperation(operations, 'subtract', withBoss, cutter)
+
+  const inset = Math.round(Math.min(width, depth) * 0.15)
+  const mountingHoles = addCornerHoles(primitives, operations, machined, width / 2 - inset, depth / 2 - inset, Math.round(3 + r() * 2), height * 1.5)
+
+  return {
+    id: String(seed),
+    seed,
+    name: 'Angled Sensor Mount',
+    difficulty: 'Expert',
+    units: 'mm',
+    bounding_mm: { x: width, y: depth, z: height + Math.round(bossHeight / 2) },
+    primitives,
+    operations,
+    createdAt: new Date().toISOString(),
+    metadata: mountingHoleTolerancing(mountingHoles[0])
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * Reusable feature generation helpers
- * Provides common CAD features (chamfers, fillets, ribs, webs, patterns) for use across all difficulty levels
+ * Provides common CAD features (chamfers, fillets, ribs, webs, patterns, threads) for use across all difficulty levels
  */
 
-import type { Primitive, Operation } from '../types/part'
+import type { Primitive, Operation, ThreadSpec } from '../types/part'
 
 /**
  * Generate chamfered edge features (approximated by rotated box subtraction)
+ * Each box is centred on a vertical edge and turned 45°, so both faces lose chamferSize.
  * @param edges - Array of edge positions (normalized -1/1 coordinates)
  * @param chamferSize - Size of chamfer cut in mm
  * @param blockDims - Block dimensions {width, depth, height} in mm
@@ -33,12 +34,12 @@ export function generateChamferFeatures(
     primitives.push({
       id: `p${primId}`,
       kind: 'box',
-      params: { width: chamferSize, depth: chamferSize, height: blockDims.height * 0.6 },
+      params: { width: chamferSize * Math.SQRT2, depth: chamferSize * Math.SQRT2, height: blockDims.height + 2 },
       transform: {
         position: {
-          x: edge.x * (blockDims.width / 2 - chamferSize / 2),
-          y: edge.y * (blockDims.depth / 2 - chamferSize / 2),
-          z: blockDims.height / 2 - chamferSize / 4
+          x: edge.x * blockDims.width / 2,
+          y: edge.y * blockDims.depth / 2,
+          z: 0
         },
         rotation: { x: 0, y: 0, z: 45 }
       }
@@ -201,6 +202,7 @@ export function generateCircularPattern(
   const angleStep = 360 / count
   const startAngle = angleOffset || 0
   
+  // Positions are not rounded, so the features stay on the pitch circle
   for (let i = 0; i < count; i++) {
     const angle = startAngle + angleStep * i
     const angleRad = (angle * Math.PI) / 180
@@ -208,21 +210,21 @@ export function generateCircularPattern(
     let position: { x: number; y: number; z: number }
     if (axis === 'z') {
       position = {
-        x: Math.round(radius * Math.cos(angleRad)),
-        y: Math.round(radius * Math.sin(angleRad)),
+        x: radius * Math.cos(angleRad),
+        y: radius * Math.sin(angleRad),
         z: 0
       }
     } else if (axis === 'y') {
       position = {
-        x: Math.round(radius * Math.cos(angleRad)),
+        x: radius * Math.cos(angleRad),
         y: 0,
-        z: Math.round(radius * Math.sin(angleRad))
+        z: radius * Math.sin(angleRad)
       }
     } else {
       position = {
         x: 0,
-        y: Math.round(radius * Math.cos(angleRad)),
-        z: Math.round(radius * Math.sin(angleRad))
+        y: radius * Math.cos(angleRad),
+        z: radius * Math.sin(angleRad)
       }
     }
     
@@ -482,3 +484,64 @@ export function generateRadialRibFeatures(
   
   return { primitives, operations }
 }
+
+// Tap drills run this many pitches past the full thread (tap chamfer and chips)
+const TAP_DRILL_RUNOUT = 3
+
+// Cylinder `axis` param building along each part axis (cylinders are built along Y)
+const CYLINDER_AXIS_PARAM: Record<'x' | 'y' | 'z', 'x' | 'y' | 'z'> = { x: 'x', y: 'z', z: 'y' }
+
+/**
+ * Generate a thread feature: a tapped hole or a threaded shaft (ISO 261 metric)
+ * The thread is kept in the cylinder's `metadata.thread`; the solid keeps the
+ * plain tap drill (size − pitch) or shaft, and drawings show the thread per ISO 6410.
+ * @param thread - Kind, size, pitch and full thread depth
+ * @param position - Centre of the face the feature starts from in mm
+ * @param axis - Part axis of the feature
+ * @param direction - Along the axis: into the material for a tapped hole, out of the face for a shaft
+ * @param startPrimId - Starting primitive ID counter
+ * @param startOpId - Starting operation ID counter
+ * @param targetId - ID of the primitive to tap (subtract from) or to carry the shaft (union with)
+ * @param length - Tap drill depth or shaft length in mm (default: thread depth, plus run-out for a tapped hole)
+ * @returns Object containing primitives and operations to add
+ */
+export function generateThreadFeature(
+  thread: ThreadSpec,
+  position: { x: number; y: number; z: number },
+  axis: 'x' | 'y' | 'z',
+  direction: 1 | -1,
+  startPrimId: number,
+  startOpId: number,
+  targetId: string,
+  length?: number
+): { primitives: Primitive[]; operations: Operation[] } {
+  const internal = thread.kind === 'internal'
+  const extent = length ?? (internal ? thread.depth + TAP_DRILL_RUNOUT * thread.pitch : thread.depth)
+  
+  // A tap drill starts 1mm outside the face so the subtraction opens cleanly
+  const start = internal ? -1 : 0
+  const center = { ...position }
+  center[axis] += direction * (start + extent) / 2
+  
+  const primitive: Primitive = {
+    id: `p${startPrimId}`,
+    kind: 'cylinder',
+    params: {
+      radius: (internal ? Math.round((thread.size - thread.pitch) * 10) / 10 : thread.size) / 2,
+      height: extent - start,
+      axis: CYLINDER_AXIS_PARAM[axis]
+    },
+    transform: { position: center },
+    metadata: { thread: { ...thread, tolerance: thread.tolerance ?? (internal ? '6H' : '6g') } }
+  }
+  
+  return {
+    primitives: [primitive],
+    operations: [{
+      id: `op${startOpId}`,
+      op: internal ? 'subtract' : 'union',
+      targetId,
+      toolId: primitive.id
+    }]
+  }
+}
@@ -4,7 +4,11 @@
  * Target: Intermediate CAD practice with combined features and symmetry
  */
 
-import type { PartRecipe, Primitive, Operation } from '../types/part'
+import type { PartRecipe, Primitive, Operation, ThreadSpec } from '../types/part'
+import { generateThreadFeature } from './features'
+
+// ISO 261 coarse pitch of the tapped hole sizes used here (mm)
+const COARSE_PITCH: Record<number, number> = { 8: 1.25, 10: 1.5, 12: 1.75, 14: 2, 16: 2 }
 
 // Simple LCG random number generator (shared with beginner)
 function rand(seed: number) {
@@ -407,30 +411,19 @@ function generateSymmetricMountingPlate(seed: number, r: () => number): PartReci
   let primId = 1
   let opId = 1
   
-  // Feature 1: Four corner mounting holes (symmetric)
+  // Feature 1: Four tapped corner mounting holes (symmetric), M8 to M16,
+  // threaded 1.5 × the size (or the plate) deep, the tap drill right through
   const cornerRadius = Math.round(5 + r() * 4)
   const cornerInset = Math.round(Math.min(width, depth) * 0.12)
+  const size = 2 * cornerRadius - 2
+  const thread: ThreadSpec = { kind: 'internal', size, pitch: COARSE_PITCH[size], depth: Math.min(1.5 * size, height) }
   
   for (let xSign of [-1, 1]) {
     for (let ySign of [-1, 1]) {
-      primitives.push({
-        id: `p${primId}`,
-        kind: 'cylinder',
-        params: { radius: cornerRadius, height: height * 2.5, axis: 'z' },
-        transform: {
-          position: {
-            x: xSign * (width / 2 - cornerInset),
-            y: ySign * (depth / 2 - cornerInset),
-            z: 0
-          }
-        }
-      })
-      operations.push({
-        id: `op${opId}`,
-        op: 'subtract',
-        targetId: 'p0',
-        toolId: `p${primId}`
-      })
+      const top = { x: xSign * (width / 2 - cornerInset), y: ySign * (depth / 2 - cornerInset), z: height / 2 }
+      const tapped = generateThreadFeature(thread, top, 'z', -1, primId, opId, 'p0', height + 1)
+      primitives.push(...tapped.primitives)
+      operations.push(...tapped.operations)
       primId++
       opId++
     }
@@ -35,6 +35,24 @@ export type PrimitiveParams = BoxParams | CylinderParams | SphereParams | ConePa
 
 export type PrimitiveKind = 'box' | 'cylinder' | 'sphere' | 'cone' | 'torus' | 'custom'
 
+// Metric screw thread (ISO 261) on a cylinder, kept in its `metadata.thread`.
+// Internal: the cylinder is the tap drill of a tapped hole; external: the
+// cylinder is the shaft, at the major diameter.
+export type ThreadKind = 'internal' | 'external'
+
+export type ThreadSpec = {
+  kind: ThreadKind
+  size: number // nominal (major) diameter in mm
+  pitch: number // mm
+  depth: number // length of full thread in mm, from the hole entry or shaft end
+  tolerance?: string // ISO 965-1 class, e.g. '6H' (internal) or '6g' (external)
+}
+
+// Fitted cylinder (ISO 286), kept in its `metadata.fit`: a bore or journal
+// that carries a bearing, or that locates a pin or a mating part. Other
+// holes and bosses keep the general tolerance.
+export type FitKind = 'bearing' | 'locating'
+
 export type Primitive = {
   id: string
   kind: PrimitiveKind
@@ -57,6 +75,9 @@ export type Operation = {
   metadata?: Record<string, unknown>
 }
 
+// Material of the part; decides the hatching of section views
+export type PartMaterial = 'steel' | 'aluminium' | 'plastic' | 'rubber' | 'general'
+
 export type PartRecipe = {
   id: string
   seed: number
@@ -65,6 +86,8 @@ export type PartRecipe = {
   units: Units
   // A nominal bounding box in mm for quick previews and layout
   bounding_mm: Vec3
+  // material of the part (default: general)
+  material?: PartMaterial
   // primitives used to construct the part
   primitives: Primitive[]
   // operations (ordered) applied to primitives or previous operations
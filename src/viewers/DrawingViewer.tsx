@@ -1,21 +1,30 @@
 import { useState, useEffect, useRef } from 'react'
 import type PartRecipe from '../types/part'
-import { generateDrawing } from '../drawing/svg'
+import { describeDimensioningReport, type DimensioningReport } from '../drawing/completeness'
+import type { ProjectionMethod } from '../drawing/projection'
+import { DEFAULT_DRAWING_STANDARD, DRAWING_STANDARDS, type DrawingStandardName } from '../drawing/standards'
+import { DEFAULT_SHEET, SHEET_SIZES, type SheetOptions, type SheetOrientation, type SheetSize } from '../drawing/sheet'
 import type { BufferGeometry } from 'three'
 import { exportToPDF, isPDFExportSupported, exportToDXFFromRecipe, isDXFExportSupported } from '../exporters'
+import type { DrawingRequest, DrawingResponse } from './drawingWorker'
 
 interface DrawingViewerProps {
   recipe: PartRecipe
+  /** Post-boolean solid in mm from evaluateRecipe(); evaluated from the recipe when left out */
   geometry?: BufferGeometry
   onTimerUpdate?: (seconds: number) => void
 }
 
 /**
  * Interactive 2D technical drawing viewer with pan/zoom controls.
- * Displays generated SVG drawings from PartRecipe with optional CSG geometry for accurate section views.
+ * Displays generated SVG drawings from PartRecipe; the drawing is generated in a Web Worker.
  */
 export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewerProps) {
   const [svgContent, setSvgContent] = useState<string>('')
+  const [dimensioning, setDimensioning] = useState<DimensioningReport | null>(null)
+  const [standard, setStandard] = useState<DrawingStandardName>(DEFAULT_DRAWING_STANDARD)
+  const [projection, setProjection] = useState<ProjectionMethod>(DRAWING_STANDARDS[DEFAULT_DRAWING_STANDARD].projection)
+  const [sheet, setSheet] = useState<SheetOptions>(DEFAULT_SHEET)
   const [scale, setScale] = useState(1)
   const [pan, setPan] = useState({ x: 0, y: 0 })
   const [isPanning, setIsPanning] = useState(false)
@@ -24,16 +33,38 @@ export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewer
   const [elapsedSeconds, setElapsedSeconds] = useState(0)
   const timerRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Generate SVG drawing
+  // Generate SVG drawing in a worker, with the check that its dimensions
+  // define the part, each only once; a change of part or options ends the
+  // one still running
   useEffect(() => {
-    try {
-      const svg = generateDrawing(recipe, geometry)
-      setSvgContent(svg)
-    } catch (err) {
-      console.error('[DrawingViewer] Failed to generate SVG:', err)
-      setSvgContent('')
+    setSvgContent('')
+    setDimensioning(null)
+    const worker = new Worker(new URL('./drawingWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<DrawingResponse>) => {
+      if ('error' in event.data) {
+        console.error('[DrawingViewer] Failed to generate SVG:', event.data.error)
+      } else {
+        setSvgContent(event.data.svg)
+        setDimensioning(event.data.dimensioning)
+      }
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      console.error('[DrawingViewer] Drawing worker failed:', event.message)
+      worker.terminate()
     }
-  }, [recipe, geometry])
+
+    const request: DrawingRequest = {
+      recipe,
+      solid: geometry && {
+        position: geometry.getAttribute('position').array as Float32Array,
+        normal: geometry.getAttribute('normal').array as Float32Array
+      },
+      options: { standard, projection, sheet }
+    }
+    worker.postMessage(request)
+    return () => worker.terminate()
+  }, [recipe, geometry, standard, projection, sheet])
 
   // Timer: start when component mounts, stop on unmount
   useEffect(() => {
@@ -114,7 +145,7 @@ export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewer
       await exportToPDF({
         recipe,
         svgContent,
-        orientation: 'landscape',
+        sheet,
         includeTimestamp: true
       })
     } catch (error) {
@@ -134,7 +165,9 @@ export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewer
         recipe,
         geometry: geometry ?? undefined,
         filename: `${recipe.name.replace(/\s+/g, '-')}-drawing.dxf`,
-        scale: 1
+        scale: 1,
+        standard,
+        projection
       })
     } catch (error) {
       console.error('[DrawingViewer] DXF export failed:', error)
@@ -207,6 +240,41 @@ export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewer
         <button onClick={handleDownloadDXF} style={{ padding: '4px 8px' }}>
           📐 DXF
         </button>
+        <select
+          value={standard}
+          onChange={(e) => {
+            const name = e.target.value as DrawingStandardName
+            setStandard(name)
+            setProjection(DRAWING_STANDARDS[name].projection)
+          }}
+          style={{ padding: '4px 8px' }}
+          title="Drawing standard"
+        >
+          <option value="iso">ISO</option>
+          <option value="asme">ASME</option>
+        </select>
+        <select
+          value={projection}
+          onChange={(e) => setProjection(e.target.value as ProjectionMethod)}
+          style={{ padding: '4px 8px' }}
+          title="Projection method"
+        >
+          <option value="first-angle">1st angle</option>
+          <option value="third-angle">3rd angle</option>
+        </select>
+        <select
+          value={`${sheet.size}-${sheet.orientation}`}
+          onChange={(e) => {
+            const [size, orientation] = e.target.value.split('-')
+            setSheet({ size: size as SheetSize, orientation: orientation as SheetOrientation })
+          }}
+          style={{ padding: '4px 8px' }}
+          title="Sheet size"
+        >
+          {(Object.keys(SHEET_SIZES) as SheetSize[]).flatMap(size => (['landscape', 'portrait'] as SheetOrientation[]).map(orientation => (
+            <option key={`${size}-${orientation}`} value={`${size}-${orientation}`}>{size} {orientation}</option>
+          )))}
+        </select>
         <span style={{ alignSelf: 'center', opacity: 0.8 }}>
           Zoom: {(scale * 100).toFixed(0)}%
         </span>
@@ -250,6 +318,34 @@ export function DrawingViewer({ recipe, geometry, onTimerUpdate }: DrawingViewer
         </div>
       </div>
 
+      {/* Dimensioning warning */}
+      {dimensioning && (!dimensioning.complete || dimensioning.redundant.length > 0) && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 12,
+            right: 12,
+            zIndex: 10,
+            background: 'rgba(255, 170, 0, 0.2)',
+            border: '1px solid rgba(255, 170, 0, 0.6)',
+            padding: 8,
+            borderRadius: 6,
+            color: '#fff',
+            fontSize: '12px',
+            maxWidth: '320px'
+          }}
+          title={describeDimensioningReport(dimensioning).join('\n')}
+        >
+          <div style={{ fontWeight: 600 }}>⚠️ Dimensioning</div>
+          {!dimensioning.complete && (
+            <div>{dimensioning.missing.length} missing: part not fully defined</div>
+          )}
+          {dimensioning.redundant.length > 0 && (
+            <div style={{ opacity: 0.8 }}>{dimensioning.redundant.length} redundant</div>
+          )}
+        </div>
+      )}
+
       {/* SVG Content */}
       <div
         style={{
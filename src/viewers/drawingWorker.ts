@@ -0,0 +1,41 @@
+/**
+ * Web Worker that generates the SVG drawing off the main thread, and checks
+ * the dimensions it places
+ *
+ * Hidden-line removal, sectioning and dimensioning of an Expert part take
+ * seconds; run here, they leave the viewer responsive. The solid is sent as
+ * its position and normal arrays (BufferGeometry does not survive
+ * postMessage) and evaluated from the recipe when none is sent.
+ */
+
+import { BufferAttribute, BufferGeometry } from 'three'
+import type PartRecipe from '../types/part'
+import { createDrawing, type DrawingOptions } from '../drawing/svg'
+import { checkDimensioning, type DimensioningReport } from '../drawing/completeness'
+
+export interface DrawingRequest {
+  recipe: PartRecipe
+  /** Post-boolean solid in mm, from evaluateRecipe() */
+  solid?: { position: Float32Array; normal: Float32Array }
+  options: DrawingOptions
+}
+
+export type DrawingResponse = { svg: string; dimensioning: DimensioningReport } | { error: string }
+
+self.onmessage = (event: MessageEvent<DrawingRequest>) => {
+  const { recipe, solid, options } = event.data
+  let response: DrawingResponse
+  try {
+    let geometry: BufferGeometry | undefined
+    if (solid) {
+      geometry = new BufferGeometry()
+      geometry.setAttribute('position', new BufferAttribute(solid.position, 3))
+      geometry.setAttribute('normal', new BufferAttribute(solid.normal, 3))
+    }
+    const drawing = createDrawing(recipe, geometry, options)
+    response = { svg: drawing.svg, dimensioning: checkDimensioning(drawing.recipe, drawing.dimensions) }
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) }
+  }
+  self.postMessage(response)
+}
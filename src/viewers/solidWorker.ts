@@ -0,0 +1,30 @@
+/**
+ * Web Worker that evaluates a recipe's booleans off the main thread
+ *
+ * An Expert part takes a second or more to evaluate; run here, the page
+ * stays responsive. The solid comes back as its position and normal arrays
+ * (BufferGeometry does not survive postMessage), or as the error that
+ * stopped the evaluation so the viewer can show it.
+ */
+
+import type PartRecipe from '../types/part'
+import { evaluateRecipe } from '../csg/evaluate'
+
+export interface SolidRequest {
+  recipe: PartRecipe
+}
+
+export type SolidResponse = { position: Float32Array; normal: Float32Array } | { error: string }
+
+self.onmessage = (event: MessageEvent<SolidRequest>) => {
+  try {
+    const geometry = evaluateRecipe(event.data.recipe)
+    const position = geometry.getAttribute('position').array as Float32Array
+    const normal = geometry.getAttribute('normal').array as Float32Array
+    const response: SolidResponse = { position, normal }
+    self.postMessage(response, { transfer: [position.buffer, normal.buffer] })
+  } catch (err) {
+    const response: SolidResponse = { error: err instanceof Error ? err.message : String(err) }
+    self.postMessage(response)
+  }
+}
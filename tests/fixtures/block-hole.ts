@@ -54,18 +54,18 @@ export function createBlockHoleFixture(): PartRecipe {
 }
 
 // Expected verification counts for testing
-// Note: Counts are for triangulated mesh edges, not logical drawing edges
-// Cylinder with 32 segments generates many edges per visible arc
+// Note: Counts are for logical drawing edges (merged lines, native circles)
+// after ray-cast hidden-line removal; the hole runs along Y
 export const EXPECTED_COUNTS = {
   visibleEdges: {
-    front: { min: 60, max: 100 }, // Box corners + cylinder arc segments
-    top: { min: 60, max: 100 },   // Box edges + full cylinder circle
-    right: { min: 60, max: 100 }  // Box edges + cylinder arc segments
+    front: { min: 4, max: 4 }, // Block outline
+    top: { min: 5, max: 5 },   // Block outline + hole circle
+    right: { min: 4, max: 4 }  // Block outline
   },
   hiddenEdges: {
-    front: { min: 5, max: 50 },   // Back half of hole
-    top: { min: 0, max: 10 },     // Few/no hidden edges in top view
-    right: { min: 5, max: 50 }    // Back half of hole 
+    front: { min: 2, max: 2 }, // Hole walls
+    top: { min: 0, max: 0 },   // Hole seen end-on
+    right: { min: 2, max: 2 }  // Hole walls
   }
 }
 
@@ -0,0 +1,59 @@
+/**
+ * Helpers shared by the test scripts
+ *
+ * - expect(): logs a check and throws when it fails; each script catches
+ *   the error at its entry point and exits with status 1
+ * - recipeWith(), plateWith(), drill(): recipes built on the block-hole
+ *   fixture, so parts differ from it only in what a test is about
+ */
+
+import type { PartRecipe, Primitive } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+
+/**
+ * Log a check with ✓ or ✗ and throw when it fails
+ */
+export function expect(condition: boolean, message: string): void {
+  console.log(`  ${condition ? '✓' : '✗'} ${message}`)
+  if (!condition) throw new Error(message)
+}
+
+/**
+ * Block-hole fixture with the given fields replaced (primitives, operations,
+ * size, material, metadata)
+ */
+export function recipeWith(fields: Partial<PartRecipe>): PartRecipe {
+  return { ...createBlockHoleFixture(), ...fields }
+}
+
+/**
+ * Box centred on the origin (id p0, 100 × 60 × 20 unless sized), joined by
+ * the bodies and then cut by the tools, each operation applied to the result
+ * of the last
+ */
+export function plateWith(
+  tools: Primitive[],
+  { size = { x: 100, y: 60, z: 20 }, bodies = [] }: { size?: { x: number; y: number; z: number }; bodies?: Primitive[] } = {}
+): PartRecipe {
+  return recipeWith({
+    bounding_mm: size,
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: size.x, depth: size.y, height: size.z }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      ...bodies,
+      ...tools
+    ],
+    operations: [...bodies, ...tools].map((primitive, i) => ({
+      id: `op${i + 1}`,
+      op: i < bodies.length ? 'union' : 'subtract',
+      targetId: i === 0 ? 'p0' : `op${i}`,
+      toolId: primitive.id
+    }))
+  })
+}
+
+/**
+ * Hole through a plate up to 30 mm thick, along Z at (x, y)
+ */
+export function drill(id: string, x: number, y: number, radius = 4): Primitive {
+  return { id, kind: 'cylinder', params: { radius, height: 30, axis: 'y' }, transform: { position: { x, y, z: 0 } } }
+}
@@ -0,0 +1,88 @@
+/**
+ * Test angular dimensions and chamfer notes
+ *
+ * Validates:
+ * - An inclined hole gets its angle to the nearest part axis, in the view showing it
+ * - A compound angle is given in two views
+ * - Countersinks and tapers get their included angle once per pattern
+ * - Chamfers get 'C2' when both faces lose the same length, '4 × 30°' otherwise
+ * - The drawing shows the angles and notes
+ */
+
+import { generateDimensions, type AngularDimension, type ChamferNote } from '../src/drawing/dimensions'
+import { findChamferFeatures } from '../src/drawing/angles'
+import { generateDrawing } from '../src/drawing/svg'
+import { generateChamferFeatures } from '../src/generators/features'
+import type { PartRecipe, Primitive } from '../src/types/part'
+import { expect, plateWith } from './helpers'
+
+// Cylinder through the plate, turned from local Y by the given rotation (degrees)
+const inclined = (id: string, x: number, rotation: { x: number; y: number; z: number }): Primitive => ({
+  id, kind: 'cylinder', params: { radius: 4, height: 60 }, transform: { position: { x, y: 0, z: 0 }, rotation }
+})
+
+// Countersink (90°, Ø16) in the top face
+const countersink = (id: string, x: number): Primitive => ({
+  id, kind: 'cone', params: { radiusTop: 8, radiusBottom: 4, height: 4, axis: 'y' }, transform: { position: { x, y: 0, z: 8 } }
+})
+
+const angular = (recipe: PartRecipe) => generateDimensions(recipe).filter((d): d is AngularDimension => d.type === 'angular')
+const chamferNotes = (recipe: PartRecipe) => generateDimensions(recipe).filter((d): d is ChamferNote => d.type === 'chamfer')
+
+function testAngularDimensions() {
+  console.log('Testing angular dimensions\n' + '='.repeat(50))
+
+  // Test 1: a hole tilted 30° from the plate normal is dimensioned in the view showing the tilt
+  const [tilt, ...others] = angular(plateWith([inclined('h', 0, { x: 60, y: 0, z: 0 })]))
+  expect(tilt?.text === '30°' && others.length === 0, `one 30° angle (got ${[tilt, ...others].map(d => d?.text).join()})`)
+  expect(tilt.view === 'right', `in the view seeing the axis at true length (got ${tilt.view})`)
+  const arms = tilt.extensionLines.map(line => Math.atan2(line.end.y - tilt.vertex.y, line.end.x - tilt.vertex.x))
+  expect(Math.abs(Math.abs(arms[1] - arms[0]) - Math.PI / 6) < 1e-9, 'extension lines run along the two lines measured')
+  expect(tilt.arrowheads.every(arrow => Math.abs(Math.hypot(arrow.position.x - tilt.vertex.x, arrow.position.y - tilt.vertex.y) - tilt.radius) < 1e-9),
+    'arrowheads sit on the arc')
+
+  // Test 2: a compound angle is given in two views
+  const compound = angular(plateWith([inclined('h', 0, { x: 60, y: 0, z: 20 })]))
+  expect(compound.length === 2 && new Set(compound.map(d => d.view)).size === 2, `compound angle in two views (got ${compound.map(d => `${d.view} ${d.text}`).join(', ')})`)
+
+  // Test 3: a countersunk pattern gets its included angle once, from the side
+  const countersunk = angular(plateWith([countersink('cs1', -30), countersink('cs2', 30)]))
+  expect(countersunk.length === 1 && countersunk[0].text === '90°', `one 90° countersink angle (got ${countersunk.map(d => d.text).join()})`)
+  expect(countersunk[0].view !== 'front', 'countersink angle seen from the side')
+  const opening = (countersunk[0].startAngle + countersunk[0].endAngle) / 2
+  expect(Math.abs(opening + Math.PI / 2) < 1e-9, 'arc opens out of the top face (down in the top view)')
+
+  // Test 4: a tapered boss gets its included angle
+  const boss: Primitive = { id: 'boss', kind: 'cone', params: { radiusTop: 5, radiusBottom: 10, height: 10, axis: 'y' }, transform: { position: { x: 0, y: 0, z: 15 } } }
+  const taper = angular(plateWith([], { bodies: [boss] }))
+  expect(taper.length === 1 && taper[0].text === '53°', `taper included angle (got ${taper.map(d => d.text).join()})`)
+
+  // Test 5: generated chamfers are noted once as C2
+  const { primitives, operations } = generateChamferFeatures([{ x: 1, y: 1 }, { x: -1, y: 1 }], 2, { width: 100, depth: 60, height: 20 }, 1, 1, 'p0')
+  const chamfered: PartRecipe = { ...plateWith([]), primitives: [...plateWith([]).primitives, ...primitives], operations }
+  expect(findChamferFeatures(chamfered).every(chamfer => chamfer.legs.every(leg => Math.abs(leg - 2) < 1e-6)), 'generated chamfers cut 2 mm off both faces')
+  const [note, ...moreNotes] = chamferNotes(chamfered)
+  expect(note?.text === '2× C2' && moreNotes.length === 0 && note.view === 'front', `identical chamfers noted once (got ${note?.text} in ${note?.view})`)
+  expect(note.leaderLine.end.x > 50 || note.leaderLine.end.y > 30, 'leader runs out past the corner')
+
+  // Test 6: an unequal chamfer gives its length and angle
+  const bevel: Primitive = { id: 'bevel', kind: 'box', params: { width: 20, depth: 10, height: 30 }, transform: { position: { x: 50.5, y: 33.1747, z: 0 }, rotation: { x: 0, y: 0, z: -30 } } }
+  const [unequal] = chamferNotes(plateWith([bevel]))
+  expect(unequal?.text === '4 × 30°', `unequal chamfer (got ${unequal?.text})`)
+  expect(chamferNotes(plateWith([{ ...bevel, transform: { position: { x: 45, y: 25, z: 0 }, rotation: { x: 0, y: 0, z: 45 } } }])).length === 0,
+    'a tool clear of the corner is no chamfer')
+
+  // Test 7: the drawing shows the angles and notes
+  const svg = generateDrawing(plateWith([inclined('h', 0, { x: 60, y: 0, z: 0 }), ...primitives.map(p => ({ ...p, id: `c${p.id}` }))]), undefined, { frontView: '+z' })
+  expect(/class="angular-dimension" data-id="angle-h-right"/.test(svg) && svg.includes('30°'), 'angular dimension drawn')
+  expect(/class="chamfer-note" data-id="chamfer-cp1" data-count="2"/.test(svg) && svg.includes('2× C2'), 'chamfer note drawn')
+
+  console.log('\n✅ Angular dimensions test passed!')
+}
+
+try {
+  testAngularDimensions()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,94 @@
+/**
+ * Test auxiliary views of inclined features
+ *
+ * Validates:
+ * - Holes on inclined axes get a view looking down the axis; holes along
+ *   the part axes do not
+ * - Parallel holes share one view, projected from the principal view that
+ *   shows the axis at its true length
+ * - The view is turned so that its projection lines run from the parent view
+ * - The view is placed in projection position when the projection line
+ *   reaches the free cell, otherwise a lettered arrow shows where it is seen from
+ */
+
+import { Matrix4, Vector3 } from 'three'
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { selectAuxiliaryViews, type AuxiliaryParentView } from '../src/drawing/auxiliary'
+import { generateBeginnerPartRecipe } from '../src/generators/beginner'
+import type { Primitive } from '../src/types/part'
+import { expect, plateWith } from './helpers'
+
+// Orthographic view rotations, as used by generateDrawing
+const VIEW_MATRICES: Record<AuxiliaryParentView, Matrix4> = {
+  front: new Matrix4(),
+  top: new Matrix4().makeRotationX(Math.PI / 2),
+  right: new Matrix4().makeRotationY(-Math.PI / 2)
+}
+
+// Free cell below the principal views
+const TOWARDS = { front: { x: 0, y: -1 }, top: { x: 0, y: -1 }, right: { x: 0, y: -1 } }
+
+// Hole along Y, tilted about X by the given angle (degrees)
+const tiltedHole = (id: string, x: number, angle: number): Primitive => ({
+  id, kind: 'cylinder', params: { radius: 5, height: 200 }, transform: { position: { x, y: 0, z: 0 }, rotation: { x: angle, y: 0, z: 0 } }
+})
+
+function testAuxiliaryViews() {
+  console.log('Testing auxiliary views\n' + '='.repeat(50))
+
+  // Test 1: inclined holes are found and parallel ones share a view
+  const plate = plateWith([tiltedHole('h1', -15, 15), tiltedHole('h2', 15, 15), tiltedHole('h3', 0, 0)], { size: { x: 70, y: 70, z: 8 } })
+  const views = selectAuxiliaryViews(plate, VIEW_MATRICES, 'first-angle', TOWARDS)
+  expect(views.length === 1 && views[0].primitiveIds.join() === 'h1,h2', 'parallel inclined holes share one view; the straight hole needs none')
+  const [view] = views
+  expect(view.parentView === 'right', `projected from the view showing the axis at true length (got ${view.parentView})`)
+  const axis = new Vector3(0, 1, 0).applyAxisAngle(new Vector3(1, 0, 0), Math.PI / 12)
+  expect(Math.abs(Math.abs(view.direction.dot(axis)) - 1) < 1e-9, 'the view looks down the hole axis')
+  const towardViewer = view.direction.clone().applyMatrix4(view.matrix)
+  expect(Math.abs(towardViewer.z - 1) < 1e-9, 'the hole axis points at the viewer, so the hole keeps its true size')
+  expect(view.placement.y < 0, 'the view is seen from the end that places it towards the free cell')
+
+  // Test 2: turned by the placement angle, points line up along the projection lines
+  for (const projection of ['first-angle', 'third-angle'] as const) {
+    const [{ matrix, placement }] = selectAuxiliaryViews(plate, VIEW_MATRICES, projection, TOWARDS)
+    const turn = Math.atan2(placement.x, placement.y)
+    const across = { x: -placement.y, y: placement.x }
+    const misaligned = [new Vector3(35, 35, 4), new Vector3(-35, 10, -4), new Vector3(12, -35, 4)].some(point => {
+      const inParent = point.clone().applyMatrix4(VIEW_MATRICES.right)
+      const inView = point.clone().applyMatrix4(matrix)
+      const turned = { x: inView.x * Math.cos(turn) + inView.y * Math.sin(turn), y: -inView.x * Math.sin(turn) + inView.y * Math.cos(turn) }
+      return Math.abs((turned.x - inParent.x) * across.x + (turned.y - inParent.y) * across.y) > 1e-9
+    })
+    expect(!misaligned, `${projection}: projection lines run from the parent view to the auxiliary view`)
+  }
+
+  // Test 3: in projection position when the projection line reaches the free cell
+  for (const projection of ['first-angle', 'third-angle'] as const) {
+    const svg = generateDrawing(plate, evaluateRecipe(plate), { frontView: '+z', projection, maxSections: 0 })
+    expect(/class="view auxiliary" data-id="A" data-parent="right" data-aligned="true"/.test(svg) && !svg.includes('class="viewing-arrow"'),
+      `${projection}: aligned with the right view, no arrow needed`)
+    expect(/rotate\((-15|165)\.000\)/.test(svg) && svg.includes('Auxiliary View'), `${projection}: turned 15° off the projection direction`)
+    expect((svg.match(/class="center-line"/g) ?? []).length > 0, `${projection}: centre lines mark the holes`)
+  }
+
+  // Test 4: otherwise anywhere in the free cell, with a lettered viewing-direction arrow
+  const block = plateWith([tiltedHole('h', 0, 30)], { size: { x: 100, y: 60, z: 40 } })
+  const svg = generateDrawing(block, evaluateRecipe(block), { frontView: '+z' })
+  expect(/class="view auxiliary" data-id="B"[^>]*data-aligned="false"/.test(svg), 'not aligned when the view does not fit on the projection line')
+  expect(/class="viewing-arrow" data-id="B"/.test(svg) && /VIEW B/.test(svg), 'arrow and label name the view after section A-A')
+
+  // Test 5: the beginner generator's angled holes get an auxiliary view
+  const angled = Array.from({ length: 200 }, (_, i) => generateBeginnerPartRecipe(i * 7919 + 1)).find(r => r.name === 'Block with Angled Holes')
+  expect(angled !== undefined, 'generator produces a block with angled holes')
+  expect(selectAuxiliaryViews(angled!, VIEW_MATRICES, 'first-angle', TOWARDS).length === 1, 'its holes get an auxiliary view')
+
+  console.log('\n✅ Auxiliary views test passed!')
+}
+
+try {
+  testAuxiliaryViews()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,100 @@
+/**
+ * Test interrupted views of long parts
+ *
+ * Validates:
+ * - The uniform stretch of a long part is found along its longest axis
+ * - Short parts and parts without a long uniform stretch are not broken
+ * - Coordinates and annotations close in towards the break
+ * - The drawing is broken at a larger scale, with break lines, in the views
+ *   seeing the length, and keeps the true length in its dimensions
+ */
+
+import { tryEvaluateRecipe } from '../src/csg/evaluate'
+import { breakCoordinate, breakPoints, findPartBreak, type ViewBreak } from '../src/drawing/breaks'
+import { orientForDrawing } from '../src/drawing/orientation'
+import { computeViewEdges, ORTHOGRAPHIC_MATRICES, type OrthographicView, type ViewEdges } from '../src/drawing/projection'
+import { generateDrawing } from '../src/drawing/svg'
+import type { PartRecipe } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect, recipeWith } from './helpers'
+
+// Shaft Ø40 along X with a Ø8 cross hole near each end
+function shaft(length: number): PartRecipe {
+  const end = length / 2 - 30
+  return recipeWith({
+    bounding_mm: { x: length, y: 40, z: 40 },
+    primitives: [
+      { id: 's', kind: 'cylinder', params: { radius: 20, height: length, axis: 'x' }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'h1', kind: 'cylinder', params: { radius: 4, height: 60, axis: 'y' }, transform: { position: { x: -end, y: 0, z: 0 } } },
+      { id: 'h2', kind: 'cylinder', params: { radius: 4, height: 60, axis: 'y' }, transform: { position: { x: end, y: 0, z: 0 } } }
+    ],
+    operations: [
+      { id: 'o1', op: 'subtract', targetId: 's', toolId: 'h1' },
+      { id: 'o2', op: 'subtract', targetId: 's', toolId: 'h2' }
+    ]
+  })
+}
+
+// Bar 500 × 40 × 20 with holes every 40 mm along its whole length
+const pattern = recipeWith({
+  bounding_mm: { x: 500, y: 40, z: 20 },
+  primitives: [
+    { id: 'p0', kind: 'box', params: { width: 500, depth: 40, height: 20 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+    ...Array.from({ length: 12 }, (_, i) => ({
+      id: `h${i}`, kind: 'cylinder' as const, params: { radius: 4, height: 30, axis: 'y' as const }, transform: { position: { x: -220 + 40 * i, y: 0, z: 0 } }
+    }))
+  ],
+  operations: Array.from({ length: 12 }, (_, i) => ({ id: `o${i}`, op: 'subtract' as const, targetId: 'p0', toolId: `h${i}` }))
+})
+
+function edgesOf(recipe: PartRecipe): Record<OrthographicView, ViewEdges> {
+  const { solid, recipeEdges } = orientForDrawing(recipe, tryEvaluateRecipe(recipe), '+z')
+  return Object.fromEntries((['front', 'top', 'right'] as OrthographicView[]).map(view =>
+    [view, computeViewEdges(ORTHOGRAPHIC_MATRICES[view], solid!, recipeEdges)])) as Record<OrthographicView, ViewEdges>
+}
+
+const scaleOf = (svg: string) => svg.match(/data-field="scale">1:(\d+)/)?.[1]
+
+function testBreaks() {
+  console.log('Testing interrupted views\n' + '='.repeat(50))
+
+  // Test 1: the uniform stretch between the cross holes
+  const found = findPartBreak(edgesOf(shaft(600)))
+  expect(found?.axis === 'x' && found.from < -150 && found.to > 150 && found.from > -266 && found.to < 266,
+    `shaft broken along X between its cross holes (got ${found?.axis} ${found?.from.toFixed(1)}..${found?.to.toFixed(1)})`)
+  expect(findPartBreak(edgesOf(shaft(100))) === undefined, 'short shaft not broken')
+  expect(findPartBreak(edgesOf(pattern)) === undefined, 'bar with holes all along not broken')
+  expect(findPartBreak(edgesOf(createBlockHoleFixture())) === undefined, 'block not broken')
+
+  // Test 2: coordinates close in towards the break
+  const brk: ViewBreak = { direction: 'x', from: -100, to: 100, gap: 10, across: { min: -20, max: 20 } }
+  expect(breakCoordinate(-150, brk) === -55 && breakCoordinate(150, brk) === 55 && breakCoordinate(0, brk) === 0,
+    'ends move in by half the shortening, keeping the centre')
+  expect(breakCoordinate(-100, brk) === -5 && breakCoordinate(100, brk) === 5, 'ends of the stretch meet the break lines')
+  const moved = breakPoints({ view: 'front', text: '600', start: { x: -150, y: 3 }, points: [{ x: 150, y: -3 }] }, brk)
+  expect(moved.start.x === -55 && moved.start.y === 3 && moved.points[0].x === 55 && moved.text === '600', 'annotation points moved along the break only')
+
+  // Test 3: the drawing
+  const svg = generateDrawing(shaft(600), undefined, { frontView: '+z' })
+  const again = generateDrawing(shaft(600), undefined, { frontView: '+z' })
+  expect(Number(scaleOf(svg)) < 4, `broken shaft drawn larger than 1:4 (got 1:${scaleOf(svg)})`)
+  const views = [...svg.matchAll(/<g class="view (\w+)">[\s\S]*?(?=<g class="view |$)/g)]
+  const brokenIn = views.filter(([content]) => content.includes('class="broken-view"')).map(([, name]) => name)
+  expect(brokenIn.join() === 'front,top', `front and top views broken, right view whole (got ${brokenIn.join()})`)
+  expect((svg.match(/class="break-line"/g) ?? []).length === 4, 'two break lines in each broken view')
+  expect(svg.includes('>600</text>') && again === svg, 'true length dimensioned, drawing repeatable')
+  expect(svg.includes('Ø8'), 'cross holes still called out')
+
+  const plain = generateDrawing(createBlockHoleFixture())
+  const bar = generateDrawing(pattern, undefined, { frontView: '+z' })
+  expect(!plain.includes('broken-view') && !bar.includes('broken-view'), 'nothing broken without a long uniform stretch')
+
+  console.log('\n✅ Interrupted view test passed!')
+}
+
+try {
+  testBreaks()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
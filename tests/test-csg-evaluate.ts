@@ -0,0 +1,126 @@
+/**
+ * Test headless CSG evaluation of part recipes
+ *
+ * Validates:
+ * - Subtract/intersect results match analytic volumes
+ * - Expert recipes (nested trees, intersect ops) evaluate in Node
+ * - Unknown ids are rejected
+ * - Evaluated geometry slices into outer + inner section contours
+ * - Generated recipes of every difficulty evaluate across seeds
+ */
+
+import type { BufferGeometry } from 'three'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { generateBeginnerPartRecipe } from '../src/generators/beginner'
+import { generateIntermediatePartRecipe } from '../src/generators/intermediate'
+import { generateExpertPartRecipe } from '../src/generators/expert'
+import { sliceGeometryCSG, DEFAULT_SLICING_OPTIONS } from '../src/drawing/slicing'
+import type { CuttingPlane } from '../src/drawing/sections'
+import type { PartRecipe } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect } from './helpers'
+
+/** Signed volume of a closed triangle soup (divergence theorem) */
+function meshVolume(geometry: BufferGeometry): number {
+  const pos = geometry.attributes.position
+  let volume = 0
+  for (let i = 0; i < pos.count; i += 3) {
+    const ax = pos.getX(i), ay = pos.getY(i), az = pos.getZ(i)
+    const bx = pos.getX(i + 1), by = pos.getY(i + 1), bz = pos.getZ(i + 1)
+    const cx = pos.getX(i + 2), cy = pos.getY(i + 2), cz = pos.getZ(i + 2)
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6
+  }
+  return volume
+}
+
+function expectClose(label: string, actual: number, expected: number, relTol = 0.01) {
+  const ok = Math.abs(actual - expected) <= Math.abs(expected) * relTol
+  console.log(`  ${ok ? '✓' : '✗'} ${label}: ${actual.toFixed(0)} (expected ≈ ${expected.toFixed(0)})`)
+  if (!ok) throw new Error(`${label} out of tolerance`)
+}
+
+function testEvaluateRecipe() {
+  console.log('Testing headless CSG evaluation\n' + '='.repeat(50))
+
+  // Test 1: block 100×50×25 minus Ø20 through-hole (32-sided, runs along Y through the 50 depth)
+  const blockHole = createBlockHoleFixture()
+  const solid = evaluateRecipe(blockHole)
+  const holeArea = 0.5 * 32 * 10 * 10 * Math.sin((2 * Math.PI) / 32)
+  expectClose('block-hole volume', meshVolume(solid), 100 * 50 * 25 - holeArea * 50)
+
+  // Test 2: intersect keeps only the overlap (box 40³ ∩ box 40³ shifted 20 in X)
+  const overlap: PartRecipe = {
+    ...blockHole,
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 40, depth: 40, height: 40 } },
+      { id: 'p1', kind: 'box', params: { width: 40, depth: 40, height: 40 }, transform: { position: { x: 20, y: 0, z: 0 } } }
+    ],
+    operations: [{ id: 'op1', op: 'intersect', targetId: 'p0', toolId: 'p1' }]
+  }
+  expectClose('intersect volume', meshVolume(evaluateRecipe(overlap)), 20 * 40 * 40)
+
+  // Test 3: unknown references throw
+  const broken: PartRecipe = {
+    ...overlap,
+    operations: [{ id: 'op1', op: 'subtract', targetId: 'p0', toolId: 'missing' }]
+  }
+  let threw = false
+  try {
+    evaluateRecipe(broken)
+  } catch {
+    threw = true
+  }
+  if (!threw) throw new Error('evaluateRecipe accepted an unknown tool id')
+  console.log('  ✓ unknown tool id rejected')
+
+  // Test 4: expert recipes evaluate to a non-empty solid
+  for (let i = 0; i < 4; i++) {
+    const recipe = generateExpertPartRecipe(700000 + i * 104729)
+    const volume = meshVolume(evaluateRecipe(recipe))
+    if (!(volume > 0)) throw new Error(`${recipe.name} evaluated to volume ${volume}`)
+    console.log(`  ✓ ${recipe.name}: ${volume.toFixed(0)} mm³`)
+  }
+
+  // Test 5: section through the evaluated block shows the hole
+  const plane: CuttingPlane = {
+    id: 'A',
+    type: 'full',
+    position: { x: 0, y: 0, z: 0 },
+    normal: { x: 1, y: 0, z: 0 },
+    viewDirection: { x: 1, y: 0, z: 0 },
+    label: 'SECTION A-A',
+    parentView: 'top'
+  }
+  const contours = sliceGeometryCSG(solid, plane, DEFAULT_SLICING_OPTIONS)
+  const inner = contours.filter(c => !c.isOuter).length
+  console.log(`  Section A-A: ${contours.length} contour(s), ${inner} inner`)
+  if (contours.length < 2) throw new Error('Section through evaluated block-hole should cut the hole')
+
+  // Test 6: generated recipes evaluate across seeds, naming the operation when they do not
+  const generators = [
+    { name: 'beginner', generate: generateBeginnerPartRecipe, count: 60 },
+    { name: 'intermediate', generate: generateIntermediatePartRecipe, count: 20 },
+    { name: 'expert', generate: generateExpertPartRecipe, count: 12 }
+  ]
+  for (const { name, generate, count } of generators) {
+    const failed: string[] = []
+    for (let i = 0; i < count; i++) {
+      const recipe = generate(1000 + i * 7919)
+      try {
+        if (!(meshVolume(evaluateRecipe(recipe)) > 0)) failed.push(`${recipe.seed} ${recipe.name}: empty`)
+      } catch (error) {
+        failed.push(`${recipe.seed} ${recipe.name}: ${(error as Error).message}`)
+      }
+    }
+    expect(failed.length === 0, `${count} ${name} recipes evaluate${failed.length ? ` (${failed.join('; ')})` : ''}`)
+  }
+
+  console.log('\n✅ CSG evaluation test passed!')
+}
+
+try {
+  testEvaluateRecipe()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,104 @@
+/**
+ * Test native arcs and circles through the drawing pipeline
+ *
+ * Validates:
+ * - Hole rims facing a view are a single <circle> per view, not facets
+ * - Section outlines write curved runs as SVG arcs
+ * - DXF export writes CIRCLE entities (snappable centres) and ARC entities
+ */
+
+import { Matrix4, Vector3 } from 'three'
+import { generateDrawing } from '../src/drawing/svg'
+import { computeViewEdges } from '../src/drawing/projection'
+import { contourToPathData } from '../src/drawing/sectionsSVG'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { generateDXF, generateDXFFromRecipe } from '../src/exporters/dxf'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect } from './helpers'
+
+// Group code → value pairs of every entity of the given type
+function entities(dxf: string, type: string): Map<string, string>[] {
+  const lines = dxf.split('\n')
+  const found: Map<string, string>[] = []
+  for (let i = 0; i < lines.length - 1; i += 2) {
+    if (lines[i] !== '0' || lines[i + 1] !== type) continue
+    const fields = new Map<string, string>()
+    for (let j = i + 2; j < lines.length - 1 && lines[j] !== '0'; j += 2) fields.set(lines[j], lines[j + 1])
+    found.push(fields)
+  }
+  return found
+}
+
+function testCurves() {
+  console.log('Testing native arcs and circles\n' + '='.repeat(50))
+
+  const recipe = createBlockHoleFixture()
+  const solid = evaluateRecipe(recipe)
+
+  // Test 1: the view looking down the hole sees one Ø20 circle, centred on the hole axis
+  const topView = computeViewEdges(new Matrix4().makeRotationX(-Math.PI / 2), solid, [])
+  const circles = [...topView.visible, ...topView.hidden].filter(c => c.kind === 'circle')
+  expect(circles.length === 1, 'coincident front and back rims give one circle')
+  expect(circles[0]?.kind === 'circle' && Math.abs(circles[0].radius - 10) < 0.01 && circles[0].center.length() < 0.01,
+    'circle has radius 10 at the hole centre')
+
+  // Test 2: the SVG drawing uses <circle> for the rim
+  const svg = generateDrawing(recipe, solid)
+  const svgCircles = svg.match(/<circle [^>]*class="(visible|hidden)-edge"/g) || []
+  expect(svgCircles.length === 1, 'SVG draws the hole as a native <circle>')
+
+  // Test 3: section outline with a rounded corner uses an arc segment
+  const quarter = Array.from({ length: 9 }, (_, i) => {
+    const a = (i / 8) * (Math.PI / 2)
+    return { x: 5 * Math.cos(a), y: 5 * Math.sin(a) }
+  })
+  const pathData = contourToPathData([...quarter, { x: 0, y: 20 }, { x: 20, y: 20 }, { x: 20, y: 0 }], 1)
+  expect((pathData.match(/ A /g) || []).length === 1 && (pathData.match(/ L /g) || []).length === 4,
+    `rounded outline path uses one arc: ${pathData}`)
+
+  const ring = Array.from({ length: 32 }, (_, i) => ({ x: 10 * Math.cos(i * Math.PI / 16), y: 10 * Math.sin(i * Math.PI / 16) }))
+  expect(!contourToPathData(ring, 2).includes(' L '), 'circular section contour is written as arcs only')
+
+  // Test 4: DXF export writes the hole as a CIRCLE entity of radius 10 at the origin
+  const dxf = generateDXFFromRecipe({ recipe, geometry: solid })
+  const dxfCircles = entities(dxf, 'CIRCLE')
+  console.log(`  DXF: ${entities(dxf, 'LINE').length} LINE, ${dxfCircles.length} CIRCLE`)
+  expect(dxfCircles.length === 1, 'DXF contains one CIRCLE for the hole')
+  expect(dxfCircles[0].get('40') === '10.000' && dxfCircles[0].get('10') === '0.000',
+    'CIRCLE has radius 10 and snaps to the hole centre')
+  expect(dxfCircles[0].get('8') === 'OUTLINE', 'CIRCLE is on the OUTLINE layer')
+
+  // Test 5: arcs are written counter-clockwise with start/end angles in degrees
+  const arcDXF = generateDXF({
+    recipe,
+    edges: {
+      front: {
+        visible: [{
+          kind: 'arc',
+          start: new Vector3(5, 0, 0),
+          end: new Vector3(0, 5, 0),
+          center: new Vector3(0, 0, 0),
+          normal: new Vector3(0, 0, 1),
+          radius: 5,
+          sweep: Math.PI / 2
+        }],
+        hidden: []
+      },
+      top: { visible: [], hidden: [] },
+      right: { visible: [], hidden: [] }
+    },
+    dimensions: []
+  })
+  const arcs = entities(arcDXF, 'ARC')
+  expect(arcs.length === 1 && arcs[0].get('50') === '0.000' && arcs[0].get('51') === '90.000',
+    'quarter arc written as ARC from 0° to 90°')
+
+  console.log('\n✅ Curve output test passed!')
+}
+
+try {
+  testCurves()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,70 @@
+/**
+ * Test feature-aware cutting plane selection
+ *
+ * Validates:
+ * - The plane contains the hole axis of the block-hole fixture
+ * - Off-centre holes: the plane is offset to pass through as many as possible,
+ *   and the section really cuts them
+ * - Counterbores (coaxial tools) count as features on the same plane
+ * - No section when the subtractions only break the outline
+ * - The cutting-plane line is drawn at the plane's offset
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { createSectionView, findSectionFeatures, selectCuttingPlane } from '../src/drawing/sections'
+import { renderCuttingPlaneIndicator } from '../src/drawing/sectionsSVG'
+import type { Primitive } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect, plateWith } from './helpers'
+
+// Block 100 × 50 × 25 with the given subtraction tools
+const blockWith = (tools: Primitive[]) => plateWith(tools, { size: { x: 100, y: 50, z: 25 } })
+
+// Vertical hole (along Z) at (x, y)
+const hole = (id: string, x: number, y: number, radius = 4, height = 50, z = 0): Primitive => ({
+  id, kind: 'cylinder', params: { radius, height, axis: 'y' }, transform: { position: { x, y, z } }
+})
+
+function testCuttingPlane() {
+  console.log('Testing cutting plane selection\n' + '='.repeat(50))
+
+  // Test 1: block-hole, the hole runs along Y through the origin
+  const plane = selectCuttingPlane(createBlockHoleFixture())
+  expect(!!plane && plane.normal.y === 0 && plane.position.x === 0 && plane.position.z === 0,
+    'plane contains the hole axis')
+
+  // Test 2: two holes on y = 10, one on y = -15
+  const holes = blockWith([hole('h1', -30, 10), hole('h2', 30, 10), hole('h3', 0, -15)])
+  const offset = selectCuttingPlane(holes)
+  expect(offset?.normal.y === 1 && offset.position.y === 10, `plane offset to y = 10 through two holes (got ${JSON.stringify(offset?.position)})`)
+  expect(offset?.parentView === 'front', 'Y plane is shown in the front view')
+  const section = createSectionView(holes, offset, { x: 0, y: 0 }, 1, evaluateRecipe(holes))
+  const outer = section.contours.filter(c => c.isOuter).length
+  expect(outer === 3, `section cuts through both holes: 3 separate material regions (got ${outer})`)
+
+  // Test 3: counterbore, Ø8 through hole with a Ø14 × 6 bore on top
+  const counterbore = blockWith([hole('h', 20, 5), hole('cb', 20, 5, 7, 6, 10)])
+  const cbPlane = selectCuttingPlane(counterbore)
+  expect(findSectionFeatures(counterbore).length === 2, 'hole and bore are both features')
+  expect(!!cbPlane && (cbPlane.position.x === 20 || cbPlane.position.y === 5), 'plane passes through the counterbore axis')
+
+  // Test 4: a corner notch only changes the outline, so there is no section
+  const notched = blockWith([{ id: 'n', kind: 'box', params: { width: 20, depth: 60, height: 10 }, transform: { position: { x: 45, y: 0, z: 10 } } }])
+  expect(findSectionFeatures(notched).length === 0 && !selectCuttingPlane(notched), 'notch reveals nothing: no cutting plane')
+  const svg = generateDrawing(notched)
+  expect(!svg.includes('class="section-view"') && !svg.includes('class="cutting-plane"'), 'drawing skips the section')
+
+  // Test 5: the cutting-plane line sits at the offset (SVG y down, 2 units per mm)
+  const indicator = renderCuttingPlaneIndicator(offset!, { minX: -50, maxX: 50, minY: -25, maxY: 25 }, 2)
+  expect(/<line x1="-100.00" y1="-20.00" x2="100.00" y2="-20.00"/.test(indicator), 'line drawn 10 mm above the view centre')
+
+  console.log('\n✅ Cutting plane test passed!')
+}
+
+try {
+  testCuttingPlane()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,101 @@
+/**
+ * Test detail views of small features
+ *
+ * Validates:
+ * - Countersinks, chamfers and fillets too small at the sheet scale get a detail
+ * - Each detail is circled in the view showing the feature's profile
+ * - Identical features are shown once; overlapping callouts merge into one
+ * - Details are lettered after the sections and drawn enlarged at a standard scale
+ * - Features large enough at the sheet scale get no detail
+ */
+
+import { Matrix4, Vector3 } from 'three'
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { clipViewEdgesToCircle, selectDetailViews, type DetailParentView } from '../src/drawing/details'
+import type { Primitive } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect, plateWith } from './helpers'
+
+// Orthographic view rotations, as used by generateDrawing
+const VIEW_MATRICES: Record<DetailParentView, Matrix4> = {
+  front: new Matrix4(),
+  top: new Matrix4().makeRotationX(Math.PI / 2),
+  right: new Matrix4().makeRotationY(-Math.PI / 2)
+}
+
+// Block 200 × 100 × 40 with the given subtraction tools
+const blockWith = (tools: Primitive[]) => plateWith(tools, { size: { x: 200, y: 100, z: 40 } })
+
+// 2 mm chamfer along the vertical edge at (x, y)
+const chamfer = (id: string, x: number, y: number): Primitive => ({
+  id, kind: 'box', params: { width: 4, depth: 4, height: 60 }, transform: { position: { x, y, z: 0 }, rotation: { x: 0, y: 0, z: 45 } }
+})
+
+// Radius 3 tool rounding the vertical edge at (-100, -50)
+const fillet: Primitive = {
+  id: 'f', kind: 'cylinder', params: { radius: 3, height: 60, axis: 'y' }, transform: { position: { x: -98, y: -48, z: 0 } }
+}
+
+// Countersink 2 mm deep in the top face at (40, 0)
+const countersink: Primitive = {
+  id: 'cs', kind: 'cone', params: { radiusTop: 5, radiusBottom: 3, height: 2, axis: 'y' }, transform: { position: { x: 40, y: 0, z: 19 } }
+}
+
+function testDetailViews() {
+  console.log('Testing detail views\n' + '='.repeat(50))
+
+  // Test 1: each kind of small feature is found and circled in its profile view
+  const recipe = blockWith([chamfer('c1', 100, 50), fillet, countersink])
+  const details = selectDetailViews(recipe, 0.5, VIEW_MATRICES, 0, 3)
+  expect(details.length === 3, `chamfer, fillet and countersink get details (got ${details.length})`)
+  expect(details.map(d => d.parentView).join() === 'front,front,top',
+    `edges along Z are circled in the front view, the countersink in a side view (got ${details.map(d => d.parentView).join()})`)
+  const [c, f, cs] = details
+  expect(Math.hypot(c.center.x - 100, c.center.y - 50) < c.radius && Math.hypot(f.center.x + 100, f.center.y + 50) < f.radius,
+    'callouts enclose the edges they detail')
+  expect(cs.featureSize === 2, `countersink size is its depth (got ${cs.featureSize})`)
+  expect(details.map(d => d.label).join() === 'DETAIL A,DETAIL B,DETAIL C', 'details are lettered in order')
+  expect(selectDetailViews(recipe, 5, VIEW_MATRICES).length === 0, 'no details when features are legible at the sheet scale')
+
+  // Test 2: identical features are shown once, nearby ones share a circle
+  const repeated = blockWith([chamfer('c1', 100, 50), chamfer('c2', -100, 50)])
+  expect(selectDetailViews(repeated, 0.5, VIEW_MATRICES).length === 1, 'identical chamfers get one detail')
+  const nearby = blockWith([chamfer('c1', 100, 50), { ...fillet, transform: { position: { x: 97, y: 47, z: 0 } } }])
+  const merged = selectDetailViews(nearby, 0.5, VIEW_MATRICES)
+  expect(merged.length === 1 && merged[0].primitiveIds.join() === 'c1,f', 'overlapping callouts merge')
+
+  // Test 3: curves are cut at the callout circle
+  const clipped = clipViewEdgesToCircle({
+    visible: [{ kind: 'line', start: new Vector3(-10, 0, 0), end: new Vector3(10, 0, 0) }],
+    hidden: [{ kind: 'line', start: new Vector3(-10, 8, 0), end: new Vector3(10, 8, 0) }]
+  }, { x: 0, y: 0 }, 5)
+  const [line] = clipped.visible
+  expect(line?.kind === 'line' && Math.abs(line.start.x + 5) < 1e-9 && Math.abs(line.end.x - 5) < 1e-9, 'lines are clipped to the circle')
+  expect(clipped.hidden.length === 0, 'curves outside the circle are dropped')
+
+  // Test 4: the drawing circles the features and draws them enlarged after the sections
+  const svg = generateDrawing(recipe, evaluateRecipe(recipe), { frontView: '+z' })
+  const sections = (svg.match(/class="section-view"/g) ?? []).length
+  const callouts = [...svg.matchAll(/class="detail-callout" data-id="(\w)"/g)].map(m => m[1])
+  const views = [...svg.matchAll(/class="view detail" data-id="(\w)"/g)].map(m => m[1])
+  expect(callouts.length === 2 && callouts.join() === views.join(), `each detail has a callout and a view (${views.join()})`)
+  expect(views[0] === String.fromCharCode(65 + sections), `detail letters follow the ${sections} section(s)`)
+  const labels = [...svg.matchAll(/DETAIL (\w) \((\d+):1\)/g)]
+  expect(labels.length === 2 && labels.every(m => Number(m[2]) > 1), `details are enlarged (${labels.map(m => m[0]).join(', ')})`)
+  expect(!svg.includes('class="view pictorial"'), 'details take the free cell instead of the pictorial')
+
+  // Test 5: a large hole needs no detail
+  const plain = createBlockHoleFixture()
+  const plainSVG = generateDrawing(plain, evaluateRecipe(plain), { frontView: '+z', maxDetails: 2 })
+  expect(!plainSVG.includes('class="view detail"'), 'no detail view without small features')
+
+  console.log('\n✅ Detail views test passed!')
+}
+
+try {
+  testDetailViews()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
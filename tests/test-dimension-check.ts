@@ -0,0 +1,110 @@
+/**
+ * Test the dimensioning completeness and redundancy check
+ *
+ * Validates:
+ * - A drilled plate is fully defined by its generated dimensions
+ * - Each overall size is given once; repeated in a second view it is redundant
+ * - Missing sizes and positions are reported per primitive and axis
+ * - A dimension closing a chain is redundant
+ * - Inclined holes need their angle, chamfers their note
+ * - A drawing returns the dimensions it placed, which define the part
+ * - A part trimmed by a cylinder is checked about the cylinder's own centre,
+ *   and through holes tie nothing along their axis
+ */
+
+import { generateDimensions, DEFAULT_DIMENSION_CONFIG, type Dimension, type LinearDimension } from '../src/drawing/dimensions'
+import { checkDimensioning, describeDimensioningReport } from '../src/drawing/completeness'
+import { createDrawing } from '../src/drawing/svg'
+import { generateChamferFeatures } from '../src/generators/features'
+import type { PartRecipe, Primitive } from '../src/types/part'
+import { drill, expect, plateWith, recipeWith } from './helpers'
+
+const plate = plateWith([drill('a', -36, -20), drill('b', 12, -20), drill('c', 0, 15)])
+const missingOf = (dimensions: Dimension[], recipe = plate) =>
+  checkDimensioning(recipe, dimensions).missing.map(constraint => `${constraint.primitiveId ?? 'part'} ${constraint.kind} ${constraint.axis ?? ''}`.trim())
+
+function testDimensionCheck() {
+  console.log('Testing dimensioning check\n' + '='.repeat(50))
+
+  // Test 1: the generated dimensions define a drilled plate
+  const dimensions = generateDimensions(plate)
+  const report = checkDimensioning(plate, dimensions)
+  expect(report.complete && report.missing.length === 0, `drilled plate fully defined (missing ${report.missing.map(m => m.message).join('; ')})`)
+
+  // Test 2: each overall size is given once; given again in another view it is redundant
+  expect(report.redundant.length === 0, `no redundant dimensions generated (got ${report.redundant.map(r => r.dimensionId).join(', ')})`)
+  const width = dimensions.find((d): d is LinearDimension => d.id === 'bbox-width-front')!
+  const widthInTop: LinearDimension = { ...width, id: 'bbox-width-top', view: 'top', start: { x: -50, y: 10 }, end: { x: 50, y: 10 } }
+  const repeated = checkDimensioning(plate, [...dimensions, widthInTop]).redundant.map(r => `${r.dimensionId}=${r.duplicateOf ?? ''}`).join()
+  expect(repeated === 'bbox-width-top=bbox-width-front', `repeated overall size reported (got ${repeated})`)
+
+  // Test 3: missing dimensions are reported per primitive and axis
+  const unlocated = missingOf(dimensions.filter(d => !d.id.startsWith('location-')))
+  expect(['a', 'b', 'c'].every(id => unlocated.includes(`${id} position x`) && unlocated.includes(`${id} position y`)) && !unlocated.some(m => m.includes(' z')),
+    `hole positions missing without location dimensions (got ${unlocated.join(', ')})`)
+  const unsized = missingOf(dimensions.filter(d => d.type !== 'callout'))
+  expect(unsized.includes('a size x') && unsized.includes('a size y') && !unsized.some(m => m.includes('position')),
+    `hole diameters missing without callouts (got ${unsized.join(', ')})`)
+  expect(missingOf(dimensions.filter(d => !d.id.startsWith('bbox-width'))).includes('part size x'), 'overall width missing')
+
+  const pocket: Primitive = { id: 'pocket', kind: 'box', params: { width: 20, depth: 10, height: 10 }, transform: { position: { x: 20, y: 10, z: 8 } } }
+  const pocketed = plateWith([pocket])
+  const pocketMissing = missingOf(generateDimensions(pocketed), pocketed)
+  expect(pocketMissing.join() === 'pocket size x,pocket size y,pocket size z', `pocket located but not sized (got ${pocketMissing.join(', ')})`)
+
+  // Test 4: a dimension closing a chain is redundant
+  const chain = generateDimensions(plate, { ...DEFAULT_DIMENSION_CONFIG, locationStyle: 'chain' })
+  const [first] = chain.filter((d): d is LinearDimension => d.id === 'location-front-x-0')
+  const closing: LinearDimension = { ...first, id: 'closing', start: { x: -50, y: first.start.y }, end: { x: 12, y: first.end.y } }
+  const closed = checkDimensioning(plate, [...chain, closing])
+  expect(checkDimensioning(plate, chain).complete && closed.redundant.some(r => r.dimensionId === 'closing' && r.duplicateOf === undefined),
+    'dimension across a chain reported as redundant')
+  expect(checkDimensioning(plate, [...dimensions, { ...first, id: 'copy' }]).redundant.some(r => r.dimensionId === 'copy' && r.duplicateOf === first.id),
+    'duplicated dimension names the original')
+
+  // Test 5: an inclined hole needs its angle
+  const inclined = plateWith([{ id: 'h', kind: 'cylinder', params: { radius: 4, height: 60 }, transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 60, y: 0, z: 0 } } }])
+  const inclinedDimensions = generateDimensions(inclined)
+  expect(checkDimensioning(inclined, inclinedDimensions).complete, 'inclined hole defined by diameter, angle and location')
+  expect(missingOf(inclinedDimensions.filter(d => d.type !== 'angular'), inclined).join() === 'h angle', 'inclined hole angle missing')
+
+  // Test 6: chamfers need their note
+  const { primitives, operations } = generateChamferFeatures([{ x: 1, y: 1 }, { x: -1, y: 1 }], 2, { width: 100, depth: 60, height: 20 }, 1, 1, 'p0')
+  const chamfered: PartRecipe = { ...plateWith([]), primitives: [...plateWith([]).primitives, ...primitives], operations }
+  const chamferDimensions = generateDimensions(chamfered)
+  expect(checkDimensioning(chamfered, chamferDimensions).complete, 'chamfers defined by their note')
+  expect(missingOf(chamferDimensions.filter(d => d.type !== 'chamfer'), chamfered).length === primitives.length, 'chamfers missing without the note')
+
+  // Test 7: a drawing returns the dimensions it placed, in the axes it turned the part to
+  const drawing = createDrawing(plate, undefined, { frontView: '+y' })
+  expect(drawing.dimensions.length > 0 && drawing.dimensions.every(d => drawing.svg.includes(`data-id="${d.id}"`)), 'every returned dimension is drawn')
+  const drawn = checkDimensioning(drawing.recipe, drawing.dimensions)
+  expect(drawn.complete && drawn.redundant.length === 0, `the drawn dimensions define the turned plate once (${describeDimensioningReport(drawn).join('; ') || 'complete'})`)
+
+  // Test 8: a plate with two corners trimmed off by an arc centred off the middle
+  const trimmed = recipeWith({
+    bounding_mm: { x: 100, y: 60, z: 20 },
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 20 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'crown', kind: 'cylinder', params: { radius: 62, height: 30, axis: 'y' }, transform: { position: { x: 10, y: 0, z: 0 } } },
+      drill('a', 0, 12), drill('b', 30, -15)
+    ],
+    operations: [
+      { id: 'op1', op: 'intersect', targetId: 'p0', toolId: 'crown' },
+      { id: 'op2', op: 'subtract', targetId: 'op1', toolId: 'a' },
+      { id: 'op3', op: 'subtract', targetId: 'op2', toolId: 'b' }
+    ]
+  })
+  const trimmedReport = checkDimensioning(trimmed, generateDimensions(trimmed))
+  expect(trimmedReport.complete && trimmedReport.redundant.length === 0,
+    `the trimmed plate is defined once (${describeDimensioningReport(trimmedReport).join('; ') || 'complete'})`)
+
+  console.log('\n✅ Dimensioning check test passed!')
+}
+
+try {
+  testDimensionCheck()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,119 @@
+/**
+ * Test logical edge consolidation
+ *
+ * Validates:
+ * - CSG triangle soup reduces to the block's 12 edges plus the hole rims
+ * - Coplanar seams and smooth cylinder facets are dropped
+ * - Silhouettes of smooth surfaces are added for a view direction
+ * - Collinear / overlapping segments merge into one edge
+ * - Faceted polylines are recognised as arcs and full circles
+ * - Closed outlines fit into ordered line/arc pieces
+ * - CSG seams where holes meet or a countersink opens out leave no stray lines
+ */
+
+import { Vector3 } from 'three'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { extractFeatureEdges, fitPolyline, mergeCollinearEdges, recognizeArcs, resolveCoincidentEdges } from '../src/drawing/consolidate'
+import type { Edge } from '../src/drawing/edges'
+import { computeViewEdges, ORTHOGRAPHIC_MATRICES } from '../src/drawing/projection'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { drill, expect, plateWith } from './helpers'
+
+function polyline(points: Vector3[]): Edge[] {
+  return points.slice(1).map((p, i) => ({ start: points[i], end: p }))
+}
+
+function testEdgeConsolidation() {
+  console.log('Testing edge consolidation\n' + '='.repeat(50))
+
+  // Test 1: block 100×50×25 with a Ø20 through-hole along Y
+  const solid = evaluateRecipe(createBlockHoleFixture())
+  const triangleEdges = solid.attributes.position.count
+  const curves = recognizeArcs(extractFeatureEdges(solid))
+  const lines = curves.filter(c => c.kind === 'line')
+  const circles = curves.filter(c => c.kind === 'circle')
+  console.log(`  ${triangleEdges} triangle edges → ${lines.length} lines, ${circles.length} circles`)
+
+  expect(lines.length === 12, 'block outline consolidates to 12 edges')
+  expect(lines.every(l => [100, 50, 25].some(d => Math.abs(l.start.distanceTo(l.end) - d) < 1e-6)), 'each edge spans a full block dimension')
+  expect(curves.length === 14 && circles.length === 2, 'no partial arcs left over')
+  expect(circles.every(c => Math.abs(c.radius - 10) < 0.01), 'hole rims recognised as two Ø20 circles')
+  expect(circles.every(a => Math.abs(Math.abs(a.normal.y) - 1) < 1e-6), 'rim circles lie in XZ planes')
+
+  // Test 2: silhouettes of the hole wall seen from the side (+X)
+  const withSilhouettes = extractFeatureEdges(solid, new Vector3(1, 0, 0))
+  const generators = withSilhouettes.filter(e => Math.abs(e.end.y - e.start.y) > 49)
+  expect(generators.length === 4 + 2, 'side view adds two hole-wall silhouettes to the 4 block edges along Y')
+
+  // Test 3: collinear and overlapping segments
+  const merged = mergeCollinearEdges([
+    { start: new Vector3(0, 0, 0), end: new Vector3(10, 0, 0) },
+    { start: new Vector3(25, 0, 0), end: new Vector3(5, 0, 0) },
+    { start: new Vector3(30, 0, 0), end: new Vector3(40, 0, 0) }
+  ])
+  expect(merged.length === 2, 'overlapping segments merge, disjoint ones stay separate')
+
+  // Test 4: partial arc between two lines (slot end)
+  const center = new Vector3(0, 0, 0)
+  const quarter = Array.from({ length: 9 }, (_, i) => {
+    const a = (i / 8) * (Math.PI / 2)
+    return new Vector3(Math.cos(a) * 5, Math.sin(a) * 5, 0).add(center)
+  })
+  const slot = recognizeArcs([
+    { start: new Vector3(20, 0, 0), end: new Vector3(5, 0, 0) },
+    ...polyline(quarter),
+    { start: new Vector3(0, 5, 0), end: new Vector3(0, 20, 0) }
+  ])
+  const arcs = slot.filter(c => c.kind === 'arc')
+  expect(arcs.length === 1 && arcs[0].kind === 'arc' && Math.abs(arcs[0].sweep - Math.PI / 2) < 1e-6, 'quarter polyline recognised as a 90° arc')
+  expect(slot.filter(c => c.kind === 'line').length === 2, 'straight legs stay lines')
+
+  // Test 5: hidden pieces under a visible edge are dropped
+  const resolved = resolveCoincidentEdges(
+    [{ start: new Vector3(0, 0, 0), end: new Vector3(10, 0, 0) }],
+    [{ start: new Vector3(5, 0, 0), end: new Vector3(20, 0, 0) }]
+  )
+  expect(resolved.visible.length === 1 && resolved.hidden.length === 1 && resolved.hidden[0].start.x === 10,
+    'visible edges take precedence over coincident hidden edges')
+
+  // Test 6: closed outline with one rounded corner fits in path order
+  const outline = fitPolyline([
+    ...quarter,
+    new Vector3(0, 20, 0), new Vector3(20, 20, 0), new Vector3(20, 0, 0), new Vector3(5, 0, 0)
+  ], true)
+  expect(outline.map(c => c.kind).join(',') === 'arc,line,line,line,line', 'closed outline fits as an arc followed by four lines')
+  const pieces = outline.filter(c => c.kind !== 'circle') as Edge[]
+  expect(pieces.every((c, k) => c.end.distanceTo(pieces[(k + 1) % pieces.length].start) < 1e-6), 'fitted pieces join end to start')
+
+  // Test 7: a bore crossed by a hole along X, and a countersunk hole
+  const plate = plateWith([
+    drill('bore', -20, 0, 10),
+    { id: 'cross', kind: 'cylinder', params: { radius: 4, height: 120, axis: 'x' }, transform: { position: { x: 0, y: 0, z: 0 } } },
+    drill('csHole', 25, 18, 4),
+    { id: 'csCone', kind: 'cone', params: { radiusTop: 9, radiusBottom: 4, height: 6, axis: 'y' }, transform: { position: { x: 25, y: 18, z: 8 } } }
+  ])
+  const plateSolid = evaluateRecipe(plate)
+  for (const [view, matrix] of Object.entries(ORTHOGRAPHIC_MATRICES)) {
+    const { visible, hidden } = computeViewEdges(matrix, plateSolid, [])
+    const all = [...visible, ...hidden]
+    const lines = all.filter(c => c.kind === 'line')
+    const rims = all.filter(c => c.kind === 'circle')
+    const onRim = lines.filter(line => rims.some(rim =>
+      [line.start, line.end].every(p => Math.abs(p.distanceTo(rim.center) - rim.radius) < 0.05)))
+    expect(lines.length <= 40, `${view} view: ${lines.length} lines, at most 40`)
+    expect(onRim.length === 0, `${view} view: no line lies on a rim (${onRim.length})`)
+  }
+  const front = computeViewEdges(ORTHOGRAPHIC_MATRICES.front, plateSolid, [])
+  expect(front.visible.map(c => c.kind).sort().join() === 'circle,circle,circle,line,line,line,line',
+    `front view: outline and three rims (got ${front.visible.map(c => c.kind).sort().join()})`)
+  expect(front.hidden.length === 4, `front view: the cross hole's two hidden lines, broken by the bore (got ${front.hidden.length})`)
+
+  console.log('\n✅ Edge consolidation test passed!')
+}
+
+try {
+  testEdgeConsolidation()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,193 @@
+/**
+ * Test that the expert generator produces all strategies, that every
+ * recipe carries the structure expected at Expert level, and that the
+ * evaluated solids have the holes the recipes describe
+ */
+import { DoubleSide, Ray, Vector3, type BufferGeometry } from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { primitiveMatrix } from '../src/csg/primitives'
+import { subtractedPrimitiveIds } from '../src/drawing/holes'
+import { generateExpertPartRecipe } from '../src/generators/expert'
+import type { CylinderParams, PartRecipe } from '../src/types/part'
+
+function checkRecipe(recipe: PartRecipe): string[] {
+  const problems: string[] = []
+  const opIds = new Set(recipe.operations.map(op => op.id))
+  const knownIds = new Set(recipe.primitives.map(p => p.id))
+
+  if (recipe.primitives.length < 10) {
+    problems.push(`only ${recipe.primitives.length} primitives`)
+  }
+
+  // Every reference must point at a primitive or an earlier operation
+  for (const op of recipe.operations) {
+    if (!knownIds.has(op.targetId)) problems.push(`${op.id} targets unknown id ${op.targetId}`)
+    if (!knownIds.has(op.toolId)) problems.push(`${op.id} uses unknown tool ${op.toolId}`)
+    knownIds.add(op.id)
+  }
+
+  const nested = recipe.operations.some(op => opIds.has(op.targetId) && opIds.has(op.toolId))
+  if (!nested) problems.push('no nested operation (target and tool both operations)')
+
+  if (!recipe.operations.some(op => op.op === 'intersect')) {
+    problems.push('no intersect operation')
+  }
+
+  const compound = recipe.primitives.some(p => {
+    const rot = p.transform?.rotation
+    if (!rot) return false
+    return [rot.x, rot.y, rot.z].filter(a => Math.abs(a) > 0).length >= 2
+  })
+  if (!compound) problems.push('no compound angled feature')
+
+  if (recipe.difficulty !== 'Expert') problems.push(`difficulty is ${recipe.difficulty}`)
+
+  return problems
+}
+
+// Drill axes leaning less than this from a part axis plane are not compound
+const MIN_LEAN = Math.sin((3 * Math.PI) / 180)
+
+// Distances at which rays from a point cross the solid's surface, once per
+// crossing (a ray through a shared vertex hits every triangle around it)
+function surfaceCrossings(solid: BufferGeometry): (origin: Vector3, direction: Vector3) => number[] {
+  const bvh = new MeshBVH(solid.clone())
+  return (origin, direction) => bvh.raycast(new Ray(origin, direction.clone().normalize()), DoubleSide)
+    .map(hit => hit.distance).sort((a, b) => a - b)
+    .filter((distance, i, all) => distance > 1e-3 && (i === 0 || distance - all[i - 1] > 1e-3))
+}
+
+function checkSolid(recipe: PartRecipe): string[] {
+  const problems: string[] = []
+  const solid = evaluateRecipe(recipe)
+  solid.computeBoundingBox()
+  const base = solid.boundingBox!.min.z
+  const crossings = surfaceCrossings(solid)
+
+  const tools = subtractedPrimitiveIds(recipe)
+  const drills = recipe.primitives.filter(p => p.kind === 'cylinder' && tools.has(p.id)).map(primitive => {
+    const matrix = primitiveMatrix(primitive)
+    const { radius, height } = primitive.params as CylinderParams
+    return { primitive, radius, height, center: new Vector3().applyMatrix4(matrix), axis: new Vector3(0, 1, 0).transformDirection(matrix) }
+  })
+
+  for (const drill of drills) {
+    const id = drill.primitive.id
+    const reference = Math.abs(drill.axis.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0)
+    const across = [reference.clone().cross(drill.axis).normalize()]
+    across.push(across[0].clone().cross(drill.axis), across[0].clone().negate(), across[0].clone().cross(drill.axis).negate())
+
+    // Ends of the tool outside the solid: an even number of crossings beyond
+    // them (off the axis, clear of the end caps' centre vertices)
+    const ends = [1, -1].map(side => ({
+      point: drill.center.clone().addScaledVector(drill.axis, side * (drill.height / 2 + 0.1)),
+      inward: drill.axis.clone().multiplyScalar(-side)
+    })).filter(end => crossings(end.point.clone().addScaledVector(across[0], 0.1), end.inward.clone().negate()).length % 2 === 0)
+    if (ends.length === 0) {
+      problems.push(`${id} does not open onto the surface`)
+      continue
+    }
+    // Cut: nothing along the axis within the tool; in material: something beside it
+    const { point, inward } = ends[0]
+    if ((crossings(point, inward)[0] ?? Infinity) < drill.height - 0.5) problems.push(`${id} leaves material on its axis`)
+    const beside = across.some(offset => (crossings(point.clone().addScaledVector(offset, drill.radius + 1), inward)[0] ?? Infinity) < drill.height)
+    if (!beside) problems.push(`${id} cuts no material`)
+  }
+
+  // Mounting holes: the last four tools, vertical, at four corners and out through the base
+  const mounting = drills.slice(-4)
+  if (!mounting.every(drill => Math.abs(drill.axis.z) > 1 - 1e-9)) problems.push('mounting holes not vertical')
+  const positions = new Set(mounting.map(drill => `${drill.center.x.toFixed(1)},${drill.center.y.toFixed(1)}`))
+  if (positions.size !== 4) problems.push(`${positions.size} distinct mounting hole positions`)
+  for (const drill of mounting) {
+    const top = drill.center.clone().setZ(drill.center.z + drill.height / 2)
+    const beside = crossings(top.clone().setX(top.x + drill.radius + 1), new Vector3(0, 0, -1))
+    if (crossings(top, new Vector3(0, 0, -1)).length > 0 || Math.abs(top.z - (beside[beside.length - 1] ?? 0) - base) > 0.5) {
+      problems.push(`${drill.primitive.id} not drilled through the base`)
+    }
+  }
+
+  // Compound drillings lean in both vertical planes
+  const inclined = drills.filter(drill => drill.primitive.transform?.rotation)
+  if (!inclined.length || !inclined.every(drill => Math.abs(drill.axis.x) > MIN_LEAN && Math.abs(drill.axis.y) > MIN_LEAN)) {
+    problems.push('inclined drillings do not lean in two planes')
+  }
+
+  // Grooves wrap a bore: torus axis along a cylinder tool's axis, centre on it
+  for (const torus of recipe.primitives.filter(p => p.kind === 'torus')) {
+    const matrix = primitiveMatrix(torus)
+    const center = new Vector3().applyMatrix4(matrix)
+    const axis = new Vector3(0, 0, 1).transformDirection(matrix)
+    const wraps = drills.some(drill => Math.abs(drill.axis.dot(axis)) > 1 - 1e-9 && center.clone().sub(drill.center).cross(drill.axis).length() < 1e-6)
+    if (!wraps) problems.push(`${torus.id} does not wrap a bore`)
+  }
+
+  return problems
+}
+
+function testExpertVariety() {
+  console.log('Testing Expert Generator\n' + '='.repeat(50))
+
+  const seen = new Set<string>()
+  let failures = 0
+
+  for (let i = 0; i < 40; i++) {
+    const seed = 500000 + i * 7919
+    const recipe = generateExpertPartRecipe(seed)
+    seen.add(recipe.name)
+
+    const problems = checkRecipe(recipe)
+    if (problems.length) {
+      failures++
+      console.error(`✗ ${recipe.name} (seed: ${seed}): ${problems.join('; ')}`)
+    }
+  }
+
+  // Same seed must give the same recipe (ignoring timestamps)
+  const a = generateExpertPartRecipe(424242)
+  const b = generateExpertPartRecipe(424242)
+  if (JSON.stringify({ ...a, createdAt: '' }) !== JSON.stringify({ ...b, createdAt: '' })) {
+    throw new Error('Expert generator is not deterministic for a fixed seed')
+  }
+
+  const expectedStrategies = [
+    'Compound-Angle Manifold',
+    'Crowned Bearing Housing',
+    'Twin-Lug Yoke',
+    'Angled Sensor Mount'
+  ]
+  const missing = expectedStrategies.filter(name => !seen.has(name))
+
+  console.log(`Part types seen: ${Array.from(seen).sort().join(', ')}`)
+
+  if (missing.length) {
+    throw new Error(`Missing expected expert strategies after sampling: ${missing.join(', ')}`)
+  }
+  if (failures) {
+    throw new Error(`${failures} expert recipes failed structural checks`)
+  }
+
+  // The evaluated solid of one part per strategy
+  const samples = new Map<string, PartRecipe>()
+  for (let seed = 900000; samples.size < expectedStrategies.length; seed += 7919) {
+    const recipe = generateExpertPartRecipe(seed)
+    if (!samples.has(recipe.name)) samples.set(recipe.name, recipe)
+  }
+  for (const recipe of samples.values()) {
+    const problems = checkSolid(recipe)
+    if (problems.length) {
+      throw new Error(`${recipe.name} (seed: ${recipe.seed}) solid: ${problems.join('; ')}`)
+    }
+    console.log(`  ✓ ${recipe.name}: holes cut, mounting holes through the base, drillings at compound angles`)
+  }
+
+  console.log('\n✅ Expert generator test passed!')
+}
+
+try {
+  testExpertVariety()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,84 @@
+/**
+ * Test automatic front view selection
+ *
+ * Validates:
+ * - A block with a through-hole turns the hole face to the front: the hole
+ *   is seen as a circle and the front view has no hidden lines
+ * - The choice and its reason are recorded in the drawing metadata
+ * - Parts whose recipe front is already the best keep it
+ * - A fixed front view overrides the scoring
+ * - Turning a recipe rewrites positions, box sizes and cylinder axes
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { orientRecipe, selectFrontView } from '../src/drawing/orientation'
+import type { PartRecipe } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { createCylinderCutoutFixture } from './fixtures/cylinder-cutout'
+import { expect } from './helpers'
+
+function frontViewMetadata(svg: string): { direction: string; reason: string; scores: unknown[] } {
+  const json = svg.match(/<metadata id="drawing-metadata">([^<]*)<\/metadata>/)?.[1] ?? '{}'
+  return JSON.parse(json.replace(/&amp;/g, '&')).frontView
+}
+
+function frontGroup(svg: string): string {
+  const start = svg.indexOf('<g class="view front">')
+  return svg.slice(start, svg.indexOf('<g class="view ', start + 1))
+}
+
+function testFrontView() {
+  console.log('Testing front view selection\n' + '='.repeat(50))
+
+  // Test 1: the recipe front of the block sees the hole as two hidden lines
+  const recipe = createBlockHoleFixture()
+  const solid = evaluateRecipe(recipe)
+  const choice = selectFrontView(solid, [])
+  console.log(`  ${choice.reason}`)
+  expect(choice.direction === '+y' || choice.direction === '-y', `hole face turned to the front (got ${choice.direction})`)
+  const recipeFront = choice.scores.find(s => s.direction === '+z')!
+  expect(choice.scores[0].hiddenEdges < recipeFront.hiddenEdges && choice.scores[0].features > recipeFront.features,
+    'chosen view has fewer hidden lines and more features in true shape than the recipe front')
+
+  // Test 2: the drawing uses and records the choice
+  const svg = generateDrawing(recipe, solid)
+  const metadata = frontViewMetadata(svg)
+  expect(metadata?.direction === choice.direction && metadata.reason === choice.reason, 'choice and reason recorded in the metadata')
+  expect(metadata.scores.length === 6, 'all six candidates are recorded')
+  const front = frontGroup(svg)
+  expect(/<circle [^>]*class="visible-edge"/.test(front) && !front.includes('hidden-edge'),
+    'front view shows the hole as a circle without hidden lines')
+
+  // Test 3: a part already drawn from its best side keeps the recipe front
+  const cutout = createCylinderCutoutFixture()
+  expect(selectFrontView(evaluateRecipe(cutout), []).direction === '+z', 'recipe front kept when it scores best')
+
+  // Test 4: fixed front view
+  const fixed = frontViewMetadata(generateDrawing(recipe, solid, { frontView: '+z' }))
+  expect(fixed.direction === '+z' && fixed.reason.includes('requested'), 'fixed front view overrides the scoring')
+
+  // Test 5: turning the recipe (+y to the front tips the part towards the viewer)
+  const part: PartRecipe = {
+    ...recipe,
+    primitives: [
+      { id: 'b', kind: 'box', params: { width: 100, depth: 50, height: 25 }, transform: { position: { x: 10, y: 20, z: 5 } } },
+      { id: 'c', kind: 'cylinder', params: { radius: 5, height: 30, axis: 'z' }, transform: { position: { x: 0, y: 0, z: 0 } } }
+    ]
+  }
+  const turned = orientRecipe(part, '+y')
+  const box = turned.primitives[0]
+  expect(JSON.stringify(box.params) === JSON.stringify({ width: 100, depth: 25, height: 50 }), 'box depth and height swap')
+  expect(JSON.stringify(box.transform?.position) === JSON.stringify({ x: 10, y: -5, z: 20 }), 'positions rotate with the part')
+  expect((turned.primitives[1].params as { axis: string }).axis === 'y', 'cylinder axis follows the part')
+  expect(turned.bounding_mm.y === 25 && turned.bounding_mm.z === 50, 'bounding box follows the part')
+
+  console.log('\n✅ Front view test passed!')
+}
+
+try {
+  testFrontView()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,113 @@
+/**
+ * Test geometric tolerancing
+ *
+ * Validates:
+ * - Datums and frames requested in recipe metadata are checked
+ * - Frames on a hole hang under its callout, one below the other
+ * - Face datums and frames sit in the view seeing the face edge-on, past its dimensions
+ * - Faces turn with the part when another face is drawn in front
+ * - The drawing shows datum symbols and frames; expert recipes request them
+ */
+
+import { generateDimensions, getDimensionBounds, CALLOUT_LINE_SPACING, DEFAULT_DIMENSION_CONFIG, type HoleCallout } from '../src/drawing/dimensions'
+import { formatFeatureControlFrame, generateGeometricTolerances, readGeometricTolerancing, type GeometricTolerancing } from '../src/drawing/gdt'
+import { orientRecipe } from '../src/drawing/orientation'
+import { generateDrawing } from '../src/drawing/svg'
+import { generateExpertPartRecipe } from '../src/generators/expert'
+import type { PartRecipe } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { drill, expect, plateWith } from './helpers'
+
+// Plate 100 × 60 × 20 with a Ø10 hole through it along Z
+const tolerancedPlate = (gdt: Partial<GeometricTolerancing>): PartRecipe => ({ ...plateWith([drill('a', 20, 10, 5)]), metadata: { gdt } })
+
+const plate = tolerancedPlate({
+  datums: [{ letter: 'A', face: '-z' }, { letter: 'B', face: '-x' }, { letter: 'D', primitiveId: 'a' }],
+  frames: [
+    { characteristic: 'position', tolerance: 0.1, datums: ['A', 'B'], primitiveId: 'a' },
+    { characteristic: 'perpendicularity', tolerance: 0.05, datums: ['A'], primitiveId: 'a' },
+    { characteristic: 'flatness', tolerance: 0.02, face: '-z' },
+    { characteristic: 'perpendicularity', tolerance: 0.05, datums: ['A'], face: '-x' }
+  ]
+})
+
+const rejects = (gdt: Partial<GeometricTolerancing>) => {
+  try {
+    readGeometricTolerancing(tolerancedPlate(gdt))
+    return false
+  } catch {
+    return true
+  }
+}
+
+function testGeometricTolerancing() {
+  console.log('Testing geometric tolerancing\n' + '='.repeat(50))
+
+  // Test 1: requests are checked
+  expect(readGeometricTolerancing(plate)?.frames.length === 4 && readGeometricTolerancing(createBlockHoleFixture()) === undefined, 'tolerancing read from metadata')
+  expect(rejects({ datums: [{ letter: 'I', face: '-z' }] }) && rejects({ datums: [{ letter: 'A', face: '-z' }, { letter: 'A', face: '-x' }] }),
+    'datum letters I, O, Q and repeated letters rejected')
+  expect(rejects({ datums: [{ letter: 'A', face: '-z', primitiveId: 'a' }] }), 'datum on a face and a hole rejected')
+  expect(rejects({ frames: [{ characteristic: 'position', tolerance: 0.1, datums: ['A'], primitiveId: 'a' }] }), 'unknown datum rejected')
+  expect(rejects({ datums: [{ letter: 'A', face: '-z' }], frames: [{ characteristic: 'flatness', tolerance: 0.1, datums: ['A'], face: '-z' }] }),
+    'flatness with a datum rejected')
+  expect(rejects({ datums: [{ letter: 'A', face: '-z' }], frames: [{ characteristic: 'position', tolerance: 0.1, datums: ['A'], face: '-x' }] }),
+    'position of a face rejected')
+
+  // Test 2: frames on the hole hang under its callout
+  const dimensions = generateDimensions(plate)
+  const callout = dimensions.find((d): d is HoleCallout => d.type === 'callout')!
+  const { datums, frames } = generateGeometricTolerances(plate, dimensions)
+  const [position, perpendicularity] = frames
+  expect(formatFeatureControlFrame(position) === '⌖ | Ø0.1 | A | B' && formatFeatureControlFrame(perpendicularity) === '⟂ | Ø0.05 | A', 'frame cells')
+  const noteBottom = callout.shoulder.y - (callout.lines.length - 1) * DEFAULT_DIMENSION_CONFIG.textHeight * CALLOUT_LINE_SPACING - DEFAULT_DIMENSION_CONFIG.textHeight / 2
+  expect(position.view === callout.view && position.origin.y < noteBottom && perpendicularity.origin.y === position.origin.y - position.height,
+    'frames stacked under the callout note')
+  const side = Math.sign(callout.shoulder.x - callout.leaderLine.end.x)
+  const noteStart = callout.shoulder.x + side
+  expect(side > 0 ? position.origin.x === noteStart : position.origin.x + position.cells.reduce((w, c) => w + c.width, 0) === noteStart,
+    'frames aligned with the note')
+  const onHole = datums.find(d => d.letter === 'D')
+  expect(onHole?.view === callout.view && onHole.base.y === callout.shoulder.y && onHole.box.y > onHole.base.y, 'hole datum on the callout shoulder')
+
+  // Test 3: faces in the view seeing them edge-on, past the dimensions
+  const a = datums.find(d => d.letter === 'A')!
+  const b = datums.find(d => d.letter === 'B')!
+  expect(a.view === 'top' && Math.abs(a.base.y - 10) < 1e-6 && a.box.y > a.base.y, `datum A on the back face, seen from above (got ${a.view} ${a.base.y})`)
+  expect(b.view === 'front' && Math.abs(b.base.x + 50) < 1e-6 && b.box.x < -50 - DEFAULT_DIMENSION_CONFIG.minOffsetFromOutline, 'datum B off the left face')
+  const [flatness, square] = frames.slice(2)
+  expect(flatness.view === 'top' && flatness.leader !== undefined && Math.abs(flatness.leader.start.y - 10) < 1e-6, 'flatness leader on the back face')
+  expect(square.view === 'front' && square.leader!.end.x < square.leader!.start.x && square.origin.x + square.cells.reduce((w, c) => w + c.width, 0) === square.leader!.end.x,
+    'frame at the end of its leader, left of the left face')
+  const clear = [a, b].every(datum => dimensions.filter(d => d.view === datum.view).every(d => {
+    const bounds = getDimensionBounds(d)
+    return Math.abs(datum.box.x - (bounds.x + bounds.width / 2)) >= (datum.size + bounds.width) / 2 ||
+      Math.abs(datum.box.y - (bounds.y + bounds.height / 2)) >= (datum.size + bounds.height) / 2
+  }))
+  expect(clear, 'datum symbols clear of the dimensions')
+
+  // Test 4: faces turn with the part
+  const turned = readGeometricTolerancing(orientRecipe(plate, '+x'))!
+  expect(turned.datums.map(d => d.face ?? d.primitiveId).join() === '+x,-z,a', `faces turned with the part (got ${turned.datums.map(d => d.face ?? d.primitiveId).join()})`)
+
+  // Test 5: the drawing shows them
+  const svg = generateDrawing(plate, undefined, { frontView: '+z' })
+  expect((svg.match(/class="feature-control-frame"/g) ?? []).length === 4 && (svg.match(/class="datum-feature"/g) ?? []).length === 3,
+    'four frames and three datum symbols drawn')
+  expect(!generateDrawing(createBlockHoleFixture()).includes('geometric-tolerances'), 'nothing drawn without tolerancing')
+
+  // Test 6: expert recipes request tolerancing of their mounting holes
+  const experts = Array.from({ length: 8 }, (_, i) => generateExpertPartRecipe(1000 + i * 7919))
+  expect(experts.every(recipe => readGeometricTolerancing(recipe)?.frames.some(frame => frame.characteristic === 'position')), 'expert recipes request position frames')
+  expect(experts.some(recipe => generateGeometricTolerances(recipe, generateDimensions(recipe)).frames.some(frame => frame.characteristic === 'position')),
+    'position frame placed on an expert part')
+
+  console.log('\n✅ Geometric tolerancing test passed!')
+}
+
+try {
+  testGeometricTolerancing()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
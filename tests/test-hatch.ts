@@ -1,8 +1,18 @@
 /**
  * Test hatch pattern generation
  */
-import { generateHatchLines, DEFAULT_HATCH_PATTERN } from '../src/drawing/sections'
-import type { SectionContour } from '../src/drawing/sections'
+import {
+  createSectionView,
+  generateHatchLines,
+  hatchAngle,
+  hatchStyle,
+  isPointInPolygon,
+  DEFAULT_HATCH_PATTERN,
+  MATERIAL_HATCH_PATTERNS
+} from '../src/drawing/sections'
+import type { HatchLine, SectionContour } from '../src/drawing/sections'
+import { renderSectionView } from '../src/drawing/sectionsSVG'
+import { expect, recipeWith } from './helpers'
 
 // Simple rectangular contour for testing
 const rectangularContour: SectionContour = {
@@ -40,3 +50,63 @@ if (hatchLines.length > 0) {
   console.error('\n✗ No hatch lines generated!')
   process.exit(1)
 }
+
+const rectangle = (w: number, h: number, x = 0, y = 0, isOuter = true): SectionContour => ({
+  points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }],
+  isOuter,
+  winding: isOuter ? 'ccw' : 'cw'
+})
+
+// Directions of hatch lines in degrees, modulo 180
+const lineAngles = (lines: HatchLine[]) => [...new Set(lines.map(({ start, end }) =>
+  Math.round(((Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI + 180) % 180)))].sort((a, b) => a - b)
+
+function testMaterialHatching() {
+  console.log('\nTesting material hatch patterns...\n')
+
+  // Materials: rubber is cross-hatched, aluminium more widely spaced than steel
+  const steel = generateHatchLines(rectangularContour, MATERIAL_HATCH_PATTERNS.steel)
+  const aluminium = generateHatchLines(rectangularContour, MATERIAL_HATCH_PATTERNS.aluminium)
+  const rubber = generateHatchLines(rectangularContour, MATERIAL_HATCH_PATTERNS.rubber)
+  expect(lineAngles(steel).join() === '45', 'steel: single 45° lines')
+  expect(aluminium.length < steel.length, `aluminium: wider spacing (${aluminium.length} lines, steel ${steel.length})`)
+  expect(lineAngles(rubber).join() === '45,135', 'rubber: cross-hatched at 45° and 135°')
+
+  // Thin sections are filled solid
+  const strip = rectangle(50, 1)
+  expect(hatchStyle(strip, DEFAULT_HATCH_PATTERN) === 'solid' && generateHatchLines(strip, DEFAULT_HATCH_PATTERN).length === 0,
+    '1 mm strip is filled solid, not hatched')
+  expect(hatchStyle(rectangularContour, DEFAULT_HATCH_PATTERN) === 'lines', '50 × 30 region is hatched')
+
+  // The angle changes when it would run along the outline
+  const rhomboid: SectionContour = {
+    points: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 70, y: 30 }, { x: 30, y: 30 }],
+    isOuter: true,
+    winding: 'ccw'
+  }
+  expect(hatchAngle(rhomboid, DEFAULT_HATCH_PATTERN) === 135, 'outline at 45°: hatching turns to 135°')
+  expect(lineAngles(generateHatchLines(rhomboid, DEFAULT_HATCH_PATTERN)).join() === '135', 'hatch lines follow the adapted angle')
+  expect(hatchAngle(rectangularContour, DEFAULT_HATCH_PATTERN) === 45, 'rectangle keeps 45°')
+
+  // Holes are left unhatched
+  const hole = rectangle(10, 10, 20, 10, false)
+  const holed = generateHatchLines(rectangularContour, DEFAULT_HATCH_PATTERN, [hole])
+  expect(holed.every(({ start, end }) => !isPointInPolygon({ x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }, hole.points)),
+    'no hatch line crosses the hole')
+
+  // Section views take the hatching of the recipe's material
+  const plate = recipeWith({ material: 'rubber' })
+  const view = createSectionView(plate)
+  expect(view.hatchPattern.style === 'cross', 'rubber part: section view is cross-hatched')
+  const thin = { ...view, contours: [strip] }
+  expect(renderSectionView(thin).includes('class="section-fill"'), 'thin region rendered as a filled path')
+
+  console.log('\n✓ Material hatch patterns test passed!')
+}
+
+try {
+  testMaterialHatching()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
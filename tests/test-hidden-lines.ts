@@ -0,0 +1,78 @@
+/**
+ * Test ray-cast hidden-line removal
+ *
+ * Validates:
+ * - Partly occluded edges are split into visible and hidden segments
+ * - Fully exposed / fully occluded edges keep a single classification
+ * - Rays grazing a face seen edge-on do not count as occluded
+ * - Edges that do not lie on the solid are dropped
+ */
+
+import { Vector3 } from 'three'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { classifyEdgeVisibility, type ClassifiedEdge } from '../src/drawing/edges'
+import type { PartRecipe } from '../src/types/part'
+import { expect, recipeWith } from './helpers'
+
+// Base plate 100×50×10 (z 0..10) with a 40×10×30 wall standing on its front-left corner
+function createWallFixture(): PartRecipe {
+  return recipeWith({
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 50, height: 10 }, transform: { position: { x: 0, y: 0, z: 5 } } },
+      { id: 'p1', kind: 'box', params: { width: 40, depth: 10, height: 30 }, transform: { position: { x: -30, y: -20, z: 15 } } }
+    ],
+    operations: [{ id: 'op1', op: 'union', targetId: 'p0', toolId: 'p1' }]
+  })
+}
+
+function describe(segments: ClassifiedEdge[]): string {
+  return segments
+    .map(s => `${s.visible ? 'visible' : 'hidden'} x ${s.start.x.toFixed(1)}→${s.end.x.toFixed(1)}`)
+    .join(', ')
+}
+
+function testHiddenLines() {
+  console.log('Testing hidden-line removal\n' + '='.repeat(50))
+
+  const solid = evaluateRecipe(createWallFixture())
+  const towardViewer = new Vector3(0, -1, 0) // viewer in front of the wall (-Y)
+
+  // Back-top edge of the plate: the wall hides x ∈ [-50, -10]
+  const backEdge = { start: new Vector3(-50, 25, 10), end: new Vector3(50, 25, 10) }
+  const split = classifyEdgeVisibility([backEdge], solid, towardViewer)
+  console.log(`  Back edge: ${describe(split)}`)
+  expect(split.length === 2, 'partly occluded edge splits into two segments')
+
+  const hidden = split.find(s => !s.visible)
+  const visible = split.find(s => s.visible)
+  expect(!!hidden && Math.abs(hidden.end.x - -10) < 0.1, 'hidden segment ends at the wall (x = -10)')
+  expect(!!visible && Math.abs(visible.start.x - -10) < 0.1 && visible.end.x === 50, 'visible segment runs from the wall to the end')
+
+  // Front-top edge of the plate right of the wall is fully exposed
+  const frontEdge = { start: new Vector3(-10, -25, 10), end: new Vector3(50, -25, 10) }
+  const front = classifyEdgeVisibility([frontEdge], solid, towardViewer)
+  expect(front.length === 1 && front[0].visible, 'exposed edge stays a single visible segment')
+
+  // The part of the back-top edge directly behind the wall is fully hidden
+  const behindWall = { start: new Vector3(-45, 25, 10), end: new Vector3(-15, 25, 10) }
+  const behind = classifyEdgeVisibility([behindWall], solid, towardViewer)
+  expect(behind.length === 1 && !behind[0].visible, 'occluded edge stays a single hidden segment')
+
+  // Edges lying in a face seen edge-on (bottom face) are on the outline, not hidden
+  const bottomEdge = { start: new Vector3(-50, 25, 0), end: new Vector3(50, 25, 0) }
+  const bottom = classifyEdgeVisibility([bottomEdge], solid, towardViewer)
+  expect(bottom.length === 1 && bottom[0].visible, 'grazing rays do not hide outline edges')
+
+  // An edge floating above the part is not drawn
+  const floating = { start: new Vector3(-50, 0, 40), end: new Vector3(50, 0, 40) }
+  expect(classifyEdgeVisibility([floating], solid, towardViewer).length === 0, 'edge off the solid is dropped')
+
+  console.log('\n✅ Hidden-line removal test passed!')
+}
+
+try {
+  testHiddenLines()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
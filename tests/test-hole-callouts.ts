@@ -0,0 +1,143 @@
+/**
+ * Test hole callouts
+ *
+ * Validates:
+ * - Coaxial tools make one hole: the drill with its counterbore or countersink
+ * - Identical holes are called out once with their count (4× Ø8 THRU)
+ * - Blind holes give their depth, counterbores and countersinks their size
+ * - Holes get no separate diameter dimension
+ * - The leader starts on a hole and runs out past the outline
+ * - Depths are measured between the faces around the hole, not the part's bounds
+ * - Generated countersunk blocks evaluate to a solid
+ */
+
+import { generateDimensions, type HoleCallout } from '../src/drawing/dimensions'
+import { Vector3 } from 'three'
+import { bodyBounds, findHoleFeatures } from '../src/drawing/holes'
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { generateBeginnerPartRecipe } from '../src/generators/beginner'
+import { generateExpertPartRecipe } from '../src/generators/expert'
+import type { PartRecipe, Primitive } from '../src/types/part'
+import { expect, plateWith } from './helpers'
+
+// Cylinder along Z (through the plate thickness) spanning z0..z1
+const drill = (id: string, x: number, y: number, radius: number, z0 = -15, z1 = 15): Primitive => ({
+  id, kind: 'cylinder', params: { radius, height: z1 - z0, axis: 'y' }, transform: { position: { x, y, z: (z0 + z1) / 2 } }
+})
+
+// Cone along Z spanning z0..z1, wide end on top
+const cone = (id: string, x: number, y: number, radiusTop: number, radiusBottom: number, z0: number, z1: number): Primitive => ({
+  id, kind: 'cone', params: { radiusTop, radiusBottom, height: z1 - z0, axis: 'y' }, transform: { position: { x, y, z: (z0 + z1) / 2 } }
+})
+
+const callouts = (recipe: PartRecipe) => generateDimensions(recipe).filter((d): d is HoleCallout => d.type === 'callout')
+
+function testHoleCallouts() {
+  console.log('Testing hole callouts\n' + '='.repeat(50))
+
+  // Test 1: counterbore and countersink belong to their holes
+  const plate = plateWith([
+    drill('h1', -30, 0, 4), drill('cb1', -30, 0, 7, 4, 12),
+    drill('h2', 30, 0, 4), cone('cs2', 30, 0, 8, 4, 6, 10)
+  ])
+  const holes = findHoleFeatures(plate)
+  expect(holes.length === 2 && holes.map(h => h.primitiveIds.join('+')).join() === 'h1+cb1,h2+cs2', 'coaxial tools form one hole each')
+  const [cbHole, csHole] = callouts(plate)
+  expect(cbHole?.lines.join(' / ') === 'Ø8 THRU / ⌴ Ø14 ↧6', `counterbore callout (got ${cbHole?.lines.join(' / ')})`)
+  expect(csHole?.lines.join(' / ') === 'Ø8 THRU / ⌵ Ø16 × 90°', `countersink callout (got ${csHole?.lines.join(' / ')})`)
+  expect(cbHole.view === 'front' && csHole.view === 'front', 'called out in the view looking down the holes')
+
+  // Test 2: a pattern of identical holes is called out once, a different one separately
+  const pattern = plateWith([
+    drill('a', -36, -20, 4), drill('b', -12, -20, 4), drill('c', 12, -20, 4), drill('d', 36, -20, 4),
+    drill('blind', 0, 15, 4, -2, 12)
+  ])
+  const patternCallouts = callouts(pattern)
+  expect(patternCallouts.map(c => c.lines[0]).join() === '4× Ø8 THRU,Ø8 ↧12', `pattern and blind hole (got ${patternCallouts.map(c => c.lines[0]).join()})`)
+  expect(patternCallouts[0].count === 4 && patternCallouts[0].primitiveIds.join() === 'a,b,c,d', 'the pattern callout covers all four holes')
+  expect(!generateDimensions(pattern).some(d => d.type === 'radial'), 'no separate diameters for holes with a callout')
+
+  // Test 3: the leader points at an outer hole and leaves the part
+  const leader = patternCallouts[0].leaderLine
+  const onHole = Math.hypot(leader.start.x - patternCallouts[0].center.x, leader.start.y - patternCallouts[0].center.y)
+  expect(Math.abs(onHole - 4) < 1e-9 && Math.abs(patternCallouts[0].center.x) === 36, 'leader starts on the hole nearest the outline')
+  expect(Math.abs(leader.end.x) > 50 || leader.end.y > 30, 'leader ends outside the part')
+
+  // Test 4: the generator's countersunk holes are recognised
+  const countersunk = Array.from({ length: 200 }, (_, i) => generateBeginnerPartRecipe(i * 7919 + 1)).find(r => r.name === 'Block with Countersinks')
+  expect(countersunk !== undefined, 'generator produces a block with countersinks')
+  const csCallouts = callouts(countersunk!)
+  const csCount = csCallouts.reduce((sum, c) => sum + c.count, 0)
+  expect(csCount === countersunk!.primitives.filter(p => p.kind === 'cone').length && csCallouts.every(c => c.lines[1]?.startsWith('⌵')),
+    `every countersunk hole is called out with its countersink (${csCallouts.map(c => c.lines.join(' ')).join('; ')})`)
+
+  // Test 5: the drawing shows the callouts in their view
+  const svg = generateDrawing(pattern, evaluateRecipe(pattern), { frontView: '+z' })
+  expect(/class="hole-callout" data-id="hole-a" data-count="4"/.test(svg) && svg.includes('4× Ø8 THRU'), 'callout drawn with its note')
+  expect(!/class="hole-callout"/.test(generateDrawing(plateWith([]), undefined, { frontView: '+z' })), 'no callout without holes')
+
+  // Test 6: a hole through a plate beside a taller block is a through hole
+  const stepped: PartRecipe = {
+    ...plateWith([]),
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 20 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'p1', kind: 'box', params: { width: 20, depth: 60, height: 40 }, transform: { position: { x: -40, y: 0, z: 10 } } },
+      drill('h', 30, 0, 4)
+    ],
+    operations: [
+      { id: 'op1', op: 'union', targetId: 'p0', toolId: 'p1' },
+      { id: 'op2', op: 'subtract', targetId: 'op1', toolId: 'h' }
+    ]
+  }
+  expect(callouts(stepped)[0]?.lines[0].endsWith(' THRU'), `hole through the plate beside a block (got ${callouts(stepped)[0]?.lines[0]})`)
+
+  // Test 7: an intersection trims the body the hole goes through
+  const trimmed: PartRecipe = {
+    ...plateWith([]),
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 60 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'p1', kind: 'cylinder', params: { radius: 20, height: 100, axis: 'x' }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      drill('h', 30, 0, 4, -25, 25)
+    ],
+    operations: [
+      { id: 'op1', op: 'intersect', targetId: 'p0', toolId: 'p1' },
+      { id: 'op2', op: 'subtract', targetId: 'op1', toolId: 'h' }
+    ]
+  }
+  expect(callouts(trimmed)[0]?.lines[0].endsWith(' THRU'), `hole through a body trimmed by an intersection (got ${callouts(trimmed)[0]?.lines[0]})`)
+
+  // Test 8: expert depths stay within the part
+  const seen = new Set<string>()
+  for (let seed = 900000; seen.size < 4; seed += 7919) {
+    const expert = generateExpertPartRecipe(seed)
+    if (seen.has(expert.name)) continue
+    seen.add(expert.name)
+    const size = bodyBounds(expert).getSize(new Vector3())
+    const deep = findHoleFeatures(expert).filter(hole => (hole.depth ?? 0) > size.dot(hole.axis.clone().multiply(hole.axis)) + 1e-6)
+    expect(deep.length === 0, `${expert.name}: no depth beyond the part (${deep.map(hole => `${hole.primitiveIds[0]} ↧${hole.depth}`).join('; ') || 'none'})`)
+  }
+
+  // Test 9: countersunk blocks evaluate, including seeds whose cones used to end in the top face
+  const countersunkSeeds = [63352, 443464]
+  for (let seed = 63300; countersunkSeeds.length < 16; seed++) {
+    if (generateBeginnerPartRecipe(seed).name === 'Block with Countersinks' && !countersunkSeeds.includes(seed)) countersunkSeeds.push(seed)
+  }
+  const empty = countersunkSeeds.filter(seed => {
+    try {
+      return evaluateRecipe(generateBeginnerPartRecipe(seed)).getAttribute('position').count === 0
+    } catch {
+      return true
+    }
+  })
+  expect(empty.length === 0, `${countersunkSeeds.length} countersunk blocks evaluate to a solid (failed: ${empty.join(', ') || 'none'})`)
+
+  console.log('\n✅ Hole callouts test passed!')
+}
+
+try {
+  testHoleCallouts()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
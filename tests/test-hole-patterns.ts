@@ -0,0 +1,79 @@
+/**
+ * Test hole pattern centre lines and pitch circles
+ *
+ * Validates:
+ * - Equally spaced holes on a circle are a bolt circle; holes on a line a row
+ * - Bolt circles get a pitch circle, radial centre lines and 'n× Ø on PCD Ø'
+ * - A bolt circle is located by its centre, not hole by hole
+ * - Rows get one centre line through all hole centres
+ * - The generated circular patterns are bolt circles
+ */
+
+import { generateDimensions, type HoleCallout } from '../src/drawing/dimensions'
+import { extractCenterLines, extractPitchCircles } from '../src/drawing/centerLines'
+import { checkDimensioning } from '../src/drawing/completeness'
+import { findHoleFeatures, groupHolePatterns, patternLayout } from '../src/drawing/holes'
+import { generateDrawing } from '../src/drawing/svg'
+import { generateBeginnerPartRecipe } from '../src/generators/beginner'
+import { generateCircularPattern } from '../src/generators/features'
+import type { PartRecipe } from '../src/types/part'
+import { drill, expect, plateWith } from './helpers'
+
+// Six Ø8 holes on PCD Ø50 about the plate centre
+const boltCircle = plateWith(generateCircularPattern('cylinder', { radius: 4, height: 30, axis: 'y' }, 6, 25, 'z', 1, 1, 'p0', 30).primitives)
+const row = plateWith([drill('a', -36, -20), drill('b', -12, -20), drill('c', 12, -20), drill('d', 36, -20)])
+
+const layoutOf = (recipe: PartRecipe) => patternLayout(groupHolePatterns(findHoleFeatures(recipe))[0])
+
+function testHolePatterns() {
+  console.log('Testing hole patterns\n' + '='.repeat(50))
+
+  // Test 1: layouts
+  const circle = layoutOf(boltCircle)
+  expect(circle?.kind === 'circular' && Math.abs(circle.radius - 25) < 1e-6 && Math.hypot(circle.center.x, circle.center.y) < 1e-6, 'bolt circle found about the plate centre')
+  const line = layoutOf(row)
+  expect(line?.kind === 'linear' && Math.abs(line.start.x + 36) < 1e-6 && Math.abs(line.end.x - 36) < 1e-6, 'row found from the first to the last hole')
+  expect(layoutOf(plateWith([drill('a', -36, -20), drill('b', 12, -20), drill('c', 0, 15)])) === undefined, 'holes unevenly spaced on a circle have no layout')
+  expect(layoutOf(plateWith([drill('a', -36, -20), drill('b', 12, -20)])) === undefined, 'two holes have no layout')
+
+  // Test 2: the bolt circle callout gives the PCD, and the circle is located by its centre
+  const dimensions = generateDimensions(boltCircle)
+  const callout = dimensions.find((d): d is HoleCallout => d.type === 'callout')
+  expect(callout?.lines[0] === '6× Ø8 THRU on PCD Ø50', `callout gives the pitch circle (got ${callout?.lines[0]})`)
+  expect(Math.abs((callout?.pitchCircle?.radius ?? 0) - 25) < 1e-6, 'callout carries its pitch circle')
+  const locations = dimensions.filter(d => d.id.startsWith('location-')).map(d => d.text).join()
+  expect(locations === '50,30', `only the pitch circle centre is located (got ${locations})`)
+  expect(checkDimensioning(boltCircle, dimensions).complete, 'bolt circle fully defined by the PCD and its centre')
+
+  // Test 3: pitch circle and radial centre lines in the view down the holes
+  const [pitch, ...others] = extractPitchCircles(boltCircle, 'front')
+  expect(Math.abs(pitch?.radius - 25) < 1e-6 && others.length === 0 && pitch.lineType === 'pitch-circle', 'one pitch circle, drawn as a chain line')
+  expect(extractPitchCircles(boltCircle, 'top').length === 0, 'no pitch circle where the holes are seen from the side')
+  const radial = extractCenterLines(boltCircle, 'front').filter(l => l.type === 'radial')
+  expect(radial.length === 6 && radial.every(l => Math.abs((l.x1 * l.y2 - l.y1 * l.x2)) < 1e-6 && Math.abs(Math.hypot((l.x1 + l.x2) / 2, (l.y1 + l.y2) / 2) - 25) < 1e-6),
+    'one radial centre line through each hole, pointing at the centre')
+
+  // Test 4: a row gets one centre line through all centres
+  const rowLines = extractCenterLines(row, 'front').filter(l => l.type === 'pattern')
+  expect(rowLines.length === 1 && rowLines[0].y1 === -20 && rowLines[0].y2 === -20 && rowLines[0].x1 < -40 && rowLines[0].x2 > 40,
+    'common centre line past the end holes')
+  expect(extractPitchCircles(row, 'front').length === 0, 'no pitch circle for a row')
+
+  // Test 5: the generated circular hole pattern is a bolt circle
+  const generated = Array.from({ length: 200 }, (_, i) => generateBeginnerPartRecipe(100000 + i * 1000))
+    .find(recipe => recipe.name === 'Cylinder with Circular Hole Pattern')
+  expect(generated !== undefined && layoutOf(generated)?.kind === 'circular', 'generated cylinder holes lie on a bolt circle')
+
+  // Test 6: the drawing shows the pitch circle and the PCD
+  const svg = generateDrawing(boltCircle, undefined, { frontView: '+z' })
+  expect(svg.includes('class="pitch-circle"') && svg.includes('on PCD Ø50'), 'drawing shows the pitch circle and PCD')
+
+  console.log('\n✅ Hole patterns test passed!')
+}
+
+try {
+  testHolePatterns()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,92 @@
+/**
+ * Test location dimensions
+ *
+ * Validates:
+ * - Every hole centre and pocket is located from the datum corner of its view
+ * - Baseline dimensions all start at the datum and stack outward
+ * - Chain dimensions run from feature to feature on one line
+ * - Ordinate dimensions give each position once, with 0 at the datum
+ * - The datum corner is selectable
+ * - The datum edges are the faces of the evaluated solid
+ */
+
+import { generateDimensions, DEFAULT_DIMENSION_CONFIG, type Dimension, type DimensionConfig, type LinearDimension, type OrdinateDimension } from '../src/drawing/dimensions'
+import { generateDrawing } from '../src/drawing/svg'
+import type { PartRecipe, Primitive } from '../src/types/part'
+import { drill, expect, plateWith } from './helpers'
+
+// Four holes in a row and one above; the datum corner is (-50, -30) in the front view
+const plate = plateWith([drill('a', -36, -20), drill('b', -12, -20), drill('c', 12, -20), drill('d', 36, -20), drill('e', 0, 15)])
+
+const locations = (recipe: PartRecipe, config: Partial<DimensionConfig> = {}) =>
+  generateDimensions(recipe, { ...DEFAULT_DIMENSION_CONFIG, ...config }).filter(d => d.id.startsWith('location-'))
+const values = (dimensions: Dimension[], axis: 'x' | 'y') =>
+  dimensions.filter(d => d.id.startsWith(`location-front-${axis}-`)).map(d => d.text).join()
+
+function testLocationDimensions() {
+  console.log('Testing location dimensions\n' + '='.repeat(50))
+
+  // Test 1: baseline (default) from the lower-left corner
+  const baseline = locations(plate) as LinearDimension[]
+  expect(values(baseline, 'x') === '14,38,50,62,86', `x positions from the left edge (got ${values(baseline, 'x')})`)
+  expect(values(baseline, 'y') === '10,45', `y positions from the bottom edge (got ${values(baseline, 'y')})`)
+  const xs = baseline.filter(d => d.id.startsWith('location-front-x-'))
+  expect(xs.every(d => d.start.x === -50), 'every baseline dimension starts at the datum')
+  expect(xs.every((d, i) => i === 0 || d.dimensionLine.start.y > xs[i - 1].dimensionLine.start.y) && xs[0].dimensionLine.start.y > 30,
+    'baseline dimensions stack upward above the view, nearest first')
+  expect(xs[0].extensionLines[1].start.x === -36 && xs[0].extensionLines[1].start.y === -20, 'extension line starts at the hole centre')
+
+  // Test 2: chain
+  const chain = locations(plate, { locationStyle: 'chain' }) as LinearDimension[]
+  expect(values(chain, 'x') === '14,24,12,12,24', `chain from feature to feature (got ${values(chain, 'x')})`)
+  expect(new Set(chain.filter(d => d.id.startsWith('location-front-x-')).map(d => d.dimensionLine.start.y)).size === 1, 'chain on one line')
+
+  // Test 3: ordinate
+  const ordinate = locations(plate, { locationStyle: 'ordinate' }) as OrdinateDimension[]
+  expect(ordinate.every(d => d.type === 'ordinate'), 'ordinate style gives ordinate dimensions')
+  expect(values(ordinate, 'x') === '0,14,38,50,62,86' && values(ordinate, 'y') === '0,10,45', `ordinate values with 0 at the datum (got ${values(ordinate, 'x')} / ${values(ordinate, 'y')})`)
+  const ends = new Set(ordinate.filter(d => d.id.startsWith('location-front-x-')).map(d => d.extensionLine.end.y))
+  expect(ends.size === 1 && [...ends][0] > 30, 'x ordinates end on one line above the view')
+
+  // Test 4: the datum corner is selectable
+  const upperRight = locations(plate, { locationDatum: 'upper-right' })
+  expect(values(upperRight, 'x') === '14,38,50,62,86' && values(upperRight, 'y') === '15,50', `from the upper-right corner (got ${values(upperRight, 'x')} / ${values(upperRight, 'y')})`)
+
+  // Test 5: a pocket in the top face is located by its centre
+  const pocket: Primitive = { id: 'pocket', kind: 'box', params: { width: 20, depth: 10, height: 10 }, transform: { position: { x: 20, y: 10, z: 8 } } }
+  const pocketed = locations(plateWith([pocket]))
+  expect(values(pocketed, 'x') === '70' && values(pocketed, 'y') === '40', `pocket centre located (got ${values(pocketed, 'x')} / ${values(pocketed, 'y')})`)
+  expect(locations(plateWith([])).length === 0, 'no location dimensions without features')
+
+  // Test 6: the drawing uses the selected style
+  const svg = generateDrawing(plate, undefined, { frontView: '+z', dimensions: { locationStyle: 'ordinate' } })
+  expect(/class="ordinate-dimension" data-id="location-front-x-1" data-axis="x"/.test(svg), 'ordinate dimensions drawn')
+  expect(/data-id="location-front-x-1"/.test(generateDrawing(plate, undefined, { frontView: '+z' })) &&
+    !/class="ordinate-dimension"/.test(generateDrawing(plate, undefined, { frontView: '+z' })), 'baseline by default')
+
+  // Test 7: the datum is on the faces left by an intersection, not on the primitives' boxes
+  const trimmed: PartRecipe = {
+    ...plateWith([]),
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 60 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'p1', kind: 'cylinder', params: { radius: 20, height: 100, axis: 'x' }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 'h', kind: 'cylinder', params: { radius: 4, height: 50, axis: 'y' }, transform: { position: { x: 30, y: 10, z: 0 } } }
+    ],
+    operations: [
+      { id: 'op1', op: 'intersect', targetId: 'p0', toolId: 'p1' },
+      { id: 'op2', op: 'subtract', targetId: 'op1', toolId: 'h' }
+    ]
+  }
+  const trimmedLocations = locations(trimmed)
+  expect(values(trimmedLocations, 'x') === '80' && values(trimmedLocations, 'y') === '30',
+    `located from the trimmed faces (got ${values(trimmedLocations, 'x')} / ${values(trimmedLocations, 'y')})`)
+
+  console.log('\n✅ Location dimensions test passed!')
+}
+
+try {
+  testLocationDimensions()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,62 @@
+/**
+ * Test the pictorial view in the free grid cell
+ *
+ * Validates:
+ * - Parts without a section view get an isometric view in the free cell
+ * - Hidden-line removal: a plain block shows exactly its 9 visible edges
+ * - The view fits its cell at a standard scale
+ * - Dimetric and 'none' options; parts with a section view keep the section
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect, recipeWith } from './helpers'
+
+function pictorialGroup(svg: string): string | undefined {
+  return svg.match(/<g class="view pictorial"[\s\S]*?<\/g>/)?.[0]
+}
+
+function testPictorial() {
+  console.log('Testing pictorial view\n' + '='.repeat(50))
+
+  // Block 100×50×25 without the hole: no section view, so the free cell is empty
+  const block = recipeWith({ operations: [] })
+  const solid = evaluateRecipe(block)
+
+  // Test 1: isometric view with hidden-line removal
+  const svg = generateDrawing(block, solid)
+  const iso = pictorialGroup(svg)
+  expect(!!iso && iso.includes('data-style="isometric"'), 'isometric view drawn in the free cell')
+  const visible = iso?.match(/class="visible-edge"/g)?.length ?? 0
+  expect(visible === 9, `block shows 9 visible edges (got ${visible})`)
+  expect(!iso?.includes('hidden-edge'), 'hidden edges are omitted')
+
+  // Test 2: fits the free cell (first-angle: bottom-left, x 50..420, y 271..492 on the default A3 landscape sheet)
+  const coords = [...(iso ?? '').matchAll(/d="([^"]*)"/g)].flatMap(m => m[1].match(/-?[\d.]+/g)!.map(Number))
+  const xs = coords.filter((_, i) => i % 2 === 0)
+  const ys = coords.filter((_, i) => i % 2 === 1)
+  expect(Math.min(...xs) >= 50 && Math.max(...xs) <= 420 && Math.min(...ys) >= 271 && Math.max(...ys) <= 492,
+    'pictorial stays inside its grid cell')
+  const width = Math.max(...xs) - Math.min(...xs)
+  // Isometric width of the block is (100 + 25)·cos30° mm at 1:1, and the sheet has 2 SVG units per mm
+  const scale = width / (125 * Math.cos(Math.PI / 6) * 2)
+  expect([10, 5, 2, 1, 0.5, 0.25, 0.2, 0.1].some(s => Math.abs(s - scale) < 1e-3), `drawn at a standard scale (${scale.toFixed(3)})`)
+
+  // Test 3: dimetric and disabled pictorial
+  expect(pictorialGroup(generateDrawing(block, solid, { pictorial: 'dimetric' }))?.includes('data-style="dimetric"') ?? false,
+    'dimetric option renders a dimetric view')
+  expect(!pictorialGroup(generateDrawing(block, solid, { pictorial: 'none' })), "'none' leaves the cell empty")
+
+  // Test 4: the section view keeps the cell when there are subtractions
+  expect(!pictorialGroup(generateDrawing(createBlockHoleFixture())), 'section view takes precedence over the pictorial')
+
+  console.log('\n✅ Pictorial view test passed!')
+}
+
+try {
+  testPictorial()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,111 @@
+/**
+ * Test first- and third-angle projection modes
+ *
+ * Validates:
+ * - View placement: first-angle puts the top view below and the right view
+ *   left of the front view; third-angle puts them above and to the right
+ * - The title block carries the matching ISO 5456-2 projection symbol
+ * - Cutting-plane arrows point towards the section view in first-angle and
+ *   away from it in third-angle
+ * - DXF export arranges the views the same way
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { generateDXFFromRecipe } from '../src/exporters/dxf'
+import type { ProjectionMethod } from '../src/drawing/projection'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect } from './helpers'
+
+// View label anchor (view centre) for each view group
+function viewCenters(svg: string): Record<string, { x: number; y: number }> {
+  const centers: Record<string, { x: number; y: number }> = {}
+  for (const m of svg.matchAll(/<g class="view (\w+)">\s*<text x="([\d.]+)" y="([\d.]+)"/g)) {
+    centers[m[1]] = { x: Number(m[2]), y: Number(m[3]) + 10 }
+  }
+  return centers
+}
+
+// Translation of the section view group
+function sectionCenter(svg: string): { x: number; y: number } {
+  const m = svg.match(/class="section-view"[^>]*transform="translate\(([\d.]+), ([\d.]+)\)"/)
+  return { x: Number(m?.[1]), y: Number(m?.[2]) }
+}
+
+// Horizontal direction of the first cutting-plane arrow (+1 right, -1 left)
+function arrowDirection(svg: string): number {
+  const cut = svg.slice(svg.indexOf('class="cutting-plane"'))
+  const line = cut.match(/<line x1="([-\d.]+)"/)
+  const tip = cut.match(/<polygon points="([-\d.]+),/)
+  return Math.sign(Number(tip?.[1]) - Number(line?.[1]))
+}
+
+// Extents of OUTLINE/HIDDEN geometry in a DXF document
+function dxfExtents(dxf: string) {
+  const lines = dxf.split('\n')
+  const extents = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+  for (let i = 0; i < lines.length - 1; i += 2) {
+    if (lines[i] !== '0' || !['LINE', 'CIRCLE', 'ARC'].includes(lines[i + 1])) continue
+    const fields = new Map<string, number>()
+    let layer = ''
+    for (let j = i + 2; j < lines.length - 1 && lines[j] !== '0'; j += 2) {
+      if (lines[j] === '8') layer = lines[j + 1]
+      else fields.set(lines[j], Number(lines[j + 1]))
+    }
+    if (layer !== 'OUTLINE' && layer !== 'HIDDEN') continue
+    const r = fields.get('40') ?? 0
+    for (const [x, y] of [['10', '20'], ['11', '21']]) {
+      if (!fields.has(x)) continue
+      extents.minX = Math.min(extents.minX, fields.get(x)! - r)
+      extents.maxX = Math.max(extents.maxX, fields.get(x)! + r)
+      extents.minY = Math.min(extents.minY, fields.get(y)! - r)
+      extents.maxY = Math.max(extents.maxY, fields.get(y)! + r)
+    }
+  }
+  return extents
+}
+
+function testProjection() {
+  console.log('Testing projection methods\n' + '='.repeat(50))
+
+  const recipe = createBlockHoleFixture()
+  const solid = evaluateRecipe(recipe)
+
+  for (const projection of ['first-angle', 'third-angle'] as ProjectionMethod[]) {
+    console.log(`\n${projection}:`)
+    const svg = generateDrawing(recipe, solid, { projection })
+    const { front, top, right } = viewCenters(svg)
+    const firstAngle = projection === 'first-angle'
+
+    // SVG y runs downwards
+    expect(top.x === front.x && (firstAngle ? top.y > front.y : top.y < front.y),
+      `top view ${firstAngle ? 'below' : 'above'} the front view`)
+    expect(right.y === front.y && (firstAngle ? right.x < front.x : right.x > front.x),
+      `right view ${firstAngle ? 'left of' : 'right of'} the front view`)
+
+    expect(svg.includes(`data-projection="${projection}"`), 'title block shows the projection symbol')
+
+    // Block-hole is sectioned across X from the top view: arrows are horizontal
+    const toSection = Math.sign(sectionCenter(svg).x - top.x)
+    expect(arrowDirection(svg) === (firstAngle ? toSection : -toSection),
+      `cutting-plane arrows point ${firstAngle ? 'towards' : 'away from'} the section view`)
+
+    // Block 100 (x) × 50 (y) × 25 (z) in its own axes: front spans ±50 × ±25, side views are 25 wide, 20 mm gaps
+    const extents = dxfExtents(generateDXFFromRecipe({ recipe, geometry: solid, projection, frontView: '+z' }))
+    const reach = (v: number) => Math.abs(Math.abs(v) - 95) < 0.01
+    const rise = (v: number) => Math.abs(Math.abs(v) - 70) < 0.01
+    expect(firstAngle ? reach(extents.minX) && extents.maxX <= 50.01 : reach(extents.maxX) && extents.minX >= -50.01,
+      `DXF right view placed ${firstAngle ? 'left' : 'right'} of the front view`)
+    expect(firstAngle ? rise(extents.minY) && extents.maxY <= 25.01 : rise(extents.maxY) && extents.minY >= -25.01,
+      `DXF top view placed ${firstAngle ? 'below' : 'above'} the front view`)
+  }
+
+  console.log('\n✅ Projection test passed!')
+}
+
+try {
+  testProjection()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -50,7 +50,7 @@ function createSizedBlockHole(x: number, y: number, z: number) {
 }
 
 function extractScaleLabel(svg: string): string | null {
-  const m = svg.match(/Scale:\s*([0-9]+:[0-9]+)/)
+  const m = svg.match(/data-field="scale">([0-9]+:[0-9]+)</)
   return m ? m[1] : null
 }
 
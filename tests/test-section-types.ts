@@ -0,0 +1,103 @@
+/**
+ * Test half, offset and multiple section views
+ *
+ * Validates:
+ * - Symmetric parts get a half section: the cut half is hatched, the other
+ *   half is drawn as a plain view, with a centre line between them
+ * - Holes that are not collinear share one offset section; the jog of the
+ *   cutting plane is not drawn in the section
+ * - Features no single plane reaches get further sections, lettered A-A, B-B...
+ * - Cutting-plane lines jog for offset sections and stop at the centre for half sections
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { createSectionView, selectCuttingPlanes } from '../src/drawing/sections'
+import { renderCuttingPlaneIndicator, renderSectionView } from '../src/drawing/sectionsSVG'
+import type { SectionContour } from '../src/drawing/sections'
+import type { Primitive } from '../src/types/part'
+import { expect, plateWith } from './helpers'
+
+// Block 100 × 50 × 25 with the given subtraction tools
+const blockWith = (tools: Primitive[]) => plateWith(tools, { size: { x: 100, y: 50, z: 25 } })
+
+// Vertical hole (along Z) at (x, y)
+const hole = (id: string, x: number, y: number, radius = 4): Primitive => ({
+  id, kind: 'cylinder', params: { radius, height: 50, axis: 'y' }, transform: { position: { x, y, z: 0 } }
+})
+
+// Contour edges lying on the vertical line section x = 0
+const edgesOnCentre = (contours: SectionContour[]) => contours.flatMap(({ points }) =>
+  points.filter((p, i) => {
+    const q = points[(i + 1) % points.length]
+    return Math.abs(p.x) < 1e-6 && Math.abs(q.x) < 1e-6
+  }))
+
+function testSectionTypes() {
+  console.log('Testing half, offset and multiple sections\n' + '='.repeat(50))
+
+  // Test 1: block-hole is symmetric, so its section is a half section
+  const blockHole = blockWith([hole('h', 0, 0, 10)])
+  const [half] = selectCuttingPlanes(blockHole)
+  expect(half?.type === 'half', `symmetric part gets a half section (got ${half?.type})`)
+  const halfView = createSectionView(blockHole, half, { x: 0, y: 0 }, 1, evaluateRecipe(blockHole))
+  expect(halfView.contours.length > 0 && halfView.contours.every(c => c.points.every(p => p.x >= -1e-6)),
+    'only the half at section x ≥ 0 is cut')
+  const exterior = halfView.exterior ?? []
+  expect(exterior.length > 0 && exterior.every(c => c.kind === 'line' && Math.max(c.start.x, c.end.x) <= 1e-6),
+    `the other half is drawn as a view (${exterior.length} edges)`)
+  const halfSVG = renderSectionView(halfView)
+  expect(halfSVG.includes('class="section-divider"') && halfSVG.includes('class="section-exterior"'),
+    'centre line divides the halves')
+  expect(!/L 0\.00 [-\d.]+ L 0\.00/.test(halfSVG) && !/M 0\.00 [-\d.]+ L 0\.00/.test(halfSVG),
+    'no outline along the centre line')
+
+  // Test 2: holes at (-30, 10) and (30, -10) are joined by an offset section
+  const staggered = blockWith([hole('h1', -30, 10), hole('h2', 30, -10)])
+  const planes = selectCuttingPlanes(staggered)
+  const offset = planes[0]
+  expect(planes.length === 1 && offset.type === 'offset', `one offset section (got ${planes.map(p => p.type).join(', ')})`)
+  expect(offset.steps?.length === 2 && offset.steps[0].position.y === 10 && offset.steps[1].position.y === -10,
+    'steps pass through both hole axes')
+  const offsetView = createSectionView(staggered, offset, { x: 0, y: 0 }, 1, evaluateRecipe(staggered))
+  const outer = offsetView.contours.filter(c => c.isOuter).length
+  expect(outer === 3, `both holes are cut: 3 separate material regions (got ${outer})`)
+  expect(edgesOnCentre(offsetView.contours).length === 0, 'the jog is not drawn in the section')
+
+  // Test 3: indicators jog for offset sections and stop at the centre for half sections (2 units per mm)
+  const bounds = { minX: -50, maxX: 50, minY: -25, maxY: 25 }
+  const offsetLines = [...renderCuttingPlaneIndicator(offset, bounds, 2).matchAll(/<line x1="([-\d.]+)" y1="([-\d.]+)" x2="([-\d.]+)" y2="([-\d.]+)"/g)]
+    .map(m => m.slice(1).map(Number))
+  expect(offsetLines.length === 3, `offset line has two steps and a jog (got ${offsetLines.length} lines)`)
+  expect(offsetLines[1][0] === 0 && offsetLines[1][2] === 0 && offsetLines[1][1] === -20 && offsetLines[1][3] === 20,
+    'jog runs from y = 10 to y = -10 at the midpoint between the holes')
+  const halfIndicator = renderCuttingPlaneIndicator(half, bounds, 2)
+  expect((halfIndicator.match(/<line /g) ?? []).length === 1 && (halfIndicator.match(/<polygon /g) ?? []).length === 1,
+    'half section line has one arrow at the outline')
+  expect(/<line [^>]*y2="0.00"/.test(halfIndicator), 'half section line ends at the centre')
+
+  // Test 4: a vertical hole and a cross hole need two sections
+  const crossDrilled = blockWith([
+    hole('v', 0, 0),
+    { id: 'x', kind: 'cylinder', params: { radius: 3, height: 120, axis: 'x' }, transform: { position: { x: 0, y: 15, z: 5 } } }
+  ])
+  expect(selectCuttingPlanes(crossDrilled).map(p => p.label).join(', ') === 'SECTION A-A, SECTION B-B',
+    'sections are lettered A-A and B-B')
+  const svg = generateDrawing(crossDrilled, evaluateRecipe(crossDrilled), { frontView: '+z' })
+  const ids = [...svg.matchAll(/class="section-view" data-id="(\w)"/g)].map(m => m[1])
+  const cuts = [...svg.matchAll(/class="cutting-plane" data-id="(\w)"/g)].map(m => m[1])
+  expect(ids.join() === 'A,B' && cuts.sort().join() === 'A,B', 'each section has its own view and cutting-plane line')
+  const centres = [...svg.matchAll(/class="section-view"[^>]*transform="translate\(([\d.]+), ([\d.]+)\)"/g)].map(m => Number(m[1]))
+  expect(centres.length === 2 && centres[0] !== centres[1], 'sections share the free cell side by side')
+  const single = generateDrawing(crossDrilled, evaluateRecipe(crossDrilled), { frontView: '+z', maxSections: 1 })
+  expect((single.match(/class="section-view"/g) ?? []).length === 1, 'maxSections limits the number of sections')
+
+  console.log('\n✅ Section types test passed!')
+}
+
+try {
+  testSectionTypes()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -24,6 +24,7 @@ async function run() {
   
   // Select cutting plane
   const plane = selectCuttingPlane(recipe)
+  if (!plane) throw new Error('Expected a cutting plane through the hole')
   console.log(`\nSelected cutting plane:`)
   console.log(`  Type: ${plane.type}`)
   console.log(`  ID: ${plane.id}`)
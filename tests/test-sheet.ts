@@ -0,0 +1,64 @@
+/**
+ * Test ISO 5457 sheets and the ISO 7200 title block
+ *
+ * Validates:
+ * - Page size follows the selected sheet and orientation (2 SVG units per mm)
+ * - Drawing frame and zone grid (50 mm fields from the centring marks)
+ * - Title block fields: drawing number, scale, date, sheet x of y,
+ *   general tolerance note and projection symbol
+ * - Title block overrides from the drawing options
+ */
+
+import { generateDrawing } from '../src/drawing/svg'
+import { evaluateRecipe } from '../src/csg/evaluate'
+import { getSheet } from '../src/drawing/sheet'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect } from './helpers'
+
+function field(svg: string, name: string): string | undefined {
+  return svg.match(new RegExp(`data-field="${name}">([^<]*)<`))?.[1]
+}
+
+function testSheet() {
+  console.log('Testing drawing sheets\n' + '='.repeat(50))
+
+  const recipe = createBlockHoleFixture()
+  const solid = evaluateRecipe(recipe)
+
+  // Test 1: default A3 landscape sheet
+  const svg = generateDrawing(recipe, solid)
+  expect(svg.includes('width="840" height="594"'), 'default page is A3 landscape (420 × 297 mm)')
+  expect(svg.includes('class="sheet-frame"') && svg.includes('data-zones="8x6"'), 'A3 landscape frame has 8 × 6 zones')
+  expect(svg.includes('data-sheet="A3" data-orientation="landscape"'), 'root element records the sheet for PDF export')
+
+  // Test 2: title block fields
+  expect(field(svg, 'drawing-number') === `T19-${recipe.difficulty.charAt(0).toUpperCase()}-${recipe.id}`,
+    `drawing number from recipe id (${field(svg, 'drawing-number')})`)
+  expect(field(svg, 'scale') === '1:1', 'scale field')
+  expect(field(svg, 'date') === recipe.createdAt.slice(0, 10), 'date of issue from the recipe')
+  expect(field(svg, 'sheet') === '1 / 1', 'sheet 1 of 1')
+  expect(field(svg, 'tolerance') === 'ISO 2768-m', 'general tolerance note')
+  expect(/class="title-block"[\s\S]*data-projection="first-angle"/.test(svg), 'projection symbol inside the title block')
+
+  // Test 3: other sizes and orientations
+  const a4 = generateDrawing(recipe, solid, { sheet: { size: 'A4', orientation: 'landscape' } })
+  expect(a4.includes('width="594" height="420"') && a4.includes('data-zones="6x4"'), 'A4 landscape: 297 × 210 mm, 6 × 4 zones')
+  const a2 = generateDrawing(recipe, solid, { sheet: { size: 'A2', orientation: 'portrait' } })
+  expect(a2.includes('width="840" height="1188"'), 'A2 portrait: 420 × 594 mm')
+  const frame = getSheet({ size: 'A0', orientation: 'landscape' }).frame
+  expect(frame.x === 20 && frame.width === 1189 - 30 && frame.height === 841 - 20, 'frame leaves a 20 mm filing margin')
+
+  // Test 4: title block overrides
+  const custom = generateDrawing(recipe, solid, { titleBlock: { drawnBy: 'J. Smith & Co', sheetNumber: 2, sheetCount: 3, toleranceNote: 'ISO 2768-f' } })
+  expect(field(custom, 'drawn-by') === 'J. Smith &amp; Co', 'drawn by is escaped')
+  expect(field(custom, 'sheet') === '2 / 3' && field(custom, 'tolerance') === 'ISO 2768-f', 'sheet count and tolerance overrides')
+
+  console.log('\n✅ Sheet test passed!')
+}
+
+try {
+  testSheet()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,81 @@
+/**
+ * Test drawing standard profiles
+ *
+ * Validates:
+ * - ISO stays the default: mm, aligned text, ISO 286 fits, ISO 7200 title block
+ * - ASME switches lines, text and units together: decimal inches without leading
+ *   zeros, unidirectional text, 0.6/0.3 mm lines, 1/8 in arrowheads,
+ *   general-purpose section lining, ASME Y14.1 title block, third angle
+ * - The projection method can still be chosen apart from the standard
+ * - Every line of the drawing takes its width from the standard
+ * - The DXF export follows the standard
+ */
+
+import { formatLength } from '../src/drawing/dimensions'
+import { generateDXFFromRecipe } from '../src/exporters/dxf'
+import { LineType } from '../src/drawing/lineTypes'
+import { ASME_HATCH_PATTERNS, DRAWING_STANDARDS } from '../src/drawing/standards'
+import { generateDrawing } from '../src/drawing/svg'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect } from './helpers'
+
+const arrowLength = (svg: string) => {
+  const [tip, a, b] = svg.match(/<polygon points="([^"]+)" class="arrowhead"/)![1].split(' ').map(point => point.split(',').map(Number))
+  return Math.hypot((a[0] + b[0]) / 2 - tip[0], (a[1] + b[1]) / 2 - tip[1])
+}
+
+function testStandards() {
+  console.log('Testing drawing standards\n' + '='.repeat(50))
+
+  // Test 1: inch formatting
+  expect(formatLength(25.4, { units: 'in', decimalPlaces: 2 }) === '1.00' && formatLength(12.7, { units: 'in', decimalPlaces: 3 }) === '.500',
+    'decimal inches, no leading zero')
+  expect(formatLength(12, { units: 'mm', decimalPlaces: 1 }) === '12' && formatLength(2.5, { units: 'mm', decimalPlaces: 1 }) === '2.5', 'millimetres as before')
+
+  // Test 2: ISO default
+  const recipe = createBlockHoleFixture()
+  recipe.primitives[1].metadata = { fit: 'bearing' }
+  const iso = generateDrawing(recipe)
+  expect(iso === generateDrawing(recipe, undefined, { standard: 'iso' }) && iso.includes('data-standard="iso"'), 'ISO is the default')
+  expect(iso.includes('Ø20 H7 THRU') && iso.includes('rotate(-90') && iso.includes('data-layout="iso-7200"') && iso.includes('data-projection="first-angle"'),
+    'ISO: mm with fits, aligned text, ISO 7200 title block, first angle')
+
+  // Test 3: ASME
+  const asme = generateDrawing(recipe, undefined, { standard: 'asme' })
+  expect(asme.includes('data-standard="asme"') && asme.includes('Ø.79 THRU') && asme.includes('>3.94</text>') && !asme.includes('H7'),
+    'ASME: decimal inches, no fits')
+  expect(!asme.includes('rotate(-90'), 'ASME: unidirectional text')
+  expect(asme.includes('data-layout="asme-y14.1"') && asme.includes('data-projection="third-angle"') && asme.includes('.XX ±.01'),
+    'ASME: Y14.1 title block with decimal-inch tolerances, third angle')
+  const styles = DRAWING_STANDARDS.asme.lineStyles
+  expect(styles[LineType.VISIBLE_EDGE].strokeWidth === 0.6 && styles[LineType.DIMENSION].strokeWidth === 0.3 && styles[LineType.HIDDEN_EDGE].strokeWidth === 0.3,
+    'ASME: thick 0.6 and thin 0.3 mm lines')
+  expect(asme.includes('stroke-width: 1.2') && !asme.includes('stroke-width: 1.4'), 'ASME line widths in the drawing')
+  expect(Math.abs(arrowLength(asme) - 2 * 3.175) < 0.01 && Math.abs(arrowLength(iso) - 2 * 3) < 0.01, 'arrowheads 1/8 in (ASME) and 3 mm (ISO)')
+  expect(Object.values(ASME_HATCH_PATTERNS).every(pattern => pattern.style === ASME_HATCH_PATTERNS.general.style && pattern.spacing === ASME_HATCH_PATTERNS.general.spacing),
+    'ASME: general-purpose section lining for every material')
+
+  // Test 4: options over the standard
+  const firstAngle = generateDrawing(recipe, undefined, { standard: 'asme', projection: 'first-angle', dimensions: { decimalPlaces: 3 } })
+  expect(firstAngle.includes('data-projection="first-angle"') && firstAngle.includes('>3.937</text>'), 'projection and dimension settings override the standard')
+
+  // Test 5: no width left fixed in code, sections and sheet included
+  const widths = (svg: string) => [...new Set(Array.from(svg.matchAll(/stroke-width="([^"]+)"/g), match => match[1]))]
+  expect(asme.includes('class="section-view"') && asme.includes('class="cutting-plane"'), 'drawing has a section and its cutting plane')
+  expect(widths(asme).every(width => width === '0.6' || width === '0.3'), `ASME: every line 0.6 or 0.3 mm (${widths(asme).join(', ')})`)
+  expect(widths(iso).every(width => width === '0.7' || width === '0.35'), `ISO: every line 0.7 or 0.35 mm (${widths(iso).join(', ')})`)
+
+  // Test 6: DXF export
+  const asmeDXF = generateDXFFromRecipe({ recipe, standard: 'asme' })
+  const isoDXF = generateDXFFromRecipe({ recipe })
+  expect(asmeDXF.includes('\n3.94\n') && !isoDXF.includes('\n3.94\n'), 'DXF: ASME dimensions in decimal inches, ISO in mm')
+
+  console.log('\n✅ Drawing standards test passed!')
+}
+
+try {
+  testStandards()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
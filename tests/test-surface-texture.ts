@@ -0,0 +1,102 @@
+/**
+ * Test surface texture symbols
+ *
+ * Validates:
+ * - Finishes requested in recipe metadata are checked
+ * - Hole patterns get a symbol on their callout, other machined features on
+ *   a leader from a dot inside the feature
+ * - Faces with a finish get a symbol on a leader past their dimensions
+ * - Faces turn with the part when another face is drawn in front
+ * - The drawing shows the symbols and the general roughness note
+ */
+
+import { generateDimensions, getDimensionBounds, type HoleCallout } from '../src/drawing/dimensions'
+import { generateGeometricTolerances } from '../src/drawing/gdt'
+import { orientRecipe } from '../src/drawing/orientation'
+import { formatSurfaceFinish, generalSurfaceFinish, generateSurfaceTextureSymbols, readSurfaceFinish, type SurfaceFinishSpec } from '../src/drawing/surfaceTexture'
+import { generateDrawing } from '../src/drawing/svg'
+import type { PartRecipe } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { drill, expect, plateWith } from './helpers'
+
+// Plate 100 × 60 × 20 with a Ø10 hole through it along Z and a pocket in its top
+const finishedPlate = (surfaceFinish?: SurfaceFinishSpec): PartRecipe => ({
+  ...plateWith([
+    drill('a', 20, 10, 5),
+    { id: 'pocket', kind: 'box', params: { width: 30, depth: 20, height: 10 }, transform: { position: { x: -25, y: 0, z: 5 } } }
+  ]),
+  ...(surfaceFinish && { metadata: { surfaceFinish } })
+})
+
+const plate = finishedPlate({
+  general: { ra: 12.5 },
+  features: [{ primitiveId: 'pocket', ra: 0.8, lay: '=' }],
+  faces: [{ face: '-z', ra: 1.6 }, { face: '+x', ra: 0.4, lay: '⊥' }]
+})
+
+const rejects = (spec: SurfaceFinishSpec) => {
+  try {
+    readSurfaceFinish(finishedPlate(spec))
+    return false
+  } catch {
+    return true
+  }
+}
+
+function testSurfaceTexture() {
+  console.log('Testing surface texture symbols\n' + '='.repeat(50))
+
+  // Test 1: requests are checked
+  expect(readSurfaceFinish(plate)?.faces?.length === 2 && readSurfaceFinish(createBlockHoleFixture()) === undefined, 'finishes read from metadata')
+  expect(rejects({ general: { ra: 0 } }) && rejects({ features: [{ primitiveId: 'a', ra: -1 }] }), 'non-positive Ra rejected')
+  expect(rejects({ faces: [{ face: '+w' as never, ra: 1.6 }] }) && rejects({ general: { ra: 3.2, lay: 'Z' as never } }), 'unknown face and lay rejected')
+  expect(generalSurfaceFinish(plate).ra === 12.5 && generalSurfaceFinish(createBlockHoleFixture()).ra === 6.3, 'general roughness defaults to Ra 6.3')
+  expect(formatSurfaceFinish({ ra: 3.2, lay: 'C' }) === 'Ra 3.2 C', 'requirement text')
+
+  // Test 2: machined features
+  const dimensions = generateDimensions(plate)
+  const symbols = generateSurfaceTextureSymbols(plate, dimensions, generateGeometricTolerances(plate, dimensions))
+  const callout = dimensions.find((d): d is HoleCallout => d.type === 'callout')!
+  const hole = symbols.find(s => s.primitiveIds?.includes('a'))
+  expect(hole?.view === callout.view && hole.ra === 3.2 && hole.lay === 'C' && !hole.leader && hole.root.y > callout.shoulder.y,
+    'hole symbol above its callout, Ra 3.2 circular lay')
+  const pocket = symbols.find(s => s.primitiveIds?.includes('pocket'))
+  const [dot, bend, end] = pocket?.leader?.points ?? []
+  expect(pocket?.view === 'front' && pocket.ra === 0.8 && pocket.lay === '=' && pocket.leader?.terminator === 'dot',
+    `pocket symbol seen looking into it, with the requested finish (got ${pocket?.view})`)
+  expect(Math.abs(dot.x + 25) < 1e-6 && Math.abs(dot.y) < 1e-6 && bend.y > 10 && end.y === bend.y && pocket!.root.y === bend.y,
+    'pocket leader from a dot at its centre out past the outline')
+
+  // Test 3: faces
+  const bottom = symbols.find(s => s.face === '-z')
+  const right = symbols.find(s => s.face === '+x')
+  expect(bottom?.view === 'top' && bottom.leader?.terminator === 'arrow' && Math.abs(bottom.leader.points[0].y - 10) < 1e-6 && bottom.lay === '=',
+    `back face seen from above (got ${bottom?.view})`)
+  expect(right?.view === 'front' && right.leader!.points[0].x === 50 && right.root.x > right.leader!.points[1].x && right.lay === '⊥',
+    'right face symbol right of the face')
+  const clear = dimensions.filter(d => d.view === 'front').every(d => {
+    const bounds = getDimensionBounds(d)
+    return right!.leader!.points[1].x > bounds.x + bounds.width || right!.leader!.points[1].y < bounds.y || right!.leader!.points[1].y > bounds.y + bounds.height
+  })
+  expect(clear, 'face leader ends past the dimensions')
+
+  // Test 4: faces turn with the part
+  const turned = readSurfaceFinish(orientRecipe(plate, '+x'))!
+  expect(turned.faces?.map(f => f.face).join() === '+x,+z', `faces turned with the part (got ${turned.faces?.map(f => f.face).join()})`)
+
+  // Test 5: the drawing shows them
+  const svg = generateDrawing(plate, undefined, { frontView: '+z' })
+  expect((svg.match(/class="surface-texture"/g) ?? []).length === 4, 'four surface texture symbols drawn')
+  expect(/class="general-surface-texture" data-ra="12.5"/.test(svg) && svg.includes('>Ra 12.5<'), 'general roughness note drawn')
+  const plain = generateDrawing(createBlockHoleFixture())
+  expect(plain.includes('data-ra="6.3"') && plain.includes('class="surface-texture"'), 'default general note and hole symbol without requests')
+
+  console.log('\n✅ Surface texture test passed!')
+}
+
+try {
+  testSurfaceTexture()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -15,8 +15,8 @@ async function runTest() {
   // Create the test fixture
   const recipe = createBlockHoleFixture()
 
-  // Generate SVG drawing
-  const svg = generateDrawing(recipe)
+  // Generate SVG drawing in the fixture's own axes (expected counts are per recipe view)
+  const svg = generateDrawing(recipe, undefined, { frontView: '+z' })
 
   // Write SVG to file for inspection
   const outDir = join(__dirname, 'output')
@@ -34,6 +34,7 @@ for (const view of ['front', 'top', 'right'] as const) {
   const match = svg.match(viewRegex(view))?.[1]
   // Updated to use new ISO line type class names (visible-edge instead of visible)
   const visibleCount = (match?.match(/class="visible-edge"/g) || []).length
+  const hiddenCount = (match?.match(/class="hidden-edge"/g) || []).length
 
   // Get expected counts for this view
   const expected = EXPECTED_COUNTS.visibleEdges[view]
@@ -43,7 +44,12 @@ for (const view of ['front', 'top', 'right'] as const) {
     throw new Error(`Edge count mismatch for ${view} view. Expected ${min}-${max} visible edges, got ${visibleCount}`)
   }
 
-  console.log(`✓ ${view} view: ${visibleCount} visible edges (expected ${min}-${max})`)
+  const expectedHidden = EXPECTED_COUNTS.hiddenEdges[view]
+  if (hiddenCount < expectedHidden.min || hiddenCount > expectedHidden.max) {
+    throw new Error(`Hidden edge count mismatch for ${view} view. Expected ${expectedHidden.min}-${expectedHidden.max}, got ${hiddenCount}`)
+  }
+
+  console.log(`✓ ${view} view: ${visibleCount} visible, ${hiddenCount} hidden edges (expected ${min}-${max}, ${expectedHidden.min}-${expectedHidden.max})`)
 }  console.log('SVG generation test passed! Output written to tests/output/block-hole.svg')
 }
 
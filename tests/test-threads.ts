@@ -0,0 +1,122 @@
+/**
+ * Test thread representation
+ *
+ * Validates:
+ * - The thread feature generator makes a tap drill or a shaft carrying the thread
+ * - Threads in recipe metadata are checked and found with their start and axis
+ * - Side views show the roots and the thread-end line, hidden for a tapped hole
+ * - End views show a three-quarter circle from the thread's start only
+ * - Callouts give the designation (M8×1.25 - 6H ↧12)
+ * - The Symmetric Mounting Plate taps its corner holes and calls them out
+ */
+
+import { generateDimensions, type HoleCallout } from '../src/drawing/dimensions'
+import { LineType } from '../src/drawing/lineTypes'
+import { generateDrawing } from '../src/drawing/svg'
+import { extractThreadArcs, extractThreadLines, findThreads, formatThreadDesignation, readThread, threadMinorDiameter } from '../src/drawing/threads'
+import { generateThreadFeature } from '../src/generators/features'
+import { generateIntermediatePartRecipe } from '../src/generators/intermediate'
+import type { CylinderParams, PartRecipe, ThreadSpec } from '../src/types/part'
+import { createBlockHoleFixture } from './fixtures/block-hole'
+import { expect, recipeWith } from './helpers'
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-6
+
+// Plate 100 × 60 × 20, an M8 tapped hole from its top face and an M10 stud off its left face
+function threadedPlate(tapped: ThreadSpec, drillDepth?: number): PartRecipe {
+  const hole = generateThreadFeature(tapped, { x: 20, y: 10, z: 10 }, 'z', -1, 1, 1, 'p0', drillDepth)
+  const stud = generateThreadFeature({ kind: 'external', size: 10, pitch: 1.5, depth: 15 }, { x: -50, y: 0, z: 0 }, 'x', -1, 2, 2, 'p0', 25)
+  return recipeWith({
+    bounding_mm: { x: 125, y: 60, z: 20 },
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 20 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      ...hole.primitives,
+      ...stud.primitives
+    ],
+    operations: [...hole.operations, ...stud.operations]
+  })
+}
+
+const plate = threadedPlate({ kind: 'internal', size: 8, pitch: 1.25, depth: 12 })
+
+function testThreads() {
+  console.log('Testing thread representation\n' + '='.repeat(50))
+
+  // Test 1: generator
+  const [drill, stud] = plate.primitives.slice(1)
+  expect((drill.params as CylinderParams).radius === 3.4 && plate.operations[0].op === 'subtract' && readThread(drill)?.tolerance === '6H',
+    'tapped hole: Ø6.8 tap drill subtracted, thread 6H')
+  expect((stud.params as CylinderParams).radius === 5 && plate.operations[1].op === 'union' && readThread(stud)?.tolerance === '6g', 'stud: Ø10 shaft added, thread 6g')
+  expect(formatThreadDesignation(readThread(drill)!) === 'M8×1.25 - 6H' && near(threadMinorDiameter(readThread(drill)!), 8 - 1.082532 * 1.25),
+    'designation and minor diameter')
+
+  // Test 2: threads are checked and found
+  const malformed = (thread: Partial<ThreadSpec>) => {
+    try {
+      readThread({ ...drill, metadata: { thread: { ...readThread(drill), ...thread } } })
+      return false
+    } catch {
+      return true
+    }
+  }
+  expect(malformed({ pitch: 0 }) && malformed({ pitch: 5 }) && malformed({ depth: -1 }) && malformed({ kind: 'left' as never }), 'malformed threads rejected')
+  const [tapped, shaft] = findThreads(plate)
+  expect(near(tapped.start.x, 20) && near(tapped.start.y, 10) && near(tapped.start.z, 10) && near(tapped.axis.z, -1) && near(tapped.length, 12 + 3 * 1.25),
+    'tapped hole starts at its entry, along the drill')
+  expect(near(shaft.start.x, -75) && near(shaft.axis.x, 1) && near(shaft.length, 25), 'stud thread starts at its free end')
+
+  // Test 3: side views
+  const top = extractThreadLines(plate, 'top')
+  const holeRoots = top.filter(line => line.type === 'root' && line.lineType === LineType.HIDDEN_EDGE)
+  expect(holeRoots.length === 2 && holeRoots.every(line => near(Math.abs(line.x1 - 20), 4) && near(line.y1, -10) && near(line.y2, 2)),
+    'tapped hole roots hidden at the major diameter, down to the thread depth')
+  const studRoots = top.filter(line => line.type === 'root' && line.lineType === LineType.THREAD_ROOT)
+  expect(studRoots.length === 2 && studRoots.every(line => near(Math.abs(line.y1), threadMinorDiameter(readThread(stud)!) / 2) && near(line.x1, -75) && near(line.x2, -60)),
+    'stud roots thin at the minor diameter, along the thread')
+  const ends = top.filter(line => line.type === 'end')
+  expect(ends.length === 2 && ends.some(line => line.lineType === LineType.VISIBLE_EDGE && near(line.x1, -60) && near(Math.abs(line.y1 - line.y2), 10)),
+    'thread-end lines across the major diameter, visible on the stud')
+
+  // Test 4: end views
+  const front = extractThreadArcs(plate, 'front')
+  expect(front.length === 1 && near(front[0].cx, 20) && near(front[0].cy, 10) && front[0].radius === 4, 'tapped hole seen from its entry: three-quarter circle')
+  expect(extractThreadArcs(plate, 'right').length === 0, 'stud seen from its far end: no circle')
+
+  // Test 5: callouts
+  const dimensions = generateDimensions(plate)
+  const callout = dimensions.find((d): d is HoleCallout => d.type === 'callout')!
+  expect(callout.lines[0] === 'M8×1.25 - 6H ↧12' && callout.lines[1]?.startsWith('Ø6.8 ↧') && !callout.tolerance,
+    `blind tapped hole callout (got ${callout.lines.join(' / ')})`)
+  const studDiameter = dimensions.find(d => d.id === `cylinder-${stud.id}`)
+  expect(studDiameter?.text === 'M10×1.5 - 6g' && !studDiameter.tolerance, 'stud called out by its designation, without a fit')
+  const through = threadedPlate({ kind: 'internal', size: 8, pitch: 1.25, depth: 20 }, 20)
+  const throughCallout = generateDimensions(through).find((d): d is HoleCallout => d.type === 'callout')!
+  expect(throughCallout.lines.join() === 'M8×1.25 - 6H THRU' && !extractThreadLines(through, 'top').some(line => line.type === 'end' && line.lineType === LineType.HIDDEN_EDGE),
+    'thread through the part: THRU, no thread-end line')
+
+  // Test 6: the drawing shows them
+  const svg = generateDrawing(plate, undefined, { frontView: '+z' })
+  expect(svg.includes('class="threads"') && svg.includes('class="thread-root" data-thread="root"') && svg.includes('data-thread="end"'),
+    'thread lines drawn')
+  expect(/ A [\d.]+ [\d.]+ 0 1 0 /.test(svg) && svg.includes('M8×1.25 - 6H ↧12'), 'three-quarter circle and callout drawn')
+  expect(!generateDrawing(createBlockHoleFixture()).includes('data-thread'), 'nothing drawn without threads')
+
+  // Test 7: a generated part with tapped holes
+  const mounting = Array.from({ length: 60 }, (_, i) => generateIntermediatePartRecipe(1000 + i * 7919)).find(recipe => recipe.name === 'Symmetric Mounting Plate')!
+  const corners = findThreads(mounting)
+  expect(corners.length === 4 && corners.every(thread => thread.thread.kind === 'internal' && near(thread.axis.z, -1) && near(thread.start.z, mounting.bounding_mm.z / 2)),
+    'mounting plate corner holes tapped from the top face')
+  const { size, pitch, depth } = corners[0].thread
+  const cornerCallout = generateDimensions(mounting).filter((d): d is HoleCallout => d.type === 'callout').find(callout => callout.count === 4)
+  expect(cornerCallout?.lines[0] === `4× M${size}×${pitch} - 6H ↧${depth}` && /^Ø[\d.]+ THRU$/.test(cornerCallout.lines[1] ?? ''),
+    `mounting plate corner holes called out by their thread (got ${cornerCallout?.lines.join(' / ')})`)
+
+  console.log('\n✅ Thread test passed!')
+}
+
+try {
+  testThreads()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -0,0 +1,117 @@
+/**
+ * Test tolerances and fits
+ *
+ * Validates:
+ * - ISO 286-1 deviations of hole and shaft classes from the tables
+ * - Fits pair a hole class with a shaft class; unsupported classes throw
+ * - Plain through holes marked as bearing or locating bores get the bore fit
+ *   in their callout, turned diameters the shaft fit; other holes, bosses
+ *   and trimming cylinders keep the general tolerance
+ * - Deviations are drawn stacked after the value and counted in its bounds
+ * - The title block gives the ISO 2768 general tolerance class
+ */
+
+import { generateDimensions, getDimensionBounds, DEFAULT_DIMENSION_CONFIG, type HoleCallout, type RadialDimension } from '../src/drawing/dimensions'
+import { dimensionToSVG } from '../src/drawing/dimensionsSVG'
+import { generateDrawing } from '../src/drawing/svg'
+import { fitTolerance, toleranceClass, toleranceText, type Tolerance } from '../src/drawing/tolerances'
+import { drill, expect, plateWith, recipeWith } from './helpers'
+
+// Shaft Ø40 × 60
+const shaft = recipeWith({
+  bounding_mm: { x: 40, y: 40, z: 60 },
+  primitives: [{ id: 's', kind: 'cylinder', params: { radius: 20, height: 60, axis: 'y' }, transform: { position: { x: 0, y: 0, z: 0 } } }],
+  operations: []
+})
+
+const deviations = (nominal: number, designation: string) => {
+  const { upper, lower } = toleranceClass(nominal, designation)
+  return `${Math.round(upper * 1000)}/${Math.round(lower * 1000)}`
+}
+const throws = (action: () => unknown) => {
+  try {
+    action()
+    return false
+  } catch {
+    return true
+  }
+}
+
+function testTolerances() {
+  console.log('Testing tolerances\n' + '='.repeat(50))
+
+  // Test 1: ISO 286-1 deviations (µm)
+  expect(deviations(20, 'H7') === '21/0', `Ø20 H7 (got ${deviations(20, 'H7')})`)
+  expect(deviations(20, 'g6') === '-7/-20', `Ø20 g6 (got ${deviations(20, 'g6')})`)
+  expect(deviations(20, 'k6') === '15/2', `Ø20 k6 (got ${deviations(20, 'k6')})`)
+  expect(deviations(50, 'p6') === '42/26', `Ø50 p6 (got ${deviations(50, 'p6')})`)
+  expect(deviations(20, 'F8') === '53/20', `Ø20 F8 (got ${deviations(20, 'F8')})`)
+  expect(deviations(18, 'JS7') === '9/-9' && deviations(100, 'h9') === '0/-87', 'JS7 symmetric, h9 below zero')
+
+  // Test 2: fits and unsupported classes
+  const fit = fitTolerance(20, 'H7/g6')
+  expect(fit.type === 'fit' && fit.hole?.designation === 'H7' && fit.shaft?.designation === 'g6', 'H7/g6 pairs hole and shaft')
+  expect(throws(() => fitTolerance(20, 'g6/H7')), 'shaft/hole rejected')
+  expect(throws(() => toleranceClass(20, 'X7')) && throws(() => toleranceClass(20, 'H3')) && throws(() => toleranceClass(600, 'H7')),
+    'unsupported deviation, grade and size rejected')
+
+  // Test 3: tolerance text
+  const text = (tolerance: Tolerance) => Object.values(toleranceText(tolerance)).join(' ')
+  expect(text({ type: 'symmetric', deviation: 0.1 }) === '±0.1', 'symmetric ±0.1')
+  expect(text({ type: 'limits', upper: 0.2, lower: -0.1 }) === '+0.2 -0.1', 'limits stacked +0.2 over -0.1')
+  expect(text(fitTolerance(20, 'H7')) === 'H7 +0.021 0', 'class followed by its deviations')
+  expect(text(fit) === 'H7 g6', 'fit stacked hole over shaft')
+
+  // Test 4: a marked bearing bore gets the bore fit; plain holes do not
+  const bearing = { ...drill('a', 0, 0, 10), metadata: { fit: 'bearing' } }
+  const bored = generateDimensions(plateWith([bearing]))
+  const callout = bored.find((d): d is HoleCallout => d.type === 'callout')
+  expect(callout?.lines[0] === 'Ø20 H7 THRU' && callout.tolerance?.type === 'fit' && callout.tolerance.hole?.upper === 0.021,
+    `bore called out with its fit (got ${callout?.lines[0]})`)
+  const plainHole = generateDimensions(plateWith([drill('a', 0, 0, 10)]))
+  expect(plainHole.every(d => !d.tolerance), 'unmarked holes keep the general tolerance')
+  const pattern = generateDimensions(plateWith([drill('a', -20, 0, 4), drill('b', 20, 0, 4)]))
+  expect(pattern.every(d => !d.tolerance), 'hole patterns keep the general tolerance')
+  const unfitted = generateDimensions(plateWith([bearing]), { ...DEFAULT_DIMENSION_CONFIG, boreFit: '' })
+  expect(unfitted.every(d => !d.tolerance), 'no fit without a bore class')
+  expect(throws(() => generateDimensions(plateWith([{ ...drill('a', 0, 0, 10), metadata: { fit: 'press' } }]))), 'unknown fit rejected')
+
+  // Test 5: a shaft gets the shaft fit
+  const diameter = generateDimensions(shaft).find((d): d is RadialDimension => d.id === 'cylinder-s')
+  expect(diameter?.tolerance?.type === 'fit' && diameter.tolerance.shaft?.designation === 'g6' && diameter.text === 'Ø40', 'shaft diameter toleranced g6')
+  expect(generateDimensions(shaft).filter(d => d.type === 'linear').every(d => !d.tolerance), 'lengths keep the general tolerance')
+  const boss = { id: 'b', kind: 'cylinder' as const, params: { radius: 15, height: 10, axis: 'y' as const }, transform: { position: { x: 0, y: 0, z: 15 } } }
+  const bossed = generateDimensions(plateWith([], { bodies: [boss] })).find(d => d.id === 'cylinder-b')
+  expect(bossed?.text === 'Ø30' && !bossed.tolerance, `a boss keeps the general tolerance (got ${bossed?.text})`)
+  const journal = generateDimensions(plateWith([], { bodies: [{ ...boss, metadata: { fit: 'bearing' } }] })).find(d => d.id === 'cylinder-b')
+  expect(journal?.tolerance?.type === 'fit' && journal.tolerance.shaft?.designation === 'g6', 'a marked journal gets the shaft fit')
+  const trimmed = generateDimensions(recipeWith({
+    primitives: [
+      { id: 'p0', kind: 'box', params: { width: 100, depth: 60, height: 20 }, transform: { position: { x: 0, y: 0, z: 0 } } },
+      { id: 't', kind: 'cylinder', params: { radius: 55, height: 30, axis: 'y' }, transform: { position: { x: 0, y: 0, z: 0 } } }
+    ],
+    operations: [{ id: 'op1', op: 'intersect', targetId: 'p0', toolId: 't' }]
+  })).find((d): d is RadialDimension => d.id === 'cylinder-t')
+  expect(trimmed?.subtype === 'radius' && trimmed.text === 'R55' && !trimmed.tolerance, `a trimming cylinder is dimensioned as its arc (got ${trimmed?.text})`)
+
+  // Test 6: deviations stacked after the value, within the dimension's bounds
+  const svg = dimensionToSVG(diameter!)
+  expect(svg.includes('>Ø40</text>') && /class="tolerance"[^>]*>g6</.test(svg) &&
+    svg.includes('class="tolerance-upper"') && svg.includes('>-0.009<') && svg.includes('>-0.025<'), 'Ø40 g6 -0.009/-0.025 drawn')
+  const plain = getDimensionBounds({ ...diameter!, tolerance: undefined })
+  expect(getDimensionBounds(diameter!).width > plain.width, 'tolerance widens the text bounds')
+  expect(!dimensionToSVG({ ...diameter!, tolerance: undefined }).includes('tolerance'), 'untoleranced text unchanged')
+
+  // Test 7: the title block gives the general tolerance class
+  expect(generateDrawing(shaft).includes('ISO 2768-m') && generateDrawing(shaft, undefined, { dimensions: { generalTolerance: 'f' } }).includes('ISO 2768-f'),
+    'general tolerance in the title block')
+
+  console.log('\n✅ Tolerances test passed!')
+}
+
+try {
+  testTolerances()
+} catch (e) {
+  console.error(e)
+  process.exit(1)
+}
@@ -14,7 +14,7 @@ export default defineConfig({
         manualChunks: {
           react: ['react', 'react-dom'],
           three: ['three'],
-          r3f: ['@react-three/fiber', '@react-three/csg'],
+          r3f: ['@react-three/fiber'],
           pdf: ['jspdf', 'html2canvas'],
           dxf: ['dxf-writer']
         }